@@ -0,0 +1,597 @@
+CREATE TABLE IF NOT EXISTS "bill_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"bill_id" uuid NOT NULL,
+	"action" varchar(50) NOT NULL,
+	"performed_by" uuid,
+	"field_name" varchar(100),
+	"old_value" text,
+	"new_value" text,
+	"old_status" varchar(50),
+	"new_status" varchar(50),
+	"bill_snapshot" jsonb,
+	"notes" text,
+	"description" text,
+	"ip_address" varchar(45),
+	"user_agent" text,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "message_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid,
+	"name" varchar(255) NOT NULL,
+	"description" text,
+	"type" "message_type" NOT NULL,
+	"channel" "notification_channel" NOT NULL,
+	"subject" varchar(500),
+	"content" text NOT NULL,
+	"html_content" text,
+	"variables" jsonb,
+	"is_system" boolean DEFAULT false NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"usage_count" integer DEFAULT 0 NOT NULL,
+	"is_default" boolean DEFAULT false NOT NULL,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "money_transactions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"transaction_type" "transaction_type" NOT NULL,
+	"amount" numeric(15, 2) NOT NULL,
+	"customer_id" uuid,
+	"merchant_id" uuid,
+	"bill_id" uuid,
+	"payment_id" uuid,
+	"previous_balance" numeric(15, 2),
+	"new_balance" numeric(15, 2),
+	"method" "payment_method",
+	"reference_number" varchar(255),
+	"transaction_id" varchar(255),
+	"from_account" varchar(100),
+	"to_account" varchar(100),
+	"status" varchar(50) DEFAULT 'COMPLETED' NOT NULL,
+	"description" text,
+	"notes" text,
+	"performed_by" uuid NOT NULL,
+	"transaction_date" timestamp DEFAULT now() NOT NULL,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "purchase_order_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"purchase_order_id" uuid NOT NULL,
+	"product_id" uuid NOT NULL,
+	"variant_id" uuid,
+	"product_name" varchar(255) NOT NULL,
+	"product_code" varchar(100),
+	"quantity" numeric(10, 2) NOT NULL,
+	"received_quantity" numeric(10, 2) DEFAULT '0.00' NOT NULL,
+	"unit_price" numeric(15, 2) NOT NULL,
+	"tax_percent" numeric(5, 2) DEFAULT '0.00',
+	"tax_amount" numeric(15, 2) DEFAULT '0.00',
+	"subtotal" numeric(15, 2) NOT NULL,
+	"total_amount" numeric(15, 2) NOT NULL,
+	"notes" text,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "purchase_orders" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"merchant_id" uuid NOT NULL,
+	"order_number" varchar(100) NOT NULL,
+	"order_date" timestamp DEFAULT now() NOT NULL,
+	"expected_delivery_date" timestamp,
+	"actual_delivery_date" timestamp,
+	"subtotal" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"tax_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"shipping_cost" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"total_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"paid_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"balance_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"status" varchar(50) DEFAULT 'PENDING' NOT NULL,
+	"payment_status" varchar(50) DEFAULT 'PENDING',
+	"tracking_number" varchar(255),
+	"carrier" varchar(100),
+	"notes" text,
+	"internal_notes" text,
+	"created_by" uuid NOT NULL,
+	"received_by" uuid,
+	"metadata" jsonb,
+	"deleted_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "purchase_orders_business_order_number_idx" UNIQUE("business_id","order_number")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "reconciliation_transactions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"reconciliation_id" uuid NOT NULL,
+	"money_transaction_id" uuid,
+	"payment_id" uuid,
+	"bank_transaction_id" varchar(255),
+	"bank_transaction_date" timestamp,
+	"bank_amount" numeric(15, 2),
+	"bank_description" text,
+	"is_matched" boolean DEFAULT false NOT NULL,
+	"matched_at" timestamp,
+	"matched_by" uuid,
+	"discrepancy_amount" numeric(15, 2),
+	"discrepancy_reason" text,
+	"notes" text,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "reconciliations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"reconciliation_date" timestamp NOT NULL,
+	"account_name" varchar(255) NOT NULL,
+	"account_number" varchar(100),
+	"opening_balance" numeric(15, 2) NOT NULL,
+	"closing_balance" numeric(15, 2) NOT NULL,
+	"book_balance" numeric(15, 2) NOT NULL,
+	"bank_balance" numeric(15, 2) NOT NULL,
+	"total_deposits" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"total_withdrawals" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"outstanding_deposits" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"outstanding_withdrawals" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"status" varchar(50) DEFAULT 'PENDING' NOT NULL,
+	"notes" text,
+	"discrepancies" jsonb,
+	"created_by" uuid NOT NULL,
+	"reconciled_by" uuid,
+	"reconciled_at" timestamp,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "security_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid,
+	"user_id" uuid,
+	"event_type" varchar(100) NOT NULL,
+	"severity" varchar(20) DEFAULT 'INFO' NOT NULL,
+	"description" text NOT NULL,
+	"ip_address" varchar(45),
+	"user_agent" text,
+	"location" jsonb,
+	"endpoint" varchar(500),
+	"method" varchar(10),
+	"request_id" varchar(100),
+	"metadata" jsonb,
+	"resolved" boolean DEFAULT false NOT NULL,
+	"resolved_at" timestamp,
+	"resolved_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "staff_activity" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"staff_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"activity_type" varchar(100) NOT NULL,
+	"entity_type" varchar(100),
+	"entity_id" uuid,
+	"description" text,
+	"action" varchar(50) NOT NULL,
+	"bill_amount" numeric(15, 2),
+	"payment_amount" numeric(15, 2),
+	"ip_address" varchar(45),
+	"user_agent" text,
+	"activity_date" timestamp DEFAULT now() NOT NULL,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "stock_movements" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"product_id" uuid NOT NULL,
+	"variant_id" uuid,
+	"movement_type" "stock_movement_type" NOT NULL,
+	"quantity" numeric(10, 2) NOT NULL,
+	"stock_before" numeric(10, 2) NOT NULL,
+	"stock_after" numeric(10, 2) NOT NULL,
+	"unit_cost" numeric(15, 2),
+	"total_cost" numeric(15, 2),
+	"bill_id" uuid,
+	"bill_item_id" uuid,
+	"purchase_order_id" uuid,
+	"reason" varchar(255),
+	"notes" text,
+	"performed_by" uuid,
+	"movement_date" timestamp DEFAULT now() NOT NULL,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "user_invitations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"invited_by" uuid NOT NULL,
+	"email" varchar(255),
+	"phone" varchar(20),
+	"invitation_token" varchar(255) NOT NULL,
+	"invitation_link" text,
+	"role_id" uuid,
+	"position" varchar(100),
+	"department" varchar(100),
+	"status" varchar(50) DEFAULT 'PENDING' NOT NULL,
+	"accepted_at" timestamp,
+	"accepted_by" uuid,
+	"expires_at" timestamp NOT NULL,
+	"message" text,
+	"notes" text,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_invitations_invitation_token_unique" UNIQUE("invitation_token")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "wallet_transactions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"customer_id" uuid NOT NULL,
+	"transaction_type" varchar(50) NOT NULL,
+	"amount" numeric(15, 2) NOT NULL,
+	"balance_before" numeric(15, 2) NOT NULL,
+	"balance_after" numeric(15, 2) NOT NULL,
+	"bill_id" uuid,
+	"payment_id" uuid,
+	"money_transaction_id" uuid,
+	"payment_method" "payment_method",
+	"reference_number" varchar(255),
+	"description" text,
+	"notes" text,
+	"performed_by" uuid,
+	"transaction_date" timestamp DEFAULT now() NOT NULL,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bill_history_bill_idx" ON "bill_history" ("bill_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bill_history_performed_by_idx" ON "bill_history" ("performed_by");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bill_history_action_idx" ON "bill_history" ("action");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bill_history_created_at_idx" ON "bill_history" ("created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "message_templates_business_idx" ON "message_templates" ("business_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "message_templates_type_idx" ON "message_templates" ("type");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "message_templates_channel_idx" ON "message_templates" ("channel");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "message_templates_active_idx" ON "message_templates" ("is_active");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "message_templates_default_idx" ON "message_templates" ("is_default");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "money_transactions_business_idx" ON "money_transactions" ("business_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "money_transactions_customer_idx" ON "money_transactions" ("customer_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "money_transactions_merchant_idx" ON "money_transactions" ("merchant_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "money_transactions_bill_idx" ON "money_transactions" ("bill_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "money_transactions_payment_idx" ON "money_transactions" ("payment_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "money_transactions_type_idx" ON "money_transactions" ("transaction_type");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "money_transactions_status_idx" ON "money_transactions" ("status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "money_transactions_date_idx" ON "money_transactions" ("transaction_date");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "purchase_order_items_order_idx" ON "purchase_order_items" ("purchase_order_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "purchase_order_items_product_idx" ON "purchase_order_items" ("product_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "purchase_orders_business_idx" ON "purchase_orders" ("business_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "purchase_orders_merchant_idx" ON "purchase_orders" ("merchant_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "purchase_orders_status_idx" ON "purchase_orders" ("status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "purchase_orders_date_idx" ON "purchase_orders" ("order_date");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "purchase_orders_deleted_at_idx" ON "purchase_orders" ("deleted_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "reconciliation_transactions_reconciliation_idx" ON "reconciliation_transactions" ("reconciliation_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "reconciliation_transactions_money_transaction_idx" ON "reconciliation_transactions" ("money_transaction_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "reconciliation_transactions_payment_idx" ON "reconciliation_transactions" ("payment_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "reconciliation_transactions_matched_idx" ON "reconciliation_transactions" ("is_matched");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "reconciliations_business_idx" ON "reconciliations" ("business_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "reconciliations_date_idx" ON "reconciliations" ("reconciliation_date");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "reconciliations_status_idx" ON "reconciliations" ("status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "security_events_business_idx" ON "security_events" ("business_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "security_events_user_idx" ON "security_events" ("user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "security_events_type_idx" ON "security_events" ("event_type");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "security_events_severity_idx" ON "security_events" ("severity");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "security_events_created_at_idx" ON "security_events" ("created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "security_events_resolved_idx" ON "security_events" ("resolved");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "staff_activity_business_staff_idx" ON "staff_activity" ("business_id","staff_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "staff_activity_staff_idx" ON "staff_activity" ("staff_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "staff_activity_user_idx" ON "staff_activity" ("user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "staff_activity_type_idx" ON "staff_activity" ("activity_type");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "staff_activity_entity_type_idx" ON "staff_activity" ("entity_type","entity_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "staff_activity_date_idx" ON "staff_activity" ("activity_date");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stock_movements_business_idx" ON "stock_movements" ("business_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stock_movements_product_idx" ON "stock_movements" ("product_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stock_movements_variant_idx" ON "stock_movements" ("variant_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stock_movements_type_idx" ON "stock_movements" ("movement_type");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stock_movements_bill_idx" ON "stock_movements" ("bill_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stock_movements_date_idx" ON "stock_movements" ("movement_date");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "user_invitations_business_idx" ON "user_invitations" ("business_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "user_invitations_token_idx" ON "user_invitations" ("invitation_token");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "user_invitations_email_idx" ON "user_invitations" ("email");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "user_invitations_phone_idx" ON "user_invitations" ("phone");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "user_invitations_status_idx" ON "user_invitations" ("status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "user_invitations_expires_at_idx" ON "user_invitations" ("expires_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "wallet_transactions_business_customer_idx" ON "wallet_transactions" ("business_id","customer_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "wallet_transactions_customer_idx" ON "wallet_transactions" ("customer_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "wallet_transactions_bill_idx" ON "wallet_transactions" ("bill_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "wallet_transactions_payment_idx" ON "wallet_transactions" ("payment_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "wallet_transactions_date_idx" ON "wallet_transactions" ("transaction_date");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "bill_history" ADD CONSTRAINT "bill_history_bill_id_bills_id_fk" FOREIGN KEY ("bill_id") REFERENCES "bills"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "bill_history" ADD CONSTRAINT "bill_history_performed_by_users_id_fk" FOREIGN KEY ("performed_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "message_templates" ADD CONSTRAINT "message_templates_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "money_transactions" ADD CONSTRAINT "money_transactions_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "money_transactions" ADD CONSTRAINT "money_transactions_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "money_transactions" ADD CONSTRAINT "money_transactions_merchant_id_merchants_id_fk" FOREIGN KEY ("merchant_id") REFERENCES "merchants"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "money_transactions" ADD CONSTRAINT "money_transactions_bill_id_bills_id_fk" FOREIGN KEY ("bill_id") REFERENCES "bills"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "money_transactions" ADD CONSTRAINT "money_transactions_payment_id_payments_id_fk" FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "money_transactions" ADD CONSTRAINT "money_transactions_performed_by_users_id_fk" FOREIGN KEY ("performed_by") REFERENCES "users"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "purchase_order_items" ADD CONSTRAINT "purchase_order_items_purchase_order_id_purchase_orders_id_fk" FOREIGN KEY ("purchase_order_id") REFERENCES "purchase_orders"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "purchase_order_items" ADD CONSTRAINT "purchase_order_items_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "purchase_order_items" ADD CONSTRAINT "purchase_order_items_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_merchant_id_merchants_id_fk" FOREIGN KEY ("merchant_id") REFERENCES "merchants"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_received_by_users_id_fk" FOREIGN KEY ("received_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "reconciliation_transactions" ADD CONSTRAINT "reconciliation_transactions_reconciliation_id_reconciliations_id_fk" FOREIGN KEY ("reconciliation_id") REFERENCES "reconciliations"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "reconciliation_transactions" ADD CONSTRAINT "reconciliation_transactions_money_transaction_id_money_transactions_id_fk" FOREIGN KEY ("money_transaction_id") REFERENCES "money_transactions"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "reconciliation_transactions" ADD CONSTRAINT "reconciliation_transactions_payment_id_payments_id_fk" FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "reconciliation_transactions" ADD CONSTRAINT "reconciliation_transactions_matched_by_users_id_fk" FOREIGN KEY ("matched_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "reconciliations" ADD CONSTRAINT "reconciliations_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "reconciliations" ADD CONSTRAINT "reconciliations_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "reconciliations" ADD CONSTRAINT "reconciliations_reconciled_by_users_id_fk" FOREIGN KEY ("reconciled_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "security_events" ADD CONSTRAINT "security_events_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "security_events" ADD CONSTRAINT "security_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "security_events" ADD CONSTRAINT "security_events_resolved_by_users_id_fk" FOREIGN KEY ("resolved_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "staff_activity" ADD CONSTRAINT "staff_activity_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "staff_activity" ADD CONSTRAINT "staff_activity_staff_id_business_staff_id_fk" FOREIGN KEY ("staff_id") REFERENCES "business_staff"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "staff_activity" ADD CONSTRAINT "staff_activity_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_bill_id_bills_id_fk" FOREIGN KEY ("bill_id") REFERENCES "bills"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_bill_item_id_bill_items_id_fk" FOREIGN KEY ("bill_item_id") REFERENCES "bill_items"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_purchase_order_id_purchase_orders_id_fk" FOREIGN KEY ("purchase_order_id") REFERENCES "purchase_orders"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_performed_by_users_id_fk" FOREIGN KEY ("performed_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "user_invitations" ADD CONSTRAINT "user_invitations_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "user_invitations" ADD CONSTRAINT "user_invitations_invited_by_users_id_fk" FOREIGN KEY ("invited_by") REFERENCES "users"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "user_invitations" ADD CONSTRAINT "user_invitations_role_id_roles_id_fk" FOREIGN KEY ("role_id") REFERENCES "roles"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "user_invitations" ADD CONSTRAINT "user_invitations_accepted_by_users_id_fk" FOREIGN KEY ("accepted_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "wallet_transactions" ADD CONSTRAINT "wallet_transactions_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "wallet_transactions" ADD CONSTRAINT "wallet_transactions_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "wallet_transactions" ADD CONSTRAINT "wallet_transactions_bill_id_bills_id_fk" FOREIGN KEY ("bill_id") REFERENCES "bills"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "wallet_transactions" ADD CONSTRAINT "wallet_transactions_payment_id_payments_id_fk" FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "wallet_transactions" ADD CONSTRAINT "wallet_transactions_money_transaction_id_money_transactions_id_fk" FOREIGN KEY ("money_transaction_id") REFERENCES "money_transactions"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "wallet_transactions" ADD CONSTRAINT "wallet_transactions_performed_by_users_id_fk" FOREIGN KEY ("performed_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,102 @@
+CREATE TABLE IF NOT EXISTS "credit_note_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"credit_note_id" uuid NOT NULL,
+	"bill_item_id" uuid,
+	"product_id" uuid,
+	"variant_id" uuid,
+	"product_name" varchar(255) NOT NULL,
+	"unit" "product_unit" NOT NULL,
+	"quantity" numeric(10, 2) NOT NULL,
+	"rate" numeric(15, 2) NOT NULL,
+	"discount_amount" numeric(15, 2) DEFAULT '0.00',
+	"tax_percent" numeric(5, 2) DEFAULT '0.00',
+	"tax_amount" numeric(15, 2) DEFAULT '0.00',
+	"subtotal" numeric(15, 2) NOT NULL,
+	"total_amount" numeric(15, 2) NOT NULL,
+	"restocked" boolean DEFAULT false NOT NULL,
+	"notes" text,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "credit_notes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"bill_id" uuid NOT NULL,
+	"customer_id" uuid,
+	"credit_note_number" varchar(100) NOT NULL,
+	"credit_note_date" timestamp NOT NULL,
+	"note_type" varchar(50) DEFAULT 'SALES_RETURN' NOT NULL,
+	"status" varchar(50) DEFAULT 'ISSUED' NOT NULL,
+	"reason" text,
+	"subtotal" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"discount_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"tax_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"total_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"settlement_mode" varchar(50) DEFAULT 'ADJUST_BALANCE' NOT NULL,
+	"applied_to_bill_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"wallet_credit_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"refund_due_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"notes" text,
+	"created_by" uuid NOT NULL,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "credit_notes_business_number_idx" UNIQUE("business_id","credit_note_number")
+);
+--> statement-breakpoint
+ALTER TABLE "bills" ADD COLUMN "credited_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "credit_note_items_credit_note_idx" ON "credit_note_items" ("credit_note_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "credit_note_items_bill_item_idx" ON "credit_note_items" ("bill_item_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "credit_note_items_product_idx" ON "credit_note_items" ("product_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "credit_notes_business_idx" ON "credit_notes" ("business_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "credit_notes_bill_idx" ON "credit_notes" ("bill_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "credit_notes_customer_idx" ON "credit_notes" ("customer_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "credit_notes_date_idx" ON "credit_notes" ("credit_note_date");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "credit_note_items" ADD CONSTRAINT "credit_note_items_credit_note_id_credit_notes_id_fk" FOREIGN KEY ("credit_note_id") REFERENCES "credit_notes"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "credit_note_items" ADD CONSTRAINT "credit_note_items_bill_item_id_bill_items_id_fk" FOREIGN KEY ("bill_item_id") REFERENCES "bill_items"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "credit_note_items" ADD CONSTRAINT "credit_note_items_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "credit_note_items" ADD CONSTRAINT "credit_note_items_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_bill_id_bills_id_fk" FOREIGN KEY ("bill_id") REFERENCES "bills"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,9 @@
+ALTER TABLE "payment_allocations" ADD COLUMN "status" varchar(50) DEFAULT 'ACTIVE' NOT NULL;--> statement-breakpoint
+ALTER TABLE "payment_allocations" ADD COLUMN "reversed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "payment_allocations" ADD COLUMN "reversed_by" uuid;--> statement-breakpoint
+ALTER TABLE "payment_allocations" ADD COLUMN "reversal_reason" text;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "payment_allocations" ADD CONSTRAINT "payment_allocations_reversed_by_users_id_fk" FOREIGN KEY ("reversed_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS "document_sequences" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"document_type" varchar(50) NOT NULL,
+	"period" varchar(20) DEFAULT '' NOT NULL,
+	"next_number" integer DEFAULT 1 NOT NULL,
+	"last_allocated" varchar(100),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "document_sequences_business_type_period_idx" UNIQUE("business_id","document_type","period")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "document_sequences_business_idx" ON "document_sequences" ("business_id");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "document_sequences" ADD CONSTRAINT "document_sequences_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,7 @@
+ALTER TABLE "bills" ADD COLUMN "finalized_at" timestamp;--> statement-breakpoint
+ALTER TABLE "bills" ADD COLUMN "finalized_by" uuid;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "bills" ADD CONSTRAINT "bills_finalized_by_users_id_fk" FOREIGN KEY ("finalized_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
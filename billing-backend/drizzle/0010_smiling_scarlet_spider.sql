@@ -0,0 +1,8 @@
+ALTER TABLE "bills" ADD COLUMN "next_recurring_date" timestamp;--> statement-breakpoint
+ALTER TABLE "bills" ADD COLUMN "recurring_end_date" timestamp;--> statement-breakpoint
+ALTER TABLE "bills" ADD COLUMN "recurring_max_occurrences" integer;--> statement-breakpoint
+ALTER TABLE "bills" ADD COLUMN "recurring_occurrence_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "bills" ADD COLUMN "recurring_paused" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "bills" ADD COLUMN "recurring_auto_send" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bills_next_recurring_date_idx" ON "bills" ("next_recurring_date");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bills_parent_bill_idx" ON "bills" ("parent_bill_id");
\ No newline at end of file
@@ -0,0 +1,16 @@
+ALTER TABLE "bill_items" ADD COLUMN "cgst_rate" numeric(5, 2) DEFAULT '0.00';--> statement-breakpoint
+ALTER TABLE "bill_items" ADD COLUMN "cgst_amount" numeric(15, 2) DEFAULT '0.00';--> statement-breakpoint
+ALTER TABLE "bill_items" ADD COLUMN "sgst_rate" numeric(5, 2) DEFAULT '0.00';--> statement-breakpoint
+ALTER TABLE "bill_items" ADD COLUMN "sgst_amount" numeric(15, 2) DEFAULT '0.00';--> statement-breakpoint
+ALTER TABLE "bill_items" ADD COLUMN "igst_rate" numeric(5, 2) DEFAULT '0.00';--> statement-breakpoint
+ALTER TABLE "bill_items" ADD COLUMN "igst_amount" numeric(15, 2) DEFAULT '0.00';--> statement-breakpoint
+ALTER TABLE "bill_items" ADD COLUMN "cess_percent" numeric(5, 2) DEFAULT '0.00';--> statement-breakpoint
+ALTER TABLE "bill_items" ADD COLUMN "cess_amount" numeric(15, 2) DEFAULT '0.00';--> statement-breakpoint
+ALTER TABLE "bills" ADD COLUMN "cgst_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "bills" ADD COLUMN "sgst_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "bills" ADD COLUMN "igst_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "bills" ADD COLUMN "cess_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "bills" ADD COLUMN "place_of_supply" varchar(2);--> statement-breakpoint
+ALTER TABLE "bills" ADD COLUMN "supply_type" varchar(20) DEFAULT 'INTRA_STATE' NOT NULL;--> statement-breakpoint
+ALTER TABLE "bills" ADD COLUMN "tax_inclusive" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "cess_percent" numeric(5, 2) DEFAULT '0.00';
\ No newline at end of file
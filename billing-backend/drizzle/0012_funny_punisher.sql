@@ -0,0 +1,77 @@
+CREATE TABLE IF NOT EXISTS "merchant_payment_allocations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"payment_id" uuid NOT NULL,
+	"purchase_order_id" uuid NOT NULL,
+	"allocated_amount" numeric(15, 2) NOT NULL,
+	"order_balance_before" numeric(15, 2) NOT NULL,
+	"order_balance_after" numeric(15, 2) NOT NULL,
+	"allocation_date" timestamp DEFAULT now() NOT NULL,
+	"allocation_order" integer DEFAULT 1 NOT NULL,
+	"status" varchar(50) DEFAULT 'ACTIVE' NOT NULL,
+	"reversed_at" timestamp,
+	"reversed_by" uuid,
+	"reversal_reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "merchant_payment_allocations_payment_order_idx" UNIQUE("payment_id","purchase_order_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "merchant_payments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"merchant_id" uuid NOT NULL,
+	"payment_number" varchar(100) NOT NULL,
+	"payment_date" timestamp NOT NULL,
+	"amount" numeric(15, 2) NOT NULL,
+	"allocated_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"unallocated_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"method" "payment_method" NOT NULL,
+	"status" "payment_status" DEFAULT 'COMPLETED' NOT NULL,
+	"reference_number" varchar(255),
+	"notes" text,
+	"created_by" uuid NOT NULL,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "merchant_payments_business_payment_number_idx" UNIQUE("business_id","payment_number")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "merchant_payment_allocations_payment_idx" ON "merchant_payment_allocations" ("payment_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "merchant_payment_allocations_order_idx" ON "merchant_payment_allocations" ("purchase_order_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "merchant_payments_business_idx" ON "merchant_payments" ("business_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "merchant_payments_merchant_idx" ON "merchant_payments" ("merchant_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "merchant_payments_payment_date_idx" ON "merchant_payments" ("payment_date");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "merchant_payment_allocations" ADD CONSTRAINT "merchant_payment_allocations_payment_id_merchant_payments_id_fk" FOREIGN KEY ("payment_id") REFERENCES "merchant_payments"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "merchant_payment_allocations" ADD CONSTRAINT "merchant_payment_allocations_purchase_order_id_purchase_orders_id_fk" FOREIGN KEY ("purchase_order_id") REFERENCES "purchase_orders"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "merchant_payment_allocations" ADD CONSTRAINT "merchant_payment_allocations_reversed_by_users_id_fk" FOREIGN KEY ("reversed_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "merchant_payments" ADD CONSTRAINT "merchant_payments_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "merchant_payments" ADD CONSTRAINT "merchant_payments_merchant_id_merchants_id_fk" FOREIGN KEY ("merchant_id") REFERENCES "merchants"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "merchant_payments" ADD CONSTRAINT "merchant_payments_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
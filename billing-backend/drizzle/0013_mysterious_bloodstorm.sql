@@ -0,0 +1,81 @@
+CREATE TABLE IF NOT EXISTS "goods_receipt_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"goods_receipt_id" uuid NOT NULL,
+	"purchase_order_item_id" uuid NOT NULL,
+	"product_id" uuid NOT NULL,
+	"variant_id" uuid,
+	"quantity" numeric(10, 2) NOT NULL,
+	"unit_cost" numeric(15, 2) NOT NULL,
+	"total_cost" numeric(15, 2) NOT NULL,
+	"stock_movement_id" uuid,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "goods_receipts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"purchase_order_id" uuid NOT NULL,
+	"receipt_number" varchar(100) NOT NULL,
+	"received_date" timestamp DEFAULT now() NOT NULL,
+	"supplier_invoice_number" varchar(100),
+	"total_quantity" numeric(10, 2) DEFAULT '0.00' NOT NULL,
+	"total_cost" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"notes" text,
+	"received_by" uuid NOT NULL,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "goods_receipts_business_receipt_number_idx" UNIQUE("business_id","receipt_number")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "goods_receipt_items_receipt_idx" ON "goods_receipt_items" ("goods_receipt_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "goods_receipt_items_order_item_idx" ON "goods_receipt_items" ("purchase_order_item_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "goods_receipts_business_idx" ON "goods_receipts" ("business_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "goods_receipts_order_idx" ON "goods_receipts" ("purchase_order_id");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "goods_receipt_items" ADD CONSTRAINT "goods_receipt_items_goods_receipt_id_goods_receipts_id_fk" FOREIGN KEY ("goods_receipt_id") REFERENCES "goods_receipts"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "goods_receipt_items" ADD CONSTRAINT "goods_receipt_items_purchase_order_item_id_purchase_order_items_id_fk" FOREIGN KEY ("purchase_order_item_id") REFERENCES "purchase_order_items"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "goods_receipt_items" ADD CONSTRAINT "goods_receipt_items_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "goods_receipt_items" ADD CONSTRAINT "goods_receipt_items_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "goods_receipt_items" ADD CONSTRAINT "goods_receipt_items_stock_movement_id_stock_movements_id_fk" FOREIGN KEY ("stock_movement_id") REFERENCES "stock_movements"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "goods_receipts" ADD CONSTRAINT "goods_receipts_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "goods_receipts" ADD CONSTRAINT "goods_receipts_purchase_order_id_purchase_orders_id_fk" FOREIGN KEY ("purchase_order_id") REFERENCES "purchase_orders"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "goods_receipts" ADD CONSTRAINT "goods_receipts_received_by_users_id_fk" FOREIGN KEY ("received_by") REFERENCES "users"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
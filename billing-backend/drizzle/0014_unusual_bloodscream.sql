@@ -0,0 +1,72 @@
+CREATE TABLE IF NOT EXISTS "inventory_cost_layer_consumptions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"layer_id" uuid NOT NULL,
+	"movement_id" uuid NOT NULL,
+	"bill_item_id" uuid,
+	"quantity" numeric(10, 2) NOT NULL,
+	"unit_cost" numeric(15, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "inventory_cost_layers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"product_id" uuid NOT NULL,
+	"variant_id" uuid,
+	"source_movement_id" uuid,
+	"layer_date" timestamp DEFAULT now() NOT NULL,
+	"original_quantity" numeric(10, 2) NOT NULL,
+	"remaining_quantity" numeric(10, 2) NOT NULL,
+	"unit_cost" numeric(15, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "inventory_cost_layer_consumptions_layer_idx" ON "inventory_cost_layer_consumptions" ("layer_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "inventory_cost_layer_consumptions_movement_idx" ON "inventory_cost_layer_consumptions" ("movement_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "inventory_cost_layer_consumptions_bill_item_idx" ON "inventory_cost_layer_consumptions" ("bill_item_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "inventory_cost_layers_business_idx" ON "inventory_cost_layers" ("business_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "inventory_cost_layers_product_idx" ON "inventory_cost_layers" ("product_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "inventory_cost_layers_variant_idx" ON "inventory_cost_layers" ("variant_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "inventory_cost_layers_date_idx" ON "inventory_cost_layers" ("layer_date");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "inventory_cost_layer_consumptions" ADD CONSTRAINT "inventory_cost_layer_consumptions_layer_id_inventory_cost_layers_id_fk" FOREIGN KEY ("layer_id") REFERENCES "inventory_cost_layers"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "inventory_cost_layer_consumptions" ADD CONSTRAINT "inventory_cost_layer_consumptions_movement_id_stock_movements_id_fk" FOREIGN KEY ("movement_id") REFERENCES "stock_movements"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "inventory_cost_layer_consumptions" ADD CONSTRAINT "inventory_cost_layer_consumptions_bill_item_id_bill_items_id_fk" FOREIGN KEY ("bill_item_id") REFERENCES "bill_items"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "inventory_cost_layers" ADD CONSTRAINT "inventory_cost_layers_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "inventory_cost_layers" ADD CONSTRAINT "inventory_cost_layers_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "inventory_cost_layers" ADD CONSTRAINT "inventory_cost_layers_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "inventory_cost_layers" ADD CONSTRAINT "inventory_cost_layers_source_movement_id_stock_movements_id_fk" FOREIGN KEY ("source_movement_id") REFERENCES "stock_movements"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,91 @@
+DO $$ BEGIN
+ CREATE TYPE "batch_status" AS ENUM('ACTIVE', 'NEAR_EXPIRY', 'EXPIRED', 'DEPLETED');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "product_batches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"product_id" uuid NOT NULL,
+	"variant_id" uuid,
+	"batch_number" varchar(100) NOT NULL,
+	"manufacture_date" timestamp,
+	"expiry_date" timestamp,
+	"received_quantity" numeric(10, 2) DEFAULT '0.00' NOT NULL,
+	"quantity" numeric(10, 2) DEFAULT '0.00' NOT NULL,
+	"status" "batch_status" DEFAULT 'ACTIVE' NOT NULL,
+	"notes" text,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "product_batches_product_batch_idx" UNIQUE("product_id","variant_id","batch_number")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "stock_movement_batches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"movement_id" uuid NOT NULL,
+	"batch_id" uuid NOT NULL,
+	"bill_item_id" uuid,
+	"quantity" numeric(10, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "bill_items" ADD COLUMN "batch_id" uuid;--> statement-breakpoint
+ALTER TABLE "goods_receipt_items" ADD COLUMN "batch_id" uuid;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "tracks_batches" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "near_expiry_days" integer;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "product_batches_business_idx" ON "product_batches" ("business_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "product_batches_product_idx" ON "product_batches" ("product_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "product_batches_expiry_date_idx" ON "product_batches" ("expiry_date");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "product_batches_status_idx" ON "product_batches" ("status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stock_movement_batches_movement_idx" ON "stock_movement_batches" ("movement_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stock_movement_batches_batch_idx" ON "stock_movement_batches" ("batch_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stock_movement_batches_bill_item_idx" ON "stock_movement_batches" ("bill_item_id");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "bill_items" ADD CONSTRAINT "bill_items_batch_id_product_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "product_batches"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "goods_receipt_items" ADD CONSTRAINT "goods_receipt_items_batch_id_product_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "product_batches"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "product_batches" ADD CONSTRAINT "product_batches_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "product_batches" ADD CONSTRAINT "product_batches_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "product_batches" ADD CONSTRAINT "product_batches_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_movement_batches" ADD CONSTRAINT "stock_movement_batches_movement_id_stock_movements_id_fk" FOREIGN KEY ("movement_id") REFERENCES "stock_movements"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_movement_batches" ADD CONSTRAINT "stock_movement_batches_batch_id_product_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "product_batches"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_movement_batches" ADD CONSTRAINT "stock_movement_batches_bill_item_id_bill_items_id_fk" FOREIGN KEY ("bill_item_id") REFERENCES "bill_items"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,97 @@
+DO $$ BEGIN
+ CREATE TYPE "serial_status" AS ENUM('IN_STOCK', 'SOLD', 'WRITTEN_OFF');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "product_serials" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"product_id" uuid NOT NULL,
+	"variant_id" uuid,
+	"serial_number" varchar(100) NOT NULL,
+	"status" "serial_status" DEFAULT 'IN_STOCK' NOT NULL,
+	"purchase_order_id" uuid,
+	"received_at" timestamp,
+	"unit_cost" numeric(15, 2),
+	"bill_id" uuid,
+	"bill_item_id" uuid,
+	"customer_id" uuid,
+	"sold_at" timestamp,
+	"warranty_expires_at" timestamp,
+	"notes" text,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "product_serials_product_serial_idx" UNIQUE("product_id","serial_number")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "stock_movement_serials" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"movement_id" uuid NOT NULL,
+	"serial_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "bill_items" ADD COLUMN "serial_numbers" jsonb;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "tracks_serials" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "warranty_months" integer;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "product_serials_business_idx" ON "product_serials" ("business_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "product_serials_serial_number_idx" ON "product_serials" ("serial_number");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "product_serials_status_idx" ON "product_serials" ("status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "product_serials_bill_item_idx" ON "product_serials" ("bill_item_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stock_movement_serials_movement_idx" ON "stock_movement_serials" ("movement_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stock_movement_serials_serial_idx" ON "stock_movement_serials" ("serial_id");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "product_serials" ADD CONSTRAINT "product_serials_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "product_serials" ADD CONSTRAINT "product_serials_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "product_serials" ADD CONSTRAINT "product_serials_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "product_serials" ADD CONSTRAINT "product_serials_purchase_order_id_purchase_orders_id_fk" FOREIGN KEY ("purchase_order_id") REFERENCES "purchase_orders"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "product_serials" ADD CONSTRAINT "product_serials_bill_id_bills_id_fk" FOREIGN KEY ("bill_id") REFERENCES "bills"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "product_serials" ADD CONSTRAINT "product_serials_bill_item_id_bill_items_id_fk" FOREIGN KEY ("bill_item_id") REFERENCES "bill_items"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "product_serials" ADD CONSTRAINT "product_serials_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_movement_serials" ADD CONSTRAINT "stock_movement_serials_movement_id_stock_movements_id_fk" FOREIGN KEY ("movement_id") REFERENCES "stock_movements"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_movement_serials" ADD CONSTRAINT "stock_movement_serials_serial_id_product_serials_id_fk" FOREIGN KEY ("serial_id") REFERENCES "product_serials"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,208 @@
+DO $$ BEGIN
+ CREATE TYPE "location_type" AS ENUM('STORE', 'WAREHOUSE');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ CREATE TYPE "stock_transfer_status" AS ENUM('DRAFT', 'IN_TRANSIT', 'RECEIVED', 'CANCELLED');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TYPE "serial_status" ADD VALUE 'IN_TRANSIT';--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "location_stock" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"location_id" uuid NOT NULL,
+	"product_id" uuid NOT NULL,
+	"variant_id" uuid,
+	"quantity" numeric(10, 2) DEFAULT '0.00' NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "location_stock_location_product_variant_idx" UNIQUE("location_id","product_id","variant_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "stock_transfer_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"transfer_id" uuid NOT NULL,
+	"product_id" uuid NOT NULL,
+	"variant_id" uuid,
+	"quantity" numeric(10, 2) NOT NULL,
+	"unit_cost" numeric(15, 2),
+	"serial_numbers" jsonb,
+	"dispatch_movement_id" uuid,
+	"receipt_movement_id" uuid,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "stock_transfers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"transfer_number" varchar(100) NOT NULL,
+	"from_location_id" uuid NOT NULL,
+	"to_location_id" uuid NOT NULL,
+	"status" "stock_transfer_status" DEFAULT 'DRAFT' NOT NULL,
+	"dispatched_at" timestamp,
+	"dispatched_by" uuid,
+	"received_at" timestamp,
+	"received_by" uuid,
+	"notes" text,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "stock_transfers_business_transfer_number_idx" UNIQUE("business_id","transfer_number")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "store_locations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"code" varchar(20) NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"location_type" "location_type" DEFAULT 'STORE' NOT NULL,
+	"address" jsonb,
+	"phone" varchar(20),
+	"is_default" boolean DEFAULT false NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "store_locations_business_code_idx" UNIQUE("business_id","code")
+);
+--> statement-breakpoint
+ALTER TABLE "bills" ADD COLUMN "location_id" uuid;--> statement-breakpoint
+ALTER TABLE "business_staff" ADD COLUMN "location_id" uuid;--> statement-breakpoint
+ALTER TABLE "product_serials" ADD COLUMN "location_id" uuid;--> statement-breakpoint
+ALTER TABLE "purchase_orders" ADD COLUMN "location_id" uuid;--> statement-breakpoint
+ALTER TABLE "stock_movements" ADD COLUMN "location_id" uuid;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "location_stock_product_idx" ON "location_stock" ("product_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stock_transfer_items_transfer_idx" ON "stock_transfer_items" ("transfer_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stock_transfers_business_idx" ON "stock_transfers" ("business_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stock_transfers_status_idx" ON "stock_transfers" ("status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "store_locations_business_idx" ON "store_locations" ("business_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stock_movements_location_idx" ON "stock_movements" ("location_id");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "bills" ADD CONSTRAINT "bills_location_id_store_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "store_locations"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "business_staff" ADD CONSTRAINT "business_staff_location_id_store_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "store_locations"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "product_serials" ADD CONSTRAINT "product_serials_location_id_store_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "store_locations"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_location_id_store_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "store_locations"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_location_id_store_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "store_locations"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "location_stock" ADD CONSTRAINT "location_stock_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "location_stock" ADD CONSTRAINT "location_stock_location_id_store_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "store_locations"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "location_stock" ADD CONSTRAINT "location_stock_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "location_stock" ADD CONSTRAINT "location_stock_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_transfer_items" ADD CONSTRAINT "stock_transfer_items_transfer_id_stock_transfers_id_fk" FOREIGN KEY ("transfer_id") REFERENCES "stock_transfers"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_transfer_items" ADD CONSTRAINT "stock_transfer_items_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_transfer_items" ADD CONSTRAINT "stock_transfer_items_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_transfer_items" ADD CONSTRAINT "stock_transfer_items_dispatch_movement_id_stock_movements_id_fk" FOREIGN KEY ("dispatch_movement_id") REFERENCES "stock_movements"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_transfer_items" ADD CONSTRAINT "stock_transfer_items_receipt_movement_id_stock_movements_id_fk" FOREIGN KEY ("receipt_movement_id") REFERENCES "stock_movements"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_from_location_id_store_locations_id_fk" FOREIGN KEY ("from_location_id") REFERENCES "store_locations"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_to_location_id_store_locations_id_fk" FOREIGN KEY ("to_location_id") REFERENCES "store_locations"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_dispatched_by_users_id_fk" FOREIGN KEY ("dispatched_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_received_by_users_id_fk" FOREIGN KEY ("received_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "store_locations" ADD CONSTRAINT "store_locations_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,119 @@
+DO $$ BEGIN
+ CREATE TYPE "stocktake_status" AS ENUM('COUNTING', 'APPROVED', 'CANCELLED');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "stocktake_counts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"stocktake_id" uuid NOT NULL,
+	"stocktake_item_id" uuid NOT NULL,
+	"quantity" numeric(10, 2) NOT NULL,
+	"scanned_code" varchar(255),
+	"serial_number" varchar(100),
+	"counted_by" uuid,
+	"counted_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "stocktake_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"stocktake_id" uuid NOT NULL,
+	"product_id" uuid NOT NULL,
+	"variant_id" uuid,
+	"expected_quantity" numeric(10, 2) NOT NULL,
+	"counted_quantity" numeric(10, 2),
+	"unit_cost" numeric(15, 2),
+	"adjustment_movement_ids" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "stocktakes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"stocktake_number" varchar(100) NOT NULL,
+	"location_id" uuid,
+	"category_id" uuid,
+	"status" "stocktake_status" DEFAULT 'COUNTING' NOT NULL,
+	"snapshot_at" timestamp DEFAULT now() NOT NULL,
+	"approved_at" timestamp,
+	"approved_by" uuid,
+	"cancelled_at" timestamp,
+	"notes" text,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "stocktakes_business_stocktake_number_idx" UNIQUE("business_id","stocktake_number")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stocktake_counts_stocktake_idx" ON "stocktake_counts" ("stocktake_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stocktake_counts_item_idx" ON "stocktake_counts" ("stocktake_item_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stocktake_items_stocktake_idx" ON "stocktake_items" ("stocktake_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stocktake_items_product_idx" ON "stocktake_items" ("product_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stocktakes_business_idx" ON "stocktakes" ("business_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stocktakes_status_idx" ON "stocktakes" ("status");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stocktake_counts" ADD CONSTRAINT "stocktake_counts_stocktake_id_stocktakes_id_fk" FOREIGN KEY ("stocktake_id") REFERENCES "stocktakes"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stocktake_counts" ADD CONSTRAINT "stocktake_counts_stocktake_item_id_stocktake_items_id_fk" FOREIGN KEY ("stocktake_item_id") REFERENCES "stocktake_items"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stocktake_counts" ADD CONSTRAINT "stocktake_counts_counted_by_users_id_fk" FOREIGN KEY ("counted_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stocktake_items" ADD CONSTRAINT "stocktake_items_stocktake_id_stocktakes_id_fk" FOREIGN KEY ("stocktake_id") REFERENCES "stocktakes"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stocktake_items" ADD CONSTRAINT "stocktake_items_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stocktake_items" ADD CONSTRAINT "stocktake_items_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stocktakes" ADD CONSTRAINT "stocktakes_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stocktakes" ADD CONSTRAINT "stocktakes_location_id_store_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "store_locations"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stocktakes" ADD CONSTRAINT "stocktakes_category_id_product_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "product_categories"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stocktakes" ADD CONSTRAINT "stocktakes_approved_by_users_id_fk" FOREIGN KEY ("approved_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "stocktakes" ADD CONSTRAINT "stocktakes_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,156 @@
+DO $$ BEGIN
+ CREATE TYPE "production_order_status" AS ENUM('PLANNED', 'COMPLETED', 'CANCELLED');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "product_components" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"product_id" uuid NOT NULL,
+	"variant_id" uuid,
+	"component_product_id" uuid NOT NULL,
+	"component_variant_id" uuid,
+	"quantity" numeric(10, 3) NOT NULL,
+	"notes" text,
+	"sort_order" integer DEFAULT 0,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "production_order_components" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"production_order_id" uuid NOT NULL,
+	"product_id" uuid NOT NULL,
+	"variant_id" uuid,
+	"planned_quantity" numeric(10, 3) NOT NULL,
+	"consumed_quantity" numeric(10, 3),
+	"unit_cost" numeric(15, 2),
+	"movement_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "production_orders" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"order_number" varchar(100) NOT NULL,
+	"product_id" uuid NOT NULL,
+	"variant_id" uuid,
+	"location_id" uuid,
+	"planned_quantity" numeric(10, 2) NOT NULL,
+	"produced_quantity" numeric(10, 2),
+	"status" "production_order_status" DEFAULT 'PLANNED' NOT NULL,
+	"material_cost" numeric(15, 2),
+	"additional_cost" numeric(15, 2) DEFAULT '0.00',
+	"unit_cost" numeric(15, 2),
+	"output_movement_id" uuid,
+	"completed_at" timestamp,
+	"completed_by" uuid,
+	"notes" text,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "production_orders_business_order_number_idx" UNIQUE("business_id","order_number")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "product_components_product_idx" ON "product_components" ("product_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "product_components_component_idx" ON "product_components" ("component_product_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "production_order_components_order_idx" ON "production_order_components" ("production_order_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "production_orders_business_idx" ON "production_orders" ("business_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "production_orders_product_idx" ON "production_orders" ("product_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "production_orders_status_idx" ON "production_orders" ("status");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "product_components" ADD CONSTRAINT "product_components_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "product_components" ADD CONSTRAINT "product_components_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "product_components" ADD CONSTRAINT "product_components_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "product_components" ADD CONSTRAINT "product_components_component_product_id_products_id_fk" FOREIGN KEY ("component_product_id") REFERENCES "products"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "product_components" ADD CONSTRAINT "product_components_component_variant_id_product_variants_id_fk" FOREIGN KEY ("component_variant_id") REFERENCES "product_variants"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "production_order_components" ADD CONSTRAINT "production_order_components_production_order_id_production_orders_id_fk" FOREIGN KEY ("production_order_id") REFERENCES "production_orders"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "production_order_components" ADD CONSTRAINT "production_order_components_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "production_order_components" ADD CONSTRAINT "production_order_components_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "production_order_components" ADD CONSTRAINT "production_order_components_movement_id_stock_movements_id_fk" FOREIGN KEY ("movement_id") REFERENCES "stock_movements"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "production_orders" ADD CONSTRAINT "production_orders_business_id_retail_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "retail_businesses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "production_orders" ADD CONSTRAINT "production_orders_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "production_orders" ADD CONSTRAINT "production_orders_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "production_orders" ADD CONSTRAINT "production_orders_location_id_store_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "store_locations"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "production_orders" ADD CONSTRAINT "production_orders_output_movement_id_stock_movements_id_fk" FOREIGN KEY ("output_movement_id") REFERENCES "stock_movements"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "production_orders" ADD CONSTRAINT "production_orders_completed_by_users_id_fk" FOREIGN KEY ("completed_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "production_orders" ADD CONSTRAINT "production_orders_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,11 @@
+ALTER TYPE "payment_method" ADD VALUE 'WALLET';--> statement-breakpoint
+ALTER TABLE "daily_sales_summary" ADD COLUMN "wallet_sales" numeric(15, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "daily_sales_summary" ADD COLUMN "cheque_sales" numeric(15, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "daily_sales_summary" ADD COLUMN "bank_sales" numeric(15, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "daily_sales_summary" ADD COLUMN "other_sales" numeric(15, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "daily_sales_summary" ADD COLUMN "change_given" numeric(15, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "daily_sales_summary" ADD COLUMN "split_tender_bills" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "tender_group_id" uuid;--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "tendered_amount" numeric(15, 2);--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "change_amount" numeric(15, 2);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "payments_tender_group_idx" ON "payments" ("tender_group_id");
\ No newline at end of file
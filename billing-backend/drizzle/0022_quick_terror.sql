@@ -0,0 +1 @@
+ALTER TABLE "payments" ADD COLUMN "refunded_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL;
\ No newline at end of file
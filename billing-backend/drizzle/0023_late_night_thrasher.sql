@@ -0,0 +1,14 @@
+DO $$ BEGIN
+ CREATE TYPE "cheque_status" AS ENUM('RECEIVED', 'DEPOSITED', 'CLEARED', 'BOUNCED');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "cheque_status" "cheque_status";--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "cheque_deposited_at" timestamp;--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "cheque_deposit_account" varchar(255);--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "cheque_cleared_at" timestamp;--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "cheque_bounced_at" timestamp;--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "cheque_bounce_reason" text;--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "cheque_bounce_charge" numeric(15, 2);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "payments_cheque_status_idx" ON "payments" ("cheque_status");
\ No newline at end of file
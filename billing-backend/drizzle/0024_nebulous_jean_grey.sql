@@ -0,0 +1,7 @@
+DO $$ BEGIN
+ CREATE TYPE "credit_application" AS ENUM('AUTO', 'PROMPT', 'NEVER');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "retail_businesses" ADD COLUMN "credit_application" "credit_application" DEFAULT 'PROMPT' NOT NULL;
\ No newline at end of file
@@ -23,4 +23,6 @@ export async function testConnection(): Promise<void> {
 
 export async function closeConnection(): Promise<void> {
   await pool.end();
-}
\ No newline at end of file
+}
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
@@ -1,17 +1,31 @@
 import { Response } from 'express';
 import { BillingService } from '../services/billing.service';
+import { SalesReturnService } from '../services/sales-return.service';
+import { RecurringBillService } from '../services/recurring-bill.service';
+import { CustomerCreditService } from '../services/customer-credit.service';
 import { BusinessRequest } from '../middleware/auth.middleware';
 import { 
   createBillSchema, 
   updateBillSchema, 
   billQuerySchema, 
-  billPaymentSchema 
+  billPaymentSchema,
+  billReturnSchema,
+  finalizeBillSchema,
+  voidBillSchema,
+  recurringBillQuerySchema,
+  addServiceTemplateSchema,
+  checkoutSchema,
+  refundPaymentSchema,
+  applyCreditSchema
 } from '../schemas/bill.schema';
 import { logApiRequest, logger } from '../utils/logger';
 import { getErrorMessage, AppError, BadRequestError, ForbiddenError, NotFoundError } from '../utils/app-errors';
 import { ZodError } from 'zod';
 
 const billingService = new BillingService();
+const salesReturnService = new SalesReturnService();
+const recurringBillService = new RecurringBillService();
+const customerCreditService = new CustomerCreditService();
 
 export class BillingController {
   
@@ -90,7 +104,7 @@ export class BillingController {
         const validation = updateBillSchema.safeParse(req.body);
         if (!validation.success) throw new ZodError(validation.error.issues);
 
-        const result = await billingService.updateBill(req.business.id, req.user.id, billId, validation.data);
+        const result = await billingService.updateBill(req.business.id, req.user.id, billId, validation.data, req);
         
         logApiRequest(req, res, Date.now() - startTime);
         res.json({ success: true, data: result });
@@ -146,6 +160,250 @@ export class BillingController {
     }
   }
 
+  async checkout(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    try {
+        if (!req.business || !req.user) throw new ForbiddenError('Auth required');
+
+        const { billId } = req.params;
+        if (!billId) throw new BadRequestError('Invalid bill ID');
+
+        const validation = checkoutSchema.safeParse(req.body);
+        if (!validation.success) throw new ZodError(validation.error.issues);
+
+        const result = await billingService.checkout(req.business.id, req.user.id, billId, validation.data, req);
+
+        logApiRequest(req, res, Date.now() - startTime);
+        res.status(201).json({ success: true, data: result });
+    } catch (error: unknown) {
+      logApiRequest(req, res, Date.now() - startTime);
+      this.handleError(res, error, 'Checkout error');
+    }
+  }
+
+  async applyCredit(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    try {
+        if (!req.business || !req.user) throw new ForbiddenError('Auth required');
+
+        const { billId } = req.params;
+        if (!billId) throw new BadRequestError('Invalid bill ID');
+
+        const validation = applyCreditSchema.safeParse(req.body);
+        if (!validation.success) throw new ZodError(validation.error.issues);
+
+        const result = await customerCreditService.applyCredit(req.business.id, req.user.id, billId, validation.data, req);
+
+        logApiRequest(req, res, Date.now() - startTime);
+        res.json({ success: true, data: result });
+    } catch (error: unknown) {
+      logApiRequest(req, res, Date.now() - startTime);
+      this.handleError(res, error, 'Apply credit error');
+    }
+  }
+
+  async refundPayment(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    try {
+        if (!req.business || !req.user) throw new ForbiddenError('Auth required');
+
+        const { paymentId } = req.params;
+        if (!paymentId) throw new BadRequestError('Invalid payment ID');
+
+        const validation = refundPaymentSchema.safeParse(req.body);
+        if (!validation.success) throw new ZodError(validation.error.issues);
+
+        const result = await billingService.refundPayment(req.business.id, req.user.id, paymentId, validation.data, req);
+
+        logApiRequest(req, res, Date.now() - startTime);
+        res.status(201).json({ success: true, data: result });
+    } catch (error: unknown) {
+      logApiRequest(req, res, Date.now() - startTime);
+      this.handleError(res, error, 'Refund payment error');
+    }
+  }
+
+  async finalizeBill(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    try {
+        if (!req.business || !req.user) throw new ForbiddenError('Auth required');
+        
+        const { billId } = req.params;
+        if (!billId) throw new BadRequestError('Invalid bill ID');
+
+        const validation = finalizeBillSchema.safeParse(req.body ?? {});
+        if (!validation.success) throw new ZodError(validation.error.issues);
+
+        const result = await billingService.finalizeBill(req.business.id, req.user.id, billId, validation.data, req);
+        
+        logApiRequest(req, res, Date.now() - startTime);
+        res.json({ success: true, data: result });
+    } catch (error: unknown) {
+      logApiRequest(req, res, Date.now() - startTime);
+      this.handleError(res, error, 'Finalize bill error');
+    }
+  }
+
+  async addServiceTemplate(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    try {
+        if (!req.business || !req.user) throw new ForbiddenError('Auth required');
+
+        const { billId } = req.params;
+        if (!billId) throw new BadRequestError('Invalid bill ID');
+
+        const validation = addServiceTemplateSchema.safeParse(req.body);
+        if (!validation.success) throw new ZodError(validation.error.issues);
+
+        const result = await billingService.addServiceTemplate(req.business.id, req.user.id, billId, validation.data, req);
+
+        logApiRequest(req, res, Date.now() - startTime);
+        res.json({ success: true, data: result });
+    } catch (error: unknown) {
+      logApiRequest(req, res, Date.now() - startTime);
+      this.handleError(res, error, 'Add service template error');
+    }
+  }
+
+  async voidBill(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    try {
+        if (!req.business || !req.user) throw new ForbiddenError('Auth required');
+        
+        const { billId } = req.params;
+        if (!billId) throw new BadRequestError('Invalid bill ID');
+
+        const validation = voidBillSchema.safeParse(req.body);
+        if (!validation.success) throw new ZodError(validation.error.issues);
+
+        const result = await billingService.voidBill(req.business.id, req.user.id, billId, validation.data, req);
+        
+        logApiRequest(req, res, Date.now() - startTime);
+        res.json({ success: true, data: result });
+    } catch (error: unknown) {
+      logApiRequest(req, res, Date.now() - startTime);
+      this.handleError(res, error, 'Void bill error');
+    }
+  }
+
+  async createReturn(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    try {
+        if (!req.business || !req.user) throw new ForbiddenError('Auth required');
+        
+        const { billId } = req.params;
+        if (!billId) throw new BadRequestError('Invalid bill ID');
+
+        const validation = billReturnSchema.safeParse(req.body);
+        if (!validation.success) throw new ZodError(validation.error.issues);
+
+        const result = await salesReturnService.createReturn(req.business.id, req.user.id, billId, validation.data, req);
+        
+        logApiRequest(req, res, Date.now() - startTime);
+        res.status(201).json({ success: true, data: result });
+    } catch (error: unknown) {
+      logApiRequest(req, res, Date.now() - startTime);
+      this.handleError(res, error, 'Create return error');
+    }
+  }
+
+  async listReturns(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    try {
+        if (!req.business) throw new ForbiddenError('Business required');
+        
+        const { billId } = req.params;
+        if (!billId) throw new BadRequestError('Invalid bill ID');
+
+        const returns = await salesReturnService.listReturns(req.business.id, billId);
+        
+        logApiRequest(req, res, Date.now() - startTime);
+        res.json({ success: true, data: returns });
+    } catch (error: unknown) {
+      logApiRequest(req, res, Date.now() - startTime);
+      this.handleError(res, error, 'List returns error');
+    }
+  }
+
+  async listRecurringBills(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    try {
+        if (!req.business) throw new ForbiddenError('Auth required');
+
+        const constructedQuery: Record<string, unknown> = { ...req.query };
+        if (req.query.page) constructedQuery.page = Number(req.query.page);
+        if (req.query.limit) constructedQuery.limit = Number(req.query.limit);
+
+        const validation = recurringBillQuerySchema.safeParse(constructedQuery);
+        if (!validation.success) throw new ZodError(validation.error.issues);
+
+        const result = await recurringBillService.listRecurringBills(req.business.id, validation.data);
+        
+        logApiRequest(req, res, Date.now() - startTime);
+        res.json({ success: true, data: result });
+    } catch (error: unknown) {
+      logApiRequest(req, res, Date.now() - startTime);
+      this.handleError(res, error, 'List recurring bills error');
+    }
+  }
+
+  async previewRecurringBill(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    try {
+        if (!req.business) throw new ForbiddenError('Business required');
+        
+        const { billId } = req.params;
+        if (!billId) throw new BadRequestError('Invalid bill ID');
+
+        const count = req.query.count ? Number(req.query.count) : undefined;
+        if (count !== undefined && (!Number.isInteger(count) || count < 1)) throw new BadRequestError('Invalid occurrence count');
+
+        const result = await recurringBillService.previewOccurrences(req.business.id, billId, count);
+        
+        logApiRequest(req, res, Date.now() - startTime);
+        res.json({ success: true, data: result });
+    } catch (error: unknown) {
+      logApiRequest(req, res, Date.now() - startTime);
+      this.handleError(res, error, 'Preview recurring bill error');
+    }
+  }
+
+  async pauseRecurringBill(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    try {
+        if (!req.business || !req.user) throw new ForbiddenError('Auth required');
+        
+        const { billId } = req.params;
+        if (!billId) throw new BadRequestError('Invalid bill ID');
+
+        const result = await recurringBillService.pauseRecurringBill(req.business.id, req.user.id, billId, req);
+        
+        logApiRequest(req, res, Date.now() - startTime);
+        res.json({ success: true, data: result });
+    } catch (error: unknown) {
+      logApiRequest(req, res, Date.now() - startTime);
+      this.handleError(res, error, 'Pause recurring bill error');
+    }
+  }
+
+  async resumeRecurringBill(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    try {
+        if (!req.business || !req.user) throw new ForbiddenError('Auth required');
+        
+        const { billId } = req.params;
+        if (!billId) throw new BadRequestError('Invalid bill ID');
+
+        const result = await recurringBillService.resumeRecurringBill(req.business.id, req.user.id, billId, req);
+        
+        logApiRequest(req, res, Date.now() - startTime);
+        res.json({ success: true, data: result });
+    } catch (error: unknown) {
+      logApiRequest(req, res, Date.now() - startTime);
+      this.handleError(res, error, 'Resume recurring bill error');
+    }
+  }
+
   async getSuggestions(req: BusinessRequest, res: Response): Promise<void> {
     const startTime = Date.now();
     try {
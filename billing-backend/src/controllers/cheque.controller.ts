@@ -0,0 +1,229 @@
+import { Response } from 'express';
+import { ChequeService } from '../services/cheque.service';
+import {
+  ChequeQueryInput,
+  DepositChequeInput,
+  ClearChequeInput,
+  BounceChequeInput,
+} from '../schemas/cheque.schema';
+import { logger, logApiRequest } from '../utils/logger';
+import { BusinessRequest } from '../middleware/auth.middleware';
+import { getErrorMessage } from '../utils/errors';
+
+const chequeService = new ChequeService();
+
+export class ChequeController {
+  async getCheques(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await chequeService.getCheques(req.business.id, req.query as unknown as ChequeQueryInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get cheques error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(500).json({
+        success: false,
+        message: getErrorMessage(error, 'Failed to get cheques'),
+      });
+    }
+  }
+
+  async getRegisterSummary(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await chequeService.getRegisterSummary(req.business.id);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get cheque register summary error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(500).json({
+        success: false,
+        message: getErrorMessage(error, 'Failed to get cheque register summary'),
+      });
+    }
+  }
+
+  async getCheque(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { paymentId } = req.params;
+      if (!paymentId) {
+        res.status(400).json({ success: false, message: 'Cheque ID is required' });
+        return;
+      }
+
+      const result = await chequeService.getCheque(req.business.id, paymentId);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get cheque error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Cheque not found');
+      res.status(message === 'Cheque not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async depositCheque(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { paymentId } = req.params;
+      if (!paymentId) {
+        res.status(400).json({ success: false, message: 'Cheque ID is required' });
+        return;
+      }
+
+      const result = await chequeService.depositCheque(req.business.id, req.user.id, paymentId, req.body as DepositChequeInput, req);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Deposit cheque error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Cheque deposit failed');
+      res.status(message === 'Cheque not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async clearCheque(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { paymentId } = req.params;
+      if (!paymentId) {
+        res.status(400).json({ success: false, message: 'Cheque ID is required' });
+        return;
+      }
+
+      const result = await chequeService.clearCheque(req.business.id, req.user.id, paymentId, req.body as ClearChequeInput, req);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Clear cheque error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Cheque clearance failed');
+      res.status(message === 'Cheque not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async bounceCheque(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { paymentId } = req.params;
+      if (!paymentId) {
+        res.status(400).json({ success: false, message: 'Cheque ID is required' });
+        return;
+      }
+
+      const result = await chequeService.bounceCheque(req.business.id, req.user.id, paymentId, req.body as BounceChequeInput, req);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Bounce cheque error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Recording the bounced cheque failed');
+      res.status(message === 'Cheque not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+}
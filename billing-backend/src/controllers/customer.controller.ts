@@ -379,4 +379,46 @@ export class CustomerController {
       });
     }
   }
-}
\ No newline at end of file
+
+  async getAvailableCredit(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      const businessId = req.user?.businessId || req.query.businessId as string;
+      const { customerId } = req.params;
+      
+      if (!businessId) {
+        res.status(400).json({
+          success: false,
+          message: 'Business ID is required',
+        });
+        return;
+      }
+
+      if (!customerId) {
+        res.status(400).json({
+          success: false,
+          message: 'Customer ID is required',
+        });
+        return;
+      }
+
+      const credit = await customerService.getAvailableCredit(businessId, customerId);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: credit,
+      });
+    } catch (error: unknown) {
+      logger.error('Get customer credit error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(400).json({
+        success: false,
+        message: getErrorMessage(error) || 'Failed to fetch customer credit',
+      });
+    }
+  }
+}
@@ -0,0 +1,367 @@
+import { Response } from 'express';
+import { LocationService } from '../services/location.service';
+import { StockTransferService } from '../services/stock-transfer.service';
+import {
+  CreateLocationInput,
+  UpdateLocationInput,
+  LocationStockQueryInput,
+  CreateStockTransferInput,
+  StockTransferQueryInput,
+  ReceiveStockTransferInput,
+  CancelStockTransferInput,
+} from '../schemas/location.schema';
+import { logger, logApiRequest } from '../utils/logger';
+import { BusinessRequest } from '../middleware/auth.middleware';
+import { getErrorMessage } from '../utils/errors';
+
+const locationService = new LocationService();
+const stockTransferService = new StockTransferService();
+
+export class LocationController {
+  async getLocations(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await locationService.getLocations(req.business.id, req.query.includeInactive === 'true');
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get locations error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(500).json({
+        success: false,
+        message: getErrorMessage(error, 'Failed to get locations'),
+      });
+    }
+  }
+
+  async createLocation(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await locationService.createLocation(req.business.id, req.body as CreateLocationInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Create location error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(400).json({
+        success: false,
+        message: getErrorMessage(error, 'Location creation failed'),
+      });
+    }
+  }
+
+  async updateLocation(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { locationId } = req.params;
+      if (!locationId) {
+        res.status(400).json({ success: false, message: 'Location ID is required' });
+        return;
+      }
+
+      const result = await locationService.updateLocation(req.business.id, locationId, req.body as UpdateLocationInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Update location error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Location update failed');
+      res.status(message === 'Location not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async getLocationStock(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await locationService.getLocationStock(req.business.id, {
+        ...(req.query as unknown as LocationStockQueryInput),
+        locationId: req.params.locationId || (req.query as unknown as LocationStockQueryInput).locationId,
+      });
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get location stock error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(500).json({
+        success: false,
+        message: getErrorMessage(error, 'Failed to get location stock'),
+      });
+    }
+  }
+
+  async getTransfers(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await stockTransferService.getTransfers(req.business.id, req.query as unknown as StockTransferQueryInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get stock transfers error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(500).json({
+        success: false,
+        message: getErrorMessage(error, 'Failed to get stock transfers'),
+      });
+    }
+  }
+
+  async createTransfer(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await stockTransferService.createTransfer(req.business.id, req.user.id, req.body as CreateStockTransferInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Create stock transfer error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(400).json({
+        success: false,
+        message: getErrorMessage(error, 'Stock transfer creation failed'),
+      });
+    }
+  }
+
+  async getTransfer(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { transferId } = req.params;
+      if (!transferId) {
+        res.status(400).json({ success: false, message: 'Stock transfer ID is required' });
+        return;
+      }
+
+      const result = await stockTransferService.getTransfer(req.business.id, transferId);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get stock transfer error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(404).json({
+        success: false,
+        message: getErrorMessage(error, 'Stock transfer not found'),
+      });
+    }
+  }
+
+  async dispatchTransfer(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { transferId } = req.params;
+      if (!transferId) {
+        res.status(400).json({ success: false, message: 'Stock transfer ID is required' });
+        return;
+      }
+
+      const result = await stockTransferService.dispatchTransfer(req.business.id, req.user.id, transferId);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Dispatch stock transfer error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Stock transfer dispatch failed');
+      res.status(message === 'Stock transfer not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async receiveTransfer(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { transferId } = req.params;
+      if (!transferId) {
+        res.status(400).json({ success: false, message: 'Stock transfer ID is required' });
+        return;
+      }
+
+      const result = await stockTransferService.receiveTransfer(req.business.id, req.user.id, transferId, req.body as ReceiveStockTransferInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Receive stock transfer error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Stock transfer receipt failed');
+      res.status(message === 'Stock transfer not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async cancelTransfer(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { transferId } = req.params;
+      if (!transferId) {
+        res.status(400).json({ success: false, message: 'Stock transfer ID is required' });
+        return;
+      }
+
+      const result = await stockTransferService.cancelTransfer(req.business.id, req.user.id, transferId, req.body as CancelStockTransferInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Cancel stock transfer error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Stock transfer cancellation failed');
+      res.status(message === 'Stock transfer not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+}
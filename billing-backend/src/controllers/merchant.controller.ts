@@ -4,7 +4,9 @@ import {
   CreateMerchantInput, 
   UpdateMerchantInput, 
   MerchantQueryInput,
-  MerchantPaymentInput 
+  MerchantPaymentInput,
+  MerchantStatementInput,
+  PayablesAgeingInput
 } from '../schemas/merchant.schema';
 import { logger, logApiRequest } from '../utils/logger';
 import { AuthenticatedRequest } from '../types/common';
@@ -281,6 +283,79 @@ export class MerchantController {
     }
   }
 
+  async getMerchantStatement(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      const businessId = req.user?.businessId || req.query.businessId as string;
+      const merchantId = req.params.merchantId;
+      if (!merchantId) {
+        res.status(400).json({ success: false, message: 'Merchant ID is required' });
+        return;
+      }
+      
+      if (!businessId) {
+        res.status(400).json({
+          success: false,
+          message: 'Business ID is required',
+        });
+        return;
+      }
+
+      const input = req.query as unknown as MerchantStatementInput;
+      const statement = await merchantService.getMerchantStatement(businessId, merchantId, input);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: statement,
+      });
+    } catch (error: unknown) {
+      logger.error('Get merchant statement error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(500).json({
+        success: false,
+        message: getErrorMessage(error) || 'Failed to generate statement',
+      });
+    }
+  }
+
+  async getPayablesAgeing(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      const businessId = req.user?.businessId || req.query.businessId as string;
+      
+      if (!businessId) {
+        res.status(400).json({
+          success: false,
+          message: 'Business ID is required',
+        });
+        return;
+      }
+
+      const input = req.query as unknown as PayablesAgeingInput;
+      const ageing = await merchantService.getPayablesAgeing(businessId, input);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: ageing,
+      });
+    } catch (error: unknown) {
+      logger.error('Get payables ageing error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(500).json({
+        success: false,
+        message: getErrorMessage(error) || 'Failed to generate payables ageing',
+      });
+    }
+  }
+
   async getMerchantStats(req: AuthenticatedRequest, res: Response): Promise<void> {
     const startTime = Date.now();
     
@@ -35,6 +35,12 @@ const transferSchema = z.object({
   notes: z.string().optional(),
 });
 
+const payBillSchema = z.object({
+  billId: z.string().uuid(),
+  amount: z.number().positive().multipleOf(0.01).optional(),
+  notes: z.string().optional(),
+});
+
 const historyQuerySchema = z.object({
   limit: z.string().regex(/^\d+$/).optional(),
   offset: z.string().regex(/^\d+$/).optional(),
@@ -60,7 +66,7 @@ export class MoneyManagementController {
       const userId = req.user.id;
       const data = depositSchema.parse(req.body);
 
-      const result = await moneyService.depositMoney(businessId, userId, data);
+      const result = await moneyService.depositMoney(businessId, userId, data, req);
 
       res.json({
         success: true,
@@ -95,7 +101,7 @@ export class MoneyManagementController {
       const userId = req.user.id;
       const data = withdrawSchema.parse(req.body);
 
-      const result = await moneyService.withdrawMoney(businessId, userId, data);
+      const result = await moneyService.withdrawMoney(businessId, userId, data, req);
 
       res.json({
         success: true,
@@ -130,7 +136,7 @@ export class MoneyManagementController {
       const userId = req.user.id;
       const data = transferSchema.parse(req.body);
 
-      const result = await moneyService.transferMoney(businessId, userId, data);
+      const result = await moneyService.transferMoney(businessId, userId, data, req);
 
       res.json({
         success: true,
@@ -148,6 +154,41 @@ export class MoneyManagementController {
     }
   }
 
+  /**
+   * Pay a bill from the customer's wallet balance
+   */
+  async payBillFromWallet(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { businessId } = req.params;
+      if (!businessId) {
+        res.status(400).json({ success: false, message: 'Business ID is required' });
+        return;
+      }
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Unauthorized' });
+        return;
+      }
+      const userId = req.user.id;
+      const data = payBillSchema.parse(req.body);
+
+      const result = await moneyService.payBillFromWallet(businessId, userId, data, req);
+
+      res.json({
+        success: true,
+        message: 'Bill paid from wallet successfully',
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error paying bill from wallet', { error });
+      res.status(400).json({
+        success: false,
+        message: 'Failed to pay bill from wallet',
+        error: getErrorMessage(error),
+      });
+    }
+  }
+
   /**
    * Get customer money history
    */
@@ -0,0 +1,337 @@
+import { Response } from 'express';
+import { PriceListService } from '../services/price-list.service';
+import {
+  CreatePriceListInput,
+  UpdatePriceListInput,
+  SetPriceListItemsInput,
+  PriceListQueryInput,
+  AssignPriceListInput,
+  PriceQuoteQueryInput,
+} from '../schemas/price-list.schema';
+import { logger, logApiRequest } from '../utils/logger';
+import { BusinessRequest } from '../middleware/auth.middleware';
+import { getErrorMessage } from '../utils/errors';
+
+const priceListService = new PriceListService();
+
+export class PriceListController {
+  async getPriceLists(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await priceListService.getPriceLists(req.business.id, req.query as unknown as PriceListQueryInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get price lists error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(500).json({
+        success: false,
+        message: getErrorMessage(error, 'Failed to get price lists'),
+      });
+    }
+  }
+
+  async createPriceList(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await priceListService.createPriceList(req.business.id, req.user.id, req.body as CreatePriceListInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Create price list error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(400).json({
+        success: false,
+        message: getErrorMessage(error, 'Price list creation failed'),
+      });
+    }
+  }
+
+  async quotePrice(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await priceListService.quote(req.business.id, req.query as unknown as PriceQuoteQueryInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Quote price error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Failed to quote price');
+      res.status(message === 'Product not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async getPriceList(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { priceListId } = req.params;
+      if (!priceListId) {
+        res.status(400).json({ success: false, message: 'Price list ID is required' });
+        return;
+      }
+
+      const result = await priceListService.getPriceList(req.business.id, priceListId);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get price list error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(404).json({
+        success: false,
+        message: getErrorMessage(error, 'Price list not found'),
+      });
+    }
+  }
+
+  async updatePriceList(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { priceListId } = req.params;
+      if (!priceListId) {
+        res.status(400).json({ success: false, message: 'Price list ID is required' });
+        return;
+      }
+
+      const result = await priceListService.updatePriceList(req.business.id, priceListId, req.body as UpdatePriceListInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Update price list error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Price list update failed');
+      res.status(message === 'Price list not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async setPriceListItems(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { priceListId } = req.params;
+      if (!priceListId) {
+        res.status(400).json({ success: false, message: 'Price list ID is required' });
+        return;
+      }
+
+      const result = await priceListService.setItems(req.business.id, priceListId, req.body as SetPriceListItemsInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Set price list items error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Price list update failed');
+      res.status(message === 'Price list not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async deletePriceList(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { priceListId } = req.params;
+      if (!priceListId) {
+        res.status(400).json({ success: false, message: 'Price list ID is required' });
+        return;
+      }
+
+      await priceListService.deletePriceList(req.business.id, priceListId);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        message: 'Price list deleted successfully',
+      });
+    } catch (error: unknown) {
+      logger.error('Delete price list error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Price list deletion failed');
+      res.status(message === 'Price list not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async assignCustomers(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { priceListId } = req.params;
+      if (!priceListId) {
+        res.status(400).json({ success: false, message: 'Price list ID is required' });
+        return;
+      }
+
+      const result = await priceListService.assignCustomers(req.business.id, priceListId, req.body as AssignPriceListInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Assign price list error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Price list assignment failed');
+      res.status(message === 'Price list not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async unassignCustomers(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { priceListId } = req.params;
+      if (!priceListId) {
+        res.status(400).json({ success: false, message: 'Price list ID is required' });
+        return;
+      }
+
+      const result = await priceListService.unassignCustomers(req.business.id, priceListId, req.body as AssignPriceListInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Unassign price list error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(400).json({
+        success: false,
+        message: getErrorMessage(error, 'Failed to remove customers from price list'),
+      });
+    }
+  }
+}
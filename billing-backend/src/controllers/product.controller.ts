@@ -1,12 +1,22 @@
 import { Response } from 'express';
 import { ProductService } from '../services/product.service';
 import { ProductImageService } from '../services/product-image.service';
+import { InventoryService } from '../services/inventory.service';
+import { BatchService } from '../services/batch.service';
+import { SerialService } from '../services/serial.service';
+import { BomService } from '../services/bom.service';
 // import { ApiAbuseService } from '../services/api-abuse.service';
 import { 
   CreateProductInput, 
   UpdateProductInput, 
   ProductQueryInput,
-  StockAdjustmentInput 
+  StockAdjustmentInput,
+  StockLedgerQueryInput,
+  ReconcileStockInput,
+  BatchQueryInput,
+  UpdateBatchInput,
+  SerialQueryInput,
+  SetBomInput
 } from '../schemas/product.schema';
 import { logger, logApiRequest } from '../utils/logger';
 import { BusinessRequest } from '../middleware/auth.middleware';
@@ -15,6 +25,10 @@ import multer from 'multer';
 
 const productService = new ProductService();
 const productImageService = new ProductImageService();
+const inventoryService = new InventoryService();
+const batchService = new BatchService();
+const serialService = new SerialService();
+const bomService = new BomService();
 // const _apiAbuseService = new ApiAbuseService();
 
 // Multer configuration for file uploads
@@ -273,6 +287,308 @@ export class ProductController {
     }
   }
 
+  async getStockLedger(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { productId } = req.params;
+      if (!productId) {
+        res.status(400).json({ success: false, message: 'Product ID is required' });
+        return;
+      }
+
+      const result = await inventoryService.getStockLedger(
+        req.business.id,
+        productId,
+        req.query as unknown as StockLedgerQueryInput
+      );
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get stock ledger error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Failed to fetch stock ledger');
+      res.status(message === 'Product not found' ? 404 : 500).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async reconcileStock(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const input = req.body as ReconcileStockInput;
+      const result = await inventoryService.reconcileStock(req.business.id, {
+        repair: input.repair,
+        performedBy: req.user.id,
+      });
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Reconcile stock error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(500).json({
+        success: false,
+        message: getErrorMessage(error, 'Stock reconciliation failed'),
+      });
+    }
+  }
+
+  async getBatches(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const query = req.query as unknown as BatchQueryInput;
+      const result = await batchService.getBatches(req.business.id, {
+        ...query,
+        productId: req.params.productId || query.productId,
+      });
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get batches error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(500).json({
+        success: false,
+        message: getErrorMessage(error, 'Failed to fetch batches'),
+      });
+    }
+  }
+
+  async updateBatch(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { batchId } = req.params;
+      if (!batchId) {
+        res.status(400).json({ success: false, message: 'Batch ID is required' });
+        return;
+      }
+
+      const batch = await batchService.updateBatch(req.business.id, batchId, req.body as UpdateBatchInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: batch,
+      });
+    } catch (error: unknown) {
+      logger.error('Update batch error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Failed to update batch');
+      res.status(message === 'Batch not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async getSerials(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { productId } = req.params;
+      if (!productId) {
+        res.status(400).json({ success: false, message: 'Product ID is required' });
+        return;
+      }
+
+      const result = await serialService.getSerials(req.business.id, productId, req.query as unknown as SerialQueryInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get serials error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(500).json({
+        success: false,
+        message: getErrorMessage(error, 'Failed to fetch serial numbers'),
+      });
+    }
+  }
+
+  async lookupSerial(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { serialNumber } = req.params;
+      if (!serialNumber) {
+        res.status(400).json({ success: false, message: 'Serial number is required' });
+        return;
+      }
+
+      const result = await serialService.lookupSerial(req.business.id, serialNumber);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Serial lookup error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Serial lookup failed');
+      res.status(message === 'Serial number not found' ? 404 : 500).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async getBom(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { productId } = req.params;
+      if (!productId) {
+        res.status(400).json({ success: false, message: 'Product ID is required' });
+        return;
+      }
+
+      const variantId = typeof req.query.variantId === 'string' ? req.query.variantId : undefined;
+      const result = await bomService.getBom(req.business.id, productId, variantId);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get BOM error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Failed to fetch bill of materials');
+      res.status(message === 'Product not found' ? 404 : 500).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async setBom(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { productId } = req.params;
+      if (!productId) {
+        res.status(400).json({ success: false, message: 'Product ID is required' });
+        return;
+      }
+
+      const result = await bomService.setBom(req.business.id, productId, req.body as SetBomInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Set BOM error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Failed to update bill of materials');
+      res.status(message === 'Product not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
   async getLowStockProducts(req: BusinessRequest, res: Response): Promise<void> {
     const startTime = Date.now();
     
@@ -825,7 +1141,8 @@ export class ProductController {
       const variant = await productService.createVariant(
         req.business.id,
         productId,
-        variantData
+        variantData,
+        req.user?.id
       );
       
       logApiRequest(req, res, Date.now() - startTime);
@@ -871,7 +1188,8 @@ export class ProductController {
         req.business.id,
         productId,
         variantId,
-        variantData
+        variantData,
+        req.user?.id
       );
       
       logApiRequest(req, res, Date.now() - startTime);
@@ -0,0 +1,190 @@
+import { Response } from 'express';
+import { ProductionService } from '../services/production.service';
+import {
+  CreateProductionOrderInput,
+  ProductionOrderQueryInput,
+  CompleteProductionOrderInput,
+  CancelProductionOrderInput,
+} from '../schemas/production.schema';
+import { logger, logApiRequest } from '../utils/logger';
+import { BusinessRequest } from '../middleware/auth.middleware';
+import { getErrorMessage } from '../utils/errors';
+
+const productionService = new ProductionService();
+
+export class ProductionController {
+  async getProductionOrders(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await productionService.getProductionOrders(req.business.id, req.query as unknown as ProductionOrderQueryInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get production orders error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(500).json({
+        success: false,
+        message: getErrorMessage(error, 'Failed to get production orders'),
+      });
+    }
+  }
+
+  async createProductionOrder(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await productionService.createProductionOrder(req.business.id, req.user.id, req.body as CreateProductionOrderInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Create production order error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(400).json({
+        success: false,
+        message: getErrorMessage(error, 'Production order creation failed'),
+      });
+    }
+  }
+
+  async getProductionOrder(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { orderId } = req.params;
+      if (!orderId) {
+        res.status(400).json({ success: false, message: 'Production order ID is required' });
+        return;
+      }
+
+      const result = await productionService.getProductionOrder(req.business.id, orderId);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get production order error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(404).json({
+        success: false,
+        message: getErrorMessage(error, 'Production order not found'),
+      });
+    }
+  }
+
+  async completeProductionOrder(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { orderId } = req.params;
+      if (!orderId) {
+        res.status(400).json({ success: false, message: 'Production order ID is required' });
+        return;
+      }
+
+      const result = await productionService.completeProductionOrder(req.business.id, req.user.id, orderId, req.body as CompleteProductionOrderInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Complete production order error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Production order completion failed');
+      res.status(message === 'Production order not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async cancelProductionOrder(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { orderId } = req.params;
+      if (!orderId) {
+        res.status(400).json({ success: false, message: 'Production order ID is required' });
+        return;
+      }
+
+      const result = await productionService.cancelProductionOrder(req.business.id, orderId, req.body as CancelProductionOrderInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Cancel production order error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Production order cancellation failed');
+      res.status(message === 'Production order not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+}
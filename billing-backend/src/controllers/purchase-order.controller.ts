@@ -0,0 +1,367 @@
+import { Response } from 'express';
+import { PurchaseOrderService } from '../services/purchase-order.service';
+import { ReplenishmentService } from '../services/replenishment.service';
+import {
+  CreatePurchaseOrderInput,
+  UpdatePurchaseOrderInput,
+  PurchaseOrderQueryInput,
+  SendPurchaseOrderInput,
+  CancelPurchaseOrderInput,
+  GoodsReceiptInput,
+  ReorderSuggestionQueryInput,
+  ConfirmReorderInput,
+} from '../schemas/purchase-order.schema';
+import { logger, logApiRequest } from '../utils/logger';
+import { BusinessRequest } from '../middleware/auth.middleware';
+import { getErrorMessage } from '../utils/errors';
+
+const purchaseOrderService = new PurchaseOrderService();
+const replenishmentService = new ReplenishmentService();
+
+export class PurchaseOrderController {
+  async createPurchaseOrder(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await purchaseOrderService.createPurchaseOrder(req.business.id, req.user.id, req.body as CreatePurchaseOrderInput, req);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Create purchase order error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(400).json({
+        success: false,
+        message: getErrorMessage(error, 'Purchase order creation failed'),
+      });
+    }
+  }
+
+  async getPurchaseOrders(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await purchaseOrderService.getPurchaseOrders(req.business.id, req.query as unknown as PurchaseOrderQueryInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get purchase orders error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(500).json({
+        success: false,
+        message: getErrorMessage(error, 'Failed to get purchase orders'),
+      });
+    }
+  }
+
+  async getPurchaseOrder(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { orderId } = req.params;
+      if (!orderId) {
+        res.status(400).json({ success: false, message: 'Purchase order ID is required' });
+        return;
+      }
+
+      const result = await purchaseOrderService.getPurchaseOrder(req.business.id, orderId);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get purchase order error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(404).json({
+        success: false,
+        message: getErrorMessage(error, 'Purchase order not found'),
+      });
+    }
+  }
+
+  async updatePurchaseOrder(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { orderId } = req.params;
+      if (!orderId) {
+        res.status(400).json({ success: false, message: 'Purchase order ID is required' });
+        return;
+      }
+
+      const result = await purchaseOrderService.updatePurchaseOrder(req.business.id, req.user.id, orderId, req.body as UpdatePurchaseOrderInput, req);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Update purchase order error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(400).json({
+        success: false,
+        message: getErrorMessage(error, 'Purchase order update failed'),
+      });
+    }
+  }
+
+  async deletePurchaseOrder(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { orderId } = req.params;
+      if (!orderId) {
+        res.status(400).json({ success: false, message: 'Purchase order ID is required' });
+        return;
+      }
+
+      const result = await purchaseOrderService.deletePurchaseOrder(req.business.id, req.user.id, orderId, req);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Delete purchase order error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(400).json({
+        success: false,
+        message: getErrorMessage(error, 'Purchase order deletion failed'),
+      });
+    }
+  }
+
+  async sendPurchaseOrder(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { orderId } = req.params;
+      if (!orderId) {
+        res.status(400).json({ success: false, message: 'Purchase order ID is required' });
+        return;
+      }
+
+      const result = await purchaseOrderService.sendPurchaseOrder(req.business.id, req.user.id, orderId, req.body as SendPurchaseOrderInput, req);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Send purchase order error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(400).json({
+        success: false,
+        message: getErrorMessage(error, 'Failed to send purchase order'),
+      });
+    }
+  }
+
+  async cancelPurchaseOrder(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { orderId } = req.params;
+      if (!orderId) {
+        res.status(400).json({ success: false, message: 'Purchase order ID is required' });
+        return;
+      }
+
+      const result = await purchaseOrderService.cancelPurchaseOrder(req.business.id, req.user.id, orderId, req.body as CancelPurchaseOrderInput, req);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Cancel purchase order error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(400).json({
+        success: false,
+        message: getErrorMessage(error, 'Purchase order cancellation failed'),
+      });
+    }
+  }
+
+  async receiveGoods(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { orderId } = req.params;
+      if (!orderId) {
+        res.status(400).json({ success: false, message: 'Purchase order ID is required' });
+        return;
+      }
+
+      const result = await purchaseOrderService.receiveGoods(req.business.id, req.user.id, orderId, req.body as GoodsReceiptInput, req);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Receive goods error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(400).json({
+        success: false,
+        message: getErrorMessage(error, 'Goods receipt failed'),
+      });
+    }
+  }
+
+  async getReorderSuggestions(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await replenishmentService.getReorderSuggestions(req.business.id, req.query as unknown as ReorderSuggestionQueryInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get reorder suggestions error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(500).json({
+        success: false,
+        message: getErrorMessage(error, 'Failed to generate reorder suggestions'),
+      });
+    }
+  }
+
+  async confirmReorderSuggestions(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await replenishmentService.createDraftPurchaseOrders(req.business.id, req.user.id, req.body as ConfirmReorderInput, req);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Confirm reorder suggestions error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(400).json({
+        success: false,
+        message: getErrorMessage(error, 'Failed to create purchase orders'),
+      });
+    }
+  }
+}
@@ -6,7 +6,8 @@ import { logger, logApiRequest } from '../utils/logger';
 import { getErrorMessage, AppError, BadRequestError, ForbiddenError, NotFoundError } from '../utils/app-errors';
 import { db } from '../config/database';
 import { products, qrCodes, productVariants } from '../models/drizzle/schema';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, or } from 'drizzle-orm';
+import { resolveVariantPrice } from '../utils/billing';
 import { ZodError } from 'zod';
 
 const qrService = new QrService();
@@ -126,6 +127,7 @@ export class QrController {
                 type: 'BATCH_QR',
                 product: qrEntry.product,
                 variant: qrEntry.variant,
+                price: resolveVariantPrice(qrEntry.product, qrEntry.variant),
                 qrInfo: qrEntry.qr
             }
         });
@@ -152,6 +154,7 @@ export class QrController {
             data: {
                 type: 'PRODUCT_DIRECT_QR',
                 product: productEntry,
+                price: resolveVariantPrice(productEntry),
             }
          });
          return;
@@ -175,6 +178,37 @@ export class QrController {
             data: {
                 type: 'BARCODE_MATCH',
                 product: barcodeMatch,
+                price: resolveVariantPrice(barcodeMatch),
+            }
+         });
+         return;
+      }
+
+      // 4. Fallback: Variant barcode or SKU, priced and stocked at the variant
+      const [variantMatch] = await db
+        .select({
+            product: products,
+            variant: productVariants
+        })
+        .from(productVariants)
+        .innerJoin(products, eq(productVariants.productId, products.id))
+        .where(
+            and(
+                eq(products.businessId, req.business.id),
+                eq(productVariants.isActive, true),
+                or(eq(productVariants.barcode, code), eq(productVariants.sku, code))
+            )
+        )
+        .limit(1);
+
+      if (variantMatch) {
+         res.json({
+            success: true,
+            data: {
+                type: 'VARIANT_BARCODE_MATCH',
+                product: variantMatch.product,
+                variant: variantMatch.variant,
+                price: resolveVariantPrice(variantMatch.product, variantMatch.variant),
             }
          });
          return;
@@ -1,10 +1,15 @@
 import { Response } from 'express';
 import { BusinessRequest } from '../middleware/auth.middleware';
 import { ReportService } from '../services/report.service';
+import { GstReturnService, GstReturnWarning } from '../services/gst-return.service';
+import { SalesSummaryService } from '../services/sales-summary.service';
 import { AuditService } from '../services/audit.service';
+import { Sheet, sheetToCsv, sheetsToExcelXml } from '../utils/spreadsheet';
 import { z } from 'zod';
 
 const reportService = new ReportService();
+const gstReturnService = new GstReturnService();
+const salesSummaryService = new SalesSummaryService();
 const auditService = new AuditService();
 
 // Schema for date range queries
@@ -15,6 +20,56 @@ const dateRangeSchema = z.object({
   limit: z.string().transform(Number).optional().default('5'),
 });
 
+// Schema for GST return exports
+const gstReturnSchema = z.object({
+  period: z.string().regex(/^(0[1-9]|1[0-2])\d{4}$/, 'Period must be in MMYYYY format'),
+  format: z.enum(['json', 'offline', 'excel', 'csv']).optional().default('json'),
+  section: z.string().optional(), // Sheet to export when format is csv
+});
+
+// Schema for the daily sales summary
+const dailySalesSchema = z.object({
+  date: z.string().datetime().optional(), // Any time on the day; defaults to today
+});
+
+type GstReturnFormat = z.infer<typeof gstReturnSchema>['format'];
+
+// Send a prepared return in the requested format; warnings travel in a header or sheet for file downloads
+function sendGstReturn(
+  res: Response,
+  fileBase: string,
+  exportFormat: GstReturnFormat,
+  section: string | undefined,
+  payload: { return: unknown; warnings: GstReturnWarning[] },
+  sheets: Sheet[]
+): Response {
+  res.setHeader('X-GST-Warnings', String(payload.warnings.length));
+
+  if (exportFormat === 'offline') {
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileBase}.json"`);
+    return res.status(200).send(JSON.stringify(payload.return));
+  }
+
+  if (exportFormat === 'excel') {
+    res.setHeader('Content-Type', 'application/vnd.ms-excel');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileBase}.xls"`);
+    return res.status(200).send(sheetsToExcelXml(sheets));
+  }
+
+  if (exportFormat === 'csv') {
+    const sheet = sheets.find(s => s.name === section);
+    if (!sheet) {
+      return res.status(400).json({ success: false, message: `section must be one of: ${sheets.map(s => s.name).join(', ')}` });
+    }
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileBase}_${sheet.name.replace(/[^a-zA-Z0-9]+/g, '_')}.csv"`);
+    return res.status(200).send(sheetToCsv(sheet));
+  }
+
+  return res.status(200).json({ success: true, data: payload });
+}
+
 export class ReportController {
 
   async getSalesReport(req: BusinessRequest, res: Response): Promise<Response | unknown> {
@@ -48,6 +103,28 @@ export class ReportController {
     }
   }
 
+  async getDailySalesSummary(req: BusinessRequest, res: Response): Promise<Response | unknown> {
+    try {
+      const businessId = req.business?.id;
+      if (!businessId) {
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const validation = dailySalesSchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ success: false, message: 'Validation failed', errors: validation.error.errors });
+      }
+
+      const date = validation.data.date ? new Date(validation.data.date) : new Date();
+      const summary = await salesSummaryService.getDailySummary(businessId, date);
+
+      return res.status(200).json({ success: true, data: summary });
+    } catch (error) {
+      console.error('Error fetching daily sales summary:', error);
+      return res.status(500).json({ success: false, message: 'Failed to fetch daily sales summary' });
+    }
+  }
+
   async getTopSellingProducts(req: BusinessRequest, res: Response): Promise<Response | unknown> {
       try {
       const businessId = req.business?.id;
@@ -171,4 +248,72 @@ export class ReportController {
       return res.status(500).json({ success: false, message: 'Failed to fetch tax report' });
     }
   }
+
+  async getGstr1(req: BusinessRequest, res: Response): Promise<Response | unknown> {
+    try {
+      const businessId = req.business?.id;
+      const user = req.user;
+
+      if (!businessId || !user) {
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const validation = gstReturnSchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ success: false, message: 'Validation failed', errors: validation.error.errors });
+      }
+      const { period, format, section } = validation.data;
+
+      const report = await gstReturnService.getGstr1(businessId, period);
+
+      await auditService.logAction({
+        businessId: businessId,
+        userId: user.id,
+        action: 'EXPORT_GSTR1',
+        entityType: 'REPORT',
+        entityId: 'GSTR1',
+        metadata: { period, format }
+      });
+
+      const sheets = [...gstReturnService.buildGstr1Sheets(report.return), gstReturnService.buildWarningSheet(report.warnings)];
+      return sendGstReturn(res, `GSTR1_${period}`, format, section, report, sheets);
+    } catch (error) {
+      console.error('Error preparing GSTR-1:', error);
+      return res.status(500).json({ success: false, message: 'Failed to prepare GSTR-1' });
+    }
+  }
+
+  async getGstr3b(req: BusinessRequest, res: Response): Promise<Response | unknown> {
+    try {
+      const businessId = req.business?.id;
+      const user = req.user;
+
+      if (!businessId || !user) {
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const validation = gstReturnSchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ success: false, message: 'Validation failed', errors: validation.error.errors });
+      }
+      const { period, format, section } = validation.data;
+
+      const report = await gstReturnService.getGstr3b(businessId, period);
+
+      await auditService.logAction({
+        businessId: businessId,
+        userId: user.id,
+        action: 'EXPORT_GSTR3B',
+        entityType: 'REPORT',
+        entityId: 'GSTR3B',
+        metadata: { period, format }
+      });
+
+      const sheets = [...gstReturnService.buildGstr3bSheets(report.return), gstReturnService.buildWarningSheet(report.warnings)];
+      return sendGstReturn(res, `GSTR3B_${period}`, format, section, report, sheets);
+    } catch (error) {
+      console.error('Error preparing GSTR-3B:', error);
+      return res.status(500).json({ success: false, message: 'Failed to prepare GSTR-3B' });
+    }
+  }
 }
@@ -0,0 +1,228 @@
+import { Response } from 'express';
+import { ServiceTemplateService } from '../services/service-template.service';
+import {
+  CreateServiceTemplateInput,
+  UpdateServiceTemplateInput,
+  ServiceTemplateQueryInput,
+  ServiceTemplateUsageInput,
+} from '../schemas/service-template.schema';
+import { logger, logApiRequest } from '../utils/logger';
+import { BusinessRequest } from '../middleware/auth.middleware';
+import { getErrorMessage } from '../utils/errors';
+
+const serviceTemplateService = new ServiceTemplateService();
+
+export class ServiceTemplateController {
+  async getTemplates(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await serviceTemplateService.getTemplates(req.business.id, req.query as unknown as ServiceTemplateQueryInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get service templates error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(500).json({
+        success: false,
+        message: getErrorMessage(error, 'Failed to get service templates'),
+      });
+    }
+  }
+
+  async createTemplate(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await serviceTemplateService.createTemplate(req.business.id, req.body as CreateServiceTemplateInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Create service template error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(400).json({
+        success: false,
+        message: getErrorMessage(error, 'Service template creation failed'),
+      });
+    }
+  }
+
+  async getTemplate(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { templateId } = req.params;
+      if (!templateId) {
+        res.status(400).json({ success: false, message: 'Service template ID is required' });
+        return;
+      }
+
+      const result = await serviceTemplateService.getTemplate(req.business.id, templateId);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get service template error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(404).json({
+        success: false,
+        message: getErrorMessage(error, 'Service template not found'),
+      });
+    }
+  }
+
+  async updateTemplate(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { templateId } = req.params;
+      if (!templateId) {
+        res.status(400).json({ success: false, message: 'Service template ID is required' });
+        return;
+      }
+
+      const result = await serviceTemplateService.updateTemplate(req.business.id, templateId, req.body as UpdateServiceTemplateInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Update service template error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Service template update failed');
+      res.status(message === 'Service template not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async deleteTemplate(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { templateId } = req.params;
+      if (!templateId) {
+        res.status(400).json({ success: false, message: 'Service template ID is required' });
+        return;
+      }
+
+      await serviceTemplateService.deleteTemplate(req.business.id, templateId);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        message: 'Service template deleted successfully',
+      });
+    } catch (error: unknown) {
+      logger.error('Delete service template error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Service template deletion failed');
+      res.status(message === 'Service template not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async expandTemplate(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { templateId } = req.params;
+      if (!templateId) {
+        res.status(400).json({ success: false, message: 'Service template ID is required' });
+        return;
+      }
+
+      const result = await serviceTemplateService.expandTemplate(req.business.id, templateId, req.body as ServiceTemplateUsageInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Expand service template error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Service template expansion failed');
+      res.status(message === 'Service template not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+}
@@ -0,0 +1,307 @@
+import { Response } from 'express';
+import { StocktakeService } from '../services/stocktake.service';
+import {
+  CreateStocktakeInput,
+  StocktakeQueryInput,
+  SubmitStocktakeCountsInput,
+  StocktakeVarianceQueryInput,
+  StocktakeCountQueryInput,
+  ApproveStocktakeInput,
+  CancelStocktakeInput,
+} from '../schemas/stocktake.schema';
+import { logger, logApiRequest } from '../utils/logger';
+import { BusinessRequest } from '../middleware/auth.middleware';
+import { getErrorMessage } from '../utils/errors';
+
+const stocktakeService = new StocktakeService();
+
+export class StocktakeController {
+  async getStocktakes(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await stocktakeService.getStocktakes(req.business.id, req.query as unknown as StocktakeQueryInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get stocktakes error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(500).json({
+        success: false,
+        message: getErrorMessage(error, 'Failed to get stocktakes'),
+      });
+    }
+  }
+
+  async createStocktake(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const result = await stocktakeService.createStocktake(req.business.id, req.user.id, req.body as CreateStocktakeInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Create stocktake error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(400).json({
+        success: false,
+        message: getErrorMessage(error, 'Stocktake creation failed'),
+      });
+    }
+  }
+
+  async getStocktake(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { stocktakeId } = req.params;
+      if (!stocktakeId) {
+        res.status(400).json({ success: false, message: 'Stocktake ID is required' });
+        return;
+      }
+
+      const result = await stocktakeService.getStocktake(req.business.id, stocktakeId);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get stocktake error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.status(404).json({
+        success: false,
+        message: getErrorMessage(error, 'Stocktake not found'),
+      });
+    }
+  }
+
+  async submitCounts(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { stocktakeId } = req.params;
+      if (!stocktakeId) {
+        res.status(400).json({ success: false, message: 'Stocktake ID is required' });
+        return;
+      }
+
+      const result = await stocktakeService.submitCounts(req.business.id, req.user.id, stocktakeId, req.body as SubmitStocktakeCountsInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Submit stocktake counts error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Failed to submit counts');
+      res.status(message === 'Stocktake not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async getVarianceReport(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { stocktakeId } = req.params;
+      if (!stocktakeId) {
+        res.status(400).json({ success: false, message: 'Stocktake ID is required' });
+        return;
+      }
+
+      const result = await stocktakeService.getVarianceReport(req.business.id, stocktakeId, req.query as unknown as StocktakeVarianceQueryInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get stocktake variance error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Failed to get variance report');
+      res.status(message === 'Stocktake not found' ? 404 : 500).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async getCounts(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { stocktakeId } = req.params;
+      if (!stocktakeId) {
+        res.status(400).json({ success: false, message: 'Stocktake ID is required' });
+        return;
+      }
+
+      const result = await stocktakeService.getCounts(req.business.id, stocktakeId, req.query as unknown as StocktakeCountQueryInput);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Get stocktake counts error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Failed to get stocktake counts');
+      res.status(message === 'Stocktake not found' ? 404 : 500).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async approveStocktake(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { stocktakeId } = req.params;
+      if (!stocktakeId) {
+        res.status(400).json({ success: false, message: 'Stocktake ID is required' });
+        return;
+      }
+
+      const result = await stocktakeService.approveStocktake(req.business.id, req.user.id, stocktakeId, req.body as ApproveStocktakeInput, req);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Approve stocktake error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Stocktake approval failed');
+      res.status(message === 'Stocktake not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  async cancelStocktake(req: BusinessRequest, res: Response): Promise<void> {
+    const startTime = Date.now();
+    
+    try {
+      if (!req.business || !req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Business authentication required',
+        });
+        return;
+      }
+
+      const { stocktakeId } = req.params;
+      if (!stocktakeId) {
+        res.status(400).json({ success: false, message: 'Stocktake ID is required' });
+        return;
+      }
+
+      const result = await stocktakeService.cancelStocktake(req.business.id, req.user.id, stocktakeId, req.body as CancelStocktakeInput, req);
+      
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: unknown) {
+      logger.error('Cancel stocktake error:', error);
+      logApiRequest(req, res, Date.now() - startTime);
+      
+      const message = getErrorMessage(error, 'Stocktake cancellation failed');
+      res.status(message === 'Stocktake not found' ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+}
@@ -17,6 +17,13 @@ import { adminRoutes } from './routes/admin.routes';
 import { businessRoutes } from './routes/business.routes';
 import { customerRoutes } from './routes/customer.routes';
 import { merchantRoutes } from './routes/merchant.routes';
+import { purchaseOrderRoutes } from './routes/purchase-order.routes';
+import { locationRoutes } from './routes/location.routes';
+import { stocktakeRoutes } from './routes/stocktake.routes';
+import { productionRoutes } from './routes/production.routes';
+import { serviceTemplateRoutes } from './routes/service-template.routes';
+import { priceListRoutes } from './routes/price-list.routes';
+import { chequeRoutes } from './routes/cheque.routes';
 import { productRoutes } from './routes/product.routes';
 import { billingRoutes } from './routes/billing.routes';
 import { dashboardRoutes } from './routes/dashboard.routes';
@@ -95,6 +102,13 @@ app.use('/api/admin', adminRoutes);
 app.use('/api/business', businessRoutes);
 app.use('/api/customers', customerRoutes);
 app.use('/api/merchants', merchantRoutes);
+app.use('/api/purchase-orders', purchaseOrderRoutes);
+app.use('/api/locations', locationRoutes);
+app.use('/api/stocktakes', stocktakeRoutes);
+app.use('/api/production-orders', productionRoutes);
+app.use('/api/service-templates', serviceTemplateRoutes);
+app.use('/api/price-lists', priceListRoutes);
+app.use('/api/cheques', chequeRoutes);
 app.use('/api/products', productRoutes);
 app.use('/api/billing', billingRoutes);
 app.use('/api/dashboard', dashboardRoutes);
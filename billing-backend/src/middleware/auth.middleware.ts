@@ -244,6 +244,8 @@ export const authorizeBusinessAccess = async (
       ownerId: business.ownerId
     };
     req.user.businessId = businessId;
+    req.user.staffId = staffMember.id;
+    req.user.locationId = staffMember.locationId ?? undefined;
 
     // Fetch permissions for Staff
     try {
@@ -283,7 +285,7 @@ export const authorizePermission = (resource: string, action: string) => {
     }
 
     try {
-      const permission = `${resource}:${action}` as Permission;
+      const permission = `${resource}_${action}` as Permission;
       const hasAccess = await permissionService.hasPermission(
         req.user.id, 
         req.business.id, 
@@ -293,7 +295,7 @@ export const authorizePermission = (resource: string, action: string) => {
       if (!hasAccess) {
         res.status(403).json({
           success: false,
-          message: `Access denied. Required permission: ${resource}:${action}`,
+          message: `Access denied. Required permission: ${permission}`,
         });
         return;
       }
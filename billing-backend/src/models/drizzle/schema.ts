@@ -6,8 +6,9 @@ export const userRoleEnum = pgEnum('user_role', ['SUPER_ADMIN', 'RETAIL_OWNER',
 export const userStatusEnum = pgEnum('user_status', ['ACTIVE', 'INACTIVE', 'SUSPENDED', 'PENDING', 'DELETED']);
 export const billingStatusEnum = pgEnum('billing_status', ['DRAFT', 'PENDING', 'PAID', 'PARTIAL', 'OVERDUE', 'CANCELLED', 'VOID']);
 export const approvalStatusEnum = pgEnum('approval_status', ['NOT_REQUIRED', 'PENDING', 'APPROVED', 'REJECTED', 'CANCELLED']);
-export const paymentMethodEnum = pgEnum('payment_method', ['CASH', 'CARD', 'UPI', 'BANK_TRANSFER', 'CHEQUE', 'DIGITAL_WALLET', 'NET_BANKING', 'OTHER']);
+export const paymentMethodEnum = pgEnum('payment_method', ['CASH', 'CARD', 'UPI', 'BANK_TRANSFER', 'CHEQUE', 'DIGITAL_WALLET', 'NET_BANKING', 'WALLET', 'OTHER']); // WALLET is the customer's store wallet
 export const paymentStatusEnum = pgEnum('payment_status', ['PENDING', 'COMPLETED', 'FAILED', 'REFUNDED', 'CANCELLED', 'PROCESSING']);
+export const chequeStatusEnum = pgEnum('cheque_status', ['RECEIVED', 'DEPOSITED', 'CLEARED', 'BOUNCED']);
 export const productUnitEnum = pgEnum('product_unit', [
   'KG', 'GRAM', 'LITER', 'MILLILITER', 'PIECE', 'DOZEN', 'METER', 'FEET', 
   'BOX', 'BUNDLE', 'INCH', 'YARD', 'HOUR', 'DAY', 'SERVICE', 'NOT_APPLICABLE', 'TON', 'QUINTAL'
@@ -37,6 +38,14 @@ export const businessTypeEnum = pgEnum('business_type', [
   'RETAIL', 'WHOLESALE', 'SERVICE', 'MANUFACTURING', 'WORKSHOP', 'HYBRID', 'RESTAURANT', 'ECOMMERCE'
 ]);
 export const inventoryMethodEnum = pgEnum('inventory_method', ['FIFO', 'LIFO', 'AVERAGE', 'SPECIFIC', 'NONE']);
+export const batchStatusEnum = pgEnum('batch_status', ['ACTIVE', 'NEAR_EXPIRY', 'EXPIRED', 'DEPLETED']);
+export const serialStatusEnum = pgEnum('serial_status', ['IN_STOCK', 'IN_TRANSIT', 'SOLD', 'WRITTEN_OFF']);
+export const locationTypeEnum = pgEnum('location_type', ['STORE', 'WAREHOUSE']);
+export const stockTransferStatusEnum = pgEnum('stock_transfer_status', ['DRAFT', 'IN_TRANSIT', 'RECEIVED', 'CANCELLED']);
+export const stocktakeStatusEnum = pgEnum('stocktake_status', ['COUNTING', 'APPROVED', 'CANCELLED']);
+export const productionOrderStatusEnum = pgEnum('production_order_status', ['PLANNED', 'COMPLETED', 'CANCELLED']);
+export const priceBasisEnum = pgEnum('price_basis', ['SELLING_PRICE', 'WHOLESALE_PRICE', 'MRP']);
+export const creditApplicationEnum = pgEnum('credit_application', ['AUTO', 'PROMPT', 'NEVER']);
 export const recurringFrequencyEnum = pgEnum('recurring_frequency', ['DAILY', 'WEEKLY', 'BIWEEKLY', 'MONTHLY', 'QUARTERLY', 'YEARLY']);
 export const analyticsGranularityEnum = pgEnum('analytics_granularity', ['HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'QUARTERLY', 'YEARLY']);
 
@@ -142,6 +151,7 @@ export const bills = pgTable('bills', {
   id: uuid('id').primaryKey().defaultRandom(),
   businessId: uuid('business_id').notNull().references(() => retailBusinesses.id, { onDelete: 'cascade' }),
   customerId: uuid('customer_id').references(() => customers.id, { onDelete: 'restrict' }),
+  locationId: uuid('location_id').references((): AnyPgColumn => storeLocations.id, { onDelete: 'set null' }), // Store the sale was billed from
   
   billNumber: varchar('bill_number', { length: 100 }).notNull(),
   billType: varchar('bill_type', { length: 50 }).notNull().default('SALE'),
@@ -156,11 +166,16 @@ export const bills = pgTable('bills', {
   discountAmount: decimal('discount_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
   discountPercent: decimal('discount_percent', { precision: 5, scale: 2 }).default('0.00'),
   taxAmount: decimal('tax_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
+  cgstAmount: decimal('cgst_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
+  sgstAmount: decimal('sgst_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
+  igstAmount: decimal('igst_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
+  cessAmount: decimal('cess_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
   shippingCost: decimal('shipping_cost', { precision: 15, scale: 2 }).notNull().default('0.00'),
   adjustmentAmount: decimal('adjustment_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
   roundOffAmount: decimal('round_off_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
   totalAmount: decimal('total_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
   paidAmount: decimal('paid_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
+  creditedAmount: decimal('credited_amount', { precision: 15, scale: 2 }).notNull().default('0.00'), // Credit notes applied against the bill
   balanceAmount: decimal('balance_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
   
   // Payment
@@ -171,6 +186,11 @@ export const bills = pgTable('bills', {
   billingAddress: jsonb('billing_address'),
   shippingAddress: jsonb('shipping_address'),
   
+  // GST
+  placeOfSupply: varchar('place_of_supply', { length: 2 }), // GST state code
+  supplyType: varchar('supply_type', { length: 20 }).notNull().default('INTRA_STATE'), // INTRA_STATE, INTER_STATE
+  taxInclusive: boolean('tax_inclusive').notNull().default(false),
+  
   notes: text('notes'),
   internalNotes: text('internal_notes'),
   terms: text('terms'),
@@ -184,6 +204,8 @@ export const bills = pgTable('bills', {
   rejectedBy: uuid('rejected_by').references(() => users.id, { onDelete: 'set null' }),
   rejectedAt: timestamp('rejected_at'),
   rejectionReason: text('rejection_reason'),
+  finalizedAt: timestamp('finalized_at'),
+  finalizedBy: uuid('finalized_by').references(() => users.id, { onDelete: 'set null' }),
   
   // Messaging
   whatsappSent: boolean('whatsapp_sent').notNull().default(false),
@@ -197,6 +219,12 @@ export const bills = pgTable('bills', {
   isRecurring: boolean('is_recurring').notNull().default(false),
   recurringFrequency: recurringFrequencyEnum('recurring_frequency'),
   parentBillId: uuid('parent_bill_id').references((): AnyPgColumn => bills.id, { onDelete: 'set null' }),
+  nextRecurringDate: timestamp('next_recurring_date'),
+  recurringEndDate: timestamp('recurring_end_date'),
+  recurringMaxOccurrences: integer('recurring_max_occurrences'),
+  recurringOccurrenceCount: integer('recurring_occurrence_count').notNull().default(0),
+  recurringPaused: boolean('recurring_paused').notNull().default(false),
+  recurringAutoSend: boolean('recurring_auto_send').notNull().default(false),
   
   voidedAt: timestamp('voided_at'),
   voidedBy: uuid('voided_by').references(() => users.id, { onDelete: 'set null' }),
@@ -217,6 +245,8 @@ export const bills = pgTable('bills', {
   paymentStatusIdx: index('bills_payment_status_idx').on(table.paymentStatus),
   createdByIdx: index('bills_created_by_idx').on(table.createdBy),
   balanceAmountIdx: index('bills_balance_amount_idx').on(table.balanceAmount),
+  nextRecurringDateIdx: index('bills_next_recurring_date_idx').on(table.nextRecurringDate),
+  parentBillIdx: index('bills_parent_bill_idx').on(table.parentBillId),
   deletedAtIdx: index('bills_deleted_at_idx').on(table.deletedAt),
 }));
 
@@ -247,7 +277,7 @@ export const billHistory = pgTable('bill_history', {
   id: uuid('id').primaryKey().defaultRandom(),
   billId: uuid('bill_id').notNull().references(() => bills.id, { onDelete: 'cascade' }),
   
-  action: varchar('action', { length: 50 }).notNull(), // CREATED, UPDATED, STATUS_CHANGED, FINALIZED, VOIDED, DELETED, DUPLICATED, SENT
+  action: varchar('action', { length: 50 }).notNull(), // CREATED, UPDATED, STATUS_CHANGED, FINALIZED, VOIDED, DELETED, DUPLICATED, SENT, PAYMENT_REFUNDED, CREDIT_APPLIED
   performedBy: uuid('performed_by').references(() => users.id, { onDelete: 'set null' }),
   
   // Change details
@@ -284,6 +314,8 @@ export const billItems = pgTable('bill_items', {
   billId: uuid('bill_id').notNull().references(() => bills.id, { onDelete: 'cascade' }),
   productId: uuid('product_id').references(() => products.id, { onDelete: 'set null' }),
   variantId: uuid('variant_id').references(() => productVariants.id, { onDelete: 'set null' }),
+  batchId: uuid('batch_id').references((): AnyPgColumn => productBatches.id, { onDelete: 'set null' }), // Chosen batch; FEFO when empty
+  serialNumbers: jsonb('serial_numbers'), // Units sold on this line for serialised products
   
   itemType: varchar('item_type', { length: 50 }).notNull().default('PRODUCT'),
   productName: varchar('product_name', { length: 255 }).notNull(),
@@ -300,9 +332,19 @@ export const billItems = pgTable('bill_items', {
   discountAmount: decimal('discount_amount', { precision: 15, scale: 2 }).default('0.00'),
   
   taxPercent: decimal('tax_percent', { precision: 5, scale: 2 }).default('0.00'),
-  taxAmount: decimal('tax_amount', { precision: 15, scale: 2 }).default('0.00'),
-  
-  subtotal: decimal('subtotal', { precision: 15, scale: 2 }).notNull(),
+  taxAmount: decimal('tax_amount', { precision: 15, scale: 2 }).default('0.00'), // GST plus cess
+  
+  // GST split of taxAmount
+  cgstRate: decimal('cgst_rate', { precision: 5, scale: 2 }).default('0.00'),
+  cgstAmount: decimal('cgst_amount', { precision: 15, scale: 2 }).default('0.00'),
+  sgstRate: decimal('sgst_rate', { precision: 5, scale: 2 }).default('0.00'),
+  sgstAmount: decimal('sgst_amount', { precision: 15, scale: 2 }).default('0.00'),
+  igstRate: decimal('igst_rate', { precision: 5, scale: 2 }).default('0.00'),
+  igstAmount: decimal('igst_amount', { precision: 15, scale: 2 }).default('0.00'),
+  cessPercent: decimal('cess_percent', { precision: 5, scale: 2 }).default('0.00'),
+  cessAmount: decimal('cess_amount', { precision: 15, scale: 2 }).default('0.00'),
+  
+  subtotal: decimal('subtotal', { precision: 15, scale: 2 }).notNull(), // Taxable value after discount
   totalAmount: decimal('total_amount', { precision: 15, scale: 2 }).notNull(),
   
   // Cost tracking for profitability
@@ -318,6 +360,74 @@ export const billItems = pgTable('bill_items', {
   productIdx: index('bill_items_product_idx').on(table.productId),
 }));
 
+// ==================== CREDIT NOTES & SALES RETURNS ====================
+
+export const creditNotes = pgTable('credit_notes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  businessId: uuid('business_id').notNull().references(() => retailBusinesses.id, { onDelete: 'cascade' }),
+  billId: uuid('bill_id').notNull().references(() => bills.id, { onDelete: 'restrict' }),
+  customerId: uuid('customer_id').references(() => customers.id, { onDelete: 'restrict' }),
+
+  creditNoteNumber: varchar('credit_note_number', { length: 100 }).notNull(),
+  creditNoteDate: timestamp('credit_note_date').notNull(),
+  noteType: varchar('note_type', { length: 50 }).notNull().default('SALES_RETURN'), // SALES_RETURN, PRICE_ADJUSTMENT
+  status: varchar('status', { length: 50 }).notNull().default('ISSUED'), // ISSUED, CANCELLED
+  reason: text('reason'),
+
+  // Amounts
+  subtotal: decimal('subtotal', { precision: 15, scale: 2 }).notNull().default('0.00'),
+  discountAmount: decimal('discount_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
+  taxAmount: decimal('tax_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
+  totalAmount: decimal('total_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
+
+  // Settlement
+  settlementMode: varchar('settlement_mode', { length: 50 }).notNull().default('ADJUST_BALANCE'), // ADJUST_BALANCE, WALLET_CREDIT
+  appliedToBillAmount: decimal('applied_to_bill_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
+  walletCreditAmount: decimal('wallet_credit_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
+  refundDueAmount: decimal('refund_due_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
+
+  notes: text('notes'),
+  createdBy: uuid('created_by').notNull().references(() => users.id, { onDelete: 'restrict' }),
+
+  metadata: jsonb('metadata'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  businessNumberIdx: unique('credit_notes_business_number_idx').on(table.businessId, table.creditNoteNumber),
+  businessIdx: index('credit_notes_business_idx').on(table.businessId),
+  billIdx: index('credit_notes_bill_idx').on(table.billId),
+  customerIdx: index('credit_notes_customer_idx').on(table.customerId),
+  creditNoteDateIdx: index('credit_notes_date_idx').on(table.creditNoteDate),
+}));
+
+export const creditNoteItems = pgTable('credit_note_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  creditNoteId: uuid('credit_note_id').notNull().references(() => creditNotes.id, { onDelete: 'cascade' }),
+  billItemId: uuid('bill_item_id').references(() => billItems.id, { onDelete: 'set null' }),
+  productId: uuid('product_id').references(() => products.id, { onDelete: 'set null' }),
+  variantId: uuid('variant_id').references(() => productVariants.id, { onDelete: 'set null' }),
+
+  productName: varchar('product_name', { length: 255 }).notNull(),
+  unit: productUnitEnum('unit').notNull(),
+  quantity: decimal('quantity', { precision: 10, scale: 2 }).notNull(),
+  rate: decimal('rate', { precision: 15, scale: 2 }).notNull(),
+
+  discountAmount: decimal('discount_amount', { precision: 15, scale: 2 }).default('0.00'),
+  taxPercent: decimal('tax_percent', { precision: 5, scale: 2 }).default('0.00'),
+  taxAmount: decimal('tax_amount', { precision: 15, scale: 2 }).default('0.00'),
+  subtotal: decimal('subtotal', { precision: 15, scale: 2 }).notNull(),
+  totalAmount: decimal('total_amount', { precision: 15, scale: 2 }).notNull(),
+
+  restocked: boolean('restocked').notNull().default(false),
+  notes: text('notes'),
+  metadata: jsonb('metadata'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  creditNoteIdx: index('credit_note_items_credit_note_idx').on(table.creditNoteId),
+  billItemIdx: index('credit_note_items_bill_item_idx').on(table.billItemId),
+  productIdx: index('credit_note_items_product_idx').on(table.productId),
+}));
+
 // ==================== PAYMENTS ====================
 
 export const payments = pgTable('payments', {
@@ -331,6 +441,7 @@ export const payments = pgTable('payments', {
   amount: decimal('amount', { precision: 15, scale: 2 }).notNull(),
   allocatedAmount: decimal('allocated_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
   unallocatedAmount: decimal('unallocated_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
+  refundedAmount: decimal('refunded_amount', { precision: 15, scale: 2 }).notNull().default('0.00'), // Paid back to the customer; each refund is a REFUND money transaction
   
   method: paymentMethodEnum('method').notNull(),
   status: paymentStatusEnum('status').notNull().default('PENDING'),
@@ -341,11 +452,24 @@ export const payments = pgTable('payments', {
   bankName: varchar('bank_name', { length: 255 }),
   chequeNumber: varchar('cheque_number', { length: 100 }),
   chequeDate: timestamp('cheque_date'),
+  // Cheques stay PROCESSING until cleared; a bounce reverses their allocations
+  chequeStatus: chequeStatusEnum('cheque_status'),
+  chequeDepositedAt: timestamp('cheque_deposited_at'),
+  chequeDepositAccount: varchar('cheque_deposit_account', { length: 255 }),
+  chequeClearedAt: timestamp('cheque_cleared_at'),
+  chequeBouncedAt: timestamp('cheque_bounced_at'),
+  chequeBounceReason: text('cheque_bounce_reason'),
+  chequeBounceCharge: decimal('cheque_bounce_charge', { precision: 15, scale: 2 }),
   
   upiId: varchar('upi_id', { length: 255 }),
   cardLast4: varchar('card_last4', { length: 4 }),
   cardBrand: varchar('card_brand', { length: 50 }),
   
+  // Split tender: payments taken together at one checkout share a group; cash records what was handed over
+  tenderGroupId: uuid('tender_group_id'),
+  tenderedAmount: decimal('tendered_amount', { precision: 15, scale: 2 }),
+  changeAmount: decimal('change_amount', { precision: 15, scale: 2 }),
+  
   notes: text('notes'),
   internalNotes: text('internal_notes'),
   receiptUrl: text('receipt_url'),
@@ -365,6 +489,8 @@ export const payments = pgTable('payments', {
   statusIdx: index('payments_status_idx').on(table.status),
   methodIdx: index('payments_method_idx').on(table.method),
   paymentDateIdx: index('payments_payment_date_idx').on(table.paymentDate),
+  tenderGroupIdx: index('payments_tender_group_idx').on(table.tenderGroupId),
+  chequeStatusIdx: index('payments_cheque_status_idx').on(table.chequeStatus),
   deletedAtIdx: index('payments_deleted_at_idx').on(table.deletedAt),
 }));
 
@@ -379,6 +505,10 @@ export const paymentAllocations = pgTable('payment_allocations', {
   
   allocationDate: timestamp('allocation_date').notNull().defaultNow(),
   allocationOrder: integer('allocation_order').notNull().default(1), // Order of allocation
+  status: varchar('status', { length: 50 }).notNull().default('ACTIVE'), // ACTIVE, REVERSED
+  reversedAt: timestamp('reversed_at'),
+  reversedBy: uuid('reversed_by').references(() => users.id, { onDelete: 'set null' }),
+  reversalReason: text('reversal_reason'),
   notes: text('notes'),
   metadata: jsonb('metadata'),
   
@@ -407,7 +537,13 @@ export const dailySalesSummary = pgTable('daily_sales_summary', {
   cashSales: decimal('cash_sales', { precision: 15, scale: 2 }).notNull().default('0.00'),
   cardSales: decimal('card_sales', { precision: 15, scale: 2 }).notNull().default('0.00'),
   upiSales: decimal('upi_sales', { precision: 15, scale: 2 }).notNull().default('0.00'),
+  walletSales: decimal('wallet_sales', { precision: 15, scale: 2 }).notNull().default('0.00'),
+  chequeSales: decimal('cheque_sales', { precision: 15, scale: 2 }).notNull().default('0.00'),
+  bankSales: decimal('bank_sales', { precision: 15, scale: 2 }).notNull().default('0.00'), // Bank transfer and net banking
+  otherSales: decimal('other_sales', { precision: 15, scale: 2 }).notNull().default('0.00'),
   creditSales: decimal('credit_sales', { precision: 15, scale: 2 }).notNull().default('0.00'),
+  changeGiven: decimal('change_given', { precision: 15, scale: 2 }).notNull().default('0.00'),
+  splitTenderBills: integer('split_tender_bills').notNull().default(0), // Bills paid with more than one method
   
   // Customer metrics
   newCustomers: integer('new_customers').notNull().default(0),
@@ -418,7 +554,7 @@ export const dailySalesSummary = pgTable('daily_sales_summary', {
   highestBillAmount: decimal('highest_bill_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
   lowestBillAmount: decimal('lowest_bill_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
   
-  metadata: jsonb('metadata'),
+  metadata: jsonb('metadata'), // { tenderMix: [{ billId, billNumber, tenders: { CASH: 200, UPI: 150 } }] }
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 }, (table) => ({
@@ -688,6 +824,7 @@ export const retailBusinesses = pgTable('retail_businesses', {
   billPrefix: varchar('bill_prefix', { length: 20 }).default('INV'),
   billNumberFormat: varchar('bill_number_format', { length: 50 }).default('{PREFIX}-{YEAR}-{NUMBER}'),
   nextBillNumber: integer('next_bill_number').notNull().default(1),
+  creditApplication: creditApplicationEnum('credit_application').notNull().default('PROMPT'), // Customer advances and wallet on finalized bills: applied, offered, or left alone
   
   // Pricing & tax settings
   defaultTaxRate: decimal('default_tax_rate', { precision: 5, scale: 2 }).default('0.00'),
@@ -767,6 +904,46 @@ export const retailBusinesses = pgTable('retail_businesses', {
   deletedAtIdx: index('retail_businesses_deleted_at_idx').on(table.deletedAt),
 }));
 
+// Per-business document number counters; one row per document type and reset period
+export const documentSequences = pgTable('document_sequences', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  businessId: uuid('business_id').notNull().references(() => retailBusinesses.id, { onDelete: 'cascade' }),
+  documentType: varchar('document_type', { length: 50 }).notNull(), // BILL, PAYMENT, CREDIT_NOTE, DEBIT_NOTE, CUSTOMER, MERCHANT, PURCHASE_ORDER, MERCHANT_PAYMENT, GOODS_RECEIPT, STOCK_TRANSFER, STOCKTAKE, PRODUCTION_ORDER
+  period: varchar('period', { length: 20 }).notNull().default(''), // '' (never reset), 2026, 2026-27, 2026-04
+  nextNumber: integer('next_number').notNull().default(1),
+  lastAllocated: varchar('last_allocated', { length: 100 }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  businessTypePeriodIdx: unique('document_sequences_business_type_period_idx').on(table.businessId, table.documentType, table.period),
+  businessIdx: index('document_sequences_business_idx').on(table.businessId),
+}));
+
+// ==================== STORE LOCATIONS ====================
+
+// Shops and warehouses of a business; stock is held per location in location_stock
+export const storeLocations = pgTable('store_locations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  businessId: uuid('business_id').notNull().references(() => retailBusinesses.id, { onDelete: 'cascade' }),
+  
+  code: varchar('code', { length: 20 }).notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  locationType: locationTypeEnum('location_type').notNull().default('STORE'),
+  
+  address: jsonb('address'),
+  phone: varchar('phone', { length: 20 }),
+  
+  isDefault: boolean('is_default').notNull().default(false), // Stock movements without a location land here
+  isActive: boolean('is_active').notNull().default(true),
+  
+  notes: text('notes'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  businessCodeIdx: unique('store_locations_business_code_idx').on(table.businessId, table.code),
+  businessIdx: index('store_locations_business_idx').on(table.businessId),
+}));
+
 // ==================== BUSINESS STAFF ====================
 
 export const businessStaff = pgTable('business_staff', {
@@ -774,6 +951,7 @@ export const businessStaff = pgTable('business_staff', {
   businessId: uuid('business_id').notNull().references(() => retailBusinesses.id, { onDelete: 'cascade' }),
   userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   roleId: uuid('role_id').references(() => roles.id, { onDelete: 'set null' }),
+  locationId: uuid('location_id').references(() => storeLocations.id, { onDelete: 'set null' }), // Assigned store; bills only from here. Null = all locations
   position: varchar('position', { length: 100 }),
   department: varchar('department', { length: 100 }),
   employeeCode: varchar('employee_code', { length: 50 }),
@@ -882,6 +1060,7 @@ export const customers = pgTable('customers', {
   customFields: jsonb('custom_fields'),
   source: varchar('source', { length: 100 }),
   referredBy: uuid('referred_by').references((): AnyPgColumn => customers.id, { onDelete: 'set null' }),
+  priceListId: uuid('price_list_id').references((): AnyPgColumn => priceLists.id, { onDelete: 'set null' }), // Prices this customer (or their group) is billed at
   
   // Purchase behavior
   lastPurchaseDate: timestamp('last_purchase_date'),
@@ -1087,6 +1266,7 @@ export const products = pgTable('products', {
   
   // Tax
   taxPercent: decimal('tax_percent', { precision: 5, scale: 2 }).default('0.00'),
+  cessPercent: decimal('cess_percent', { precision: 5, scale: 2 }).default('0.00'),
   hsnCode: varchar('hsn_code', { length: 50 }),
   sacCode: varchar('sac_code', { length: 50 }),
   isTaxable: boolean('is_taxable').notNull().default(true),
@@ -1098,6 +1278,10 @@ export const products = pgTable('products', {
   maximumStock: decimal('maximum_stock', { precision: 10, scale: 2 }),
   reorderPoint: decimal('reorder_point', { precision: 10, scale: 2 }),
   reorderQuantity: decimal('reorder_quantity', { precision: 10, scale: 2 }),
+  tracksBatches: boolean('tracks_batches').notNull().default(false), // Batch numbers and expiry dates on every receipt
+  nearExpiryDays: integer('near_expiry_days'), // Days before expiry a batch is flagged; defaults to 30
+  tracksSerials: boolean('tracks_serials').notNull().default(false), // Every unit carries a serial/IMEI
+  warrantyMonths: integer('warranty_months'), // Warranty from the date of sale
   
   // Identification
   barcode: varchar('barcode', { length: 255 }),
@@ -1241,6 +1425,68 @@ export const productVariants = pgTable('product_variants', {
   isActiveIdx: index('product_variants_is_active_idx').on(table.isActive),
 }));
 
+// Bill of materials: what one unit of a product (or one of its variants) is made from
+export const productComponents = pgTable('product_components', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  businessId: uuid('business_id').notNull().references(() => retailBusinesses.id, { onDelete: 'cascade' }),
+  productId: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  variantId: uuid('variant_id').references(() => productVariants.id, { onDelete: 'cascade' }), // Variant-specific BOM; null applies to all variants
+  
+  componentProductId: uuid('component_product_id').notNull().references(() => products.id, { onDelete: 'restrict' }),
+  componentVariantId: uuid('component_variant_id').references(() => productVariants.id, { onDelete: 'restrict' }),
+  quantity: decimal('quantity', { precision: 10, scale: 3 }).notNull(), // Per unit of the parent
+  
+  notes: text('notes'),
+  sortOrder: integer('sort_order').default(0),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  productIdx: index('product_components_product_idx').on(table.productId),
+  componentIdx: index('product_components_component_idx').on(table.componentProductId),
+}));
+
+// Named price lists (retail, wholesale, a customer group) assigned to customers; the default list applies to everyone else
+export const priceLists = pgTable('price_lists', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  businessId: uuid('business_id').notNull().references(() => retailBusinesses.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description'),
+  
+  // Products without an entry on the list sell at this product price, adjusted by the percentage
+  priceBasis: priceBasisEnum('price_basis').notNull().default('SELLING_PRICE'),
+  adjustmentPercent: decimal('adjustment_percent', { precision: 5, scale: 2 }).notNull().default('0.00'), // -10 = 10% below the basis
+  
+  isDefault: boolean('is_default').notNull().default(false),
+  validFrom: timestamp('valid_from'),
+  validTo: timestamp('valid_to'),
+  isActive: boolean('is_active').notNull().default(true),
+  
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  businessNameIdx: unique('price_lists_business_name_idx').on(table.businessId, table.name),
+  businessIdx: index('price_lists_business_idx').on(table.businessId),
+}));
+
+// Prices on a list; several rows for one product form quantity breaks
+export const priceListItems = pgTable('price_list_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  priceListId: uuid('price_list_id').notNull().references(() => priceLists.id, { onDelete: 'cascade' }),
+  productId: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  variantId: uuid('variant_id').references(() => productVariants.id, { onDelete: 'cascade' }), // Null applies to all variants
+  
+  minQuantity: decimal('min_quantity', { precision: 10, scale: 2 }).notNull().default('1.00'), // Price applies from this quantity up
+  price: decimal('price', { precision: 15, scale: 2 }).notNull(),
+  validFrom: timestamp('valid_from'),
+  validTo: timestamp('valid_to'),
+  
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  listProductIdx: index('price_list_items_list_product_idx').on(table.priceListId, table.productId),
+}));
+
 export const productImages = pgTable('product_images', {
   id: uuid('id').primaryKey().defaultRandom(),
   productId: uuid('product_id').references(() => products.id, { onDelete: 'cascade' }),
@@ -1343,6 +1589,7 @@ export const stockMovements = pgTable('stock_movements', {
   businessId: uuid('business_id').notNull().references(() => retailBusinesses.id, { onDelete: 'cascade' }),
   productId: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
   variantId: uuid('variant_id').references(() => productVariants.id, { onDelete: 'set null' }),
+  locationId: uuid('location_id').references(() => storeLocations.id, { onDelete: 'set null' }),
   
   movementType: stockMovementTypeEnum('movement_type').notNull(),
   quantity: decimal('quantity', { precision: 10, scale: 2 }).notNull(),
@@ -1376,9 +1623,308 @@ export const stockMovements = pgTable('stock_movements', {
   variantIdx: index('stock_movements_variant_idx').on(table.variantId),
   movementTypeIdx: index('stock_movements_type_idx').on(table.movementType),
   billIdx: index('stock_movements_bill_idx').on(table.billId),
+  locationIdx: index('stock_movements_location_idx').on(table.locationId),
   movementDateIdx: index('stock_movements_date_idx').on(table.movementDate),
 }));
 
+// Batches (lots) of perishable stock with manufacture and expiry dates; quantity is what is still on hand
+export const productBatches = pgTable('product_batches', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  businessId: uuid('business_id').notNull().references(() => retailBusinesses.id, { onDelete: 'cascade' }),
+  productId: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  variantId: uuid('variant_id').references(() => productVariants.id, { onDelete: 'set null' }),
+  
+  batchNumber: varchar('batch_number', { length: 100 }).notNull(),
+  manufactureDate: timestamp('manufacture_date'),
+  expiryDate: timestamp('expiry_date'),
+  
+  receivedQuantity: decimal('received_quantity', { precision: 10, scale: 2 }).notNull().default('0.00'),
+  quantity: decimal('quantity', { precision: 10, scale: 2 }).notNull().default('0.00'),
+  status: batchStatusEnum('status').notNull().default('ACTIVE'),
+  
+  notes: text('notes'),
+  metadata: jsonb('metadata'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  productBatchIdx: unique('product_batches_product_batch_idx').on(table.productId, table.variantId, table.batchNumber),
+  businessIdx: index('product_batches_business_idx').on(table.businessId),
+  productIdx: index('product_batches_product_idx').on(table.productId),
+  expiryDateIdx: index('product_batches_expiry_date_idx').on(table.expiryDate),
+  statusIdx: index('product_batches_status_idx').on(table.status),
+}));
+
+// Quantity each stock movement took from or put into a batch, signed like the movement
+export const stockMovementBatches = pgTable('stock_movement_batches', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  movementId: uuid('movement_id').notNull().references(() => stockMovements.id, { onDelete: 'cascade' }),
+  batchId: uuid('batch_id').notNull().references(() => productBatches.id, { onDelete: 'cascade' }),
+  billItemId: uuid('bill_item_id').references(() => billItems.id, { onDelete: 'set null' }),
+  quantity: decimal('quantity', { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  movementIdx: index('stock_movement_batches_movement_idx').on(table.movementId),
+  batchIdx: index('stock_movement_batches_batch_idx').on(table.batchId),
+  billItemIdx: index('stock_movement_batches_bill_item_idx').on(table.billItemId),
+}));
+
+// Serialised units (serial numbers, IMEIs); the current sale is kept on the row, earlier history in stock_movement_serials
+export const productSerials = pgTable('product_serials', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  businessId: uuid('business_id').notNull().references(() => retailBusinesses.id, { onDelete: 'cascade' }),
+  productId: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  variantId: uuid('variant_id').references(() => productVariants.id, { onDelete: 'set null' }),
+  
+  serialNumber: varchar('serial_number', { length: 100 }).notNull(),
+  status: serialStatusEnum('status').notNull().default('IN_STOCK'),
+  locationId: uuid('location_id').references(() => storeLocations.id, { onDelete: 'set null' }), // Where the unit is held
+  
+  // Inward
+  purchaseOrderId: uuid('purchase_order_id').references((): AnyPgColumn => purchaseOrders.id, { onDelete: 'set null' }),
+  receivedAt: timestamp('received_at'),
+  unitCost: decimal('unit_cost', { precision: 15, scale: 2 }),
+  
+  // Current sale
+  billId: uuid('bill_id').references(() => bills.id, { onDelete: 'set null' }),
+  billItemId: uuid('bill_item_id').references(() => billItems.id, { onDelete: 'set null' }),
+  customerId: uuid('customer_id').references(() => customers.id, { onDelete: 'set null' }),
+  soldAt: timestamp('sold_at'),
+  warrantyExpiresAt: timestamp('warranty_expires_at'),
+  
+  notes: text('notes'),
+  metadata: jsonb('metadata'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  productSerialIdx: unique('product_serials_product_serial_idx').on(table.productId, table.serialNumber),
+  businessIdx: index('product_serials_business_idx').on(table.businessId),
+  serialNumberIdx: index('product_serials_serial_number_idx').on(table.serialNumber),
+  statusIdx: index('product_serials_status_idx').on(table.status),
+  billItemIdx: index('product_serials_bill_item_idx').on(table.billItemId),
+}));
+
+// Serials each stock movement moved in or out
+export const stockMovementSerials = pgTable('stock_movement_serials', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  movementId: uuid('movement_id').notNull().references(() => stockMovements.id, { onDelete: 'cascade' }),
+  serialId: uuid('serial_id').notNull().references(() => productSerials.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  movementIdx: index('stock_movement_serials_movement_idx').on(table.movementId),
+  serialIdx: index('stock_movement_serials_serial_idx').on(table.serialId),
+}));
+
+// Purchase cost layers: every inward movement opens a layer, outward movements draw it down per the business's inventory method
+export const inventoryCostLayers = pgTable('inventory_cost_layers', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  businessId: uuid('business_id').notNull().references(() => retailBusinesses.id, { onDelete: 'cascade' }),
+  productId: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  variantId: uuid('variant_id').references(() => productVariants.id, { onDelete: 'set null' }),
+  sourceMovementId: uuid('source_movement_id').references(() => stockMovements.id, { onDelete: 'set null' }),
+  
+  layerDate: timestamp('layer_date').notNull().defaultNow(),
+  originalQuantity: decimal('original_quantity', { precision: 10, scale: 2 }).notNull(),
+  remainingQuantity: decimal('remaining_quantity', { precision: 10, scale: 2 }).notNull(),
+  unitCost: decimal('unit_cost', { precision: 15, scale: 2 }).notNull(),
+  
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  businessIdx: index('inventory_cost_layers_business_idx').on(table.businessId),
+  productIdx: index('inventory_cost_layers_product_idx').on(table.productId),
+  variantIdx: index('inventory_cost_layers_variant_idx').on(table.variantId),
+  layerDateIdx: index('inventory_cost_layers_date_idx').on(table.layerDate),
+}));
+
+// Quantity drawn from a layer by an outward movement; negative rows put quantity back (returns restore the layers they came from)
+export const inventoryCostLayerConsumptions = pgTable('inventory_cost_layer_consumptions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  layerId: uuid('layer_id').notNull().references(() => inventoryCostLayers.id, { onDelete: 'cascade' }),
+  movementId: uuid('movement_id').notNull().references(() => stockMovements.id, { onDelete: 'cascade' }),
+  billItemId: uuid('bill_item_id').references(() => billItems.id, { onDelete: 'set null' }),
+  quantity: decimal('quantity', { precision: 10, scale: 2 }).notNull(),
+  unitCost: decimal('unit_cost', { precision: 15, scale: 2 }).notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  layerIdx: index('inventory_cost_layer_consumptions_layer_idx').on(table.layerId),
+  movementIdx: index('inventory_cost_layer_consumptions_movement_idx').on(table.movementId),
+  billItemIdx: index('inventory_cost_layer_consumptions_bill_item_idx').on(table.billItemId),
+}));
+
+// Stock on hand per location; a product's (or variant's) stock is the sum across its locations
+export const locationStock = pgTable('location_stock', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  businessId: uuid('business_id').notNull().references(() => retailBusinesses.id, { onDelete: 'cascade' }),
+  locationId: uuid('location_id').notNull().references(() => storeLocations.id, { onDelete: 'cascade' }),
+  productId: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  variantId: uuid('variant_id').references(() => productVariants.id, { onDelete: 'cascade' }),
+  quantity: decimal('quantity', { precision: 10, scale: 2 }).notNull().default('0.00'),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  locationProductIdx: unique('location_stock_location_product_variant_idx').on(table.locationId, table.productId, table.variantId),
+  productIdx: index('location_stock_product_idx').on(table.productId),
+}));
+
+// Transfer documents moving stock between locations: dispatched stock leaves the source and is in transit until received
+export const stockTransfers = pgTable('stock_transfers', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  businessId: uuid('business_id').notNull().references(() => retailBusinesses.id, { onDelete: 'cascade' }),
+  transferNumber: varchar('transfer_number', { length: 100 }).notNull(),
+  
+  fromLocationId: uuid('from_location_id').notNull().references(() => storeLocations.id, { onDelete: 'restrict' }),
+  toLocationId: uuid('to_location_id').notNull().references(() => storeLocations.id, { onDelete: 'restrict' }),
+  status: stockTransferStatusEnum('status').notNull().default('DRAFT'),
+  
+  dispatchedAt: timestamp('dispatched_at'),
+  dispatchedBy: uuid('dispatched_by').references(() => users.id, { onDelete: 'set null' }),
+  receivedAt: timestamp('received_at'),
+  receivedBy: uuid('received_by').references(() => users.id, { onDelete: 'set null' }),
+  
+  notes: text('notes'),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  businessTransferNumberIdx: unique('stock_transfers_business_transfer_number_idx').on(table.businessId, table.transferNumber),
+  businessIdx: index('stock_transfers_business_idx').on(table.businessId),
+  statusIdx: index('stock_transfers_status_idx').on(table.status),
+}));
+
+export const stockTransferItems = pgTable('stock_transfer_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  transferId: uuid('transfer_id').notNull().references(() => stockTransfers.id, { onDelete: 'cascade' }),
+  productId: uuid('product_id').notNull().references(() => products.id, { onDelete: 'restrict' }),
+  variantId: uuid('variant_id').references(() => productVariants.id, { onDelete: 'set null' }),
+  
+  quantity: decimal('quantity', { precision: 10, scale: 2 }).notNull(),
+  unitCost: decimal('unit_cost', { precision: 15, scale: 2 }), // Cost the stock left the source at
+  serialNumbers: jsonb('serial_numbers'),
+  
+  dispatchMovementId: uuid('dispatch_movement_id').references(() => stockMovements.id, { onDelete: 'set null' }),
+  receiptMovementId: uuid('receipt_movement_id').references(() => stockMovements.id, { onDelete: 'set null' }),
+  
+  notes: text('notes'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  transferIdx: index('stock_transfer_items_transfer_idx').on(table.transferId),
+}));
+
+// ==================== STOCKTAKES ====================
+
+export const stocktakes = pgTable('stocktakes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  businessId: uuid('business_id').notNull().references(() => retailBusinesses.id, { onDelete: 'cascade' }),
+  stocktakeNumber: varchar('stocktake_number', { length: 100 }).notNull(),
+  
+  // Scope of the count
+  locationId: uuid('location_id').references(() => storeLocations.id, { onDelete: 'restrict' }),
+  categoryId: uuid('category_id').references(() => productCategories.id, { onDelete: 'set null' }),
+  status: stocktakeStatusEnum('status').notNull().default('COUNTING'),
+  snapshotAt: timestamp('snapshot_at').notNull().defaultNow(), // Expected quantities are frozen at this moment
+  
+  approvedAt: timestamp('approved_at'),
+  approvedBy: uuid('approved_by').references(() => users.id, { onDelete: 'set null' }),
+  cancelledAt: timestamp('cancelled_at'),
+  
+  notes: text('notes'),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  businessStocktakeNumberIdx: unique('stocktakes_business_stocktake_number_idx').on(table.businessId, table.stocktakeNumber),
+  businessIdx: index('stocktakes_business_idx').on(table.businessId),
+  statusIdx: index('stocktakes_status_idx').on(table.status),
+}));
+
+export const stocktakeItems = pgTable('stocktake_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  stocktakeId: uuid('stocktake_id').notNull().references(() => stocktakes.id, { onDelete: 'cascade' }),
+  productId: uuid('product_id').notNull().references(() => products.id, { onDelete: 'restrict' }),
+  variantId: uuid('variant_id').references(() => productVariants.id, { onDelete: 'set null' }),
+  
+  expectedQuantity: decimal('expected_quantity', { precision: 10, scale: 2 }).notNull(),
+  countedQuantity: decimal('counted_quantity', { precision: 10, scale: 2 }), // Null until someone counts it
+  unitCost: decimal('unit_cost', { precision: 15, scale: 2 }), // Cost at snapshot, used to value the variance
+  
+  // Ledger movements posted on approval (serialised items may have a write-off and a found movement)
+  adjustmentMovementIds: jsonb('adjustment_movement_ids'),
+  
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  stocktakeIdx: index('stocktake_items_stocktake_idx').on(table.stocktakeId),
+  productIdx: index('stocktake_items_product_idx').on(table.productId),
+}));
+
+// Every count submitted, kept as the audit trail of who counted what
+export const stocktakeCounts = pgTable('stocktake_counts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  stocktakeId: uuid('stocktake_id').notNull().references(() => stocktakes.id, { onDelete: 'cascade' }),
+  stocktakeItemId: uuid('stocktake_item_id').notNull().references(() => stocktakeItems.id, { onDelete: 'cascade' }),
+  
+  quantity: decimal('quantity', { precision: 10, scale: 2 }).notNull(), // Added to the item's count; negative corrects a miscount
+  scannedCode: varchar('scanned_code', { length: 255 }), // Barcode, SKU or product code the count was scanned with
+  serialNumber: varchar('serial_number', { length: 100 }),
+  
+  countedBy: uuid('counted_by').references(() => users.id, { onDelete: 'set null' }),
+  countedAt: timestamp('counted_at').notNull().defaultNow(),
+}, (table) => ({
+  stocktakeIdx: index('stocktake_counts_stocktake_idx').on(table.stocktakeId),
+  itemIdx: index('stocktake_counts_item_idx').on(table.stocktakeItemId),
+}));
+
+// ==================== PRODUCTION ORDERS ====================
+
+export const productionOrders = pgTable('production_orders', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  businessId: uuid('business_id').notNull().references(() => retailBusinesses.id, { onDelete: 'cascade' }),
+  orderNumber: varchar('order_number', { length: 100 }).notNull(),
+  
+  // Finished good being made
+  productId: uuid('product_id').notNull().references(() => products.id, { onDelete: 'restrict' }),
+  variantId: uuid('variant_id').references(() => productVariants.id, { onDelete: 'set null' }),
+  locationId: uuid('location_id').references(() => storeLocations.id, { onDelete: 'restrict' }),
+  
+  plannedQuantity: decimal('planned_quantity', { precision: 10, scale: 2 }).notNull(),
+  producedQuantity: decimal('produced_quantity', { precision: 10, scale: 2 }),
+  status: productionOrderStatusEnum('status').notNull().default('PLANNED'),
+  
+  // Costs, known on completion
+  materialCost: decimal('material_cost', { precision: 15, scale: 2 }),
+  additionalCost: decimal('additional_cost', { precision: 15, scale: 2 }).default('0.00'), // Labour and overheads
+  unitCost: decimal('unit_cost', { precision: 15, scale: 2 }),
+  outputMovementId: uuid('output_movement_id').references(() => stockMovements.id, { onDelete: 'set null' }),
+  
+  completedAt: timestamp('completed_at'),
+  completedBy: uuid('completed_by').references(() => users.id, { onDelete: 'set null' }),
+  
+  notes: text('notes'),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  businessOrderNumberIdx: unique('production_orders_business_order_number_idx').on(table.businessId, table.orderNumber),
+  businessIdx: index('production_orders_business_idx').on(table.businessId),
+  productIdx: index('production_orders_product_idx').on(table.productId),
+  statusIdx: index('production_orders_status_idx').on(table.status),
+}));
+
+export const productionOrderComponents = pgTable('production_order_components', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  productionOrderId: uuid('production_order_id').notNull().references(() => productionOrders.id, { onDelete: 'cascade' }),
+  productId: uuid('product_id').notNull().references(() => products.id, { onDelete: 'restrict' }),
+  variantId: uuid('variant_id').references(() => productVariants.id, { onDelete: 'set null' }),
+  
+  plannedQuantity: decimal('planned_quantity', { precision: 10, scale: 3 }).notNull(),
+  consumedQuantity: decimal('consumed_quantity', { precision: 10, scale: 3 }),
+  unitCost: decimal('unit_cost', { precision: 15, scale: 2 }),
+  movementId: uuid('movement_id').references(() => stockMovements.id, { onDelete: 'set null' }),
+  
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  orderIdx: index('production_order_components_order_idx').on(table.productionOrderId),
+}));
+
 // ==================== MONEY TRANSACTIONS ====================
 
 export const moneyTransactions = pgTable('money_transactions', {
@@ -1439,7 +1985,7 @@ export const walletTransactions = pgTable('wallet_transactions', {
   businessId: uuid('business_id').notNull().references(() => retailBusinesses.id, { onDelete: 'cascade' }),
   customerId: uuid('customer_id').notNull().references(() => customers.id, { onDelete: 'cascade' }),
   
-  transactionType: varchar('transaction_type', { length: 50 }).notNull(), // DEPOSIT, WITHDRAWAL, USED_IN_BILL, REFUND
+  transactionType: varchar('transaction_type', { length: 50 }).notNull(), // DEPOSIT, WITHDRAWAL, TRANSFER_IN, TRANSFER_OUT, USED_IN_BILL, REFUND
   amount: decimal('amount', { precision: 15, scale: 2 }).notNull(),
   
   // Balance tracking
@@ -1555,6 +2101,7 @@ export const purchaseOrders = pgTable('purchase_orders', {
   id: uuid('id').primaryKey().defaultRandom(),
   businessId: uuid('business_id').notNull().references(() => retailBusinesses.id, { onDelete: 'cascade' }),
   merchantId: uuid('merchant_id').notNull().references(() => merchants.id, { onDelete: 'restrict' }),
+  locationId: uuid('location_id').references(() => storeLocations.id, { onDelete: 'set null' }), // Delivery location; receipts go into its stock
   
   orderNumber: varchar('order_number', { length: 100 }).notNull(),
   orderDate: timestamp('order_date').notNull().defaultNow(),
@@ -1625,6 +2172,105 @@ export const purchaseOrderItems = pgTable('purchase_order_items', {
   productIdx: index('purchase_order_items_product_idx').on(table.productId),
 }));
 
+// Goods receipt notes: one per delivery against a purchase order
+export const goodsReceipts = pgTable('goods_receipts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  businessId: uuid('business_id').notNull().references(() => retailBusinesses.id, { onDelete: 'cascade' }),
+  purchaseOrderId: uuid('purchase_order_id').notNull().references(() => purchaseOrders.id, { onDelete: 'restrict' }),
+  
+  receiptNumber: varchar('receipt_number', { length: 100 }).notNull(),
+  receivedDate: timestamp('received_date').notNull().defaultNow(),
+  
+  supplierInvoiceNumber: varchar('supplier_invoice_number', { length: 100 }),
+  totalQuantity: decimal('total_quantity', { precision: 10, scale: 2 }).notNull().default('0.00'),
+  totalCost: decimal('total_cost', { precision: 15, scale: 2 }).notNull().default('0.00'),
+  
+  notes: text('notes'),
+  receivedBy: uuid('received_by').notNull().references(() => users.id, { onDelete: 'restrict' }),
+  
+  metadata: jsonb('metadata'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  businessReceiptNumberIdx: unique('goods_receipts_business_receipt_number_idx').on(table.businessId, table.receiptNumber),
+  businessIdx: index('goods_receipts_business_idx').on(table.businessId),
+  orderIdx: index('goods_receipts_order_idx').on(table.purchaseOrderId),
+}));
+
+export const goodsReceiptItems = pgTable('goods_receipt_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  goodsReceiptId: uuid('goods_receipt_id').notNull().references(() => goodsReceipts.id, { onDelete: 'cascade' }),
+  purchaseOrderItemId: uuid('purchase_order_item_id').notNull().references(() => purchaseOrderItems.id, { onDelete: 'restrict' }),
+  productId: uuid('product_id').notNull().references(() => products.id, { onDelete: 'restrict' }),
+  variantId: uuid('variant_id').references(() => productVariants.id, { onDelete: 'set null' }),
+  
+  quantity: decimal('quantity', { precision: 10, scale: 2 }).notNull(),
+  unitCost: decimal('unit_cost', { precision: 15, scale: 2 }).notNull(),
+  totalCost: decimal('total_cost', { precision: 15, scale: 2 }).notNull(),
+  
+  stockMovementId: uuid('stock_movement_id').references(() => stockMovements.id, { onDelete: 'set null' }),
+  batchId: uuid('batch_id').references(() => productBatches.id, { onDelete: 'set null' }),
+  notes: text('notes'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  receiptIdx: index('goods_receipt_items_receipt_idx').on(table.goodsReceiptId),
+  orderItemIdx: index('goods_receipt_items_order_item_idx').on(table.purchaseOrderItemId),
+}));
+
+// ==================== MERCHANT PAYMENTS ====================
+
+export const merchantPayments = pgTable('merchant_payments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  businessId: uuid('business_id').notNull().references(() => retailBusinesses.id, { onDelete: 'cascade' }),
+  merchantId: uuid('merchant_id').notNull().references(() => merchants.id, { onDelete: 'restrict' }),
+  
+  paymentNumber: varchar('payment_number', { length: 100 }).notNull(),
+  paymentDate: timestamp('payment_date').notNull(),
+  
+  amount: decimal('amount', { precision: 15, scale: 2 }).notNull(),
+  allocatedAmount: decimal('allocated_amount', { precision: 15, scale: 2 }).notNull().default('0.00'),
+  unallocatedAmount: decimal('unallocated_amount', { precision: 15, scale: 2 }).notNull().default('0.00'), // Advance held against future orders
+  
+  method: paymentMethodEnum('method').notNull(),
+  status: paymentStatusEnum('status').notNull().default('COMPLETED'),
+  
+  referenceNumber: varchar('reference_number', { length: 255 }),
+  notes: text('notes'),
+  
+  createdBy: uuid('created_by').notNull().references(() => users.id, { onDelete: 'restrict' }),
+  
+  metadata: jsonb('metadata'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  businessPaymentNumberIdx: unique('merchant_payments_business_payment_number_idx').on(table.businessId, table.paymentNumber),
+  businessIdx: index('merchant_payments_business_idx').on(table.businessId),
+  merchantIdx: index('merchant_payments_merchant_idx').on(table.merchantId),
+  paymentDateIdx: index('merchant_payments_payment_date_idx').on(table.paymentDate),
+}));
+
+export const merchantPaymentAllocations = pgTable('merchant_payment_allocations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  paymentId: uuid('payment_id').notNull().references(() => merchantPayments.id, { onDelete: 'cascade' }),
+  purchaseOrderId: uuid('purchase_order_id').notNull().references(() => purchaseOrders.id, { onDelete: 'restrict' }),
+  
+  allocatedAmount: decimal('allocated_amount', { precision: 15, scale: 2 }).notNull(),
+  orderBalanceBefore: decimal('order_balance_before', { precision: 15, scale: 2 }).notNull(),
+  orderBalanceAfter: decimal('order_balance_after', { precision: 15, scale: 2 }).notNull(),
+  
+  allocationDate: timestamp('allocation_date').notNull().defaultNow(),
+  allocationOrder: integer('allocation_order').notNull().default(1),
+  status: varchar('status', { length: 50 }).notNull().default('ACTIVE'), // ACTIVE, REVERSED
+  reversedAt: timestamp('reversed_at'),
+  reversedBy: uuid('reversed_by').references(() => users.id, { onDelete: 'set null' }),
+  reversalReason: text('reversal_reason'),
+  
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  paymentOrderIdx: unique('merchant_payment_allocations_payment_order_idx').on(table.paymentId, table.purchaseOrderId),
+  paymentIdx: index('merchant_payment_allocations_payment_idx').on(table.paymentId),
+  orderIdx: index('merchant_payment_allocations_order_idx').on(table.purchaseOrderId),
+}));
+
 // ==================== BANK RECONCILIATION ====================
 
 export const reconciliations = pgTable('reconciliations', {
@@ -66,6 +66,10 @@ export const QUEUE_NAMES = {
   BACKGROUND_TASKS: 'background-tasks',
   AI_GENERATION: 'ai-generation',
   DATA_EXPORTS: 'data-exports',
+  RECURRING_BILLS: 'recurring-bills',
+  STOCK_RECONCILIATION: 'stock-reconciliation',
+  BATCH_EXPIRY: 'batch-expiry',
+  CHEQUE_REMINDERS: 'cheque-reminders',
 };
 
 // Create queues
@@ -147,6 +151,42 @@ export const dataExportQueue = new Queue(QUEUE_NAMES.DATA_EXPORTS, {
   },
 });
 
+export const recurringBillQueue = new Queue(QUEUE_NAMES.RECURRING_BILLS, {
+  connection: redis,
+  defaultJobOptions: {
+    removeOnComplete: 10,
+    removeOnFail: 5,
+    attempts: 1,
+  },
+});
+
+export const stockReconciliationQueue = new Queue(QUEUE_NAMES.STOCK_RECONCILIATION, {
+  connection: redis,
+  defaultJobOptions: {
+    removeOnComplete: 10,
+    removeOnFail: 5,
+    attempts: 1,
+  },
+});
+
+export const batchExpiryQueue = new Queue(QUEUE_NAMES.BATCH_EXPIRY, {
+  connection: redis,
+  defaultJobOptions: {
+    removeOnComplete: 10,
+    removeOnFail: 5,
+    attempts: 1,
+  },
+});
+
+export const chequeReminderQueue = new Queue(QUEUE_NAMES.CHEQUE_REMINDERS, {
+  connection: redis,
+  defaultJobOptions: {
+    removeOnComplete: 10,
+    removeOnFail: 5,
+    attempts: 1,
+  },
+});
+
 // Worker processors
 export function setupWorkers(): Worker[] {
   // Bill notification worker
@@ -408,6 +448,94 @@ export function setupWorkers(): Worker[] {
     { connection: redis }
   );
 
+  // Recurring bill worker
+  const recurringBillWorker = new Worker(
+    QUEUE_NAMES.RECURRING_BILLS,
+    async (job: Job) => {
+      logBackgroundJob('recurring_bills', 'started', { jobId: job.id });
+
+      try {
+        const { RecurringBillService } = await import('../services/recurring-bill.service');
+        const recurringBillService = new RecurringBillService();
+
+        const summary = await recurringBillService.processDueRecurringBills();
+
+        logBackgroundJob('recurring_bills', 'completed', { jobId: job.id, ...summary });
+        return summary;
+      } catch (error) {
+        logBackgroundJob('recurring_bills', 'failed', { jobId: job.id, error: getErrorMessage(error) });
+        throw error;
+      }
+    },
+    { connection: redis, concurrency: 1 }
+  );
+
+  // Stock reconciliation worker
+  const stockReconciliationWorker = new Worker(
+    QUEUE_NAMES.STOCK_RECONCILIATION,
+    async (job: Job) => {
+      logBackgroundJob('stock_reconciliation', 'started', { jobId: job.id });
+
+      try {
+        const { InventoryService } = await import('../services/inventory.service');
+        const inventoryService = new InventoryService();
+
+        const summary = await inventoryService.reconcileAllBusinesses();
+
+        logBackgroundJob('stock_reconciliation', 'completed', { jobId: job.id, ...summary });
+        return summary;
+      } catch (error) {
+        logBackgroundJob('stock_reconciliation', 'failed', { jobId: job.id, error: getErrorMessage(error) });
+        throw error;
+      }
+    },
+    { connection: redis, concurrency: 1 }
+  );
+
+  // Batch expiry worker
+  const batchExpiryWorker = new Worker(
+    QUEUE_NAMES.BATCH_EXPIRY,
+    async (job: Job) => {
+      logBackgroundJob('batch_expiry', 'started', { jobId: job.id });
+
+      try {
+        const { BatchService } = await import('../services/batch.service');
+        const batchService = new BatchService();
+
+        const summary = await batchService.processExpiries();
+
+        logBackgroundJob('batch_expiry', 'completed', { jobId: job.id, ...summary });
+        return summary;
+      } catch (error) {
+        logBackgroundJob('batch_expiry', 'failed', { jobId: job.id, error: getErrorMessage(error) });
+        throw error;
+      }
+    },
+    { connection: redis, concurrency: 1 }
+  );
+
+  // Cheque deposit reminder worker
+  const chequeReminderWorker = new Worker(
+    QUEUE_NAMES.CHEQUE_REMINDERS,
+    async (job: Job) => {
+      logBackgroundJob('cheque_reminders', 'started', { jobId: job.id });
+
+      try {
+        const { ChequeService } = await import('../services/cheque.service');
+        const chequeService = new ChequeService();
+
+        const summary = await chequeService.remindDueCheques();
+
+        logBackgroundJob('cheque_reminders', 'completed', { jobId: job.id, ...summary });
+        return summary;
+      } catch (error) {
+        logBackgroundJob('cheque_reminders', 'failed', { jobId: job.id, error: getErrorMessage(error) });
+        throw error;
+      }
+    },
+    { connection: redis, concurrency: 1 }
+  );
+
   // Set up error handlers
   const workers = [
     billNotificationWorker,
@@ -416,6 +544,10 @@ export function setupWorkers(): Worker[] {
     backgroundTaskWorker,
     aiGenerationWorker,
     dataExportWorker,
+    recurringBillWorker,
+    stockReconciliationWorker,
+    batchExpiryWorker,
+    chequeReminderWorker,
   ];
 
   workers.forEach(worker => {
@@ -510,6 +642,42 @@ export async function addDataExportJob(type: string, filters: ExportFilters, use
   return job;
 }
 
+// Runs hourly by default; the job id keeps a single repeatable schedule across restarts
+export async function scheduleRecurringBillJob(pattern: string = process.env.RECURRING_BILLS_CRON || '0 * * * *'): Promise<Job> {
+  const job = await recurringBillQueue.add('generate-recurring-bills', {}, {
+    repeat: { pattern },
+    jobId: 'recurring-bills',
+  });
+  return job;
+}
+
+// Runs nightly by default and only reports drift; repairs go through the reconcile endpoint
+export async function scheduleStockReconciliationJob(pattern: string = process.env.STOCK_RECONCILIATION_CRON || '30 2 * * *'): Promise<Job> {
+  const job = await stockReconciliationQueue.add('reconcile-stock', {}, {
+    repeat: { pattern },
+    jobId: 'stock-reconciliation',
+  });
+  return job;
+}
+
+// Runs nightly by default: flags near-expiry batches and writes off expired stock
+export async function scheduleBatchExpiryJob(pattern: string = process.env.BATCH_EXPIRY_CRON || '0 1 * * *'): Promise<Job> {
+  const job = await batchExpiryQueue.add('process-batch-expiry', {}, {
+    repeat: { pattern },
+    jobId: 'batch-expiry',
+  });
+  return job;
+}
+
+// Runs each morning by default: reminds staff about received cheques whose date has come
+export async function scheduleChequeReminderJob(pattern: string = process.env.CHEQUE_REMINDERS_CRON || '0 9 * * *'): Promise<Job> {
+  const job = await chequeReminderQueue.add('remind-due-cheques', {}, {
+    repeat: { pattern },
+    jobId: 'cheque-reminders',
+  });
+  return job;
+}
+
 // Initialize queues and workers
 export async function initializeQueues(): Promise<Worker[]> {
   try {
@@ -517,6 +685,10 @@ export async function initializeQueues(): Promise<Worker[]> {
     logger.info('Redis connection established for queues');
     
     const workers = setupWorkers();
+    await scheduleRecurringBillJob();
+    await scheduleStockReconciliationJob();
+    await scheduleBatchExpiryJob();
+    await scheduleChequeReminderJob();
     logger.info('BullMQ workers initialized', { workerCount: workers.length });
     
     return workers;
@@ -535,6 +707,10 @@ export async function closeQueues(): Promise<void> {
     await backgroundTaskQueue.close();
     await aiGenerationQueue.close();
     await dataExportQueue.close();
+    await recurringBillQueue.close();
+    await stockReconciliationQueue.close();
+    await batchExpiryQueue.close();
+    await chequeReminderQueue.close();
     
     logger.info('All queues closed');
   } catch (error) {
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { BillingController } from '../controllers/billing.controller';
-import { authenticateToken, authorizeBusinessAccess } from '../middleware/auth.middleware';
+import { authenticateToken, authorizeBusinessAccess, authorizePermission } from '../middleware/auth.middleware';
 
 const router = Router();
 const billingController = new BillingController();
@@ -11,17 +11,33 @@ router.use(authenticateToken, authorizeBusinessAccess);
 // Bulk payment (FIFO allocation)
 router.post('/bulk-payment', (req, res) => billingController.recordBulkPayment(req, res));
 
+// Refunds against a payment
+router.post('/payments/:paymentId/refund', authorizePermission('PAYMENT', 'REFUND'), (req, res) => billingController.refundPayment(req, res));
+
 // Smart Suggestions
 router.get('/suggestions', (req, res) => billingController.getSuggestions(req, res));
 
+// Recurring bills
+router.get('/recurring', (req, res) => billingController.listRecurringBills(req, res));
+router.get('/recurring/:billId/preview', (req, res) => billingController.previewRecurringBill(req, res));
+router.post('/recurring/:billId/pause', (req, res) => billingController.pauseRecurringBill(req, res));
+router.post('/recurring/:billId/resume', (req, res) => billingController.resumeRecurringBill(req, res));
+
 // Base CRUD
 router.post('/', (req, res) => billingController.createBill(req, res));
 router.get('/', (req, res) => billingController.listBills(req, res));
 router.get('/:billId', (req, res) => billingController.getBill(req, res));
 router.put('/:billId', (req, res) => billingController.updateBill(req, res));
+router.post('/:billId/service-templates', (req, res) => billingController.addServiceTemplate(req, res));
 
 // Payments & Actions
 router.post('/:billId/payments', (req, res) => billingController.recordPayment(req, res));
+router.post('/:billId/checkout', (req, res) => billingController.checkout(req, res));
+router.post('/:billId/apply-credit', (req, res) => billingController.applyCredit(req, res));
+router.post('/:billId/finalize', (req, res) => billingController.finalizeBill(req, res));
+router.post('/:billId/void', authorizePermission('BILL', 'VOID'), (req, res) => billingController.voidBill(req, res));
+router.post('/:billId/returns', authorizePermission('BILL', 'VOID'), (req, res) => billingController.createReturn(req, res));
+router.get('/:billId/returns', (req, res) => billingController.listReturns(req, res));
 router.get('/:billId/invoice', (req, res) => billingController.generateInvoicePdf(req, res));
 router.post('/:billId/share', (req, res) => billingController.shareBill(req, res));
 
@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { ChequeController } from '../controllers/cheque.controller';
+import {
+  authenticateToken,
+  authorizeBusinessAccess,
+  authorizeRole
+} from '../middleware/auth.middleware';
+import { validateBody, validateQuery } from '../middleware/validation.middleware';
+import {
+  chequeQuerySchema,
+  depositChequeSchema,
+  clearChequeSchema,
+  bounceChequeSchema
+} from '../schemas/cheque.schema';
+
+const router = Router();
+const chequeController = new ChequeController();
+
+router.use(authenticateToken);
+router.use(authorizeBusinessAccess);
+
+// Cheque register; postDated=true lists cheques dated ahead, dueBy those ready to deposit
+router.get(
+  '/',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER'),
+  validateQuery(chequeQuerySchema),
+  chequeController.getCheques
+);
+
+router.get(
+  '/summary',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER'),
+  chequeController.getRegisterSummary
+);
+
+router.get(
+  '/:paymentId',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER'),
+  chequeController.getCheque
+);
+
+router.post(
+  '/:paymentId/deposit',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER'),
+  validateBody(depositChequeSchema),
+  chequeController.depositCheque
+);
+
+router.post(
+  '/:paymentId/clear',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(clearChequeSchema),
+  chequeController.clearCheque
+);
+
+router.post(
+  '/:paymentId/bounce',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(bounceChequeSchema),
+  chequeController.bounceCheque
+);
+
+export { router as chequeRoutes };
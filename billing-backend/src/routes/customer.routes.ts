@@ -110,6 +110,27 @@ router.get('/stats', authenticateToken, customerController.getCustomerStats);
  */
 router.get('/:customerId/stats', authenticateToken, customerController.getIndividualCustomerStats);
 
+/**
+ * @swagger
+ * /api/customers/{customerId}/credit:
+ *   get:
+ *     summary: Get a customer's available credit (unallocated payments and wallet balance)
+ *     tags: [Customers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: customerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Available credit
+ */
+router.get('/:customerId/credit', authenticateToken, customerController.getAvailableCredit);
+
 /**
  * @swagger
  * /api/customers/{customerId}:
@@ -0,0 +1,101 @@
+import { Router } from 'express';
+import { LocationController } from '../controllers/location.controller';
+import {
+  authenticateToken,
+  authorizeBusinessAccess,
+  authorizeRole
+} from '../middleware/auth.middleware';
+import { validateBody, validateQuery } from '../middleware/validation.middleware';
+import {
+  createLocationSchema,
+  updateLocationSchema,
+  locationStockQuerySchema,
+  createStockTransferSchema,
+  stockTransferQuerySchema,
+  receiveStockTransferSchema,
+  cancelStockTransferSchema
+} from '../schemas/location.schema';
+
+const router = Router();
+const locationController = new LocationController();
+
+router.use(authenticateToken);
+router.use(authorizeBusinessAccess);
+
+router.get(
+  '/',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER', 'VIEWER'),
+  locationController.getLocations
+);
+
+router.post(
+  '/',
+  authorizeRole('RETAIL_OWNER'),
+  validateBody(createLocationSchema),
+  locationController.createLocation
+);
+
+// Stock per location across products; filter by locationId or productId
+router.get(
+  '/stock',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER', 'VIEWER'),
+  validateQuery(locationStockQuerySchema),
+  locationController.getLocationStock
+);
+
+// Transfers: draft -> dispatched (in transit) -> received, or cancelled with in-transit stock returned to the source
+router.get(
+  '/transfers',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER', 'VIEWER'),
+  validateQuery(stockTransferQuerySchema),
+  locationController.getTransfers
+);
+
+router.post(
+  '/transfers',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(createStockTransferSchema),
+  locationController.createTransfer
+);
+
+router.get(
+  '/transfers/:transferId',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER', 'VIEWER'),
+  locationController.getTransfer
+);
+
+router.post(
+  '/transfers/:transferId/dispatch',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  locationController.dispatchTransfer
+);
+
+router.post(
+  '/transfers/:transferId/receive',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER'),
+  validateBody(receiveStockTransferSchema),
+  locationController.receiveTransfer
+);
+
+router.post(
+  '/transfers/:transferId/cancel',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(cancelStockTransferSchema),
+  locationController.cancelTransfer
+);
+
+router.put(
+  '/:locationId',
+  authorizeRole('RETAIL_OWNER'),
+  validateBody(updateLocationSchema),
+  locationController.updateLocation
+);
+
+router.get(
+  '/:locationId/stock',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER', 'VIEWER'),
+  validateQuery(locationStockQuerySchema),
+  locationController.getLocationStock
+);
+
+export { router as locationRoutes };
@@ -6,7 +6,9 @@ import {
   createMerchantSchema, 
   updateMerchantSchema, 
   merchantQuerySchema,
-  merchantPaymentSchema 
+  merchantPaymentSchema,
+  merchantStatementSchema,
+  payablesAgeingSchema
 } from '../schemas/merchant.schema';
 
 const router = Router();
@@ -86,6 +88,31 @@ router.post('/', authenticateToken, validateBody(createMerchantSchema), merchant
  */
 router.get('/stats', authenticateToken, merchantController.getMerchantStats);
 
+/**
+ * @swagger
+ * /api/merchants/payables/ageing:
+ *   get:
+ *     summary: Get payables ageing by merchant
+ *     tags: [Merchants]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: merchantId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: asOfDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Unpaid purchase order balances in current, 1-30, 31-60, 61-90 and 90+ day buckets
+ */
+router.get('/payables/ageing', authenticateToken, validateQuery(payablesAgeingSchema), merchantController.getPayablesAgeing);
+
 /**
  * @swagger
  * /api/merchants/{merchantId}:
@@ -195,6 +222,20 @@ router.delete('/:merchantId', authenticateToken, merchantController.deleteMercha
  *                 type: string
  *               notes:
  *                 type: string
+ *               paymentDate:
+ *                 type: string
+ *                 format: date-time
+ *               allocations:
+ *                 type: array
+ *                 description: Defaults to settling open purchase orders oldest first
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     purchaseOrderId:
+ *                       type: string
+ *                       format: uuid
+ *                     amount:
+ *                       type: number
  *     responses:
  *       201:
  *         description: Payment added successfully
@@ -235,4 +276,35 @@ router.post('/:merchantId/payments', authenticateToken, validateBody(merchantPay
  */
 router.get('/:merchantId/payments', authenticateToken, merchantController.getMerchantPayments);
 
+/**
+ * @swagger
+ * /api/merchants/{merchantId}/statement:
+ *   get:
+ *     summary: Get merchant statement
+ *     tags: [Merchants]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: merchantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Merchant statement
+ */
+router.get('/:merchantId/statement', authenticateToken, validateQuery(merchantStatementSchema), merchantController.getMerchantStatement);
+
 export { router as merchantRoutes };
\ No newline at end of file
@@ -201,6 +201,62 @@ router.post('/:businessId/withdraw', moneyController.withdrawMoney);
  */
 router.post('/:businessId/transfer', moneyController.transferMoney);
 
+/**
+ * @swagger
+ * /api/money/{businessId}/pay-bill:
+ *   post:
+ *     summary: Pay a bill from the customer's wallet balance
+ *     tags: [Money Management]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Business ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - billId
+ *             properties:
+ *               billId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Bill to pay; its customer's wallet is charged
+ *               amount:
+ *                 type: number
+ *                 minimum: 0.01
+ *                 description: Amount to take from the wallet (defaults to as much of the bill as the wallet covers)
+ *               notes:
+ *                 type: string
+ *                 description: Optional notes
+ *     responses:
+ *       200:
+ *         description: Bill paid from wallet successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ */
+router.post('/:businessId/pay-bill', moneyController.payBillFromWallet);
+
 /**
  * @swagger
  * /api/money/{businessId}/customers/{customerId}/history:
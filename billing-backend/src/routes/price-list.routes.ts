@@ -0,0 +1,86 @@
+import { Router } from 'express';
+import { PriceListController } from '../controllers/price-list.controller';
+import {
+  authenticateToken,
+  authorizeBusinessAccess,
+  authorizeRole
+} from '../middleware/auth.middleware';
+import { validateBody, validateQuery } from '../middleware/validation.middleware';
+import {
+  createPriceListSchema,
+  updatePriceListSchema,
+  setPriceListItemsSchema,
+  priceListQuerySchema,
+  assignPriceListSchema,
+  priceQuoteQuerySchema
+} from '../schemas/price-list.schema';
+
+const router = Router();
+const priceListController = new PriceListController();
+
+router.use(authenticateToken);
+router.use(authorizeBusinessAccess);
+
+router.get(
+  '/',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER'),
+  validateQuery(priceListQuerySchema),
+  priceListController.getPriceLists
+);
+
+router.post(
+  '/',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(createPriceListSchema),
+  priceListController.createPriceList
+);
+
+// The price a customer pays for a product and quantity, as billing resolves it
+router.get(
+  '/quote',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER'),
+  validateQuery(priceQuoteQuerySchema),
+  priceListController.quotePrice
+);
+
+router.get(
+  '/:priceListId',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER'),
+  priceListController.getPriceList
+);
+
+router.put(
+  '/:priceListId',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(updatePriceListSchema),
+  priceListController.updatePriceList
+);
+
+router.put(
+  '/:priceListId/items',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(setPriceListItemsSchema),
+  priceListController.setPriceListItems
+);
+
+router.delete(
+  '/:priceListId',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  priceListController.deletePriceList
+);
+
+router.post(
+  '/:priceListId/customers',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(assignPriceListSchema),
+  priceListController.assignCustomers
+);
+
+router.delete(
+  '/:priceListId/customers',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(assignPriceListSchema),
+  priceListController.unassignCustomers
+);
+
+export { router as priceListRoutes };
@@ -14,6 +14,12 @@ import {
   updateProductSchema, 
   productQuerySchema,
   stockAdjustmentSchema,
+  stockLedgerQuerySchema,
+  reconcileStockSchema,
+  batchQuerySchema,
+  updateBatchSchema,
+  serialQuerySchema,
+  setBomSchema,
   createCategorySchema,
   updateCategorySchema,
   createVariantSchema
@@ -116,6 +122,76 @@ router.get(
   productController.getLowStockProducts
 );
 
+// Batches of perishable stock; filter by status or expiringWithinDays for near-expiry lists
+router.get(
+  '/batches',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER'),
+  validateQuery(batchQuerySchema),
+  productController.getBatches
+);
+
+router.patch(
+  '/batches/:batchId',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(updateBatchSchema),
+  productController.updateBatch
+);
+
+router.get(
+  '/:productId/batches',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER'),
+  authorizeProductAccess({ allowBusinessOwner: true, requiredPermission: 'PRODUCT_VIEW' }),
+  validateQuery(batchQuerySchema),
+  productController.getBatches
+);
+
+// Serial / IMEI lookup: receipt, sale, customer and warranty for one unit
+router.get(
+  '/serials/:serialNumber',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER'),
+  productController.lookupSerial
+);
+
+router.get(
+  '/:productId/serials',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER'),
+  authorizeProductAccess({ allowBusinessOwner: true, requiredPermission: 'PRODUCT_VIEW' }),
+  validateQuery(serialQuerySchema),
+  productController.getSerials
+);
+
+// Bill of materials: consumed on sale for composites and services, or through production orders
+router.get(
+  '/:productId/bom',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER'),
+  authorizeProductAccess({ allowBusinessOwner: true, requiredPermission: 'PRODUCT_VIEW' }),
+  productController.getBom
+);
+
+router.put(
+  '/:productId/bom',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  authorizeProductAccess({ allowBusinessOwner: true, requiredPermission: 'PRODUCT_MANAGE' }),
+  validateBody(setBomSchema),
+  productController.setBom
+);
+
+// Rebuild stock from the ledger; report only unless repair is requested
+router.post(
+  '/stock-ledger/reconcile',
+  authorizeRole('RETAIL_OWNER'),
+  validateBody(reconcileStockSchema),
+  productController.reconcileStock
+);
+
+router.get(
+  '/:productId/stock-ledger',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  authorizeProductAccess({ allowBusinessOwner: true, requiredPermission: 'PRODUCT_VIEW' }),
+  validateQuery(stockLedgerQuerySchema),
+  productController.getStockLedger
+);
+
 router.get(
   '/:productId',
   authorizeProductAccess({ allowBusinessOwner: true, requiredPermission: 'PRODUCT_VIEW' }),
@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { ProductionController } from '../controllers/production.controller';
+import {
+  authenticateToken,
+  authorizeBusinessAccess,
+  authorizeRole
+} from '../middleware/auth.middleware';
+import { validateBody, validateQuery } from '../middleware/validation.middleware';
+import {
+  createProductionOrderSchema,
+  productionOrderQuerySchema,
+  completeProductionOrderSchema,
+  cancelProductionOrderSchema
+} from '../schemas/production.schema';
+
+const router = Router();
+const productionController = new ProductionController();
+
+router.use(authenticateToken);
+router.use(authorizeBusinessAccess);
+
+router.get(
+  '/',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateQuery(productionOrderQuerySchema),
+  productionController.getProductionOrders
+);
+
+// Plan a run; components are taken from the product's bill of materials
+router.post(
+  '/',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(createProductionOrderSchema),
+  productionController.createProductionOrder
+);
+
+router.get(
+  '/:orderId',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  productionController.getProductionOrder
+);
+
+// Consume the materials and receive the finished goods at the rolled-up cost
+router.post(
+  '/:orderId/complete',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(completeProductionOrderSchema),
+  productionController.completeProductionOrder
+);
+
+router.post(
+  '/:orderId/cancel',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(cancelProductionOrderSchema),
+  productionController.cancelProductionOrder
+);
+
+export { router as productionRoutes };
@@ -0,0 +1,96 @@
+import { Router } from 'express';
+import { PurchaseOrderController } from '../controllers/purchase-order.controller';
+import {
+  authenticateToken,
+  authorizeBusinessAccess,
+  authorizeRole
+} from '../middleware/auth.middleware';
+import { validateBody, validateQuery } from '../middleware/validation.middleware';
+import {
+  createPurchaseOrderSchema,
+  updatePurchaseOrderSchema,
+  purchaseOrderQuerySchema,
+  sendPurchaseOrderSchema,
+  cancelPurchaseOrderSchema,
+  goodsReceiptSchema,
+  reorderSuggestionQuerySchema,
+  confirmReorderSchema
+} from '../schemas/purchase-order.schema';
+
+const router = Router();
+const purchaseOrderController = new PurchaseOrderController();
+
+router.use(authenticateToken);
+router.use(authorizeBusinessAccess);
+
+router.get(
+  '/',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER', 'VIEWER'),
+  validateQuery(purchaseOrderQuerySchema),
+  purchaseOrderController.getPurchaseOrders
+);
+
+router.post(
+  '/',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(createPurchaseOrderSchema),
+  purchaseOrderController.createPurchaseOrder
+);
+
+// Replenishment planner: proposals grouped by merchant, confirmed into draft purchase orders
+router.get(
+  '/reorder-suggestions',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateQuery(reorderSuggestionQuerySchema),
+  purchaseOrderController.getReorderSuggestions
+);
+
+router.post(
+  '/reorder-suggestions/confirm',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(confirmReorderSchema),
+  purchaseOrderController.confirmReorderSuggestions
+);
+
+router.get(
+  '/:orderId',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER', 'VIEWER'),
+  purchaseOrderController.getPurchaseOrder
+);
+
+router.put(
+  '/:orderId',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(updatePurchaseOrderSchema),
+  purchaseOrderController.updatePurchaseOrder
+);
+
+router.delete(
+  '/:orderId',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  purchaseOrderController.deletePurchaseOrder
+);
+
+router.post(
+  '/:orderId/send',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(sendPurchaseOrderSchema),
+  purchaseOrderController.sendPurchaseOrder
+);
+
+router.post(
+  '/:orderId/cancel',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(cancelPurchaseOrderSchema),
+  purchaseOrderController.cancelPurchaseOrder
+);
+
+// Goods receipt notes; partial deliveries are allowed until every line is received
+router.post(
+  '/:orderId/receipts',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(goodsReceiptSchema),
+  purchaseOrderController.receiveGoods
+);
+
+export { router as purchaseOrderRoutes };
@@ -15,6 +15,13 @@ router.get(
   reportController.getSalesReport
 );
 
+// Totals, tender mix and per-bill tenders for one day
+router.get(
+  '/sales/daily',
+  authorizePermission('REPORTS', 'READ'),
+  reportController.getDailySalesSummary
+);
+
 router.get(
   '/sales/top-products',
   authorizePermission('REPORTS', 'READ'),
@@ -47,4 +54,17 @@ router.get(
   reportController.getTaxReport
 );
 
+// GST Returns
+router.get(
+  '/gst/gstr1',
+  authorizePermission('REPORTS', 'READ'),
+  reportController.getGstr1
+);
+
+router.get(
+  '/gst/gstr3b',
+  authorizePermission('REPORTS', 'READ'),
+  reportController.getGstr3b
+);
+
 export default router;
@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { ServiceTemplateController } from '../controllers/service-template.controller';
+import {
+  authenticateToken,
+  authorizeBusinessAccess,
+  authorizeRole
+} from '../middleware/auth.middleware';
+import { validateBody, validateQuery } from '../middleware/validation.middleware';
+import {
+  createServiceTemplateSchema,
+  updateServiceTemplateSchema,
+  serviceTemplateQuerySchema,
+  serviceTemplateUsageSchema
+} from '../schemas/service-template.schema';
+
+const router = Router();
+const serviceTemplateController = new ServiceTemplateController();
+
+router.use(authenticateToken);
+router.use(authorizeBusinessAccess);
+
+router.get(
+  '/',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER'),
+  validateQuery(serviceTemplateQuerySchema),
+  serviceTemplateController.getTemplates
+);
+
+router.post(
+  '/',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(createServiceTemplateSchema),
+  serviceTemplateController.createTemplate
+);
+
+router.get(
+  '/:templateId',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER'),
+  serviceTemplateController.getTemplate
+);
+
+router.put(
+  '/:templateId',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(updateServiceTemplateSchema),
+  serviceTemplateController.updateTemplate
+);
+
+router.delete(
+  '/:templateId',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  serviceTemplateController.deleteTemplate
+);
+
+// Preview the bill lines a template produces for a quantity, without touching any bill
+router.post(
+  '/:templateId/expand',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER'),
+  validateBody(serviceTemplateUsageSchema),
+  serviceTemplateController.expandTemplate
+);
+
+export { router as serviceTemplateRoutes };
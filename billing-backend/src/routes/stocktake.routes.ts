@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import { StocktakeController } from '../controllers/stocktake.controller';
+import {
+  authenticateToken,
+  authorizeBusinessAccess,
+  authorizeRole
+} from '../middleware/auth.middleware';
+import { validateBody, validateQuery } from '../middleware/validation.middleware';
+import {
+  createStocktakeSchema,
+  stocktakeQuerySchema,
+  submitStocktakeCountsSchema,
+  stocktakeVarianceQuerySchema,
+  stocktakeCountQuerySchema,
+  approveStocktakeSchema,
+  cancelStocktakeSchema
+} from '../schemas/stocktake.schema';
+
+const router = Router();
+const stocktakeController = new StocktakeController();
+
+router.use(authenticateToken);
+router.use(authorizeBusinessAccess);
+
+router.get(
+  '/',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER'),
+  validateQuery(stocktakeQuerySchema),
+  stocktakeController.getStocktakes
+);
+
+// Start a count: expected quantities are frozen for the location (and category) at this moment
+router.post(
+  '/',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(createStocktakeSchema),
+  stocktakeController.createStocktake
+);
+
+router.get(
+  '/:stocktakeId',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER'),
+  stocktakeController.getStocktake
+);
+
+// Counts from several staff add up; scan barcodes or serials, or give product IDs with quantities
+router.post(
+  '/:stocktakeId/counts',
+  authorizeRole('RETAIL_OWNER', 'MANAGER', 'CASHIER'),
+  validateBody(submitStocktakeCountsSchema),
+  stocktakeController.submitCounts
+);
+
+router.get(
+  '/:stocktakeId/counts',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateQuery(stocktakeCountQuerySchema),
+  stocktakeController.getCounts
+);
+
+router.get(
+  '/:stocktakeId/variance',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateQuery(stocktakeVarianceQuerySchema),
+  stocktakeController.getVarianceReport
+);
+
+// Post the variances as ADJUSTMENT movements
+router.post(
+  '/:stocktakeId/approve',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(approveStocktakeSchema),
+  stocktakeController.approveStocktake
+);
+
+router.post(
+  '/:stocktakeId/cancel',
+  authorizeRole('RETAIL_OWNER', 'MANAGER'),
+  validateBody(cancelStocktakeSchema),
+  stocktakeController.cancelStocktake
+);
+
+export { router as stocktakeRoutes };
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { serviceTemplateUsageSchema } from './service-template.schema';
 
 
 
@@ -6,6 +7,7 @@ const addressSchema = z.object({
   street: z.string().optional(),
   city: z.string().optional(),
   state: z.string().optional(),
+  stateCode: z.string().max(2).optional(),
   zipCode: z.string().optional(),
   country: z.string().optional(),
 });
@@ -13,6 +15,8 @@ const addressSchema = z.object({
 const billItemSchema = z.object({
   productId: z.string().uuid().optional(),
   variantId: z.string().uuid().optional(),
+  batchId: z.string().uuid().optional(), // Batch to sell from; first-expiry-first-out when omitted
+  serialNumbers: z.array(z.string().min(1).max(100)).optional(), // One per unit for serialised products
   productName: z.string().min(1, 'Product name is required'),
   productCode: z.string().optional(),
   description: z.string().optional(),
@@ -21,15 +25,17 @@ const billItemSchema = z.object({
   itemType: z.enum(['PRODUCT', 'SERVICE', 'raw_material', 'composite', 'digital', 'consumable']).default('PRODUCT'),
   unit: z.enum(['KG', 'GRAM', 'LITER', 'MILLILITER', 'PIECE', 'DOZEN', 'METER', 'FEET', 'BOX', 'BUNDLE', 'INCH', 'YARD', 'HOUR', 'DAY', 'SERVICE', 'NOT_APPLICABLE', 'TON', 'QUINTAL']),
   quantity: z.number().positive('Quantity must be positive'),
-  rate: z.number().min(0, 'Rate must be non-negative'),
+  rate: z.number().min(0, 'Rate must be non-negative').optional(), // Defaults to the customer's price list, then the variant's or product's selling price
   discountPercent: z.number().min(0).max(100).optional().default(0),
   discountAmount: z.number().min(0).optional().default(0),
   taxPercent: z.number().min(0).max(100).optional().default(0),
   taxAmount: z.number().min(0).optional().default(0),
+  cessPercent: z.number().min(0).max(100).optional(),
 });
 
 export const createBillSchema = z.object({
   customerId: z.string().uuid().optional(),
+  locationId: z.string().uuid().optional(), // Store billed from; defaults to the cashier's assigned store, then the default location
   billDate: z.string().datetime(),
   dueDate: z.string().datetime().optional(),
   items: z.array(billItemSchema).min(1, 'At least one item is required'),
@@ -52,12 +58,20 @@ export const createBillSchema = z.object({
   billingAddress: addressSchema.optional(),
   shippingAddress: addressSchema.optional(),
   
+  // GST: place of supply as a state code or name; defaults from the addresses and customer GSTIN
+  placeOfSupply: z.string().max(50).optional(),
+  taxInclusive: z.boolean().optional(), // Defaults to the business setting
+  
   isRecurring: z.boolean().optional(),
   recurringFrequency: z.enum(['DAILY', 'WEEKLY', 'BIWEEKLY', 'MONTHLY', 'QUARTERLY', 'YEARLY']).optional(),
+  recurringEndDate: z.string().datetime().optional(),
+  recurringMaxOccurrences: z.number().int().positive().optional(),
+  recurringAutoSend: z.boolean().optional(),
   requiresApproval: z.boolean().optional(),
+  priceOverride: z.boolean().optional(), // Owner or manager allowing rates below minimum price or discounts beyond limits
   
   status: z.enum(['DRAFT', 'PENDING', 'PAID', 'PARTIAL', 'OVERDUE', 'CANCELLED', 'VOID']).default('DRAFT'),
-  paymentMethod: z.enum(['CASH', 'CARD', 'UPI', 'BANK_TRANSFER', 'CHEQUE', 'DIGITAL_WALLET', 'NET_BANKING', 'OTHER']).optional(),
+  paymentMethod: z.enum(['CASH', 'CARD', 'UPI', 'BANK_TRANSFER', 'CHEQUE', 'DIGITAL_WALLET', 'NET_BANKING', 'WALLET', 'OTHER']).optional(),
 });
 
 export const updateBillSchema = createBillSchema.partial().extend({
@@ -68,6 +82,7 @@ export const updateBillSchema = createBillSchema.partial().extend({
 export const billQuerySchema = z.object({
   search: z.string().optional(),
   customerId: z.string().uuid().optional(),
+  locationId: z.string().uuid().optional(),
   status: z.enum(['DRAFT', 'PENDING', 'PAID', 'PARTIAL', 'OVERDUE', 'CANCELLED', 'VOID']).optional(),
   paymentStatus: z.enum(['PENDING', 'COMPLETED', 'FAILED', 'REFUNDED', 'CANCELLED', 'PROCESSING']).optional(),
   startDate: z.string().datetime().optional(),
@@ -94,6 +109,39 @@ export const billPaymentSchema = z.object({
   cardLast4: z.string().length(4).optional(),
   notes: z.string().optional(),
   isDeposit: z.boolean().optional().default(false), // To treat as advance? usually false for bill payment
+}).refine(payment => payment.method !== 'CHEQUE' || !!payment.chequeNumber, {
+  message: 'Cheque payments need the cheque number',
+  path: ['chequeNumber'],
+});
+
+const tenderSchema = z.object({
+  method: z.enum(['CASH', 'CARD', 'UPI', 'BANK_TRANSFER', 'CHEQUE', 'DIGITAL_WALLET', 'NET_BANKING', 'WALLET', 'OTHER']), // WALLET draws on the customer's wallet
+  amount: z.number().positive('Amount must be positive'), // For cash, what was handed over; change comes back from it
+  referenceNumber: z.string().max(255).optional(),
+  transactionId: z.string().max(255).optional(),
+  upiId: z.string().max(255).optional(),
+  cardLast4: z.string().regex(/^\d{4}$/, 'Card last 4 digits must be 4 digits').optional(),
+  cardBrand: z.string().max(50).optional(),
+  bankName: z.string().max(255).optional(),
+  chequeNumber: z.string().max(100).optional(),
+  chequeDate: z.string().datetime().optional(),
+}).superRefine((tender, ctx) => {
+  if (tender.method === 'CARD' && !tender.cardLast4) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cardLast4'], message: 'Card payments need the last 4 digits of the card' });
+  }
+  if (tender.method === 'UPI' && !tender.upiId && !tender.transactionId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['upiId'], message: 'UPI payments need the UPI ID or transaction ID' });
+  }
+  if (tender.method === 'CHEQUE' && !tender.chequeNumber) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['chequeNumber'], message: 'Cheque payments need the cheque number' });
+  }
+});
+
+// Several tenders for one bill at the counter, e.g. part cash, part UPI, part wallet
+export const checkoutSchema = z.object({
+  tenders: z.array(tenderSchema).min(1, 'At least one tender is required'),
+  paymentDate: z.string().datetime().optional(), // Defaults to now
+  notes: z.string().optional(),
 });
 
 export const sendBillSchema = z.object({
@@ -104,8 +152,71 @@ export const sendBillSchema = z.object({
   phone: z.string().regex(/^\+?[\d\s-()]+$/, 'Invalid phone number').optional(),
 });
 
+export const billReturnSchema = z.object({
+  items: z.array(z.object({
+    billItemId: z.string().uuid(),
+    quantity: z.number().positive('Quantity must be positive'),
+    restock: z.boolean().optional().default(true),
+    serialNumbers: z.array(z.string().min(1).max(100)).optional(), // Units coming back on a partial return of a serialised line
+  })).min(1, 'At least one item is required'),
+  returnDate: z.string().datetime().optional(), // Defaults to now
+  reason: z.string().max(500).optional(),
+  notes: z.string().optional(),
+  settlementMode: z.enum(['ADJUST_BALANCE', 'WALLET_CREDIT']).optional().default('ADJUST_BALANCE'),
+});
+
+export const recurringBillQuerySchema = z.object({
+  state: z.enum(['ACTIVE', 'PAUSED', 'ENDED']).optional(),
+  customerId: z.string().uuid().optional(),
+  page: z.number().min(1).optional(),
+  limit: z.number().min(1).max(100).optional(),
+});
+
+export const finalizeBillSchema = z.object({
+  requiresApproval: z.boolean().optional(), // Overrides the business approval threshold when set
+  notes: z.string().optional(),
+});
+
+export const voidBillSchema = z.object({
+  status: z.enum(['VOID', 'CANCELLED']).optional().default('VOID'),
+  reason: z.string().min(1, 'Reason is required').max(500),
+  paymentHandling: z.enum(['WALLET', 'REFUNDABLE']).optional().default('WALLET'), // Where money already paid against the bill goes
+});
+
+// Pay money back against a payment; the latest bills it paid owe again
+export const refundPaymentSchema = z.object({
+  amount: z.number().positive('Amount must be positive').optional(), // Defaults to everything still refundable
+  method: z.enum(['CASH', 'CARD', 'UPI', 'BANK_TRANSFER', 'CHEQUE', 'DIGITAL_WALLET', 'NET_BANKING', 'WALLET', 'OTHER']), // WALLET credits the customer's wallet
+  reason: z.string().min(1, 'Reason is required').max(500),
+  refundDate: z.string().datetime().optional(), // Defaults to now
+  referenceNumber: z.string().max(255).optional(),
+  transactionId: z.string().max(255).optional(),
+  notes: z.string().optional(),
+});
+
+// Pay a bill from the customer's available credit: unallocated payments oldest first, then the wallet
+export const applyCreditSchema = z.object({
+  amount: z.number().positive('Amount must be positive').optional(), // Defaults to the bill balance, or as much of it as the credit covers
+  paymentIds: z.array(z.string().uuid()).min(1).optional(), // Only these advance payments
+  useWallet: z.boolean().optional().default(true),
+  notes: z.string().optional(),
+});
+
+// Expand a service template into a labour line and material lines on a draft bill
+export const addServiceTemplateSchema = serviceTemplateUsageSchema.extend({
+  templateId: z.string().uuid('Invalid service template ID'),
+});
+
 export type CreateBillInput = z.infer<typeof createBillSchema>;
 export type UpdateBillInput = z.infer<typeof updateBillSchema>;
 export type BillQueryInput = z.infer<typeof billQuerySchema>;
 export type BillPaymentInput = z.infer<typeof billPaymentSchema>;
-export type SendBillInput = z.infer<typeof sendBillSchema>;
\ No newline at end of file
+export type SendBillInput = z.infer<typeof sendBillSchema>;
+export type BillReturnInput = z.infer<typeof billReturnSchema>;
+export type RecurringBillQueryInput = z.infer<typeof recurringBillQuerySchema>;
+export type FinalizeBillInput = z.infer<typeof finalizeBillSchema>;
+export type VoidBillInput = z.infer<typeof voidBillSchema>;
+export type AddServiceTemplateInput = z.infer<typeof addServiceTemplateSchema>;
+export type CheckoutInput = z.infer<typeof checkoutSchema>;
+export type RefundPaymentInput = z.infer<typeof refundPaymentSchema>;
+export type ApplyCreditInput = z.infer<typeof applyCreditSchema>;
\ No newline at end of file
@@ -39,6 +39,7 @@ export const businessSettingsSchema = z.object({
   currency: z.string().length(3, 'Currency must be 3 characters').optional(),
   timezone: z.string().optional(),
   dateFormat: z.string().optional(),
+  creditApplication: z.enum(['AUTO', 'PROMPT', 'NEVER']).optional(), // Apply customer credit to bills as they are finalized, offer it, or leave it to staff
   taxSettings: z.object({
     enabled: z.boolean().optional(),
     rate: z.number().min(0).max(100).optional(),
@@ -67,11 +68,13 @@ export const inviteStaffSchema = z.object({
   email: z.string().email('Invalid email address'),
   role: z.enum(['MANAGER', 'CASHIER', 'VIEWER']),
   permissions: z.array(z.string()).optional(),
+  locationId: z.string().uuid().optional(), // Store the staff member bills from; all locations when omitted
 });
 
 export const updateStaffSchema = z.object({
   role: z.enum(['MANAGER', 'CASHIER', 'VIEWER']).optional(),
   permissions: z.array(z.string()).optional(),
+  locationId: z.string().uuid().nullable().optional(), // Null lifts the restriction to one store
   isActive: z.boolean().optional(),
 });
 
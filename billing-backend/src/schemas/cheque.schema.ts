@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+// The cheque register; post-dated cheques are those received with a cheque date still ahead
+export const chequeQuerySchema = z.object({
+  status: z.enum(['RECEIVED', 'DEPOSITED', 'CLEARED', 'BOUNCED']).optional(),
+  customerId: z.string().uuid().optional(),
+  postDated: z.preprocess(value => value === 'true' || value === true, z.boolean()).optional(),
+  dueBy: z.string().datetime().optional(), // Received cheques dated on or before this date
+  page: z.coerce.number().min(1).optional(),
+  limit: z.coerce.number().min(1).max(100).optional(),
+});
+
+export const depositChequeSchema = z.object({
+  depositDate: z.string().datetime().optional(), // Defaults to now
+  depositAccount: z.string().max(255).optional(), // Bank account the cheque was paid into
+  notes: z.string().optional(),
+});
+
+export const clearChequeSchema = z.object({
+  clearedDate: z.string().datetime().optional(), // Defaults to now
+  notes: z.string().optional(),
+});
+
+export const bounceChequeSchema = z.object({
+  reason: z.string().min(1, 'Bounce reason is required').max(500),
+  bounceDate: z.string().datetime().optional(), // Defaults to now
+  bounceCharge: z.number().min(0).optional(), // Fee charged to the customer as a debit note
+  notifyCustomer: z.boolean().optional().default(true),
+});
+
+export type ChequeQueryInput = z.infer<typeof chequeQuerySchema>;
+export type DepositChequeInput = z.infer<typeof depositChequeSchema>;
+export type ClearChequeInput = z.infer<typeof clearChequeSchema>;
+export type BounceChequeInput = z.infer<typeof bounceChequeSchema>;
@@ -20,6 +20,7 @@ export const createCustomerSchema = z.object({
   creditLimit: z.number().nonnegative('Credit limit must be non-negative').optional(),
   creditDays: z.number().nonnegative('Credit days must be non-negative').optional(),
   isCreditAllowed: z.boolean().optional(),
+  priceListId: z.string().uuid('Invalid price list ID').optional(),
   notes: z.string().optional(),
   tags: z.array(z.string()).optional(),
 });
@@ -36,6 +37,7 @@ export const updateCustomerSchema = z.object({
   creditLimit: z.number().nonnegative('Credit limit must be non-negative').optional(),
   creditDays: z.number().nonnegative('Credit days must be non-negative').optional(),
   isCreditAllowed: z.boolean().optional(),
+  priceListId: z.string().uuid('Invalid price list ID').nullable().optional(), // null moves the customer back to the default list
   notes: z.string().optional(),
   tags: z.array(z.string()).optional(),
   isActive: z.boolean().optional(),
@@ -56,8 +58,14 @@ export const customerPaymentSchema = z.object({
   amount: z.number().positive('Amount must be positive'),
   method: z.enum(['CASH', 'CARD', 'UPI', 'BANK_TRANSFER', 'CHEQUE', 'DIGITAL_WALLET']),
   referenceNumber: z.string().optional(),
+  chequeNumber: z.string().max(100).optional(),
+  chequeDate: z.string().datetime().optional(), // A later date makes the cheque post-dated
+  bankName: z.string().max(255).optional(),
   notes: z.string().optional(),
   billIds: z.array(z.string().uuid()).optional(),
+}).refine(payment => payment.method !== 'CHEQUE' || !!payment.chequeNumber, {
+  message: 'Cheque payments need the cheque number',
+  path: ['chequeNumber'],
 });
 
 export const customerStatementSchema = z.object({
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+
+const addressSchema = z.object({
+  street: z.string().optional(),
+  city: z.string().optional(),
+  state: z.string().optional(),
+  stateCode: z.string().max(2).optional(),
+  zipCode: z.string().optional(),
+  country: z.string().optional(),
+});
+
+export const createLocationSchema = z.object({
+  code: z.string().min(1).max(20).regex(/^[A-Za-z0-9_-]+$/, 'Code may only contain letters, numbers, - and _'),
+  name: z.string().min(1, 'Location name is required').max(255),
+  locationType: z.enum(['STORE', 'WAREHOUSE']).optional(),
+  address: addressSchema.optional(),
+  phone: z.string().max(20).optional(),
+  isDefault: z.boolean().optional(), // The business's first location is always the default
+  notes: z.string().optional(),
+});
+
+export const updateLocationSchema = createLocationSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+export const locationStockQuerySchema = z.object({
+  locationId: z.string().uuid().optional(),
+  productId: z.string().uuid().optional(),
+  search: z.string().optional(),
+  includeZero: z.preprocess(value => value === 'true' || value === true, z.boolean()).optional(),
+  page: z.coerce.number().min(1).optional(),
+  limit: z.coerce.number().min(1).max(200).optional(),
+});
+
+export const createStockTransferSchema = z.object({
+  fromLocationId: z.string().uuid('Invalid source location'),
+  toLocationId: z.string().uuid('Invalid destination location'),
+  notes: z.string().optional(),
+  dispatch: z.boolean().optional(), // Dispatch straight away instead of saving a draft
+  items: z.array(z.object({
+    productId: z.string().uuid('Invalid product ID'),
+    variantId: z.string().uuid('Invalid variant ID').optional(),
+    quantity: z.number().positive('Quantity must be positive'),
+    serialNumbers: z.array(z.string().min(1).max(100)).optional(), // Required for serialised products, one per unit
+    notes: z.string().optional(),
+  })).min(1, 'At least one item is required'),
+});
+
+export const stockTransferQuerySchema = z.object({
+  status: z.enum(['DRAFT', 'IN_TRANSIT', 'RECEIVED', 'CANCELLED']).optional(),
+  locationId: z.string().uuid().optional(), // Transfers into or out of this location
+  page: z.coerce.number().min(1).optional(),
+  limit: z.coerce.number().min(1).max(100).optional(),
+});
+
+export const receiveStockTransferSchema = z.object({
+  receivedDate: z.string().datetime().optional(),
+  notes: z.string().optional(),
+});
+
+export const cancelStockTransferSchema = z.object({
+  reason: z.string().min(1, 'Cancellation reason is required'),
+});
+
+export type CreateLocationInput = z.infer<typeof createLocationSchema>;
+export type UpdateLocationInput = z.infer<typeof updateLocationSchema>;
+export type LocationStockQueryInput = z.infer<typeof locationStockQuerySchema>;
+export type CreateStockTransferInput = z.infer<typeof createStockTransferSchema>;
+export type StockTransferQueryInput = z.infer<typeof stockTransferQuerySchema>;
+export type ReceiveStockTransferInput = z.infer<typeof receiveStockTransferSchema>;
+export type CancelStockTransferInput = z.infer<typeof cancelStockTransferSchema>;
@@ -63,9 +63,27 @@ export const merchantPaymentSchema = z.object({
   method: z.enum(['CASH', 'CARD', 'UPI', 'BANK_TRANSFER', 'CHEQUE', 'DIGITAL_WALLET']),
   referenceNumber: z.string().optional(),
   notes: z.string().optional(),
+  paymentDate: z.string().datetime().optional(),
+  // Without explicit allocations the payment settles open purchase orders oldest first
+  allocations: z.array(z.object({
+    purchaseOrderId: z.string().uuid('Invalid purchase order ID'),
+    amount: z.number().positive('Allocation amount must be positive'),
+  })).optional(),
+});
+
+export const merchantStatementSchema = z.object({
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+});
+
+export const payablesAgeingSchema = z.object({
+  merchantId: z.string().uuid('Invalid merchant ID').optional(),
+  asOfDate: z.string().datetime().optional(),
 });
 
 export type CreateMerchantInput = z.infer<typeof createMerchantSchema>;
 export type UpdateMerchantInput = z.infer<typeof updateMerchantSchema>;
 export type MerchantQueryInput = z.infer<typeof merchantQuerySchema>;
-export type MerchantPaymentInput = z.infer<typeof merchantPaymentSchema>;
\ No newline at end of file
+export type MerchantPaymentInput = z.infer<typeof merchantPaymentSchema>;
+export type MerchantStatementInput = z.infer<typeof merchantStatementSchema>;
+export type PayablesAgeingInput = z.infer<typeof payablesAgeingSchema>;
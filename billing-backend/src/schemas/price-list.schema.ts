@@ -0,0 +1,57 @@
+import { z } from 'zod';
+
+const priceListItemSchema = z.object({
+  productId: z.string().uuid('Invalid product ID'),
+  variantId: z.string().uuid('Invalid variant ID').optional(), // Omit to price every variant of the product
+  minQuantity: z.number().positive('Minimum quantity must be positive').default(1), // Quantity break this price starts at
+  price: z.number().min(0, 'Price must be non-negative'),
+  validFrom: z.string().datetime().optional(),
+  validTo: z.string().datetime().optional(),
+});
+
+export const createPriceListSchema = z.object({
+  name: z.string().min(1, 'Price list name is required').max(100),
+  description: z.string().optional(),
+  priceBasis: z.enum(['SELLING_PRICE', 'WHOLESALE_PRICE', 'MRP']).optional(), // Price for products not on the list
+  adjustmentPercent: z.number().min(-100).max(100).optional(), // Applied to the basis, e.g. -5 for 5% off
+  isDefault: z.boolean().optional(), // Applies to customers without a list of their own
+  validFrom: z.string().datetime().optional(),
+  validTo: z.string().datetime().optional(),
+  items: z.array(priceListItemSchema).optional(),
+});
+
+export const updatePriceListSchema = createPriceListSchema.omit({ items: true }).partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+export const setPriceListItemsSchema = z.object({
+  items: z.array(priceListItemSchema), // Replaces every price on the list
+});
+
+export const priceListQuerySchema = z.object({
+  search: z.string().optional(),
+  includeInactive: z.preprocess(value => value === 'true' || value === true, z.boolean()).optional(),
+  page: z.coerce.number().min(1).optional(),
+  limit: z.coerce.number().min(1).max(100).optional(),
+});
+
+export const assignPriceListSchema = z.object({
+  customerIds: z.array(z.string().uuid('Invalid customer ID')).min(1, 'At least one customer is required'),
+});
+
+// The price a customer would be billed for a product, as the billing screen would see it
+export const priceQuoteQuerySchema = z.object({
+  productId: z.string().uuid('Invalid product ID'),
+  variantId: z.string().uuid('Invalid variant ID').optional(),
+  customerId: z.string().uuid('Invalid customer ID').optional(),
+  quantity: z.coerce.number().positive().optional(),
+  date: z.string().datetime().optional(),
+});
+
+export type CreatePriceListInput = z.infer<typeof createPriceListSchema>;
+export type UpdatePriceListInput = z.infer<typeof updatePriceListSchema>;
+export type SetPriceListItemsInput = z.infer<typeof setPriceListItemsSchema>;
+export type PriceListQueryInput = z.infer<typeof priceListQuerySchema>;
+export type AssignPriceListInput = z.infer<typeof assignPriceListSchema>;
+export type PriceQuoteQueryInput = z.infer<typeof priceQuoteQuerySchema>;
+export type PriceListItemInput = z.infer<typeof priceListItemSchema>;
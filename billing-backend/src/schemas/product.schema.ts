@@ -60,6 +60,7 @@ export const createProductSchema = z.object({
   
   // Tax
   taxPercent: z.number().min(0).max(100).optional(),
+  cessPercent: z.number().min(0).max(100).optional(),
   hsnCode: z.string().optional(),
   sacCode: z.string().optional(),
   isTaxable: z.boolean().default(true),
@@ -71,6 +72,11 @@ export const createProductSchema = z.object({
   maximumStock: z.number().optional(),
   reorderPoint: z.number().optional(),
   reorderQuantity: z.number().optional(),
+  tracksBatches: z.boolean().optional(), // Require batch numbers and expiry dates on receipts
+  nearExpiryDays: z.number().int().min(1).max(365).optional(),
+  tracksSerials: z.boolean().optional(), // Every unit carries a serial number or IMEI
+  warrantyMonths: z.number().int().min(0).max(240).optional(),
+  serialNumbers: z.array(z.string().min(1).max(100)).optional(), // Opening stock units of a serialised product
   
   // IDs
   barcode: z.string().max(255).optional(),
@@ -103,6 +109,13 @@ export const updateProductSchema = createProductSchema.partial().extend({
 
 export const stockAdjustmentSchema = z.object({
   productId: z.string().uuid().optional(), // Often in param, but good to have
+  variantId: z.string().uuid().optional(), // Variant products adjust their default variant when omitted
+  locationId: z.string().uuid().optional(), // Location counted or adjusted; the default location when omitted
+  batchId: z.string().uuid().optional(), // Existing batch to adjust
+  batchNumber: z.string().min(1).max(100).optional(), // Batch to add stock into, created if new
+  manufactureDate: z.string().datetime().optional(),
+  expiryDate: z.string().datetime().optional(),
+  serialNumbers: z.array(z.string().min(1).max(100)).optional(), // Units added or removed on a serialised product
   quantity: z.number(), // Can be negative for removal
   reason: z.string().min(1),
   notes: z.string().optional(),
@@ -110,6 +123,52 @@ export const stockAdjustmentSchema = z.object({
   type: z.enum(['PURCHASE', 'SALE', 'RETURN', 'ADJUSTMENT', 'TRANSFER', 'DAMAGE', 'EXPIRED', 'CONSUMPTION', 'PRODUCTION']).optional(), // Detailed type for audit
 });
 
+export const stockLedgerQuerySchema = z.object({
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  movementType: z.enum(['PURCHASE', 'SALE', 'RETURN', 'ADJUSTMENT', 'TRANSFER', 'DAMAGE', 'EXPIRED', 'CONSUMPTION', 'PRODUCTION']).optional(),
+  page: z.coerce.number().min(1).optional(),
+  limit: z.coerce.number().min(1).max(200).optional(),
+});
+
+export const reconcileStockSchema = z.object({
+  repair: z.boolean().optional(), // Reset drifted products to the ledger figure; defaults to report only
+});
+
+export const batchQuerySchema = z.object({
+  productId: z.string().uuid().optional(),
+  variantId: z.string().uuid().optional(),
+  status: z.enum(['ACTIVE', 'NEAR_EXPIRY', 'EXPIRED', 'DEPLETED']).optional(),
+  expiringWithinDays: z.coerce.number().int().min(0).max(3650).optional(),
+  includeDepleted: z.preprocess(value => value === 'true' || value === true, z.boolean()).optional(),
+  page: z.coerce.number().min(1).optional(),
+  limit: z.coerce.number().min(1).max(200).optional(),
+});
+
+export const updateBatchSchema = z.object({
+  manufactureDate: z.string().datetime().nullable().optional(),
+  expiryDate: z.string().datetime().nullable().optional(),
+  notes: z.string().optional(),
+});
+
+export const serialQuerySchema = z.object({
+  variantId: z.string().uuid().optional(),
+  status: z.enum(['IN_STOCK', 'SOLD', 'WRITTEN_OFF']).optional(),
+  search: z.string().optional(),
+  page: z.coerce.number().min(1).optional(),
+  limit: z.coerce.number().min(1).max(200).optional(),
+});
+
+export const setBomSchema = z.object({
+  variantId: z.string().uuid().optional(), // Define the BOM of one variant; otherwise it applies to every variant
+  components: z.array(z.object({
+    componentProductId: z.string().uuid('Invalid component product ID'),
+    componentVariantId: z.string().uuid('Invalid component variant ID').optional(),
+    quantity: z.number().positive('Component quantity must be positive'), // Per unit of the parent
+    notes: z.string().optional(),
+  })), // An empty list removes the BOM
+});
+
 export const productQuerySchema = z.object({
   search: z.string().optional(),
   categoryId: z.string().uuid().optional(),
@@ -127,4 +186,10 @@ export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
 export type CreateProductInput = z.infer<typeof createProductSchema>;
 export type UpdateProductInput = z.infer<typeof updateProductSchema>;
 export type StockAdjustmentInput = z.infer<typeof stockAdjustmentSchema>;
+export type StockLedgerQueryInput = z.infer<typeof stockLedgerQuerySchema>;
+export type ReconcileStockInput = z.infer<typeof reconcileStockSchema>;
+export type BatchQueryInput = z.infer<typeof batchQuerySchema>;
+export type UpdateBatchInput = z.infer<typeof updateBatchSchema>;
+export type SerialQueryInput = z.infer<typeof serialQuerySchema>;
+export type SetBomInput = z.infer<typeof setBomSchema>;
 export type ProductQueryInput = z.infer<typeof productQuerySchema>;
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+export const createProductionOrderSchema = z.object({
+  productId: z.string().uuid('Invalid product ID'),
+  variantId: z.string().uuid('Invalid variant ID').optional(),
+  locationId: z.string().uuid('Invalid location ID').optional(), // Where materials are drawn and goods are put; the default location when omitted
+  quantity: z.number().positive('Quantity must be positive'),
+  additionalCost: z.number().min(0).optional(), // Labour and overheads added to the material cost
+  notes: z.string().optional(),
+});
+
+export const productionOrderQuerySchema = z.object({
+  status: z.enum(['PLANNED', 'COMPLETED', 'CANCELLED']).optional(),
+  productId: z.string().uuid().optional(),
+  page: z.coerce.number().min(1).optional(),
+  limit: z.coerce.number().min(1).max(100).optional(),
+});
+
+export const completeProductionOrderSchema = z.object({
+  producedQuantity: z.number().positive('Produced quantity must be positive').optional(), // Defaults to the planned quantity
+  additionalCost: z.number().min(0).optional(),
+  // Actual consumption where it differed from the plan (scrap, substitutions in quantity)
+  components: z.array(z.object({
+    componentId: z.string().uuid('Invalid component ID'),
+    quantity: z.number().min(0),
+    serialNumbers: z.array(z.string().min(1).max(100)).optional(),
+  })).optional(),
+  // Finished goods tracked by batch or serial
+  batchNumber: z.string().min(1).max(100).optional(),
+  manufactureDate: z.string().datetime().optional(),
+  expiryDate: z.string().datetime().optional(),
+  serialNumbers: z.array(z.string().min(1).max(100)).optional(),
+  notes: z.string().optional(),
+});
+
+export const cancelProductionOrderSchema = z.object({
+  reason: z.string().min(1, 'Cancellation reason is required'),
+});
+
+export type CreateProductionOrderInput = z.infer<typeof createProductionOrderSchema>;
+export type ProductionOrderQueryInput = z.infer<typeof productionOrderQuerySchema>;
+export type CompleteProductionOrderInput = z.infer<typeof completeProductionOrderSchema>;
+export type CancelProductionOrderInput = z.infer<typeof cancelProductionOrderSchema>;
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+export const purchaseOrderItemSchema = z.object({
+  productId: z.string().uuid('Invalid product ID'),
+  variantId: z.string().uuid('Invalid variant ID').optional(),
+  quantity: z.number().positive('Quantity must be positive'),
+  unitPrice: z.number().nonnegative('Unit price must be non-negative').optional(), // Defaults to the product's purchase price
+  taxPercent: z.number().min(0).max(100).optional(), // Defaults to the product's tax rate
+  notes: z.string().optional(),
+});
+
+export const createPurchaseOrderSchema = z.object({
+  merchantId: z.string().uuid('Invalid merchant ID'),
+  locationId: z.string().uuid('Invalid location ID').optional(), // Delivery location; the default location when omitted
+  orderDate: z.string().datetime().optional(),
+  expectedDeliveryDate: z.string().datetime().optional(),
+  shippingCost: z.number().nonnegative().optional(),
+  notes: z.string().optional(),
+  internalNotes: z.string().optional(),
+  items: z.array(purchaseOrderItemSchema).min(1, 'At least one item is required'),
+});
+
+export const updatePurchaseOrderSchema = createPurchaseOrderSchema.omit({ merchantId: true }).partial();
+
+export const purchaseOrderQuerySchema = z.object({
+  search: z.string().optional(),
+  merchantId: z.string().uuid().optional(),
+  status: z.enum(['PENDING', 'CONFIRMED', 'PARTIALLY_RECEIVED', 'RECEIVED', 'CANCELLED']).optional(),
+  paymentStatus: z.enum(['PENDING', 'PARTIAL', 'PAID']).optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  sortBy: z.enum(['orderDate', 'createdAt', 'totalAmount', 'orderNumber', 'expectedDeliveryDate']).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+  page: z.coerce.number().min(1).optional(),
+  limit: z.coerce.number().min(1).max(100).optional(),
+});
+
+export const sendPurchaseOrderSchema = z.object({
+  channels: z.array(z.enum(['email', 'whatsapp'])).optional(), // Defaults to email when the merchant has one
+  message: z.string().max(1000).optional(),
+});
+
+export const cancelPurchaseOrderSchema = z.object({
+  reason: z.string().min(1, 'Cancellation reason is required'),
+});
+
+export const goodsReceiptSchema = z.object({
+  receivedDate: z.string().datetime().optional(),
+  supplierInvoiceNumber: z.string().max(100).optional(),
+  notes: z.string().optional(),
+  items: z.array(z.object({
+    purchaseOrderItemId: z.string().uuid('Invalid purchase order item ID'),
+    quantity: z.number().positive('Quantity must be positive'),
+    unitCost: z.number().nonnegative().optional(), // Defaults to the ordered unit price
+    batchNumber: z.string().min(1).max(100).optional(), // Required for batch-tracked products
+    manufactureDate: z.string().datetime().optional(),
+    expiryDate: z.string().datetime().optional(),
+    serialNumbers: z.array(z.string().min(1).max(100)).optional(), // Required for serialised products, one per unit
+    notes: z.string().optional(),
+  })).min(1, 'At least one item is required'),
+});
+
+export const reorderSuggestionQuerySchema = z.object({
+  windowDays: z.coerce.number().int().min(7).max(365).optional(), // Sales history used for velocity, default 30
+  leadTimeDays: z.coerce.number().int().min(0).max(180).optional(), // Used when the merchant has no average delivery time
+  merchantId: z.string().uuid().optional(),
+  categoryId: z.string().uuid().optional(),
+});
+
+export const confirmReorderSchema = z.object({
+  windowDays: z.number().int().min(7).max(365).optional(),
+  leadTimeDays: z.number().int().min(0).max(180).optional(),
+  // Reviewed lines; without them every suggestion that has a merchant is ordered as proposed
+  lines: z.array(z.object({
+    productId: z.string().uuid('Invalid product ID'),
+    merchantId: z.string().uuid('Invalid merchant ID'),
+    quantity: z.number().positive('Quantity must be positive'),
+    unitPrice: z.number().nonnegative().optional(),
+  })).min(1).optional(),
+  expectedDeliveryDate: z.string().datetime().optional(),
+  notes: z.string().optional(),
+});
+
+export type PurchaseOrderItemInput = z.infer<typeof purchaseOrderItemSchema>;
+export type CreatePurchaseOrderInput = z.infer<typeof createPurchaseOrderSchema>;
+export type UpdatePurchaseOrderInput = z.infer<typeof updatePurchaseOrderSchema>;
+export type PurchaseOrderQueryInput = z.infer<typeof purchaseOrderQuerySchema>;
+export type SendPurchaseOrderInput = z.infer<typeof sendPurchaseOrderSchema>;
+export type CancelPurchaseOrderInput = z.infer<typeof cancelPurchaseOrderSchema>;
+export type GoodsReceiptInput = z.infer<typeof goodsReceiptSchema>;
+export type ReorderSuggestionQueryInput = z.infer<typeof reorderSuggestionQuerySchema>;
+export type ConfirmReorderInput = z.infer<typeof confirmReorderSchema>;
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+const includedMaterialSchema = z.object({
+  productId: z.string().uuid('Invalid material product ID'),
+  variantId: z.string().uuid('Invalid material variant ID').optional(),
+  quantity: z.number().positive('Material quantity must be positive'), // Per unit of service
+  price: z.number().min(0).optional(), // Defaults to the product's selling price
+  isVariable: z.boolean().optional(), // Quantity may be changed at billing even when the template locks materials
+});
+
+const pricingTierSchema = z.object({
+  name: z.string().min(1).max(100),
+  minQuantity: z.number().positive(),
+  price: z.number().min(0), // Labour rate per unit from this quantity up
+});
+
+export const createServiceTemplateSchema = z.object({
+  productId: z.string().uuid('Invalid product ID').optional(), // Service product the labour line is billed as
+  name: z.string().min(1, 'Template name is required').max(255),
+  description: z.string().optional(),
+  baseServiceCost: z.number().min(0),
+  includedMaterials: z.array(includedMaterialSchema).optional(),
+  allowMaterialModification: z.boolean().optional(),
+  pricingTiers: z.array(pricingTierSchema).optional(),
+  estimatedDuration: z.number().int().positive().optional(), // Minutes
+});
+
+export const updateServiceTemplateSchema = createServiceTemplateSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+export const serviceTemplateQuerySchema = z.object({
+  productId: z.string().uuid().optional(),
+  search: z.string().optional(),
+  includeInactive: z.preprocess(value => value === 'true' || value === true, z.boolean()).optional(),
+  page: z.coerce.number().min(1).optional(),
+  limit: z.coerce.number().min(1).max(100).optional(),
+});
+
+// How a template is used on a bill: how many units of service, and any material quantities that differ
+export const serviceTemplateUsageSchema = z.object({
+  quantity: z.number().positive('Quantity must be positive').default(1),
+  materials: z.array(z.object({
+    productId: z.string().uuid('Invalid material product ID'),
+    quantity: z.number().min(0), // Total for the line; 0 leaves the material out
+  })).optional(),
+});
+
+export type CreateServiceTemplateInput = z.infer<typeof createServiceTemplateSchema>;
+export type UpdateServiceTemplateInput = z.infer<typeof updateServiceTemplateSchema>;
+export type ServiceTemplateQueryInput = z.infer<typeof serviceTemplateQuerySchema>;
+export type ServiceTemplateUsageInput = z.infer<typeof serviceTemplateUsageSchema>;
+export type IncludedMaterial = z.infer<typeof includedMaterialSchema>;
+export type PricingTier = z.infer<typeof pricingTierSchema>;
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+export const createStocktakeSchema = z.object({
+  locationId: z.string().uuid('Invalid location ID').optional(), // The default location when the business has locations
+  categoryId: z.string().uuid('Invalid category ID').optional(), // Count one category only
+  notes: z.string().optional(),
+});
+
+export const stocktakeQuerySchema = z.object({
+  status: z.enum(['COUNTING', 'APPROVED', 'CANCELLED']).optional(),
+  locationId: z.string().uuid().optional(),
+  page: z.coerce.number().min(1).optional(),
+  limit: z.coerce.number().min(1).max(100).optional(),
+});
+
+export const submitStocktakeCountsSchema = z.object({
+  counts: z.array(z.object({
+    code: z.string().min(1).max(255).optional(), // Scanned barcode, SKU or product code
+    productId: z.string().uuid('Invalid product ID').optional(),
+    variantId: z.string().uuid('Invalid variant ID').optional(),
+    serialNumber: z.string().min(1).max(100).optional(), // Serialised products are counted one scanned unit at a time
+    quantity: z.number().refine(value => value !== 0, 'Quantity cannot be zero').optional(), // Defaults to 1 per scan; negative corrects a miscount
+  }).refine(count => count.code || count.productId || count.serialNumber, {
+    message: 'A scanned code, product or serial number is required',
+  })).min(1, 'At least one count is required'),
+});
+
+export const stocktakeVarianceQuerySchema = z.object({
+  onlyVariances: z.preprocess(value => value === 'true' || value === true, z.boolean()).optional(),
+  search: z.string().optional(),
+  page: z.coerce.number().min(1).optional(),
+  limit: z.coerce.number().min(1).max(500).optional(),
+});
+
+export const stocktakeCountQuerySchema = z.object({
+  page: z.coerce.number().min(1).optional(),
+  limit: z.coerce.number().min(1).max(500).optional(),
+});
+
+export const approveStocktakeSchema = z.object({
+  uncountedAsZero: z.boolean().optional(), // Write off items nobody counted instead of leaving them unchanged
+  notes: z.string().optional(),
+});
+
+export const cancelStocktakeSchema = z.object({
+  reason: z.string().min(1, 'Cancellation reason is required'),
+});
+
+export type CreateStocktakeInput = z.infer<typeof createStocktakeSchema>;
+export type StocktakeQueryInput = z.infer<typeof stocktakeQuerySchema>;
+export type SubmitStocktakeCountsInput = z.infer<typeof submitStocktakeCountsSchema>;
+export type StocktakeVarianceQueryInput = z.infer<typeof stocktakeVarianceQuerySchema>;
+export type StocktakeCountQueryInput = z.infer<typeof stocktakeCountQuerySchema>;
+export type ApproveStocktakeInput = z.infer<typeof approveStocktakeSchema>;
+export type CancelStocktakeInput = z.infer<typeof cancelStocktakeSchema>;
@@ -182,7 +182,7 @@ export class AuditService {
   }
 
   async logBillAction(
-    action: 'CREATE' | 'UPDATE' | 'DELETE' | 'VIEW' | 'SEND' | 'PAY' | 'SUBMIT_FOR_APPROVAL' | 'APPROVE_BILL' | 'REJECT_BILL',
+    action: 'CREATE' | 'UPDATE' | 'DELETE' | 'VIEW' | 'SEND' | 'PAY' | 'SUBMIT_FOR_APPROVAL' | 'APPROVE_BILL' | 'REJECT_BILL' | 'RETURN' | 'VOID' | 'FINALIZE',
     businessId: string,
     userId: string,
     billId: string,
@@ -0,0 +1,223 @@
+import { db } from '../config/database';
+import { productBatches, products, productVariants, stockMovementBatches, stockMovements } from '../models/drizzle/schema';
+import { eq, and, sql, asc, count, gt, lte, inArray, isNotNull, SQL } from 'drizzle-orm';
+import { BatchQueryInput, UpdateBatchInput } from '../schemas/product.schema';
+import { logger } from '../utils/logger';
+import { InventoryService } from './inventory.service';
+
+type ProductBatch = typeof productBatches.$inferSelect;
+
+export interface BatchListItem extends ProductBatch {
+  productName: string;
+  productCode: string;
+  variantName: string | null;
+}
+
+export interface BillItemBatch {
+  batchNumber: string;
+  expiryDate: Date | null;
+  quantity: number;
+}
+
+const inventoryService = new InventoryService();
+
+// Products without their own window flag batches this many days before expiry
+const DEFAULT_NEAR_EXPIRY_DAYS = 30;
+
+export class BatchService {
+  async getBatches(businessId: string, query: BatchQueryInput & { productId?: string }): Promise<{ batches: BatchListItem[]; pagination: { page: number; limit: number; total: number; totalPages: number } }> {
+    const { productId, variantId, status, expiringWithinDays, includeDepleted = false, page = 1, limit = 50 } = query;
+
+    const conditions: SQL[] = [eq(productBatches.businessId, businessId)];
+    if (productId) conditions.push(eq(productBatches.productId, productId));
+    if (variantId) conditions.push(eq(productBatches.variantId, variantId));
+    if (status) conditions.push(eq(productBatches.status, status));
+    if (!includeDepleted && status !== 'DEPLETED') conditions.push(gt(productBatches.quantity, '0'));
+    if (expiringWithinDays !== undefined) {
+      const cutoff = new Date();
+      cutoff.setDate(cutoff.getDate() + expiringWithinDays);
+      conditions.push(isNotNull(productBatches.expiryDate), lte(productBatches.expiryDate, cutoff));
+    }
+
+    const [countResult] = await db
+      .select({ count: count() })
+      .from(productBatches)
+      .where(and(...conditions));
+
+    const total = countResult?.count || 0;
+
+    const rows = await db
+      .select({
+        batch: productBatches,
+        productName: products.name,
+        productCode: products.productCode,
+        variantName: productVariants.variantName,
+      })
+      .from(productBatches)
+      .innerJoin(products, eq(productBatches.productId, products.id))
+      .leftJoin(productVariants, eq(productBatches.variantId, productVariants.id))
+      .where(and(...conditions))
+      .orderBy(sql`${productBatches.expiryDate} ASC NULLS LAST`, asc(productBatches.createdAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      batches: rows.map(row => ({
+        ...row.batch,
+        productName: row.productName,
+        productCode: row.productCode,
+        variantName: row.variantName,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Correct a batch's dates or notes. Quantities only change through stock movements.
+   */
+  async updateBatch(businessId: string, batchId: string, input: UpdateBatchInput): Promise<ProductBatch> {
+    const [batch] = await db
+      .select()
+      .from(productBatches)
+      .where(and(eq(productBatches.id, batchId), eq(productBatches.businessId, businessId)))
+      .limit(1);
+
+    if (!batch) {
+      throw new Error('Batch not found');
+    }
+
+    const updateData: Partial<typeof productBatches.$inferInsert> = { updatedAt: new Date() };
+    if (input.manufactureDate !== undefined) updateData.manufactureDate = input.manufactureDate ? new Date(input.manufactureDate) : null;
+    if (input.expiryDate !== undefined) updateData.expiryDate = input.expiryDate ? new Date(input.expiryDate) : null;
+    if (input.notes !== undefined) updateData.notes = input.notes;
+
+    // A corrected expiry date puts a flagged batch back to active; the nightly job re-flags it if still due
+    if (updateData.expiryDate !== undefined && batch.status === 'NEAR_EXPIRY') {
+      updateData.status = 'ACTIVE';
+    }
+
+    const [updated] = await db
+      .update(productBatches)
+      .set(updateData)
+      .where(eq(productBatches.id, batchId))
+      .returning();
+
+    if (!updated) {
+      throw new Error('Batch not found');
+    }
+
+    logger.info('Batch updated', { batchId, businessId });
+
+    return updated;
+  }
+
+  /**
+   * Batches each line of a bill was sold from, for printing on the invoice
+   */
+  async getBillItemBatches(billId: string): Promise<Map<string, BillItemBatch[]>> {
+    const rows = await db
+      .select({
+        billItemId: stockMovementBatches.billItemId,
+        batchNumber: productBatches.batchNumber,
+        expiryDate: productBatches.expiryDate,
+        quantity: sql<string>`SUM(${stockMovementBatches.quantity})`,
+      })
+      .from(stockMovementBatches)
+      .innerJoin(stockMovements, eq(stockMovementBatches.movementId, stockMovements.id))
+      .innerJoin(productBatches, eq(stockMovementBatches.batchId, productBatches.id))
+      .where(and(
+        eq(stockMovements.billId, billId),
+        inArray(stockMovements.movementType, ['SALE', 'RETURN'])
+      ))
+      .groupBy(stockMovementBatches.billItemId, productBatches.id, productBatches.batchNumber, productBatches.expiryDate);
+
+    const byItem = new Map<string, BillItemBatch[]>();
+
+    for (const row of rows) {
+      // Sold quantities are negative; lines fully returned or voided drop out
+      const quantity = -Number(row.quantity);
+      if (!row.billItemId || quantity <= 0) continue;
+
+      const list = byItem.get(row.billItemId) || [];
+      list.push({ batchNumber: row.batchNumber, expiryDate: row.expiryDate, quantity });
+      byItem.set(row.billItemId, list);
+    }
+
+    return byItem;
+  }
+
+  /**
+   * Nightly expiry sweep: flags batches inside their near-expiry window and writes off expired stock
+   * with an EXPIRED movement, one batch per transaction so a failure does not hold up the rest.
+   */
+  async processExpiries(): Promise<{ nearExpiry: number; expired: number; writtenOff: number; failed: number }> {
+    const now = new Date();
+    const summary = { nearExpiry: 0, expired: 0, writtenOff: 0, failed: 0 };
+
+    const rows = await db
+      .select({
+        batch: productBatches,
+        nearExpiryDays: products.nearExpiryDays,
+      })
+      .from(productBatches)
+      .innerJoin(products, eq(productBatches.productId, products.id))
+      .where(and(
+        inArray(productBatches.status, ['ACTIVE', 'NEAR_EXPIRY']),
+        isNotNull(productBatches.expiryDate),
+        gt(productBatches.quantity, '0')
+      ));
+
+    for (const { batch, nearExpiryDays } of rows) {
+      if (!batch.expiryDate) continue;
+
+      if (batch.expiryDate < now) {
+        try {
+          await db.transaction(async (tx) => {
+            await inventoryService.recordMovement(tx, {
+              businessId: batch.businessId,
+              productId: batch.productId,
+              variantId: batch.variantId,
+              movementType: 'EXPIRED',
+              quantity: -Number(batch.quantity),
+              batchId: batch.id,
+              reason: 'Batch expired',
+              notes: `Batch ${batch.batchNumber} expired on ${batch.expiryDate?.toISOString().slice(0, 10)}`,
+            });
+
+            await tx.update(productBatches)
+              .set({ status: 'EXPIRED', updatedAt: new Date() })
+              .where(eq(productBatches.id, batch.id));
+          });
+
+          summary.expired++;
+          summary.writtenOff += Number(batch.quantity);
+        } catch (error) {
+          summary.failed++;
+          logger.error('Failed to write off expired batch', { batchId: batch.id, businessId: batch.businessId, error });
+        }
+        continue;
+      }
+
+      const windowEnd = new Date(now);
+      windowEnd.setDate(windowEnd.getDate() + (nearExpiryDays ?? DEFAULT_NEAR_EXPIRY_DAYS));
+
+      if (batch.status === 'ACTIVE' && batch.expiryDate <= windowEnd) {
+        await db.update(productBatches)
+          .set({ status: 'NEAR_EXPIRY', updatedAt: new Date() })
+          .where(eq(productBatches.id, batch.id));
+        summary.nearExpiry++;
+      }
+    }
+
+    if (summary.expired > 0 || summary.nearExpiry > 0) {
+      logger.warn('Batch expiry sweep flagged stock', summary);
+    }
+
+    return summary;
+  }
+}
@@ -1,13 +1,17 @@
 import { db } from '../config/database';
-import { bills, billApprovalHistory, users, retailBusinesses } from '../models/drizzle/schema';
+import { bills, billApprovalHistory, users } from '../models/drizzle/schema';
 import { eq, and } from 'drizzle-orm';
 import { logger } from '../utils/logger';
 import { AuditService } from './audit.service';
 import { NotificationService } from './notification.service';
+import { BillingService } from './billing.service';
+import { CustomerBalanceService } from './customer-balance.service';
 // Duplicate import removed
 
 const auditService = new AuditService();
 const notificationService = new NotificationService();
+const billingService = new BillingService();
+const customerBalanceService = new CustomerBalanceService();
 
 // Validation schemas
 // Validation schemas
@@ -53,34 +57,8 @@ export class BillApprovalService {
         throw new Error('Only draft bills can be submitted for approval');
       }
 
-      // Update bill status and approval workflow
-      const updatedBill = await db
-        .update(bills)
-        .set({
-          status: 'PENDING',
-          approvalStatus: requiresApproval ? 'PENDING' : 'NOT_REQUIRED',
-          requiresApproval,
-          updatedAt: new Date(),
-        })
-        .where(eq(bills.id, billId))
-        .returning();
-
-      // Create approval history entry
-      if (requiresApproval) {
-        await db.insert(billApprovalHistory).values({
-          billId,
-          action: 'SUBMITTED',
-          performedBy: submittedBy,
-          notes: 'Bill submitted for approval',
-          oldStatus: 'DRAFT',
-          newStatus: 'PENDING',
-          oldApprovalStatus: 'NOT_REQUIRED',
-          newApprovalStatus: 'PENDING',
-        });
-
-        // Notify business owner for approval
-        await this.notifyOwnerForApproval(businessId, billId);
-      }
+      // Finalizing deducts stock, records approval history and notifies the owner
+      const { bill: updatedBill } = await billingService.finalizeBill(businessId, submittedBy, billId, { requiresApproval });
 
       // Audit log
       await auditService.logBillAction(
@@ -99,8 +77,7 @@ export class BillApprovalService {
         requiresApproval,
       });
 
-      if (!updatedBill[0]) throw new Error('Failed to update bill');
-      return updatedBill[0];
+      return updatedBill;
     } catch (error) {
       logger.error('Error submitting bill for approval', { error, billId, businessId });
       throw error;
@@ -161,17 +138,31 @@ export class BillApprovalService {
       const newApprovalStatus = action === 'approve' ? 'APPROVED' : 'REJECTED';
       const newBillStatus = action === 'approve' ? 'PENDING' : 'DRAFT'; // Reset to draft if rejected
 
-      const updatedBill = await db
-        .update(bills)
-        .set({
-          approvalStatus: newApprovalStatus,
-          status: newBillStatus,
-          approvedBy,
-          approvedAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(bills.id, billId))
-        .returning();
+      const updatedBill = await db.transaction(async (tx) => {
+        // A rejected bill goes back to draft, so the stock deducted at finalize is released
+        if (action === 'reject' && existingBill.status !== 'DRAFT') {
+          await billingService.releaseStock(tx, businessId, billId, approvedBy, 'Bill rejected', notes);
+        }
+
+        const updated = await tx
+          .update(bills)
+          .set({
+            approvalStatus: newApprovalStatus,
+            status: newBillStatus,
+            approvedBy,
+            approvedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(bills.id, billId))
+          .returning();
+
+        // A rejected bill goes back to draft and is no longer owed
+        if (existingBill.customerId) {
+          await customerBalanceService.refreshOutstandingBalance(tx, businessId, existingBill.customerId);
+        }
+
+        return updated;
+      });
 
       // Create approval history entry
       await db.insert(billApprovalHistory).values({
@@ -349,35 +340,6 @@ export class BillApprovalService {
     }
   }
 
-  /**
-   * Notify business owner for bill approval
-   */
-  private async notifyOwnerForApproval(businessId: string, billId: string): Promise<void> {
-    try {
-      // Get business owner
-      const business = await db
-        .select()
-        .from(retailBusinesses)
-        .where(eq(retailBusinesses.id, businessId))
-        .limit(1);
-
-      if (business.length && business[0]) {
-        await notificationService.sendNotification({
-          type: 'BILL_APPROVAL_REQUEST',
-          recipientId: business[0].ownerId,
-          businessId,
-          entityId: billId,
-          entityType: 'BILL',
-          title: 'New Bill Requires Approval',
-          message: `A new bill has been submitted and requires your approval. Bill ID: ${billId}`,
-          priority: 'HIGH',
-        });
-      }
-    } catch (error) {
-      logger.error('Error notifying owner for bill approval', { error, businessId, billId });
-    }
-  }
-
   /**
    * Notify bill creator about approval decision
    */
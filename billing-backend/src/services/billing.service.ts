@@ -1,26 +1,56 @@
-import { db } from '../config/database';
+import { db, DbTransaction } from '../config/database';
 import { 
   bills, 
   billItems, 
   products, 
+  productVariants,
   payments, 
   paymentAllocations,
+  billHistory,
+  billApprovalHistory,
+  retailBusinesses,
+  creditNotes,
+  creditNoteItems,
+  customers,
+  walletTransactions,
+  moneyTransactions,
+  storeLocations,
+  businessStaff,
+  priceLists,
   billingStatusEnum,
   paymentMethodEnum,
   paymentStatusEnum,
   recurringFrequencyEnum,
   productUnitEnum
 } from '../models/drizzle/schema';
-import { eq, and, sql, desc, count, gte, lte, SQL } from 'drizzle-orm';
+import { eq, and, sql, desc, count, gte, lte, isNull, SQL } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
 import { 
   CreateBillInput, 
   UpdateBillInput, 
   BillQueryInput, 
-  BillPaymentInput 
+  BillPaymentInput,
+  FinalizeBillInput,
+  VoidBillInput,
+  AddServiceTemplateInput,
+  CheckoutInput,
+  RefundPaymentInput
 } from '../schemas/bill.schema';
 import { logger } from '../utils/logger';
 import { AuditService } from './audit.service';
+import { SequenceService } from './sequence.service';
+import { NotificationService } from './notification.service';
+import { InventoryService } from './inventory.service';
+import { BomService } from './bom.service';
+import { ServiceTemplateService } from './service-template.service';
+import { PriceListService } from './price-list.service';
+import { SalesSummaryService } from './sales-summary.service';
+import { CustomerBalanceService } from './customer-balance.service';
+import { CustomerCreditService, CreditOffer } from './customer-credit.service';
 import { AuthenticatedRequest } from '../types/common';
+import { calculateNextRecurringDate } from '../utils/billing';
+import { voidReversal, reopenBill, refundSplit } from '../utils/settlement';
+import { calculateLineTax, determinePlaceOfSupply, SupplyType } from '../utils/gst';
 
 type BillingStatus = typeof billingStatusEnum.enumValues[number];
 type PaymentMethod = typeof paymentMethodEnum.enumValues[number];
@@ -28,9 +58,18 @@ type PaymentStatus = typeof paymentStatusEnum.enumValues[number];
 type RecurringFrequency = typeof recurringFrequencyEnum.enumValues[number];
 type ProductUnit = typeof productUnitEnum.enumValues[number];
 
+// Shape of retailBusinesses.billingSettings used by the approval check
+interface ApprovalSettings {
+  approvalWorkflowEnabled?: boolean;
+  thresholdAmount?: number;
+  [key: string]: unknown;
+}
+
 interface ProcessedBillItem {
   productId?: string;
   variantId?: string;
+  batchId?: string;
+  serialNumbers?: string[];
   productName: string;
   productCode?: string;
   description?: string;
@@ -44,60 +83,75 @@ interface ProcessedBillItem {
   discountAmount: string;
   taxPercent?: number;
   taxAmount: string;
+  cgstRate: string;
+  cgstAmount: string;
+  sgstRate: string;
+  sgstAmount: string;
+  igstRate: string;
+  igstAmount: string;
+  cessPercent: string;
+  cessAmount: string;
   subtotal: string;
   totalAmount: string;
+  costPrice?: string; // Estimate from the product's average cost; replaced by the layer cost when stock is deducted
   isService?: boolean;
   trackQuantity?: boolean;
 }
 
-const auditService = new AuditService();
-
-export class BillingService {
-  
-  // Helper to generate next Bill Number
-  private async generateBillNumber(businessId: string): Promise<string> {
-    const today = new Date();
-    const year = today.getFullYear();
-    const prefix = `INV-${year}`;
-    
-    const [lastBill] = await db
-      .select({ billNumber: bills.billNumber })
-      .from(bills)
-      .where(and(
-        eq(bills.businessId, businessId),
-        sql`${bills.billNumber} LIKE ${`${prefix}-%`}`
-      ))
-      .orderBy(desc(bills.createdAt))
-      .limit(1);
+interface TaxContext {
+  placeOfSupply: string | null;
+  supplyType: SupplyType;
+  taxInclusive: boolean;
+}
 
-    if (lastBill) {
-      const lastSequence = parseInt(lastBill.billNumber.split('-').pop() || '0', 10);
-      return `${prefix}-${(lastSequence + 1).toString().padStart(5, '0')}`;
-    }
-    
-    return `${prefix}-00001`;
-  }
+// Who is pricing a bill: the customer's price list and how far below it the biller may go
+interface PricingContext {
+  priceList: typeof priceLists.$inferSelect | null;
+  date: Date;
+  enforce: boolean; // Off when re-pricing lines that were checked when they were added
+  override: boolean; // An owner or manager has approved selling outside the limits
+  staffLimits: { canGiveDiscounts: boolean; maxDiscountPercent: number; maxDiscountAmount: number | null } | null;
+}
 
-  // Helper to generate Payment Number
-  private async generatePaymentNumber(businessId: string): Promise<string> {
-    const prefix = `PAY-${new Date().getFullYear()}`;
-    const [lastPayment] = await db
-        .select({ paymentNumber: payments.paymentNumber })
-        .from(payments)
-        .where(and(
-            eq(payments.businessId, businessId),
-            sql`${payments.paymentNumber} LIKE ${`${prefix}-%`}`
-        ))
-        .orderBy(desc(payments.createdAt))
-        .limit(1);
+interface TaxBreakdown {
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  cessAmount: number;
+}
 
-    if (lastPayment) {
-        const lastSequence = parseInt(lastPayment.paymentNumber.split('-').pop() || '0', 10);
-        return `${prefix}-${(lastSequence + 1).toString().padStart(5, '0')}`;
-    }
-    return `${prefix}-00001`;
-  }
+const auditService = new AuditService();
+const sequenceService = new SequenceService();
+const notificationService = new NotificationService();
+const inventoryService = new InventoryService();
+const bomService = new BomService();
+const serviceTemplateService = new ServiceTemplateService();
+const priceListService = new PriceListService();
+const salesSummaryService = new SalesSummaryService();
+const customerCreditService = new CustomerCreditService();
+const customerBalanceService = new CustomerBalanceService();
+
+// Roles that may sell below a product's minimum price or beyond discount limits
+const PRICE_OVERRIDE_ROLES = ['RETAIL_OWNER', 'MANAGER', 'SUPER_ADMIN'];
+
+// Fields that can only change while a bill is still a draft
+const DRAFT_ONLY_FIELDS = [
+  'items', 'customerId', 'locationId', 'billDate', 'dueDate', 'paymentMethod', 'isRecurring', 'recurringFrequency', 'requiresApproval',
+  'placeOfSupply', 'taxInclusive', 'subtotal', 'discountAmount', 'discountPercent', 'taxAmount', 'shippingCost', 'adjustmentAmount', 'roundOffAmount', 'totalAmount',
+] as const;
+
+// Bill-level amount fields that trigger a totals recompute on a draft
+const AMOUNT_FIELDS = [
+  'subtotal', 'discountAmount', 'taxAmount', 'shippingCost', 'adjustmentAmount', 'roundOffAmount',
+] as const;
+
+// Fields that can move the place of supply or pricing basis, so line taxes are re-split on a draft
+const TAX_CONTEXT_FIELDS = [
+  'customerId', 'billingAddress', 'shippingAddress', 'placeOfSupply', 'taxInclusive',
+] as const;
 
+export class BillingService {
+  
   // Helper to update purchase patterns
   private async updatePurchasePatterns(businessId: string, customerId: string, items: ProcessedBillItem[]): Promise<void> {
     const { customerPurchasePatterns } = await import('../models/drizzle/schema');
@@ -186,84 +240,512 @@ export class BillingService {
     }));
   }
 
-  async createBill(businessId: string, userId: string, input: CreateBillInput, req?: AuthenticatedRequest): Promise<typeof bills.$inferSelect> {
-    const { 
-      items, customerId, billDate, dueDate, 
-      paymentMethod, status = 'DRAFT', 
-      requiresApproval = false,
-      shippingCost = 0, adjustmentAmount = 0, roundOffAmount = 0,
-      billingAddress, shippingAddress, notes, terms, internalNotes, customerNotes,
-      isRecurring, recurringFrequency
-    } = input;
+  private toHistoryValue(value: unknown): string | null {
+    if (value === null || value === undefined) return null;
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  }
+
+  // Notify business owner for bill approval
+  private async notifyOwnerForApproval(businessId: string, billId: string): Promise<void> {
+    try {
+      const [business] = await db
+        .select({ ownerId: retailBusinesses.ownerId })
+        .from(retailBusinesses)
+        .where(eq(retailBusinesses.id, businessId))
+        .limit(1);
+
+      if (business) {
+        await notificationService.sendNotification({
+          type: 'BILL_APPROVAL_REQUEST',
+          recipientId: business.ownerId,
+          businessId,
+          entityId: billId,
+          entityType: 'BILL',
+          title: 'New Bill Requires Approval',
+          message: `A new bill has been submitted and requires your approval. Bill ID: ${billId}`,
+          priority: 'HIGH',
+        });
+      }
+    } catch (error) {
+      logger.error('Error notifying owner for bill approval', { error, businessId, billId });
+    }
+  }
+
+  // Helper to pick the store a bill is raised from; staff tied to a store can only bill from it
+  private async resolveBillLocation(
+    executor: typeof db | DbTransaction,
+    businessId: string,
+    locationId: string | null | undefined,
+    req?: AuthenticatedRequest
+  ): Promise<typeof storeLocations.$inferSelect | undefined> {
+    const assignedLocationId = req?.user?.locationId;
+    if (assignedLocationId && locationId && locationId !== assignedLocationId) {
+      throw new Error('You can only bill from your assigned location');
+    }
+
+    const requestedId = locationId ?? assignedLocationId;
+    const [location] = await executor
+      .select()
+      .from(storeLocations)
+      .where(requestedId
+        ? and(eq(storeLocations.id, requestedId), eq(storeLocations.businessId, businessId))
+        : and(eq(storeLocations.businessId, businessId), eq(storeLocations.isDefault, true)))
+      .limit(1);
 
+    if (requestedId && (!location || !location.isActive)) {
+      throw new Error('Location not found');
+    }
+
+    return location;
+  }
+
+  // Helper to resolve place of supply and pricing basis for a bill from the business, customer and addresses
+  private async resolveTaxContext(
+    executor: typeof db | DbTransaction,
+    businessId: string,
+    params: { customerId?: string | null; billingAddress?: unknown; shippingAddress?: unknown; placeOfSupply?: string | null; taxInclusive?: boolean }
+  ): Promise<TaxContext> {
+    const [business] = await executor.select().from(retailBusinesses).where(eq(retailBusinesses.id, businessId)).limit(1);
+    if (!business) throw new Error('Business not found');
+
+    let customer: typeof customers.$inferSelect | undefined;
+    if (params.customerId) {
+      [customer] = await executor.select().from(customers)
+        .where(and(eq(customers.id, params.customerId), eq(customers.businessId, businessId)))
+        .limit(1);
+    }
+
+    const { placeOfSupply, supplyType } = determinePlaceOfSupply({
+      businessGstin: business.gstNumber,
+      businessAddress: business.address || business.billingAddress,
+      customerGstin: customer?.gstNumber,
+      billingAddress: params.billingAddress ?? customer?.billingAddress,
+      shippingAddress: params.shippingAddress ?? customer?.shippingAddress,
+      override: params.placeOfSupply,
+    });
+
+    return { placeOfSupply, supplyType, taxInclusive: params.taxInclusive ?? business.taxInclusive };
+  }
+
+  /**
+   * The variant a bill line sells. Lines on a variant product without one fall to its default variant;
+   * stock-tracked variant products with no default must name the variant.
+   */
+  private async resolveBillVariant(product: typeof products.$inferSelect, variantId?: string): Promise<typeof productVariants.$inferSelect | undefined> {
+    if (variantId) {
+      const [variant] = await db
+        .select()
+        .from(productVariants)
+        .where(and(eq(productVariants.id, variantId), eq(productVariants.productId, product.id)))
+        .limit(1);
+
+      if (!variant) {
+        throw new Error(`Variant ${variantId} does not belong to ${product.name}`);
+      }
+      if (!variant.isActive) {
+        throw new Error(`${product.name} - ${variant.variantName} is no longer sold`);
+      }
+
+      return variant;
+    }
+
+    if (!product.hasVariants) {
+      return undefined;
+    }
+
+    const activeVariants = await db
+      .select()
+      .from(productVariants)
+      .where(and(eq(productVariants.productId, product.id), eq(productVariants.isActive, true)));
+
+    const defaultVariant = activeVariants.find(v => v.isDefault);
+    if (!defaultVariant && activeVariants.length > 0 && product.trackQuantity && !product.isService) {
+      throw new Error(`Select a variant of ${product.name}`);
+    }
+
+    return defaultVariant;
+  }
+
+  // Helper to load the customer's price list and the biller's discount limits
+  private async resolvePricingContext(
+    executor: typeof db | DbTransaction,
+    businessId: string,
+    userId: string,
+    params: { customerId?: string | null; billDate: Date; priceOverride?: boolean; enforce: boolean },
+    req?: AuthenticatedRequest
+  ): Promise<PricingContext> {
+    const override = params.enforce && params.priceOverride === true;
+    if (override && !PRICE_OVERRIDE_ROLES.includes(req?.user?.role ?? '')) {
+      throw new Error('Only an owner or manager can override price limits');
+    }
+
+    const priceList = await priceListService.findApplicableList(executor, businessId, params.customerId, params.billDate);
+
+    let staffLimits: PricingContext['staffLimits'] = null;
+    if (params.enforce && !override) {
+      const [staff] = await executor
+        .select({
+          canGiveDiscounts: businessStaff.canGiveDiscounts,
+          maxDiscountPercent: businessStaff.maxDiscountPercent,
+          maxDiscountAmount: businessStaff.maxDiscountAmount,
+        })
+        .from(businessStaff)
+        .where(and(eq(businessStaff.businessId, businessId), eq(businessStaff.userId, userId), eq(businessStaff.isActive, true)))
+        .limit(1);
+
+      if (staff) {
+        staffLimits = {
+          canGiveDiscounts: staff.canGiveDiscounts,
+          maxDiscountPercent: Number(staff.maxDiscountPercent || 0),
+          maxDiscountAmount: staff.maxDiscountAmount !== null ? Number(staff.maxDiscountAmount) : null,
+        };
+      }
+    }
+
+    return { priceList, date: params.billDate, enforce: params.enforce, override, staffLimits };
+  }
+
+  // Helper to hold a line to the product's minimum selling price and maximum discount off its list price
+  private assertLinePrice(product: typeof products.$inferSelect, productName: string, unitNet: number, listPrice: number): void {
+    const minSellingPrice = Number(product.minSellingPrice || 0);
+    if (minSellingPrice > 0 && unitNet < minSellingPrice - 0.005) {
+      throw new Error(`${productName} cannot be sold below ${minSellingPrice.toFixed(2)} without a manager override`);
+    }
+
+    const maxDiscountPercent = Number(product.maxDiscountPercent ?? 100);
+    const discountPercent = listPrice > 0 ? ((listPrice - unitNet) / listPrice) * 100 : 0;
+    if (discountPercent > maxDiscountPercent + 0.005) {
+      throw new Error(`Discount on ${productName} exceeds the ${maxDiscountPercent}% allowed for it`);
+    }
+  }
+
+  // Helper to hold a bill's total discount, including selling below list price, to the biller's staff limits
+  private enforceDiscountLimits(pricing: PricingContext, discount: number, listValue: number): void {
+    const limits = pricing.staffLimits;
+    if (!pricing.enforce || pricing.override || !limits || discount <= 0.005) return;
+
+    if (!limits.canGiveDiscounts) {
+      throw new Error('You are not allowed to give discounts');
+    }
+    // A percent limit of zero means none has been set
+    if (limits.maxDiscountPercent > 0 && listValue > 0 && (discount / listValue) * 100 > limits.maxDiscountPercent + 0.005) {
+      throw new Error(`Discount exceeds your limit of ${limits.maxDiscountPercent}%`);
+    }
+    if (limits.maxDiscountAmount !== null && discount > limits.maxDiscountAmount + 0.005) {
+      throw new Error(`Discount exceeds your limit of ${limits.maxDiscountAmount.toFixed(2)}`);
+    }
+  }
+
+  /**
+   * Price line items: the rate comes from the customer's price list unless one is given, then discount, GST and cess.
+   * Also totals how far the lines were sold below list price, which counts against the biller's discount limits.
+   */
+  private async processItems(items: CreateBillInput['items'], taxContext: TaxContext, pricing: PricingContext): Promise<{ processedItems: ProcessedBillItem[]; calculatedSubtotal: number; calculatedTotalTax: number; calculatedTotalDiscount: number; taxBreakdown: TaxBreakdown; listValue: number; belowListAmount: number }> {
     let calculatedSubtotal = 0;
     let calculatedTotalTax = 0;
     let calculatedTotalDiscount = 0;
+    let listValue = 0;
+    let belowListAmount = 0;
+    const taxBreakdown: TaxBreakdown = { cgstAmount: 0, sgstAmount: 0, igstAmount: 0, cessAmount: 0 };
     const processedItems: ProcessedBillItem[] = [];
 
     for (const item of items) {
-      const rate = item.rate;
-      const quantity = item.quantity;
       let existingProduct = null;
       if (item.productId) {
         [existingProduct] = await db.select().from(products).where(eq(products.id, item.productId));
       }
 
-      const grossAmount = rate * quantity;
-      
-      let itemDiscount = item.discountAmount || 0;
-      if (item.discountPercent && item.discountPercent > 0) {
-        itemDiscount = (grossAmount * item.discountPercent) / 100;
+      const variant = existingProduct ? await this.resolveBillVariant(existingProduct, item.variantId) : undefined;
+      const listed = existingProduct
+        ? await priceListService.resolvePrice(db, pricing.priceList, existingProduct, variant, item.quantity, pricing.date)
+        : undefined;
+      const rate = item.rate ?? listed?.price;
+      if (rate === undefined) {
+        throw new Error(`Rate is required for ${item.productName}`);
       }
-      
-      const taxableAmount = grossAmount - itemDiscount;
-      
-      let itemTax = item.taxAmount || 0;
-      if (item.taxPercent && item.taxPercent > 0) {
-        itemTax = (taxableAmount * item.taxPercent) / 100;
+
+      if (existingProduct && listed) {
+        const listAmount = listed.price * item.quantity;
+        const grossAmount = rate * item.quantity;
+        const netAmount = grossAmount - (item.discountPercent ? (grossAmount * item.discountPercent) / 100 : item.discountAmount || 0);
+        listValue += listAmount;
+        belowListAmount += Math.max(0, listAmount - netAmount);
+
+        if (pricing.enforce && !pricing.override) {
+          this.assertLinePrice(existingProduct, item.productName, netAmount / item.quantity, listed.price);
+        }
       }
-      
-      const itemTotal = taxableAmount + itemTax;
 
-      calculatedSubtotal += grossAmount;
-      calculatedTotalDiscount += itemDiscount;
-      calculatedTotalTax += itemTax;
-      
+      const cessPercent = item.cessPercent ?? parseFloat(existingProduct?.cessPercent || '0');
+
+      const line = calculateLineTax({
+        quantity: item.quantity,
+        rate,
+        discountPercent: item.discountPercent,
+        discountAmount: item.discountAmount,
+        taxPercent: item.taxPercent,
+        taxAmount: item.taxAmount,
+        cessPercent,
+        taxInclusive: taxContext.taxInclusive,
+      }, taxContext.supplyType);
+
+      calculatedSubtotal += line.grossAmount;
+      calculatedTotalDiscount += line.discountAmount;
+      calculatedTotalTax += line.taxAmount;
+      taxBreakdown.cgstAmount += line.cgstAmount;
+      taxBreakdown.sgstAmount += line.sgstAmount;
+      taxBreakdown.igstAmount += line.igstAmount;
+      taxBreakdown.cessAmount += line.cessAmount;
+    
       processedItems.push({
         productId: item.productId,
-        variantId: item.variantId,
+        variantId: variant?.id ?? item.variantId,
+        batchId: item.batchId,
+        serialNumbers: item.serialNumbers,
         productName: item.productName || existingProduct?.name || 'Unknown Item',
-        productCode: item.productCode,
+        productCode: item.productCode || variant?.sku || undefined,
         description: item.description,
         itemType: item.itemType,
-        hsnCode: item.hsnCode,
-        sacCode: item.sacCode,
+        hsnCode: item.hsnCode || existingProduct?.hsnCode || undefined,
+        sacCode: item.sacCode || existingProduct?.sacCode || undefined,
         unit: (item.unit || existingProduct?.unit || 'PIECE') as ProductUnit,
         quantity: item.quantity,
-        rate: item.rate,
+        rate,
         discountPercent: item.discountPercent,
-        discountAmount: itemDiscount.toFixed(2),
+        discountAmount: line.discountAmount.toFixed(2),
         taxPercent: item.taxPercent,
-        taxAmount: itemTax.toFixed(2),
-        subtotal: taxableAmount.toFixed(2),
-        totalAmount: itemTotal.toFixed(2),
+        taxAmount: line.taxAmount.toFixed(2),
+        cgstRate: line.cgstRate.toFixed(2),
+        cgstAmount: line.cgstAmount.toFixed(2),
+        sgstRate: line.sgstRate.toFixed(2),
+        sgstAmount: line.sgstAmount.toFixed(2),
+        igstRate: line.igstRate.toFixed(2),
+        igstAmount: line.igstAmount.toFixed(2),
+        cessPercent: line.cessRate.toFixed(2),
+        cessAmount: line.cessAmount.toFixed(2),
+        subtotal: line.taxableAmount.toFixed(2),
+        totalAmount: line.totalAmount.toFixed(2),
+        costPrice: variant?.purchasePrice ?? existingProduct?.averageCost ?? existingProduct?.purchasePrice ?? undefined,
         isService: existingProduct?.isService || false,
         trackQuantity: existingProduct?.trackQuantity ?? true
       });
     }
+
+    return { processedItems, calculatedSubtotal, calculatedTotalTax, calculatedTotalDiscount, taxBreakdown, listValue, belowListAmount };
+  }
+
+  // Rebuild line inputs from stored bill items, e.g. to re-price a draft or clone a recurring bill
+  toItemInputs(items: typeof billItems.$inferSelect[], taxInclusive: boolean = false): CreateBillInput['items'] {
+    return items.map(item => {
+      // Stored discounts on tax-inclusive lines are pre-tax, so gross them back up to the list price basis
+      const inclusiveFactor = taxInclusive ? 1 + (Number(item.taxPercent || 0) + Number(item.cessPercent || 0)) / 100 : 1;
+      return {
+        productId: item.productId || undefined,
+        variantId: item.variantId || undefined,
+        batchId: item.batchId || undefined,
+        serialNumbers: Array.isArray(item.serialNumbers) ? item.serialNumbers as string[] : undefined,
+        productName: item.productName,
+        productCode: item.productCode || undefined,
+        description: item.description || undefined,
+        hsnCode: item.hsnCode || undefined,
+        sacCode: item.sacCode || undefined,
+        itemType: item.itemType as CreateBillInput['items'][number]['itemType'],
+        unit: item.unit,
+        quantity: Number(item.quantity),
+        rate: Number(item.rate),
+        discountPercent: Number(item.discountPercent || 0),
+        // Percent-based discounts are recomputed; a fixed discount keeps its original list-price amount
+        discountAmount: Number(item.discountPercent || 0) > 0 ? 0 : Number((Number(item.discountAmount || 0) * inclusiveFactor).toFixed(2)),
+        taxPercent: Number(item.taxPercent || 0),
+        taxAmount: Number(item.taxPercent || 0) > 0 ? 0 : Number(item.taxAmount || 0),
+        cessPercent: Number(item.cessPercent || 0),
+      };
+    });
+  }
+
+  // Helper to insert priced line items for a bill
+  private async insertBillItems(tx: DbTransaction, billId: string, processedItems: ProcessedBillItem[]): Promise<void> {
+    for (const [index, item] of processedItems.entries()) {
+      await tx.insert(billItems).values({
+        billId,
+        productId: item.productId,
+        variantId: item.variantId,
+        batchId: item.batchId,
+        serialNumbers: item.serialNumbers,
+        productName: item.productName,
+        productCode: item.productCode,
+        description: item.description,
+        itemType: item.itemType,
+        hsnCode: item.hsnCode,
+        sacCode: item.sacCode,
+        unit: item.unit,
+        quantity: item.quantity.toString(),
+        rate: item.rate.toString(),
+        discountPercent: (item.discountPercent || 0).toString(),
+        discountAmount: item.discountAmount.toString(),
+        taxPercent: (item.taxPercent || 0).toString(),
+        taxAmount: item.taxAmount.toString(),
+        cgstRate: item.cgstRate,
+        cgstAmount: item.cgstAmount,
+        sgstRate: item.sgstRate,
+        sgstAmount: item.sgstAmount,
+        igstRate: item.igstRate,
+        igstAmount: item.igstAmount,
+        cessPercent: item.cessPercent,
+        cessAmount: item.cessAmount,
+        subtotal: item.subtotal.toString(),
+        totalAmount: item.totalAmount.toString(),
+        costPrice: item.costPrice,
+        sortOrder: index,
+      });
+    }
+  }
+
+  /**
+   * Deduct stock for every tracked, non-service line on a bill and stamp each line with its cost of goods.
+   * Composite and service lines with a bill of materials consume their components instead.
+   * Non-draft bills always have their stock deducted; drafts never do.
+   */
+  async deductStock(tx: DbTransaction, businessId: string, billId: string, userId: string): Promise<void> {
+    const items = await tx.select().from(billItems).where(eq(billItems.billId, billId));
+    const [bill] = await tx.select({ customerId: bills.customerId, locationId: bills.locationId }).from(bills).where(eq(bills.id, billId)).limit(1);
+
+    for (const item of items) {
+      if (!item.productId) continue;
+
+      const consumption = await bomService.consumeForBillItem(tx, { businessId, billId, item, locationId: bill?.locationId, userId });
+      if (consumption) {
+        await tx.update(billItems)
+            .set({ costPrice: consumption.unitCost.toFixed(2) })
+            .where(eq(billItems.id, item.id));
+        continue;
+      }
+
+      const recorded = await inventoryService.recordMovement(tx, {
+          businessId,
+          productId: item.productId,
+          variantId: item.variantId,
+          locationId: bill?.locationId,
+          movementType: 'SALE',
+          quantity: -parseFloat(item.quantity),
+          batchId: item.batchId ?? undefined,
+          serialNumbers: Array.isArray(item.serialNumbers) ? item.serialNumbers as string[] : undefined,
+          billId,
+          billItemId: item.id,
+          customerId: bill?.customerId,
+          reason: 'Bill finalized',
+          performedBy: userId,
+      });
+
+      // The sale is costed from the layers it drew; lines without a movement keep the estimate taken at creation
+      if (recorded?.movement.unitCost) {
+        await tx.update(billItems)
+            .set({ costPrice: recorded.movement.unitCost })
+            .where(eq(billItems.id, item.id));
+      }
+    }
+  }
+
+  /**
+   * Put back stock deducted for a bill, less whatever was already restocked through sales returns
+   */
+  async releaseStock(tx: DbTransaction, businessId: string, billId: string, userId: string, reason: string, notes?: string): Promise<void> {
+    const items = await tx.select().from(billItems).where(eq(billItems.billId, billId));
+    const [bill] = await tx.select({ locationId: bills.locationId }).from(bills).where(eq(bills.id, billId)).limit(1);
+    const restockedRows = await tx
+        .select({
+            billItemId: creditNoteItems.billItemId,
+            quantity: sql<string>`COALESCE(SUM(${creditNoteItems.quantity}), 0)`,
+        })
+        .from(creditNoteItems)
+        .innerJoin(creditNotes, eq(creditNoteItems.creditNoteId, creditNotes.id))
+        .where(and(
+            eq(creditNotes.billId, billId),
+            eq(creditNotes.status, 'ISSUED'),
+            eq(creditNoteItems.restocked, true)
+        ))
+        .groupBy(creditNoteItems.billItemId);
+
+    for (const item of items) {
+        if (!item.productId) continue;
+
+        const alreadyRestocked = parseFloat(restockedRows.find(r => r.billItemId === item.id)?.quantity || '0');
+        const quantity = Number((parseFloat(item.quantity) - alreadyRestocked).toFixed(2));
+        if (quantity <= 0) continue;
+
+        const components = await bomService.returnForBillItem(tx, { businessId, billId, item, locationId: bill?.locationId, userId, quantity, reason, notes });
+        if (components !== null) continue;
+
+        await inventoryService.recordMovement(tx, {
+            businessId,
+            productId: item.productId,
+            variantId: item.variantId,
+            locationId: bill?.locationId,
+            movementType: 'RETURN',
+            quantity,
+            unitCost: item.costPrice,
+            billId,
+            billItemId: item.id,
+            reason,
+            notes,
+            performedBy: userId,
+        });
+    }
+  }
+
+  // The bill is final either way; credit that cannot be applied is left for staff to apply by hand
+  private async offerCredit(businessId: string, userId: string, bill: typeof bills.$inferSelect, req?: AuthenticatedRequest): Promise<{ bill: typeof bills.$inferSelect; credit: CreditOffer | null }> {
+    try {
+      const credit = await customerCreditService.onBillFinalized(businessId, userId, bill, req);
+      return { bill: credit?.application?.bill ?? bill, credit };
+    } catch (error) {
+      logger.error('Error applying customer credit', { error, businessId, billId: bill.id });
+      return { bill, credit: null };
+    }
+  }
+
+  async createBill(businessId: string, userId: string, input: CreateBillInput, req?: AuthenticatedRequest, options: { parentBillId?: string } = {}): Promise<typeof bills.$inferSelect & { credit: CreditOffer | null }> {
+    const { 
+      items, customerId, billDate, dueDate, 
+      paymentMethod, status = 'DRAFT', 
+      requiresApproval = false,
+      shippingCost = 0, adjustmentAmount = 0, roundOffAmount = 0,
+      billingAddress, shippingAddress, notes, terms, internalNotes, customerNotes,
+      isRecurring, recurringFrequency,
+      recurringEndDate, recurringMaxOccurrences, recurringAutoSend
+    } = input;
+
+    if (isRecurring && !recurringFrequency) {
+      throw new Error('Recurring bills need a recurring frequency');
+    }
+
+    const taxContext = await this.resolveTaxContext(db, businessId, {
+      customerId, billingAddress, shippingAddress, placeOfSupply: input.placeOfSupply, taxInclusive: input.taxInclusive,
+    });
+    // Recurring copies keep the prices of the bill they were cloned from
+    const pricing = await this.resolvePricingContext(db, businessId, userId, {
+      customerId, billDate: new Date(billDate), priceOverride: input.priceOverride, enforce: !options.parentBillId,
+    }, req);
+    const { processedItems, calculatedSubtotal, calculatedTotalTax, calculatedTotalDiscount, taxBreakdown, listValue, belowListAmount } = await this.processItems(items, taxContext, pricing);
+    const location = await this.resolveBillLocation(db, businessId, input.locationId, req);
     
     const finalSubtotal = (input.subtotal !== undefined) ? input.subtotal : calculatedSubtotal;
     const finalTax = (input.taxAmount !== undefined) ? input.taxAmount : calculatedTotalTax;
     const finalDiscount = (input.discountAmount !== undefined) ? input.discountAmount : calculatedTotalDiscount;
 
+    this.enforceDiscountLimits(pricing, belowListAmount + Math.max(0, finalDiscount - calculatedTotalDiscount), listValue);
+
     const grandTotal = finalSubtotal - finalDiscount + finalTax + shippingCost + adjustmentAmount + roundOffAmount;
 
-    return await db.transaction(async (tx) => {
-      const billNumber = await this.generateBillNumber(businessId);
+    const created = await db.transaction(async (tx) => {
+      const billNumber = await sequenceService.next(tx, businessId, 'BILL', { date: new Date(billDate), branchCode: location?.code });
       
       const [bill] = await tx.insert(bills).values({
         businessId,
         customerId,
+        locationId: location?.id,
         billNumber,
         billDate: new Date(billDate),
         dueDate: dueDate ? new Date(dueDate) : undefined,
@@ -274,6 +756,10 @@ export class BillingService {
         
         subtotal: finalSubtotal.toString(),
         taxAmount: finalTax.toString(),
+        cgstAmount: taxBreakdown.cgstAmount.toFixed(2),
+        sgstAmount: taxBreakdown.sgstAmount.toFixed(2),
+        igstAmount: taxBreakdown.igstAmount.toFixed(2),
+        cessAmount: taxBreakdown.cessAmount.toFixed(2),
         discountAmount: finalDiscount.toString(),
         totalAmount: grandTotal.toString(),
         balanceAmount: grandTotal.toString(),
@@ -286,6 +772,10 @@ export class BillingService {
         billingAddress,
         shippingAddress,
         
+        placeOfSupply: taxContext.placeOfSupply,
+        supplyType: taxContext.supplyType,
+        taxInclusive: taxContext.taxInclusive,
+        
         notes,
         terms,
         internalNotes,
@@ -296,47 +786,29 @@ export class BillingService {
         createdBy: userId,
         isRecurring: isRecurring || false,
         recurringFrequency: recurringFrequency ? (recurringFrequency as RecurringFrequency) : undefined,
+        nextRecurringDate: isRecurring && recurringFrequency ? calculateNextRecurringDate(new Date(billDate), recurringFrequency) : undefined,
+        recurringEndDate: recurringEndDate ? new Date(recurringEndDate) : undefined,
+        recurringMaxOccurrences,
+        recurringAutoSend: recurringAutoSend || false,
+        parentBillId: options.parentBillId,
       }).returning();
       
       if (!bill) {
         throw new Error('Failed to create bill');
       }
 
-      for (const item of processedItems) {
-        await tx.insert(billItems).values({
-          billId: bill.id,
-          productId: item.productId,
-          variantId: item.variantId,
-          productName: item.productName,
-          productCode: item.productCode,
-          description: item.description,
-          itemType: item.itemType,
-          hsnCode: item.hsnCode,
-          sacCode: item.sacCode,
-          unit: item.unit,
-          quantity: item.quantity.toString(),
-          rate: item.rate.toString(),
-          discountPercent: (item.discountPercent || 0).toString(),
-          discountAmount: item.discountAmount.toString(),
-          taxPercent: (item.taxPercent || 0).toString(),
-          taxAmount: item.taxAmount.toString(),
-          subtotal: item.subtotal.toString(),
-          totalAmount: item.totalAmount.toString(),
-        });
+      await this.insertBillItems(tx, bill.id, processedItems);
 
-        if (item.productId && 
-            status !== 'DRAFT' && status !== 'VOID' && status !== 'CANCELLED' && 
-            !item.isService && item.trackQuantity) {
-             await tx.execute(
-                 sql`UPDATE ${products} 
-                     SET current_stock = current_stock - ${item.quantity} 
-                     WHERE id = ${item.productId}`
-             );
-        }
+      if (status !== 'DRAFT' && status !== 'VOID' && status !== 'CANCELLED') {
+        await this.deductStock(tx, businessId, bill.id, userId);
+      }
+
+      if (customerId) {
+        await customerBalanceService.refreshOutstandingBalance(tx, businessId, customerId);
       }
 
       await auditService.logBillAction('CREATE', businessId, userId, bill.id, {}, bill, undefined, req);
-      logger.info('Bill created', { billId: bill.id, billNumber });
+      logger.info('Bill created', { billId: bill.id, billNumber, priceOverride: pricing.override });
 
       if (customerId) {
            await this.updatePurchasePatterns(businessId, customerId, processedItems);
@@ -344,6 +816,14 @@ export class BillingService {
 
       return bill;
     });
+
+    // Bills created straight into a payable state go through the same credit step as finalized drafts
+    if (status === 'DRAFT' || status === 'VOID' || status === 'CANCELLED' || requiresApproval) {
+      return { ...created, credit: null };
+    }
+
+    const { bill, credit } = await this.offerCredit(businessId, userId, created, req);
+    return { ...bill, credit };
   }
 
   async getBill(businessId: string, billId: string): Promise<typeof bills.$inferSelect & { items: typeof billItems.$inferSelect[]; payments: (typeof payments.$inferSelect & { allocation: typeof paymentAllocations.$inferSelect })[] }> {
@@ -372,7 +852,7 @@ export class BillingService {
 
   async listBills(businessId: string, query: BillQueryInput): Promise<{ bills: typeof bills.$inferSelect[]; pagination: { page: number; limit: number; total: number; totalPages: number } }> {
     const { 
-        search, customerId, status, paymentStatus, 
+        search, customerId, locationId, status, paymentStatus, 
         startDate, endDate, 
         hasBalance, sortBy = 'billDate', sortOrder = 'desc',
         page = 1, limit = 20
@@ -386,6 +866,9 @@ export class BillingService {
     if (customerId) {
         conditions.push(eq(bills.customerId, customerId));
     }
+    if (locationId) {
+        conditions.push(eq(bills.locationId, locationId));
+    }
     if (status) {
         conditions.push(eq(bills.status, status as BillingStatus));
     }
@@ -435,72 +918,481 @@ export class BillingService {
     };
   }
 
-  async updateBill(businessId: string, userId: string, billId: string, input: UpdateBillInput): Promise<typeof bills.$inferSelect> {
+  async updateBill(businessId: string, userId: string, billId: string, input: UpdateBillInput, req?: AuthenticatedRequest, options: { skipPriceChecks?: boolean } = {}): Promise<typeof bills.$inferSelect> {
     const { 
-        status, 
+        status, items,
         notes, terms, internalNotes, customerNotes,
         billingAddress, shippingAddress
     } = input;
 
-    const [existingBill] = await db
+    return await db.transaction(async (tx) => {
+        const [existingBill] = await tx
+            .select()
+            .from(bills)
+            .where(and(eq(bills.id, billId), eq(bills.businessId, businessId)))
+            .for('update');
+
+        if (!existingBill) throw new Error('Bill not found');
+        if (existingBill.status === 'VOID' || existingBill.status === 'CANCELLED') {
+          throw new Error(`Cannot update a ${existingBill.status.toLowerCase()} bill`);
+        }
+        if (status === 'VOID' || status === 'CANCELLED') {
+          throw new Error('Use the void endpoint to void or cancel a bill');
+        }
+
+        const isDraft = existingBill.status === 'DRAFT';
+        if (status && status !== existingBill.status) {
+          if (isDraft) throw new Error('Use the finalize endpoint to move a draft bill forward');
+          if (status === 'DRAFT') throw new Error('A finalized bill cannot be moved back to draft');
+        }
+
+        // Lines, amounts and parties are locked once the bill is finalized
+        const lockedFields = DRAFT_ONLY_FIELDS.filter(field => input[field] !== undefined);
+        if (!isDraft && lockedFields.length > 0) {
+          throw new Error(`Bill is finalized; cannot change ${lockedFields.join(', ')}`);
+        }
+
+        const updateData: Partial<typeof bills.$inferInsert> = {};
+
+        if (status) updateData.status = status as BillingStatus;
+        if (notes !== undefined) updateData.notes = notes;
+        if (terms !== undefined) updateData.terms = terms;
+        if (internalNotes !== undefined) updateData.internalNotes = internalNotes;
+        if (customerNotes !== undefined) updateData.customerNotes = customerNotes;
+        if (billingAddress !== undefined) updateData.billingAddress = billingAddress;
+        if (shippingAddress !== undefined) updateData.shippingAddress = shippingAddress;
+        if (input.recurringEndDate !== undefined) updateData.recurringEndDate = new Date(input.recurringEndDate);
+        if (input.recurringMaxOccurrences !== undefined) updateData.recurringMaxOccurrences = input.recurringMaxOccurrences;
+        if (input.recurringAutoSend !== undefined) updateData.recurringAutoSend = input.recurringAutoSend;
+
+        let oldItems: typeof billItems.$inferSelect[] = [];
+        let newItems: ProcessedBillItem[] = [];
+
+        if (isDraft) {
+          if (input.customerId !== undefined) updateData.customerId = input.customerId;
+          if (input.locationId !== undefined) {
+            const location = await this.resolveBillLocation(tx, businessId, input.locationId, req);
+            updateData.locationId = location?.id ?? null;
+          }
+          if (input.billDate !== undefined) updateData.billDate = new Date(input.billDate);
+          if (input.dueDate !== undefined) updateData.dueDate = new Date(input.dueDate);
+          if (input.paymentMethod !== undefined) updateData.paymentMethod = input.paymentMethod as PaymentMethod;
+          if (input.isRecurring !== undefined) updateData.isRecurring = input.isRecurring;
+          if (input.recurringFrequency !== undefined) updateData.recurringFrequency = input.recurringFrequency as RecurringFrequency;
+          if (input.isRecurring !== undefined || input.recurringFrequency !== undefined || input.billDate !== undefined) {
+            const isRecurring = input.isRecurring ?? existingBill.isRecurring;
+            const frequency = input.recurringFrequency ?? existingBill.recurringFrequency;
+            const billDate = input.billDate ? new Date(input.billDate) : existingBill.billDate;
+            if (isRecurring && !frequency) throw new Error('Recurring bills need a recurring frequency');
+            updateData.nextRecurringDate = isRecurring && frequency ? calculateNextRecurringDate(billDate, frequency) : null;
+          }
+          if (input.requiresApproval !== undefined) updateData.requiresApproval = input.requiresApproval;
+
+          // Recompute totals with the same discount/tax logic as createBill
+          const taxContextChanged = TAX_CONTEXT_FIELDS.some(field => input[field] !== undefined);
+          const amountsChanged = items !== undefined || taxContextChanged || AMOUNT_FIELDS.some(field => input[field] !== undefined);
+          if (amountsChanged) {
+            oldItems = await tx.select().from(billItems).where(eq(billItems.billId, billId));
+
+            let calculatedSubtotal = 0;
+            let calculatedTotalTax = 0;
+            let calculatedTotalDiscount = 0;
+            let listValue = 0;
+            let belowListAmount = 0;
+
+            // New lines and bill discounts are checked; lines already on the draft are only re-priced
+            const pricing = await this.resolvePricingContext(tx, businessId, userId, {
+              customerId: input.customerId ?? existingBill.customerId,
+              billDate: input.billDate ? new Date(input.billDate) : existingBill.billDate,
+              priceOverride: input.priceOverride,
+              enforce: (items !== undefined || input.discountAmount !== undefined) && !options.skipPriceChecks,
+            }, req);
+
+            if (items || taxContextChanged) {
+              const taxContext = await this.resolveTaxContext(tx, businessId, {
+                customerId: input.customerId ?? existingBill.customerId,
+                billingAddress: billingAddress ?? existingBill.billingAddress,
+                shippingAddress: shippingAddress ?? existingBill.shippingAddress,
+                placeOfSupply: input.placeOfSupply ?? existingBill.placeOfSupply,
+                taxInclusive: input.taxInclusive ?? existingBill.taxInclusive,
+              });
+              const processed = await this.processItems(items ?? this.toItemInputs(oldItems, existingBill.taxInclusive), taxContext, { ...pricing, enforce: pricing.enforce && items !== undefined });
+              newItems = processed.processedItems;
+              calculatedSubtotal = processed.calculatedSubtotal;
+              calculatedTotalTax = processed.calculatedTotalTax;
+              calculatedTotalDiscount = processed.calculatedTotalDiscount;
+              listValue = processed.listValue;
+              belowListAmount = processed.belowListAmount;
+
+              updateData.placeOfSupply = taxContext.placeOfSupply;
+              updateData.supplyType = taxContext.supplyType;
+              updateData.taxInclusive = taxContext.taxInclusive;
+              updateData.cgstAmount = processed.taxBreakdown.cgstAmount.toFixed(2);
+              updateData.sgstAmount = processed.taxBreakdown.sgstAmount.toFixed(2);
+              updateData.igstAmount = processed.taxBreakdown.igstAmount.toFixed(2);
+              updateData.cessAmount = processed.taxBreakdown.cessAmount.toFixed(2);
+
+              await tx.delete(billItems).where(eq(billItems.billId, billId));
+              await this.insertBillItems(tx, billId, newItems);
+            } else {
+              for (const item of oldItems) {
+                const discount = parseFloat(item.discountAmount || '0');
+                calculatedSubtotal += parseFloat(item.subtotal) + discount;
+                calculatedTotalDiscount += discount;
+                calculatedTotalTax += parseFloat(item.taxAmount || '0');
+              }
+            }
+
+            const finalSubtotal = input.subtotal ?? calculatedSubtotal;
+            const finalTax = input.taxAmount ?? calculatedTotalTax;
+            const finalDiscount = input.discountAmount ?? calculatedTotalDiscount;
+            this.enforceDiscountLimits(pricing, belowListAmount + Math.max(0, finalDiscount - calculatedTotalDiscount), listValue || calculatedSubtotal);
+            const shippingCost = input.shippingCost ?? parseFloat(existingBill.shippingCost);
+            const adjustmentAmount = input.adjustmentAmount ?? parseFloat(existingBill.adjustmentAmount);
+            const roundOffAmount = input.roundOffAmount ?? parseFloat(existingBill.roundOffAmount);
+
+            const grandTotal = finalSubtotal - finalDiscount + finalTax + shippingCost + adjustmentAmount + roundOffAmount;
+
+            updateData.subtotal = finalSubtotal.toFixed(2);
+            updateData.taxAmount = finalTax.toFixed(2);
+            updateData.discountAmount = finalDiscount.toFixed(2);
+            updateData.shippingCost = shippingCost.toFixed(2);
+            updateData.adjustmentAmount = adjustmentAmount.toFixed(2);
+            updateData.roundOffAmount = roundOffAmount.toFixed(2);
+            updateData.totalAmount = grandTotal.toFixed(2);
+            updateData.balanceAmount = (grandTotal - parseFloat(existingBill.paidAmount) - parseFloat(existingBill.creditedAmount)).toFixed(2);
+          }
+        }
+
+        const [updatedBill] = await tx.update(bills)
+            .set({ ...updateData, updatedAt: new Date() })
+            .where(eq(bills.id, billId))
+            .returning();
+
+        if (!updatedBill) throw new Error('Failed to retrieve updated bill');
+
+        // Field-level history
+        const historyRows: typeof billHistory.$inferInsert[] = [];
+        for (const field of Object.keys(updateData) as Array<keyof typeof updateData>) {
+          const oldValue = this.toHistoryValue(existingBill[field as keyof typeof existingBill]);
+          const newValue = this.toHistoryValue(updatedBill[field as keyof typeof updatedBill]);
+          if (oldValue === newValue) continue;
+
+          historyRows.push({
+            billId,
+            action: field === 'status' ? 'STATUS_CHANGED' : 'UPDATED',
+            performedBy: userId,
+            fieldName: field,
+            oldValue,
+            newValue,
+            oldStatus: existingBill.status,
+            newStatus: updatedBill.status,
+            ipAddress: req?.ip,
+            userAgent: req?.get('User-Agent'),
+          });
+        }
+        if (items) {
+          historyRows.push({
+            billId,
+            action: 'UPDATED',
+            performedBy: userId,
+            fieldName: 'items',
+            oldValue: JSON.stringify(oldItems.map(i => ({ productName: i.productName, quantity: i.quantity, rate: i.rate, totalAmount: i.totalAmount }))),
+            newValue: JSON.stringify(newItems.map(i => ({ productName: i.productName, quantity: i.quantity.toFixed(2), rate: i.rate.toFixed(2), totalAmount: i.totalAmount }))),
+            oldStatus: existingBill.status,
+            newStatus: updatedBill.status,
+            ipAddress: req?.ip,
+            userAgent: req?.get('User-Agent'),
+          });
+        }
+        if (historyRows.length > 0) {
+          await tx.insert(billHistory).values(historyRows);
+        }
+
+        await auditService.logBillAction('UPDATE', businessId, userId, billId, existingBill, input, undefined, req);
+
+        return updatedBill;
+    });
+  }
+
+  /**
+   * Append a service template's labour and material lines to a draft bill; the whole draft is then re-priced
+   */
+  async addServiceTemplate(businessId: string, userId: string, billId: string, input: AddServiceTemplateInput, req?: AuthenticatedRequest): Promise<typeof bills.$inferSelect> {
+    const [bill] = await db
         .select()
         .from(bills)
-        .where(and(eq(bills.id, billId), eq(bills.businessId, businessId)));
-
-    if (!existingBill) throw new Error('Bill not found');
-
-    const updateData: {
-      status?: BillingStatus;
-      notes?: string | null;
-      terms?: string | null;
-      internalNotes?: string | null;
-      customerNotes?: string | null;
-      billingAddress?: Record<string, unknown> | null;
-      shippingAddress?: Record<string, unknown> | null;
-      updatedAt: Date;
-    } = {
-      updatedAt: new Date(),
-    };
+        .where(and(eq(bills.id, billId), eq(bills.businessId, businessId)))
+        .limit(1);
 
-    if (status) {
-      updateData.status = status as BillingStatus;
-    }
-    if (notes !== undefined) {
-      updateData.notes = notes ?? existingBill.notes;
-    }
-    if (terms !== undefined) {
-      updateData.terms = terms ?? existingBill.terms;
-    }
-    if (internalNotes !== undefined) {
-      updateData.internalNotes = internalNotes ?? existingBill.internalNotes;
-    }
-    if (customerNotes !== undefined) {
-      updateData.customerNotes = customerNotes ?? existingBill.customerNotes;
-    }
-    if (billingAddress !== undefined) {
-      updateData.billingAddress = billingAddress ?? existingBill.billingAddress;
-    }
-    if (shippingAddress !== undefined) {
-      updateData.shippingAddress = shippingAddress ?? existingBill.shippingAddress;
-    }
+    if (!bill) throw new Error('Bill not found');
+    if (bill.status !== 'DRAFT') throw new Error('Service templates can only be added to draft bills');
 
-    await db.update(bills)
-        .set(updateData)
-        .where(eq(bills.id, billId));
+    const { templateId, ...usage } = input;
+    const { items } = await serviceTemplateService.expandTemplate(businessId, templateId, usage);
 
-    await auditService.logBillAction('UPDATE', businessId, userId, billId, existingBill, input);
-    const [updatedBillResult] = await db
+    const existingItems = await db
         .select()
-        .from(bills)
-        .where(eq(bills.id, billId));
-        
-    if (!updatedBillResult) throw new Error('Failed to retrieve updated bill');
+        .from(billItems)
+        .where(eq(billItems.billId, billId))
+        .orderBy(billItems.sortOrder);
+
+    // Template prices are set by managers, so the lines are not held to the biller's discount limits
+    return this.updateBill(businessId, userId, billId, {
+        items: [...this.toItemInputs(existingItems, bill.taxInclusive), ...items],
+    }, req, { skipPriceChecks: true });
+  }
+
+  async finalizeBill(businessId: string, userId: string, billId: string, input: FinalizeBillInput, req?: AuthenticatedRequest): Promise<{ bill: typeof bills.$inferSelect; approvalRequired: boolean; credit: CreditOffer | null }> {
+    const result = await db.transaction(async (tx) => {
+        const [bill] = await tx
+            .select()
+            .from(bills)
+            .where(and(eq(bills.id, billId), eq(bills.businessId, businessId)))
+            .for('update');
+
+        if (!bill) throw new Error('Bill not found');
+        if (bill.status !== 'DRAFT') throw new Error('Only draft bills can be finalized');
+
+        const [itemCount] = await tx.select({ count: count() }).from(billItems).where(eq(billItems.billId, billId));
+        if (!itemCount?.count) throw new Error('Cannot finalize a bill without items');
+
+        // Approval check: explicit request, the bill's own flag, or the business threshold
+        const [business] = await tx
+            .select({ billingSettings: retailBusinesses.billingSettings })
+            .from(retailBusinesses)
+            .where(eq(retailBusinesses.id, businessId));
+        const settings = (business?.billingSettings || {}) as ApprovalSettings;
+        const overThreshold = settings.approvalWorkflowEnabled === true &&
+            settings.thresholdAmount !== undefined &&
+            parseFloat(bill.totalAmount) >= settings.thresholdAmount;
+        const approvalRequired = input.requiresApproval ?? (bill.requiresApproval || overThreshold);
+
+        await this.deductStock(tx, businessId, billId, userId);
+
+        const [finalized] = await tx.update(bills)
+            .set({
+                status: 'PENDING',
+                approvalStatus: approvalRequired ? 'PENDING' : 'NOT_REQUIRED',
+                requiresApproval: approvalRequired,
+                finalizedAt: new Date(),
+                finalizedBy: userId,
+                updatedAt: new Date(),
+            })
+            .where(eq(bills.id, billId))
+            .returning();
+
+        if (!finalized) throw new Error('Failed to finalize bill');
+
+        if (finalized.customerId) {
+            await customerBalanceService.refreshOutstandingBalance(tx, businessId, finalized.customerId);
+        }
+
+        if (approvalRequired) {
+            await tx.insert(billApprovalHistory).values({
+                billId,
+                action: 'SUBMITTED',
+                performedBy: userId,
+                notes: input.notes || 'Bill submitted for approval',
+                oldStatus: 'DRAFT',
+                newStatus: 'PENDING',
+                oldApprovalStatus: bill.approvalStatus,
+                newApprovalStatus: 'PENDING',
+            });
+        }
+
+        await tx.insert(billHistory).values({
+            billId,
+            action: 'FINALIZED',
+            performedBy: userId,
+            oldStatus: 'DRAFT',
+            newStatus: 'PENDING',
+            billSnapshot: finalized,
+            notes: input.notes,
+            description: approvalRequired ? 'Bill finalized and submitted for approval' : 'Bill finalized',
+            ipAddress: req?.ip,
+            userAgent: req?.get('User-Agent'),
+        });
 
-    return updatedBillResult;
+        await auditService.logBillAction('FINALIZE', businessId, userId, billId, { status: 'DRAFT' }, { status: 'PENDING', approvalRequired }, input.notes, req);
+        logger.info('Bill finalized', { billId, approvalRequired });
+
+        return { bill: finalized, approvalRequired };
+    });
+
+    if (result.approvalRequired) {
+        await this.notifyOwnerForApproval(businessId, billId);
+        return { ...result, credit: null };
+    }
+
+    const { bill, credit } = await this.offerCredit(businessId, userId, result.bill, req);
+    return { ...result, bill, credit };
+  }
+
+  async voidBill(businessId: string, userId: string, billId: string, input: VoidBillInput, req?: AuthenticatedRequest): Promise<{ bill: typeof bills.$inferSelect; reversedAllocations: typeof paymentAllocations.$inferSelect[]; walletCredit: string; refundableAmount: string }> {
+    const { status = 'VOID', reason, paymentHandling = 'WALLET' } = input;
+
+    return await db.transaction(async (tx) => {
+        const [bill] = await tx
+            .select()
+            .from(bills)
+            .where(and(eq(bills.id, billId), eq(bills.businessId, businessId)))
+            .for('update');
+
+        if (!bill) throw new Error('Bill not found');
+        if (bill.status === 'VOID' || bill.status === 'CANCELLED') {
+            throw new Error(`Bill is already ${bill.status.toLowerCase()}`);
+        }
+
+        // 1. Put back stock deducted at creation (drafts never deducted any)
+        if (bill.status !== 'DRAFT') {
+            await this.releaseStock(tx, businessId, billId, userId, status === 'VOID' ? 'Bill voided' : 'Bill cancelled', reason);
+        }
+
+        // 2. Reverse payment allocations
+        const allocations = await tx
+            .select({ allocation: paymentAllocations, payment: payments })
+            .from(paymentAllocations)
+            .innerJoin(payments, eq(paymentAllocations.paymentId, payments.id))
+            .where(and(
+                eq(paymentAllocations.billId, billId),
+                eq(paymentAllocations.status, 'ACTIVE')
+            ))
+            .orderBy(paymentAllocations.allocationDate);
+
+        // Returns already paid their excess back through the wallet or as a refund; don't pay it out twice
+        const [settled] = await tx
+            .select({ amount: sql<string>`COALESCE(SUM(${creditNotes.walletCreditAmount} + ${creditNotes.refundDueAmount}), 0)` })
+            .from(creditNotes)
+            .where(and(eq(creditNotes.billId, billId), eq(creditNotes.status, 'ISSUED')));
+
+        const settledByCreditNotes = parseFloat(settled?.amount ?? '0');
+        const { returned, total: totalReversed } = voidReversal(
+            allocations.map(({ allocation }) => parseFloat(allocation.allocatedAmount)),
+            settledByCreditNotes
+        );
+
+        const toWallet = paymentHandling === 'WALLET' && !!bill.customerId;
+        const reversedAllocations: typeof paymentAllocations.$inferSelect[] = [];
+
+        for (const [index, { allocation, payment }] of allocations.entries()) {
+            const amount = parseFloat(allocation.allocatedAmount);
+            const returnedAmount = returned[index] ?? 0;
+
+            const [reversed] = await tx.update(paymentAllocations)
+                .set({
+                    status: 'REVERSED',
+                    reversedAt: new Date(),
+                    reversedBy: userId,
+                    reversalReason: reason,
+                })
+                .where(eq(paymentAllocations.id, allocation.id))
+                .returning();
+
+            if (reversed) reversedAllocations.push(reversed);
+
+            // Wallet transfers leave the payment fully accounted for by the wallet entry;
+            // refundable money stays on the payment as unallocated
+            await tx.update(payments)
+                .set({
+                    allocatedAmount: sql`${payments.allocatedAmount} - ${amount}`,
+                    unallocatedAmount: toWallet ? payment.unallocatedAmount : sql`${payments.unallocatedAmount} + ${returnedAmount}`,
+                    metadata: toWallet ? payment.metadata : { ...(payment.metadata as Record<string, unknown> | null), refundable: true },
+                    updatedAt: new Date(),
+                })
+                .where(eq(payments.id, payment.id));
+        }
+
+        // 3. Customer wallet
+        if (bill.customerId) {
+            const [customer] = await tx
+                .select()
+                .from(customers)
+                .where(eq(customers.id, bill.customerId))
+                .for('update');
+
+            if (customer) {
+                const walletBefore = parseFloat(customer.walletBalance);
+                const walletAfter = toWallet ? walletBefore + totalReversed : walletBefore;
+
+                await tx.update(customers)
+                    .set({
+                        walletBalance: walletAfter.toFixed(2),
+                        updatedAt: new Date(),
+                    })
+                    .where(eq(customers.id, customer.id));
+
+                if (toWallet && totalReversed > 0) {
+                    await tx.insert(walletTransactions).values({
+                        businessId,
+                        customerId: customer.id,
+                        transactionType: 'REFUND',
+                        amount: totalReversed.toFixed(2),
+                        balanceBefore: walletBefore.toFixed(2),
+                        balanceAfter: walletAfter.toFixed(2),
+                        billId,
+                        paymentId: allocations.length === 1 ? allocations[0]?.payment.id : undefined,
+                        description: `Payments moved to wallet from ${status === 'VOID' ? 'voided' : 'cancelled'} bill ${bill.billNumber}`,
+                        performedBy: userId,
+                    });
+                }
+            }
+        }
+
+        // 4. Close out the bill
+        const [updatedBill] = await tx.update(bills)
+            .set({
+                status: status as BillingStatus,
+                paymentStatus: (totalReversed > 0 || settledByCreditNotes > 0 ? 'REFUNDED' : 'CANCELLED') as PaymentStatus,
+                paidAmount: '0',
+                balanceAmount: '0',
+                voidedAt: new Date(),
+                voidedBy: userId,
+                voidReason: reason,
+                updatedAt: new Date(),
+            })
+            .where(eq(bills.id, billId))
+            .returning();
+
+        if (!updatedBill) throw new Error('Failed to void bill');
+
+        if (bill.customerId) {
+            await customerBalanceService.refreshOutstandingBalance(tx, businessId, bill.customerId);
+        }
+
+        await tx.insert(billHistory).values({
+            billId,
+            action: 'VOIDED',
+            performedBy: userId,
+            oldStatus: bill.status,
+            newStatus: status,
+            billSnapshot: bill,
+            notes: reason,
+            description: `Bill ${status === 'VOID' ? 'voided' : 'cancelled'}; ${totalReversed.toFixed(2)} in payments ${toWallet ? 'moved to wallet' : 'marked refundable'}`,
+            ipAddress: req?.ip,
+            userAgent: req?.get('User-Agent'),
+            metadata: {
+                reversedAllocationIds: reversedAllocations.map(a => a.id),
+                paymentHandling: toWallet ? 'WALLET' : 'REFUNDABLE',
+                settledByCreditNotes,
+            },
+        });
+
+        await auditService.logBillAction('VOID', businessId, userId, billId, { status: bill.status, balance: bill.balanceAmount }, { status, reversed: totalReversed }, reason, req);
+        logger.info('Bill voided', { billId, status, reversed: totalReversed });
+
+        return {
+            bill: updatedBill,
+            reversedAllocations,
+            walletCredit: (toWallet ? totalReversed : 0).toFixed(2),
+            refundableAmount: (toWallet ? 0 : totalReversed).toFixed(2),
+        };
+    });
   }
 
   async recordPayment(businessId: string, userId: string, billId: string, input: BillPaymentInput, req?: AuthenticatedRequest): Promise<{ payment: typeof payments.$inferSelect; newBalance: string; newStatus: BillingStatus }> {
     const { amount, method, paymentDate, referenceNumber, notes } = input;
+    const isCheque = method === 'CHEQUE';
 
     const [bill] = await db.select().from(bills).where(and(eq(bills.id, billId), eq(bills.businessId, businessId)));
     if (!bill) throw new Error('Bill not found');
@@ -511,7 +1403,7 @@ export class BillingService {
     if (amount <= 0) throw new Error('Payment amount must be positive');
 
     return await db.transaction(async (tx) => {
-        const paymentNumber = await this.generatePaymentNumber(businessId);
+        const paymentNumber = await sequenceService.next(tx, businessId, 'PAYMENT');
         
         const [payment] = await tx.insert(payments).values({
             businessId,
@@ -520,10 +1412,15 @@ export class BillingService {
             paymentDate: new Date(paymentDate || Date.now()),
             amount: amount.toString(),
             method: method as PaymentMethod,
-            status: 'COMPLETED',
+            // Cheques settle only once they clear
+            status: isCheque ? 'PROCESSING' : 'COMPLETED',
             allocatedAmount: amount.toString(),
             unallocatedAmount: '0',
             referenceNumber,
+            bankName: input.bankName,
+            chequeNumber: input.chequeNumber,
+            chequeDate: input.chequeDate ? new Date(input.chequeDate) : undefined,
+            chequeStatus: isCheque ? 'RECEIVED' : undefined,
             notes,
             createdBy: userId
         }).returning();
@@ -543,14 +1440,14 @@ export class BillingService {
         });
 
         const newPaidAmount = (parseFloat(bill.paidAmount) + allocationAmount).toFixed(2);
-        const newBalance = (parseFloat(bill.totalAmount) - parseFloat(newPaidAmount)).toFixed(2);
+        const newBalance = (currentBalance - allocationAmount).toFixed(2);
         
         let newStatus: BillingStatus = bill.status as BillingStatus;
         let newPaymentStatus: PaymentStatus = bill.paymentStatus as PaymentStatus;
         
         if (parseFloat(newBalance) <= 0.01) {
              newStatus = 'PAID' as BillingStatus;
-             newPaymentStatus = 'COMPLETED' as PaymentStatus;
+             newPaymentStatus = (isCheque ? 'PROCESSING' : 'COMPLETED') as PaymentStatus;
         } else {
              newStatus = 'PARTIAL' as BillingStatus;
              newPaymentStatus = 'PENDING' as PaymentStatus;
@@ -565,6 +1462,10 @@ export class BillingService {
             })
             .where(eq(bills.id, billId));
 
+        if (bill.customerId) {
+            await customerBalanceService.refreshOutstandingBalance(tx, businessId, bill.customerId);
+        }
+
         await auditService.logPaymentAction('CREATE', businessId, userId, payment.id, undefined, payment, req);
         await auditService.logBillAction('PAY', businessId, userId, billId, { balance: currentBalance }, { balance: newBalance }, undefined, req);
 
@@ -572,6 +1473,386 @@ export class BillingService {
     });
   }
 
+  /**
+   * Take several tenders for one bill at the counter and allocate them together. Card, UPI, wallet and other
+   * tenders go to the bill first; cash covers the rest and anything over it is handed back as change.
+   */
+  async checkout(businessId: string, userId: string, billId: string, input: CheckoutInput, req?: AuthenticatedRequest): Promise<{ bill: typeof bills.$inferSelect; payments: typeof payments.$inferSelect[]; totalTendered: string; amountApplied: string; changeDue: string; newBalance: string; credit: CreditOffer | null }> {
+    const { tenders, notes } = input;
+    const paymentDate = new Date(input.paymentDate || Date.now());
+
+    const result = await db.transaction(async (tx) => {
+        const [bill] = await tx
+            .select()
+            .from(bills)
+            .where(and(eq(bills.id, billId), eq(bills.businessId, businessId)))
+            .for('update');
+
+        if (!bill) throw new Error('Bill not found');
+        if (bill.status === 'DRAFT') throw new Error('Finalize the bill before taking payment');
+        if (bill.status === 'VOID' || bill.status === 'CANCELLED') {
+            throw new Error(`Cannot take payment for a ${bill.status.toLowerCase()} bill`);
+        }
+
+        const balance = parseFloat(bill.balanceAmount);
+        if (balance <= 0) throw new Error('Bill is already fully paid');
+
+        const cashTendered = Number(tenders.filter(t => t.method === 'CASH').reduce((total, t) => total + t.amount, 0).toFixed(2));
+        const otherTenders = tenders.filter(t => t.method !== 'CASH');
+        const otherTotal = Number(otherTenders.reduce((total, t) => total + t.amount, 0).toFixed(2));
+
+        if (otherTotal > balance + 0.005) {
+            throw new Error(`Non-cash tenders (${otherTotal.toFixed(2)}) exceed the amount due (${balance.toFixed(2)}); only cash can be given change`);
+        }
+
+        const cashApplied = Number(Math.min(cashTendered, balance - otherTotal).toFixed(2));
+        const changeDue = Number((cashTendered - cashApplied).toFixed(2));
+
+        // The wallet pays only what it holds
+        const walletTotal = Number(otherTenders.filter(t => t.method === 'WALLET').reduce((total, t) => total + t.amount, 0).toFixed(2));
+        if (walletTotal > 0) {
+            if (!bill.customerId) throw new Error('Wallet payments need a customer on the bill');
+
+            const [customer] = await tx
+                .select()
+                .from(customers)
+                .where(eq(customers.id, bill.customerId))
+                .for('update');
+
+            if (!customer) throw new Error('Customer not found');
+
+            const walletBefore = parseFloat(customer.walletBalance);
+            if (walletTotal > walletBefore + 0.005) {
+                throw new Error(`Wallet balance (${walletBefore.toFixed(2)}) is less than the wallet tender (${walletTotal.toFixed(2)})`);
+            }
+        }
+
+        // Cash tenders become one payment for what the bill keeps, recording what was handed over and the change
+        const tenderGroupId = randomUUID();
+        const cashTender = tenders.find(t => t.method === 'CASH');
+        const lines = [
+            ...otherTenders.map(tender => ({ tender, applied: tender.amount, tendered: null as number | null, change: null as number | null })),
+            ...(cashTender && cashApplied > 0 ? [{ tender: cashTender, applied: cashApplied, tendered: cashTendered, change: changeDue }] : []),
+        ];
+
+        const recorded: typeof payments.$inferSelect[] = [];
+        let runningBalance = balance;
+
+        for (const line of lines) {
+            const { tender } = line;
+            const paymentNumber = await sequenceService.next(tx, businessId, 'PAYMENT');
+
+            const [payment] = await tx.insert(payments).values({
+                businessId,
+                customerId: bill.customerId,
+                paymentNumber,
+                paymentDate,
+                amount: line.applied.toFixed(2),
+                method: tender.method as PaymentMethod,
+                status: tender.method === 'CHEQUE' ? 'PROCESSING' : 'COMPLETED',
+                allocatedAmount: line.applied.toFixed(2),
+                unallocatedAmount: '0',
+                referenceNumber: tender.referenceNumber,
+                transactionId: tender.transactionId,
+                upiId: tender.upiId,
+                cardLast4: tender.cardLast4,
+                cardBrand: tender.cardBrand,
+                bankName: tender.bankName,
+                chequeNumber: tender.chequeNumber,
+                chequeDate: tender.chequeDate ? new Date(tender.chequeDate) : undefined,
+                chequeStatus: tender.method === 'CHEQUE' ? 'RECEIVED' : undefined,
+                tenderGroupId,
+                tenderedAmount: line.tendered !== null ? line.tendered.toFixed(2) : undefined,
+                changeAmount: line.change !== null ? line.change.toFixed(2) : undefined,
+                notes,
+                createdBy: userId,
+            }).returning();
+
+            if (!payment) throw new Error('Failed to create payment record');
+
+            await tx.insert(paymentAllocations).values({
+                paymentId: payment.id,
+                billId: bill.id,
+                allocatedAmount: line.applied.toFixed(2),
+                billBalanceBefore: runningBalance.toFixed(2),
+                billBalanceAfter: (runningBalance - line.applied).toFixed(2),
+            });
+            runningBalance = Number((runningBalance - line.applied).toFixed(2));
+
+            if (tender.method === 'WALLET' && bill.customerId) {
+                const [customer] = await tx
+                    .update(customers)
+                    .set({ walletBalance: sql`${customers.walletBalance} - ${line.applied}`, updatedAt: new Date() })
+                    .where(eq(customers.id, bill.customerId))
+                    .returning({ walletBalance: customers.walletBalance });
+
+                const walletAfter = parseFloat(customer?.walletBalance ?? '0');
+                await tx.insert(walletTransactions).values({
+                    businessId,
+                    customerId: bill.customerId,
+                    transactionType: 'USED_IN_BILL',
+                    amount: line.applied.toFixed(2),
+                    balanceBefore: (walletAfter + line.applied).toFixed(2),
+                    balanceAfter: walletAfter.toFixed(2),
+                    billId: bill.id,
+                    paymentId: payment.id,
+                    description: `Paid towards bill ${bill.billNumber}`,
+                    performedBy: userId,
+                });
+            }
+
+            await auditService.logPaymentAction('CREATE', businessId, userId, payment.id, undefined, payment, req);
+            recorded.push(payment);
+        }
+
+        const amountApplied = Number((balance - runningBalance).toFixed(2));
+        const fullyPaid = runningBalance <= 0.01;
+
+        // A single method stays on the bill as is; a split records the method that covered most of it
+        const mainTender = recorded.reduce<typeof payments.$inferSelect | undefined>(
+            (main, payment) => !main || parseFloat(payment.amount) > parseFloat(main.amount) ? payment : main, undefined);
+
+        const [updatedBill] = await tx.update(bills)
+            .set({
+                paidAmount: (parseFloat(bill.paidAmount) + amountApplied).toFixed(2),
+                balanceAmount: runningBalance.toFixed(2),
+                status: (fullyPaid ? 'PAID' : 'PARTIAL') as BillingStatus,
+                paymentStatus: (fullyPaid ? (recorded.some(p => p.status === 'PROCESSING') ? 'PROCESSING' : 'COMPLETED') : 'PENDING') as PaymentStatus,
+                paymentMethod: mainTender?.method ?? bill.paymentMethod,
+                updatedAt: new Date(),
+            })
+            .where(eq(bills.id, billId))
+            .returning();
+
+        if (!updatedBill) throw new Error('Failed to update bill');
+
+        if (bill.customerId) {
+            await customerBalanceService.refreshOutstandingBalance(tx, businessId, bill.customerId);
+        }
+
+        await auditService.logBillAction('PAY', businessId, userId, billId, { balance }, { balance: runningBalance, tenders: recorded.map(p => ({ method: p.method, amount: p.amount })), changeDue }, undefined, req);
+        logger.info('Checkout completed', { billId, tenderGroupId, tenders: recorded.length, amountApplied, changeDue });
+
+        return {
+            bill: updatedBill,
+            payments: recorded,
+            totalTendered: (cashTendered + otherTotal).toFixed(2),
+            amountApplied: amountApplied.toFixed(2),
+            changeDue: changeDue.toFixed(2),
+            newBalance: runningBalance.toFixed(2),
+        };
+    });
+
+    try {
+      await salesSummaryService.refreshDay(db, businessId, paymentDate);
+    } catch (error) {
+      logger.error('Error refreshing daily sales summary', { error, businessId, billId });
+    }
+
+    // Whatever the tenders left owing can still be met from the customer's credit
+    const { bill, credit } = await this.offerCredit(businessId, userId, result.bill, req);
+    return { ...result, bill, newBalance: bill.balanceAmount, credit };
+  }
+
+  /**
+   * Pay money back against a payment, in full or in part. Money the payment has not yet allocated goes back first;
+   * after that the latest allocations are reversed so those bills owe again. Each refund is a REFUND money transaction.
+   */
+  async refundPayment(businessId: string, userId: string, paymentId: string, input: RefundPaymentInput, req?: AuthenticatedRequest): Promise<{ payment: typeof payments.$inferSelect; transaction: typeof moneyTransactions.$inferSelect; reversedAllocations: { allocationId: string; billId: string; amount: string; fullyReversed: boolean }[]; fromUnallocated: string }> {
+    const { method, reason, referenceNumber, transactionId, notes } = input;
+    const refundDate = new Date(input.refundDate || Date.now());
+
+    const result = await db.transaction(async (tx) => {
+        const [payment] = await tx
+            .select()
+            .from(payments)
+            .where(and(eq(payments.id, paymentId), eq(payments.businessId, businessId), isNull(payments.deletedAt)))
+            .for('update');
+
+        if (!payment) throw new Error('Payment not found');
+        if (payment.status !== 'COMPLETED') {
+            throw new Error(`Cannot refund a payment that is ${payment.status.toLowerCase()}`);
+        }
+        if (method === 'WALLET' && !payment.customerId) {
+            throw new Error('Wallet refunds need a customer on the payment');
+        }
+
+        const allocations = await tx
+            .select()
+            .from(paymentAllocations)
+            .where(and(eq(paymentAllocations.paymentId, paymentId), eq(paymentAllocations.status, 'ACTIVE')))
+            .orderBy(desc(paymentAllocations.allocationDate), desc(paymentAllocations.allocationOrder))
+            .for('update');
+
+        // Money moved to the wallet when a bill was voided has already gone back to the customer
+        const unallocated = parseFloat(payment.unallocatedAmount);
+        const refundable = Number((unallocated + allocations.reduce((total, a) => total + parseFloat(a.allocatedAmount), 0)).toFixed(2));
+        if (refundable <= 0) throw new Error('Nothing is left to refund on this payment');
+
+        const amount = Number((input.amount ?? refundable).toFixed(2));
+        if (amount > refundable + 0.005) {
+            throw new Error(`Refund (${amount.toFixed(2)}) exceeds the refundable amount (${refundable.toFixed(2)})`);
+        }
+
+        const split = refundSplit(amount, unallocated, allocations.map(a => parseFloat(a.allocatedAmount)));
+        const fromUnallocated = split.fromUnallocated;
+        const reversedAllocations: { allocationId: string; billId: string; amount: string; fullyReversed: boolean }[] = [];
+
+        for (const [index, allocation] of allocations.entries()) {
+            const reversed = split.reversed[index] ?? 0;
+            if (reversed <= 0) continue;
+
+            const allocated = parseFloat(allocation.allocatedAmount);
+            const fullyReversed = reversed >= allocated - 0.005;
+            const metadata = (allocation.metadata as Record<string, unknown> | null) ?? {};
+            const refunds: unknown[] = Array.isArray(metadata.refunds) ? metadata.refunds : [];
+
+            await tx.update(paymentAllocations)
+                .set({
+                    allocatedAmount: (allocated - reversed).toFixed(2),
+                    status: fullyReversed ? 'REVERSED' : allocation.status,
+                    reversedAt: fullyReversed ? new Date() : allocation.reversedAt,
+                    reversedBy: fullyReversed ? userId : allocation.reversedBy,
+                    reversalReason: fullyReversed ? reason : allocation.reversalReason,
+                    metadata: { ...metadata, refunds: [...refunds, { amount: reversed.toFixed(2), refundedAt: refundDate, refundedBy: userId, reason }] },
+                })
+                .where(eq(paymentAllocations.id, allocation.id));
+
+            // The bill owes again what was paid back
+            const [bill] = await tx
+                .select()
+                .from(bills)
+                .where(eq(bills.id, allocation.billId))
+                .for('update');
+
+            if (!bill) throw new Error('Bill not found');
+
+            const { paidAmount, balanceAmount, status: newStatus } = reopenBill(parseFloat(bill.paidAmount), parseFloat(bill.balanceAmount), reversed);
+
+            await tx.update(bills)
+                .set({
+                    paidAmount: paidAmount.toFixed(2),
+                    balanceAmount: balanceAmount.toFixed(2),
+                    status: newStatus,
+                    paymentStatus: 'PENDING' as PaymentStatus,
+                    updatedAt: new Date(),
+                })
+                .where(eq(bills.id, bill.id));
+
+            await tx.insert(billHistory).values({
+                billId: bill.id,
+                action: 'PAYMENT_REFUNDED',
+                performedBy: userId,
+                oldStatus: bill.status,
+                newStatus,
+                notes: reason,
+                description: `${reversed.toFixed(2)} of payment ${payment.paymentNumber} refunded; balance now ${balanceAmount.toFixed(2)}`,
+                ipAddress: req?.ip,
+                userAgent: req?.get('User-Agent'),
+                metadata: { paymentId, allocationId: allocation.id, fullyReversed },
+            });
+
+            await auditService.logBillAction('UPDATE', businessId, userId, bill.id, { balance: bill.balanceAmount, status: bill.status }, { balance: balanceAmount.toFixed(2), status: newStatus }, reason, req);
+
+            reversedAllocations.push({ allocationId: allocation.id, billId: bill.id, amount: reversed.toFixed(2), fullyReversed });
+        }
+
+        const totalReversed = Number((amount - fromUnallocated).toFixed(2));
+        const fullyRefunded = amount >= refundable - 0.005;
+
+        const [updatedPayment] = await tx.update(payments)
+            .set({
+                allocatedAmount: sql`${payments.allocatedAmount} - ${totalReversed}`,
+                unallocatedAmount: sql`${payments.unallocatedAmount} - ${fromUnallocated}`,
+                refundedAmount: sql`${payments.refundedAmount} + ${amount}`,
+                status: fullyRefunded ? 'REFUNDED' : payment.status,
+                updatedAt: new Date(),
+            })
+            .where(eq(payments.id, paymentId))
+            .returning();
+
+        if (!updatedPayment) throw new Error('Failed to update payment');
+
+        // Customer balances: reopened bills are owed again, and wallet refunds land in the wallet
+        let previousBalance: string | undefined;
+        let newBalance: string | undefined;
+        if (payment.customerId) {
+            const [customer] = await tx
+                .select()
+                .from(customers)
+                .where(eq(customers.id, payment.customerId))
+                .for('update');
+
+            if (customer) {
+                const walletBefore = parseFloat(customer.walletBalance);
+                const walletAfter = method === 'WALLET' ? walletBefore + amount : walletBefore;
+                ({ previousBalance, newBalance } = await customerBalanceService.refreshOutstandingBalance(tx, businessId, customer.id));
+
+                await tx.update(customers)
+                    .set({
+                        walletBalance: walletAfter.toFixed(2),
+                        updatedAt: new Date(),
+                    })
+                    .where(eq(customers.id, customer.id));
+
+                if (method === 'WALLET') {
+                    await tx.insert(walletTransactions).values({
+                        businessId,
+                        customerId: customer.id,
+                        transactionType: 'REFUND',
+                        amount: amount.toFixed(2),
+                        balanceBefore: walletBefore.toFixed(2),
+                        balanceAfter: walletAfter.toFixed(2),
+                        billId: reversedAllocations.length === 1 ? reversedAllocations[0]?.billId : undefined,
+                        paymentId,
+                        description: `Refund of payment ${payment.paymentNumber}`,
+                        performedBy: userId,
+                    });
+                }
+            }
+        }
+
+        const [transaction] = await tx.insert(moneyTransactions).values({
+            businessId,
+            transactionType: 'REFUND',
+            amount: amount.toFixed(2),
+            customerId: payment.customerId,
+            billId: reversedAllocations.length === 1 ? reversedAllocations[0]?.billId : undefined,
+            paymentId,
+            previousBalance,
+            newBalance,
+            method: method as PaymentMethod,
+            referenceNumber,
+            transactionId,
+            description: `Refund of payment ${payment.paymentNumber}`,
+            notes: notes ?? reason,
+            performedBy: userId,
+            transactionDate: refundDate,
+            metadata: { reason, fromUnallocated: fromUnallocated.toFixed(2), reversedAllocations },
+        }).returning();
+
+        if (!transaction) throw new Error('Failed to record refund');
+
+        await auditService.logPaymentAction('REFUND', businessId, userId, paymentId, { status: payment.status, refundedAmount: payment.refundedAmount }, { status: updatedPayment.status, refundedAmount: updatedPayment.refundedAmount, method, reason }, req);
+        logger.info('Payment refunded', { paymentId, amount, method, fromUnallocated, bills: reversedAllocations.length });
+
+        return {
+            payment: updatedPayment,
+            transaction,
+            reversedAllocations,
+            fromUnallocated: fromUnallocated.toFixed(2),
+        };
+    });
+
+    try {
+      await salesSummaryService.refreshDay(db, businessId, refundDate);
+    } catch (error) {
+      logger.error('Error refreshing daily sales summary', { error, businessId, paymentId });
+    }
+
+    return result;
+  }
+
   async recordBulkPayment(
     businessId: string, 
     userId: string, 
@@ -580,12 +1861,13 @@ export class BillingService {
     req?: AuthenticatedRequest
   ): Promise<{ payment: typeof payments.$inferSelect; allocations: typeof paymentAllocations.$inferSelect[] }> {
     const { amount, method, paymentDate, referenceNumber, notes } = input;
+    const isCheque = method === 'CHEQUE';
     
     if (amount <= 0) throw new Error('Payment amount must be positive');
 
     return await db.transaction(async (tx) => {
         // 1. Create Payment Record (initially unallocated)
-        const paymentNumber = await this.generatePaymentNumber(businessId);
+        const paymentNumber = await sequenceService.next(tx, businessId, 'PAYMENT');
         
         const [payment] = await tx.insert(payments).values({
             businessId,
@@ -594,10 +1876,14 @@ export class BillingService {
             paymentDate: new Date(paymentDate || Date.now()),
             amount: amount.toString(),
             method: method as PaymentMethod,
-            status: 'COMPLETED',
+            status: isCheque ? 'PROCESSING' : 'COMPLETED',
             allocatedAmount: '0', 
             unallocatedAmount: amount.toString(),
             referenceNumber,
+            bankName: input.bankName,
+            chequeNumber: input.chequeNumber,
+            chequeDate: input.chequeDate ? new Date(input.chequeDate) : undefined,
+            chequeStatus: isCheque ? 'RECEIVED' : undefined,
             notes,
             createdBy: userId
         }).returning();
@@ -644,14 +1930,14 @@ export class BillingService {
 
                 // Update Bill
                 const newPaid = (parseFloat(bill.paidAmount) + safeCanPay).toFixed(2);
-                const newBal = (parseFloat(bill.totalAmount) - parseFloat(newPaid)).toFixed(2);
+                const newBal = (billBalance - safeCanPay).toFixed(2);
                  
                 let newStatus = bill.status as BillingStatus;
                 let newPaymentStatus = bill.paymentStatus as PaymentStatus;
 
                 if (parseFloat(newBal) <= 0.01) {
                     newStatus = 'PAID';
-                    newPaymentStatus = 'COMPLETED';
+                    newPaymentStatus = isCheque ? 'PROCESSING' : 'COMPLETED';
                 } else {
                     newStatus = 'PARTIAL';
                     newPaymentStatus = 'PENDING';
@@ -680,6 +1966,8 @@ export class BillingService {
                 unallocatedAmount: remainingAmount.toFixed(2)
             })
             .where(eq(payments.id, payment.id));
+
+        await customerBalanceService.refreshOutstandingBalance(tx, businessId, customerId);
         
         await auditService.logPaymentAction('CREATE', businessId, userId, payment.id, undefined, payment, req);
 
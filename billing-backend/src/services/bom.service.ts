@@ -0,0 +1,355 @@
+import { db, DbTransaction } from '../config/database';
+import {
+  productComponents,
+  products,
+  productVariants,
+  stockMovements,
+  billItems,
+} from '../models/drizzle/schema';
+import { eq, and, ne, asc, inArray, isNull, sql } from 'drizzle-orm';
+import { SetBomInput } from '../schemas/product.schema';
+import { logger } from '../utils/logger';
+import { InventoryService } from './inventory.service';
+
+type DbExecutor = typeof db | DbTransaction;
+type Product = typeof products.$inferSelect;
+type ProductComponent = typeof productComponents.$inferSelect;
+type BillItem = typeof billItems.$inferSelect;
+
+export interface BomLine extends ProductComponent {
+  componentName: string;
+  componentCode: string;
+  componentVariantName: string | null;
+  unit: string;
+  unitCost: number;
+  lineCost: number;
+}
+
+export interface Bom {
+  productId: string;
+  variantId: string | null;
+  components: BomLine[];
+  rolledUpCost: number;
+}
+
+interface BillLineContext {
+  businessId: string;
+  billId: string;
+  item: BillItem;
+  locationId?: string | null;
+  userId: string;
+}
+
+const inventoryService = new InventoryService();
+
+// Deepest nesting of sub-assemblies followed when checking a BOM for cycles
+const MAX_BOM_DEPTH = 10;
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Composites and services are put together when sold, so billing them consumes their components;
+ * other products with a BOM are made ahead through production orders.
+ */
+export function consumesOnSale(product: Product): boolean {
+  return product.productType === 'COMPOSITE' || product.productType === 'SERVICE' || product.isService;
+}
+
+export class BomService {
+  /**
+   * Components of a product, using the variant's own BOM when it has one
+   */
+  async getComponents(executor: DbExecutor, productId: string, variantId?: string | null): Promise<ProductComponent[]> {
+    if (variantId) {
+      const specific = await executor
+        .select()
+        .from(productComponents)
+        .where(and(eq(productComponents.productId, productId), eq(productComponents.variantId, variantId)))
+        .orderBy(asc(productComponents.sortOrder));
+
+      if (specific.length > 0) return specific;
+    }
+
+    return executor
+      .select()
+      .from(productComponents)
+      .where(and(eq(productComponents.productId, productId), isNull(productComponents.variantId)))
+      .orderBy(asc(productComponents.sortOrder));
+  }
+
+  private async describe(executor: DbExecutor, components: ProductComponent[]): Promise<BomLine[]> {
+    if (components.length === 0) return [];
+
+    const parts = await executor
+      .select({ product: products, variant: productVariants })
+      .from(products)
+      .leftJoin(productVariants, eq(productVariants.productId, products.id))
+      .where(inArray(products.id, components.map(component => component.componentProductId)));
+
+    return components.map(component => {
+      const part = parts.find(row => row.product.id === component.componentProductId && (!component.componentVariantId || row.variant?.id === component.componentVariantId));
+      const variant = component.componentVariantId ? part?.variant : null;
+      const unitCost = Number(variant?.purchasePrice ?? part?.product.averageCost ?? part?.product.purchasePrice ?? 0);
+
+      return {
+        ...component,
+        componentName: part?.product.name ?? 'Unknown component',
+        componentCode: part?.product.productCode ?? '',
+        componentVariantName: variant?.variantName ?? null,
+        unit: part?.product.unit ?? 'PIECE',
+        unitCost,
+        lineCost: round2(unitCost * Number(component.quantity)),
+      };
+    });
+  }
+
+  async getBom(businessId: string, productId: string, variantId?: string): Promise<Bom> {
+    const [product] = await db
+      .select({ id: products.id })
+      .from(products)
+      .where(and(eq(products.id, productId), eq(products.businessId, businessId)))
+      .limit(1);
+
+    if (!product) {
+      throw new Error('Product not found');
+    }
+
+    const components = await this.describe(db, await this.getComponents(db, productId, variantId));
+
+    return {
+      productId,
+      variantId: components.find(component => component.variantId)?.variantId ?? null,
+      components,
+      rolledUpCost: round2(components.reduce((total, component) => total + component.lineCost, 0)),
+    };
+  }
+
+  /**
+   * Refuse components that already contain the parent somewhere below them
+   */
+  private async assertNoCycle(tx: DbTransaction, productId: string, componentIds: string[]): Promise<void> {
+    let frontier = componentIds;
+
+    for (let depth = 0; depth < MAX_BOM_DEPTH && frontier.length > 0; depth++) {
+      if (frontier.includes(productId)) {
+        throw new Error('A product cannot be a component of itself, directly or through a sub-assembly');
+      }
+
+      const children = await tx
+        .select({ id: productComponents.componentProductId })
+        .from(productComponents)
+        .where(inArray(productComponents.productId, frontier));
+
+      frontier = [...new Set(children.map(child => child.id))];
+    }
+  }
+
+  /**
+   * The parent's cost is the sum of its components at their current cost. Products assembled when sold hold
+   * no stock of their own, so the rolled-up figure is also their average cost.
+   */
+  private async rollUpCost(tx: DbTransaction, product: Product, variantId: string | null): Promise<number> {
+    const components = await this.describe(tx, await this.getComponents(tx, product.id, variantId));
+    if (components.length === 0) return 0;
+
+    const cost = round2(components.reduce((total, component) => total + component.lineCost, 0)).toFixed(2);
+
+    if (variantId) {
+      await tx.update(productVariants)
+        .set({ purchasePrice: cost, updatedAt: new Date() })
+        .where(eq(productVariants.id, variantId));
+    } else {
+      await tx.update(products)
+        .set({
+          purchasePrice: cost,
+          ...(consumesOnSale(product) ? { averageCost: cost } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(products.id, product.id));
+    }
+
+    return Number(cost);
+  }
+
+  /**
+   * Replace a product's BOM (or one variant's) with the given components
+   */
+  async setBom(businessId: string, productId: string, input: SetBomInput): Promise<Bom> {
+    const variantId = input.variantId ?? null;
+
+    await db.transaction(async (tx) => {
+      const [product] = await tx
+        .select()
+        .from(products)
+        .where(and(eq(products.id, productId), eq(products.businessId, businessId)))
+        .for('update');
+
+      if (!product) {
+        throw new Error('Product not found');
+      }
+
+      if (variantId) {
+        const [variant] = await tx
+          .select({ id: productVariants.id })
+          .from(productVariants)
+          .where(and(eq(productVariants.id, variantId), eq(productVariants.productId, productId)))
+          .limit(1);
+
+        if (!variant) {
+          throw new Error('Variant not found');
+        }
+      }
+
+      const componentIds = [...new Set(input.components.map(component => component.componentProductId))];
+
+      if (componentIds.length > 0) {
+        const parts = await tx
+          .select()
+          .from(products)
+          .where(and(eq(products.businessId, businessId), inArray(products.id, componentIds)));
+
+        for (const componentId of componentIds) {
+          const part = parts.find(row => row.id === componentId);
+          if (!part) {
+            throw new Error('One or more components were not found');
+          }
+          if (part.isService || part.productType === 'SERVICE') {
+            throw new Error(`${part.name} is a service and cannot be a component`);
+          }
+        }
+
+        for (const component of input.components) {
+          if (!component.componentVariantId) continue;
+          const [variant] = await tx
+            .select({ id: productVariants.id })
+            .from(productVariants)
+            .where(and(eq(productVariants.id, component.componentVariantId), eq(productVariants.productId, component.componentProductId)))
+            .limit(1);
+
+          if (!variant) {
+            throw new Error('Component variant not found');
+          }
+        }
+
+        await this.assertNoCycle(tx, productId, componentIds);
+      }
+
+      await tx.delete(productComponents).where(and(
+        eq(productComponents.productId, productId),
+        variantId ? eq(productComponents.variantId, variantId) : isNull(productComponents.variantId)
+      ));
+
+      if (input.components.length > 0) {
+        await tx.insert(productComponents).values(input.components.map((component, index) => ({
+          businessId,
+          productId,
+          variantId,
+          componentProductId: component.componentProductId,
+          componentVariantId: component.componentVariantId,
+          quantity: component.quantity.toFixed(3),
+          notes: component.notes,
+          sortOrder: index,
+        })));
+
+        await this.rollUpCost(tx, product, variantId);
+      }
+    });
+
+    logger.info('Bill of materials updated', { productId, variantId, businessId, components: input.components.length });
+
+    return this.getBom(businessId, productId, variantId ?? undefined);
+  }
+
+  /**
+   * Consume the components of a composite or service line being billed. Returns the line's unit cost
+   * from the components drawn, or null when the line is an ordinary stock item.
+   */
+  async consumeForBillItem(tx: DbTransaction, context: BillLineContext): Promise<{ unitCost: number } | null> {
+    const { item } = context;
+    if (!item.productId) return null;
+
+    const [product] = await tx.select().from(products).where(eq(products.id, item.productId)).limit(1);
+    if (!product || !consumesOnSale(product)) return null;
+
+    const components = await this.getComponents(tx, product.id, item.variantId);
+    if (components.length === 0) return null;
+
+    const lineQuantity = parseFloat(item.quantity);
+    let totalCost = 0;
+
+    for (const component of components) {
+      const recorded = await inventoryService.recordMovement(tx, {
+        businessId: context.businessId,
+        productId: component.componentProductId,
+        variantId: component.componentVariantId,
+        locationId: context.locationId,
+        movementType: 'CONSUMPTION',
+        quantity: -round2(Number(component.quantity) * lineQuantity),
+        billId: context.billId,
+        billItemId: item.id,
+        reason: `Used in ${product.name}`,
+        performedBy: context.userId,
+        metadata: { parentProductId: product.id },
+      });
+
+      totalCost += Number(recorded?.movement.totalCost ?? 0);
+    }
+
+    return { unitCost: lineQuantity > 0 ? totalCost / lineQuantity : 0 };
+  }
+
+  /**
+   * Put back the components consumed by a bill line, in proportion to the quantity coming back.
+   * Works from what the sale actually consumed, so later BOM changes do not matter.
+   * Returns the number of components restocked, or null when the line did not consume components.
+   */
+  async returnForBillItem(tx: DbTransaction, context: BillLineContext & { quantity: number; reason: string; notes?: string }): Promise<number | null> {
+    const { item } = context;
+    if (!item.productId) return null;
+
+    const consumed = await tx
+      .select({
+        productId: stockMovements.productId,
+        variantId: stockMovements.variantId,
+        consumed: sql<string>`-SUM(CASE WHEN ${stockMovements.movementType} = 'CONSUMPTION' THEN ${stockMovements.quantity} ELSE 0 END)`,
+        outstanding: sql<string>`-SUM(${stockMovements.quantity})`,
+      })
+      .from(stockMovements)
+      .where(and(
+        eq(stockMovements.billItemId, item.id),
+        ne(stockMovements.productId, item.productId),
+        inArray(stockMovements.movementType, ['CONSUMPTION', 'RETURN'])
+      ))
+      .groupBy(stockMovements.productId, stockMovements.variantId);
+
+    if (!consumed.some(row => Number(row.consumed) > 0)) return null;
+
+    const ratio = context.quantity / parseFloat(item.quantity);
+    let restocked = 0;
+
+    for (const row of consumed) {
+      const quantity = Math.min(round2(Number(row.consumed) * ratio), round2(Number(row.outstanding)));
+      if (quantity <= 0) continue;
+
+      await inventoryService.recordMovement(tx, {
+        businessId: context.businessId,
+        productId: row.productId,
+        variantId: row.variantId,
+        locationId: context.locationId,
+        movementType: 'RETURN',
+        quantity,
+        billId: context.billId,
+        billItemId: item.id,
+        reason: context.reason,
+        notes: context.notes,
+        performedBy: context.userId,
+        metadata: { parentProductId: item.productId },
+      });
+      restocked++;
+    }
+
+    return restocked;
+  }
+}
@@ -1,5 +1,5 @@
 import { db } from '../config/database';
-import { retailBusinesses, businessStaff, users, roles, businessTypeEnum, products, customers, bills } from '../models/drizzle/schema';
+import { retailBusinesses, businessStaff, users, roles, businessTypeEnum, creditApplicationEnum, products, customers, bills, storeLocations } from '../models/drizzle/schema';
 import { eq, and, count } from 'drizzle-orm';
 import { 
   CreateBusinessInput, 
@@ -11,6 +11,7 @@ import {
 import { logger } from '../utils/logger';
 
 type BusinessType = typeof businessTypeEnum.enumValues[number];
+type CreditApplication = typeof creditApplicationEnum.enumValues[number];
 
 // Mapping between API permission strings and DB boolean flags
 const PERMISSION_MAPPING: Record<string, keyof typeof businessStaff.$inferInsert> = {
@@ -123,7 +124,7 @@ export class BusinessService {
     return updatedBusiness;
   }
 
-  async getBusinessSettings(businessId: string): Promise<{ settings: unknown; billingSettings: unknown; paymentSettings: unknown; notificationSettings: unknown; analyticsSettings: unknown }> {
+  async getBusinessSettings(businessId: string): Promise<{ settings: unknown; billingSettings: unknown; paymentSettings: unknown; notificationSettings: unknown; analyticsSettings: unknown; creditApplication: CreditApplication }> {
     const [business] = await db
       .select({
         settings: retailBusinesses.settings,
@@ -131,6 +132,7 @@ export class BusinessService {
         paymentSettings: retailBusinesses.paymentSettings,
         notificationSettings: retailBusinesses.notificationSettings,
         analyticsSettings: retailBusinesses.analyticsSettings,
+        creditApplication: retailBusinesses.creditApplication,
       })
       .from(retailBusinesses)
       .where(eq(retailBusinesses.id, businessId))
@@ -143,12 +145,21 @@ export class BusinessService {
     return business;
   }
 
-  async updateBusinessSettings(businessId: string, input: BusinessSettingsInput): Promise<{ settings: unknown; invoiceSettings: unknown; paymentSettings: unknown; notificationSettings: unknown; analyticsSettings: unknown }> {
+  async updateBusinessSettings(businessId: string, input: BusinessSettingsInput): Promise<{ settings: unknown; invoiceSettings: unknown; paymentSettings: unknown; notificationSettings: unknown; analyticsSettings: unknown; creditApplication: CreditApplication }> {
     const updateData: Partial<typeof retailBusinesses.$inferInsert> = {};
 
-    if (input.invoiceSettings) updateData.billingSettings = input.invoiceSettings;
+    if (input.invoiceSettings) {
+      // Merge so numbering overrides (billingSettings.numberSequences) and approval settings survive an invoice settings update
+      const [current] = await db
+        .select({ billingSettings: retailBusinesses.billingSettings })
+        .from(retailBusinesses)
+        .where(eq(retailBusinesses.id, businessId))
+        .limit(1);
+      updateData.billingSettings = { ...(current?.billingSettings as Record<string, unknown> || {}), ...input.invoiceSettings };
+    }
     if (input.paymentSettings) updateData.paymentSettings = input.paymentSettings;
     if (input.notificationSettings) updateData.notificationSettings = input.notificationSettings;
+    if (input.creditApplication) updateData.creditApplication = input.creditApplication;
     
     if (input.currency || input.timezone || input.dateFormat || input.taxSettings) {
       const currentSettings = await this.getBusinessSettings(businessId);
@@ -188,7 +199,8 @@ export class BusinessService {
       invoiceSettings: updatedBusiness.billingSettings,
       paymentSettings: updatedBusiness.paymentSettings,
       notificationSettings: updatedBusiness.notificationSettings,
-      analyticsSettings: updatedBusiness.analyticsSettings
+      analyticsSettings: updatedBusiness.analyticsSettings,
+      creditApplication: updatedBusiness.creditApplication
     };
   }
 
@@ -201,6 +213,7 @@ export class BusinessService {
         userId: businessStaff.userId,
         roleId: businessStaff.roleId,
         roleName: roles.name,
+        locationId: businessStaff.locationId,
         // Map booleans back to array not easily done in SQL select without transformation
         canCreateBills: businessStaff.canCreateBills,
         canApproveBills: businessStaff.canApproveBills,
@@ -234,7 +247,11 @@ export class BusinessService {
   }
 
   async inviteStaffMember(businessId: string, input: InviteStaffInput): Promise<typeof businessStaff.$inferSelect> {
-    const { email, role, permissions } = input;
+    const { email, role, permissions, locationId } = input;
+
+    if (locationId) {
+      await this.assertLocation(businessId, locationId);
+    }
 
     // Check if user exists
     const [user] = await db
@@ -290,6 +307,7 @@ export class BusinessService {
         businessId,
         userId: user.id,
         roleId,
+        locationId,
         ...permissionFlags,
         isActive: true,
       })
@@ -323,6 +341,11 @@ export class BusinessService {
         Object.assign(updateData, flags);
     }
     
+    if (input.locationId !== undefined) {
+      if (input.locationId) await this.assertLocation(businessId, input.locationId);
+      updateData.locationId = input.locationId;
+    }
+
     if (input.isActive !== undefined) updateData.isActive = input.isActive;
 
     const [updatedStaff] = await db
@@ -343,6 +366,18 @@ export class BusinessService {
     return updatedStaff;
   }
 
+  private async assertLocation(businessId: string, locationId: string): Promise<void> {
+    const [location] = await db
+      .select({ isActive: storeLocations.isActive })
+      .from(storeLocations)
+      .where(and(eq(storeLocations.id, locationId), eq(storeLocations.businessId, businessId)))
+      .limit(1);
+
+    if (!location || !location.isActive) {
+      throw new Error('Location not found');
+    }
+  }
+
   async removeStaffMember(businessId: string, staffId: string): Promise<{ message: string }> {
     const [deletedStaff] = await db
       .delete(businessStaff)
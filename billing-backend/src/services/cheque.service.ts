@@ -0,0 +1,538 @@
+import { db, DbTransaction } from '../config/database';
+import {
+  payments,
+  paymentAllocations,
+  bills,
+  billHistory,
+  customers,
+  moneyTransactions,
+  retailBusinesses,
+  businessStaff,
+  paymentStatusEnum,
+} from '../models/drizzle/schema';
+import { eq, and, or, ne, gt, lte, asc, count, inArray, isNull, sql, SQL } from 'drizzle-orm';
+import {
+  ChequeQueryInput,
+  DepositChequeInput,
+  ClearChequeInput,
+  BounceChequeInput,
+} from '../schemas/cheque.schema';
+import { logger } from '../utils/logger';
+import { formatCurrency } from '../utils/billing';
+import { reopenBill } from '../utils/settlement';
+import { sendChequeBounceNotice } from '../utils/notifications';
+import { AuditService } from './audit.service';
+import { SequenceService } from './sequence.service';
+import { NotificationService } from './notification.service';
+import { SalesSummaryService } from './sales-summary.service';
+import { CustomerBalanceService } from './customer-balance.service';
+import { AuthenticatedRequest } from '../types/common';
+
+type Payment = typeof payments.$inferSelect;
+type PaymentStatus = typeof paymentStatusEnum.enumValues[number];
+
+export interface ChequeDetails extends Payment {
+  customerName: string | null;
+  isPostDated: boolean;
+  allocations: (typeof paymentAllocations.$inferSelect & { billNumber: string })[];
+}
+
+const customerName = sql<string | null>`NULLIF(TRIM(CONCAT(${customers.firstName}, ' ', COALESCE(${customers.lastName}, ''))), '')`;
+
+const auditService = new AuditService();
+const sequenceService = new SequenceService();
+const notificationService = new NotificationService();
+const salesSummaryService = new SalesSummaryService();
+const customerBalanceService = new CustomerBalanceService();
+
+function endOfDay(date: Date): Date {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+function isPostDated(cheque: Payment, asOf: Date = new Date()): boolean {
+  return cheque.chequeStatus === 'RECEIVED' && !!cheque.chequeDate && cheque.chequeDate > endOfDay(asOf);
+}
+
+export class ChequeService {
+  private async lockCheque(tx: DbTransaction, businessId: string, paymentId: string): Promise<Payment> {
+    const [cheque] = await tx
+      .select()
+      .from(payments)
+      .where(and(
+        eq(payments.id, paymentId),
+        eq(payments.businessId, businessId),
+        eq(payments.method, 'CHEQUE'),
+        isNull(payments.deletedAt)
+      ))
+      .for('update');
+
+    if (!cheque) {
+      throw new Error('Cheque not found');
+    }
+
+    return cheque;
+  }
+
+  /**
+   * The cheque register, earliest cheque date first
+   */
+  async getCheques(businessId: string, query: ChequeQueryInput): Promise<{ cheques: (Payment & { customerName: string | null; isPostDated: boolean })[]; pagination: { page: number; limit: number; total: number; totalPages: number } }> {
+    const { status, customerId, postDated, dueBy, page = 1, limit = 20 } = query;
+
+    const conditions: SQL[] = [
+      eq(payments.businessId, businessId),
+      eq(payments.method, 'CHEQUE'),
+      isNull(payments.deletedAt),
+    ];
+    if (status) conditions.push(eq(payments.chequeStatus, status));
+    if (customerId) conditions.push(eq(payments.customerId, customerId));
+    if (postDated) {
+      conditions.push(eq(payments.chequeStatus, 'RECEIVED'), gt(payments.chequeDate, endOfDay(new Date())));
+    }
+    if (dueBy) {
+      const dueCondition = or(isNull(payments.chequeDate), lte(payments.chequeDate, endOfDay(new Date(dueBy))));
+      if (dueCondition) conditions.push(eq(payments.chequeStatus, 'RECEIVED'), dueCondition);
+    }
+
+    const [countResult] = await db
+      .select({ count: count() })
+      .from(payments)
+      .where(and(...conditions));
+
+    const total = countResult?.count || 0;
+
+    const rows = await db
+      .select({ cheque: payments, customerName })
+      .from(payments)
+      .leftJoin(customers, eq(payments.customerId, customers.id))
+      .where(and(...conditions))
+      .orderBy(asc(payments.chequeDate), asc(payments.paymentDate))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      cheques: rows.map(row => ({ ...row.cheque, customerName: row.customerName, isPostDated: isPostDated(row.cheque) })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getCheque(businessId: string, paymentId: string): Promise<ChequeDetails> {
+    const [row] = await db
+      .select({ cheque: payments, customerName })
+      .from(payments)
+      .leftJoin(customers, eq(payments.customerId, customers.id))
+      .where(and(
+        eq(payments.id, paymentId),
+        eq(payments.businessId, businessId),
+        eq(payments.method, 'CHEQUE'),
+        isNull(payments.deletedAt)
+      ))
+      .limit(1);
+
+    if (!row) {
+      throw new Error('Cheque not found');
+    }
+
+    const allocations = await db
+      .select({ allocation: paymentAllocations, billNumber: bills.billNumber })
+      .from(paymentAllocations)
+      .innerJoin(bills, eq(paymentAllocations.billId, bills.id))
+      .where(eq(paymentAllocations.paymentId, paymentId))
+      .orderBy(paymentAllocations.allocationDate);
+
+    return {
+      ...row.cheque,
+      customerName: row.customerName,
+      isPostDated: isPostDated(row.cheque),
+      allocations: allocations.map(a => ({ ...a.allocation, billNumber: a.billNumber })),
+    };
+  }
+
+  /**
+   * Record that a received cheque went to the bank; post-dated cheques wait for their date
+   */
+  async depositCheque(businessId: string, userId: string, paymentId: string, input: DepositChequeInput, req?: AuthenticatedRequest): Promise<ChequeDetails> {
+    const depositDate = new Date(input.depositDate || Date.now());
+
+    await db.transaction(async (tx) => {
+      const cheque = await this.lockCheque(tx, businessId, paymentId);
+
+      if (cheque.chequeStatus !== 'RECEIVED') {
+        throw new Error('Cheque is not awaiting deposit');
+      }
+      if (cheque.chequeDate && cheque.chequeDate > endOfDay(depositDate)) {
+        throw new Error(`Cheque is post-dated to ${cheque.chequeDate.toISOString().slice(0, 10)} and cannot be deposited before then`);
+      }
+
+      await tx.update(payments)
+        .set({
+          chequeStatus: 'DEPOSITED',
+          chequeDepositedAt: depositDate,
+          chequeDepositAccount: input.depositAccount,
+          internalNotes: input.notes ? [cheque.internalNotes, input.notes].filter(Boolean).join('\n') : cheque.internalNotes,
+          updatedAt: new Date(),
+        })
+        .where(eq(payments.id, paymentId));
+
+      await auditService.logPaymentAction('UPDATE', businessId, userId, paymentId, { chequeStatus: cheque.chequeStatus }, { chequeStatus: 'DEPOSITED', depositAccount: input.depositAccount }, req);
+    });
+
+    logger.info('Cheque deposited', { paymentId, businessId });
+
+    return this.getCheque(businessId, paymentId);
+  }
+
+  /**
+   * The bank honoured the cheque: the payment completes, and bills it fully paid are settled
+   */
+  async clearCheque(businessId: string, userId: string, paymentId: string, input: ClearChequeInput, req?: AuthenticatedRequest): Promise<ChequeDetails> {
+    const clearedDate = new Date(input.clearedDate || Date.now());
+
+    const paymentDate = await db.transaction(async (tx) => {
+      const cheque = await this.lockCheque(tx, businessId, paymentId);
+
+      if (cheque.chequeStatus !== 'DEPOSITED') {
+        throw new Error('Only deposited cheques can be cleared');
+      }
+
+      await tx.update(payments)
+        .set({
+          status: 'COMPLETED',
+          chequeStatus: 'CLEARED',
+          chequeClearedAt: clearedDate,
+          verifiedBy: userId,
+          verifiedAt: new Date(),
+          internalNotes: input.notes ? [cheque.internalNotes, input.notes].filter(Boolean).join('\n') : cheque.internalNotes,
+          updatedAt: new Date(),
+        })
+        .where(eq(payments.id, paymentId));
+
+      const allocations = await tx
+        .select({ billId: paymentAllocations.billId })
+        .from(paymentAllocations)
+        .where(and(eq(paymentAllocations.paymentId, paymentId), eq(paymentAllocations.status, 'ACTIVE')));
+
+      for (const { billId } of allocations) {
+        const [bill] = await tx
+          .select()
+          .from(bills)
+          .where(eq(bills.id, billId))
+          .for('update');
+
+        if (!bill || bill.paymentStatus !== 'PROCESSING' || parseFloat(bill.balanceAmount) > 0.01) continue;
+
+        // Another uncleared cheque on the bill keeps it processing
+        const [pending] = await tx
+          .select({ count: count() })
+          .from(paymentAllocations)
+          .innerJoin(payments, eq(paymentAllocations.paymentId, payments.id))
+          .where(and(
+            eq(paymentAllocations.billId, billId),
+            eq(paymentAllocations.status, 'ACTIVE'),
+            eq(payments.status, 'PROCESSING'),
+            ne(payments.id, paymentId)
+          ));
+
+        if ((pending?.count ?? 0) > 0) continue;
+
+        await tx.update(bills)
+          .set({ paymentStatus: 'COMPLETED' as PaymentStatus, updatedAt: new Date() })
+          .where(eq(bills.id, billId));
+      }
+
+      // Whatever the cleared cheque left unallocated now counts as credit
+      if (cheque.customerId) {
+        await customerBalanceService.refreshOutstandingBalance(tx, businessId, cheque.customerId);
+      }
+
+      await auditService.logPaymentAction('UPDATE', businessId, userId, paymentId, { status: cheque.status, chequeStatus: cheque.chequeStatus }, { status: 'COMPLETED', chequeStatus: 'CLEARED' }, req);
+
+      return cheque.paymentDate;
+    });
+
+    logger.info('Cheque cleared', { paymentId, businessId });
+
+    try {
+      await salesSummaryService.refreshDay(db, businessId, paymentDate);
+    } catch (error) {
+      logger.error('Error refreshing daily sales summary', { error, businessId, paymentId });
+    }
+
+    return this.getCheque(businessId, paymentId);
+  }
+
+  /**
+   * The bank returned the cheque unpaid: its allocations are reversed so the bills owe again, any bounce charge
+   * is raised on the customer as a debit note, and the customer is told
+   */
+  async bounceCheque(businessId: string, userId: string, paymentId: string, input: BounceChequeInput, req?: AuthenticatedRequest): Promise<ChequeDetails & { debitNote: typeof moneyTransactions.$inferSelect | null }> {
+    const { reason, notifyCustomer } = input;
+    const bounceDate = new Date(input.bounceDate || Date.now());
+    const bounceCharge = Number((input.bounceCharge ?? 0).toFixed(2));
+
+    const { cheque, billNumbers, debitNote } = await db.transaction(async (tx) => {
+      const cheque = await this.lockCheque(tx, businessId, paymentId);
+
+      if (cheque.chequeStatus !== 'DEPOSITED') {
+        throw new Error('Only deposited cheques can bounce');
+      }
+      if (bounceCharge > 0 && !cheque.customerId) {
+        throw new Error('Bounce charges need a customer on the cheque');
+      }
+
+      const allocations = await tx
+        .select()
+        .from(paymentAllocations)
+        .where(and(eq(paymentAllocations.paymentId, paymentId), eq(paymentAllocations.status, 'ACTIVE')))
+        .for('update');
+
+      const billNumbers: string[] = [];
+
+      for (const allocation of allocations) {
+        const amount = parseFloat(allocation.allocatedAmount);
+
+        await tx.update(paymentAllocations)
+          .set({
+            status: 'REVERSED',
+            reversedAt: bounceDate,
+            reversedBy: userId,
+            reversalReason: `Cheque bounced: ${reason}`,
+          })
+          .where(eq(paymentAllocations.id, allocation.id));
+
+        const [bill] = await tx
+          .select()
+          .from(bills)
+          .where(eq(bills.id, allocation.billId))
+          .for('update');
+
+        if (!bill) throw new Error('Bill not found');
+
+        const { paidAmount, balanceAmount, status: newStatus } = reopenBill(parseFloat(bill.paidAmount), parseFloat(bill.balanceAmount), amount);
+
+        await tx.update(bills)
+          .set({
+            paidAmount: paidAmount.toFixed(2),
+            balanceAmount: balanceAmount.toFixed(2),
+            status: newStatus,
+            paymentStatus: 'PENDING' as PaymentStatus,
+            updatedAt: new Date(),
+          })
+          .where(eq(bills.id, bill.id));
+
+        await tx.insert(billHistory).values({
+          billId: bill.id,
+          action: 'CHEQUE_BOUNCED',
+          performedBy: userId,
+          oldStatus: bill.status,
+          newStatus,
+          notes: reason,
+          description: `Cheque ${cheque.chequeNumber || cheque.paymentNumber} for ${amount.toFixed(2)} bounced; balance now ${balanceAmount.toFixed(2)}`,
+          ipAddress: req?.ip,
+          userAgent: req?.get('User-Agent'),
+          metadata: { paymentId, allocationId: allocation.id },
+        });
+
+        await auditService.logBillAction('UPDATE', businessId, userId, bill.id, { balance: bill.balanceAmount, status: bill.status }, { balance: balanceAmount.toFixed(2), status: newStatus }, `Cheque bounced: ${reason}`, req);
+
+        billNumbers.push(bill.billNumber);
+      }
+
+      await tx.update(payments)
+        .set({
+          status: 'FAILED',
+          chequeStatus: 'BOUNCED',
+          chequeBouncedAt: bounceDate,
+          chequeBounceReason: reason,
+          chequeBounceCharge: bounceCharge > 0 ? bounceCharge.toFixed(2) : null,
+          allocatedAmount: '0.00',
+          unallocatedAmount: '0.00',
+          updatedAt: new Date(),
+        })
+        .where(eq(payments.id, paymentId));
+
+      let debitNote: typeof moneyTransactions.$inferSelect | null = null;
+
+      if (cheque.customerId) {
+        const [customer] = await tx
+          .select()
+          .from(customers)
+          .where(eq(customers.id, cheque.customerId))
+          .for('update');
+
+        if (customer) {
+          // The bills owe again and whatever the cheque left unallocated is no longer credit
+          const { newBalance: balanceBefore } = await customerBalanceService.refreshOutstandingBalance(tx, businessId, customer.id);
+
+          if (bounceCharge > 0) {
+            const debitNoteNumber = await sequenceService.next(tx, businessId, 'DEBIT_NOTE');
+
+            const [transaction] = await tx.insert(moneyTransactions).values({
+              businessId,
+              transactionType: 'DEBIT_NOTE',
+              amount: bounceCharge.toFixed(2),
+              customerId: customer.id,
+              billId: allocations.length === 1 ? allocations[0]?.billId : undefined,
+              paymentId,
+              previousBalance: balanceBefore,
+              newBalance: (parseFloat(balanceBefore) + bounceCharge).toFixed(2),
+              referenceNumber: debitNoteNumber,
+              description: `Debit note ${debitNoteNumber}: bounce charge for cheque ${cheque.chequeNumber || cheque.paymentNumber}`,
+              notes: reason,
+              performedBy: userId,
+              transactionDate: bounceDate,
+              metadata: { reason, chequeNumber: cheque.chequeNumber },
+            }).returning();
+
+            debitNote = transaction ?? null;
+            await customerBalanceService.refreshOutstandingBalance(tx, businessId, customer.id);
+          }
+        }
+      }
+
+      await auditService.logPaymentAction('UPDATE', businessId, userId, paymentId, { status: cheque.status, chequeStatus: cheque.chequeStatus }, { status: 'FAILED', chequeStatus: 'BOUNCED', reason, bounceCharge }, req);
+
+      return { cheque, billNumbers, debitNote };
+    });
+
+    logger.info('Cheque bounced', { paymentId, businessId, bills: billNumbers.length, bounceCharge });
+
+    if (notifyCustomer && cheque.customerId) {
+      await this.notifyBounce(cheque, reason, bounceCharge, billNumbers);
+    }
+
+    return { ...(await this.getCheque(businessId, paymentId)), debitNote };
+  }
+
+  private async notifyBounce(cheque: Payment, reason: string, bounceCharge: number, billNumbers: string[]): Promise<void> {
+    if (!cheque.customerId) return;
+
+    try {
+      const [customer] = await db
+        .select({ phone: customers.phone, email: customers.email })
+        .from(customers)
+        .where(eq(customers.id, cheque.customerId))
+        .limit(1);
+
+      const notice = {
+        id: cheque.id,
+        chequeNumber: cheque.chequeNumber,
+        bankName: cheque.bankName,
+        amount: cheque.amount,
+        bounceReason: reason,
+        bounceCharge,
+      };
+
+      if (customer?.phone) await sendChequeBounceNotice('sms', customer.phone, notice, billNumbers);
+      if (customer?.email) await sendChequeBounceNotice('email', customer.email, notice, billNumbers);
+    } catch (error) {
+      logger.error('Error notifying customer of bounced cheque', { error, paymentId: cheque.id });
+    }
+  }
+
+  /**
+   * Daily sweep: remind each business's owner and money-handling staff about received cheques now due for deposit
+   */
+  async remindDueCheques(): Promise<{ businesses: number; cheques: number; failed: number }> {
+    const summary = { businesses: 0, cheques: 0, failed: 0 };
+    const dueBy = endOfDay(new Date());
+
+    const dueCondition = or(isNull(payments.chequeDate), lte(payments.chequeDate, dueBy));
+    const due = await db
+      .select()
+      .from(payments)
+      .where(and(
+        eq(payments.method, 'CHEQUE'),
+        eq(payments.chequeStatus, 'RECEIVED'),
+        isNull(payments.deletedAt),
+        dueCondition
+      ))
+      .orderBy(asc(payments.chequeDate));
+
+    const byBusiness = new Map<string, Payment[]>();
+    for (const cheque of due) {
+      byBusiness.set(cheque.businessId, [...(byBusiness.get(cheque.businessId) ?? []), cheque]);
+    }
+
+    for (const [businessId, cheques] of byBusiness) {
+      try {
+        const [business] = await db
+          .select({ ownerId: retailBusinesses.ownerId })
+          .from(retailBusinesses)
+          .where(eq(retailBusinesses.id, businessId))
+          .limit(1);
+
+        const staff = await db
+          .select({ userId: businessStaff.userId })
+          .from(businessStaff)
+          .where(and(
+            eq(businessStaff.businessId, businessId),
+            eq(businessStaff.isActive, true),
+            eq(businessStaff.canManageMoney, true)
+          ));
+
+        const recipients = [...new Set([business?.ownerId, ...staff.map(s => s.userId)].filter((id): id is string => !!id))];
+        const total = cheques.reduce((sum, cheque) => sum + parseFloat(cheque.amount), 0);
+        const list = cheques
+          .map(cheque => `${cheque.chequeNumber || cheque.paymentNumber} (${formatCurrency(cheque.amount)}${cheque.chequeDate ? `, dated ${cheque.chequeDate.toISOString().slice(0, 10)}` : ''})`)
+          .join(', ');
+
+        await notificationService.sendBulkNotifications(recipients.map(recipientId => ({
+          type: 'CHEQUE_DEPOSIT_DUE',
+          recipientId,
+          businessId,
+          entityId: businessId,
+          entityType: 'CHEQUE',
+          title: 'Cheques Due for Deposit',
+          message: `${cheques.length} cheque(s) worth ${formatCurrency(total)} are due for deposit: ${list}`,
+          priority: 'MEDIUM',
+          data: { paymentIds: cheques.map(cheque => cheque.id) },
+        })));
+
+        summary.businesses++;
+        summary.cheques += cheques.length;
+      } catch (error) {
+        summary.failed++;
+        logger.error('Failed to send cheque deposit reminder', { businessId, error });
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Cheques awaiting clearance tie up money that looks paid; used for the register's summary figures
+   */
+  async getRegisterSummary(businessId: string): Promise<{ received: { count: number; amount: number }; postDated: { count: number; amount: number }; dueForDeposit: { count: number; amount: number }; deposited: { count: number; amount: number } }> {
+    const open = await db
+      .select()
+      .from(payments)
+      .where(and(
+        eq(payments.businessId, businessId),
+        eq(payments.method, 'CHEQUE'),
+        inArray(payments.chequeStatus, ['RECEIVED', 'DEPOSITED']),
+        isNull(payments.deletedAt)
+      ));
+
+    const tally = (cheques: Payment[]): { count: number; amount: number } => ({
+      count: cheques.length,
+      amount: Number(cheques.reduce((sum, cheque) => sum + parseFloat(cheque.amount), 0).toFixed(2)),
+    });
+
+    const received = open.filter(cheque => cheque.chequeStatus === 'RECEIVED');
+
+    return {
+      received: tally(received),
+      postDated: tally(received.filter(cheque => isPostDated(cheque))),
+      dueForDeposit: tally(received.filter(cheque => !isPostDated(cheque))),
+      deposited: tally(open.filter(cheque => cheque.chequeStatus === 'DEPOSITED')),
+    };
+  }
+}
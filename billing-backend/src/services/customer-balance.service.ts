@@ -0,0 +1,66 @@
+import { db, DbTransaction } from '../config/database';
+import { bills, payments, customers, moneyTransactions } from '../models/drizzle/schema';
+import { eq, and, gt, isNull, notInArray, sql } from 'drizzle-orm';
+
+type DbExecutor = typeof db | DbTransaction;
+
+// Bills that were never owed
+const UNOWED_STATUSES = ['DRAFT', 'VOID', 'CANCELLED'] as const;
+
+export class CustomerBalanceService {
+  /**
+   * Recompute what the customer owes from the records it is made of: open bill balances and bounce charges, less
+   * settled advances no bill holds yet. Call it in the same transaction as anything that changes one of those.
+   */
+  async refreshOutstandingBalance(executor: DbExecutor, businessId: string, customerId: string): Promise<{ previousBalance: string; newBalance: string }> {
+    const [customer] = await executor
+      .select({ outstandingBalance: customers.outstandingBalance })
+      .from(customers)
+      .where(and(eq(customers.id, customerId), eq(customers.businessId, businessId)))
+      .limit(1);
+
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+
+    const [owed] = await executor
+      .select({ total: sql<string>`COALESCE(SUM(${bills.balanceAmount}), 0)` })
+      .from(bills)
+      .where(and(
+        eq(bills.businessId, businessId),
+        eq(bills.customerId, customerId),
+        notInArray(bills.status, [...UNOWED_STATUSES])
+      ));
+
+    const [charged] = await executor
+      .select({ total: sql<string>`COALESCE(SUM(${moneyTransactions.amount}), 0)` })
+      .from(moneyTransactions)
+      .where(and(
+        eq(moneyTransactions.businessId, businessId),
+        eq(moneyTransactions.customerId, customerId),
+        eq(moneyTransactions.transactionType, 'DEBIT_NOTE'),
+        eq(moneyTransactions.status, 'COMPLETED')
+      ));
+
+    const [advanced] = await executor
+      .select({ total: sql<string>`COALESCE(SUM(${payments.unallocatedAmount}), 0)` })
+      .from(payments)
+      .where(and(
+        eq(payments.businessId, businessId),
+        eq(payments.customerId, customerId),
+        eq(payments.status, 'COMPLETED'),
+        isNull(payments.deletedAt),
+        gt(payments.unallocatedAmount, '0')
+      ));
+
+    const newBalance = (parseFloat(owed?.total ?? '0') + parseFloat(charged?.total ?? '0') - parseFloat(advanced?.total ?? '0')).toFixed(2);
+
+    if (newBalance !== parseFloat(customer.outstandingBalance).toFixed(2)) {
+      await executor.update(customers)
+        .set({ outstandingBalance: newBalance, updatedAt: new Date() })
+        .where(eq(customers.id, customerId));
+    }
+
+    return { previousBalance: customer.outstandingBalance, newBalance };
+  }
+}
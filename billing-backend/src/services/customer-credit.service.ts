@@ -0,0 +1,342 @@
+import { db, DbTransaction } from '../config/database';
+import {
+  bills,
+  payments,
+  paymentAllocations,
+  billHistory,
+  customers,
+  walletTransactions,
+  retailBusinesses,
+  creditApplicationEnum,
+  billingStatusEnum,
+  paymentStatusEnum,
+} from '../models/drizzle/schema';
+import { eq, and, asc, gt, inArray, isNull, sql, SQL } from 'drizzle-orm';
+import { ApplyCreditInput } from '../schemas/bill.schema';
+import { logger } from '../utils/logger';
+import { creditDraw, applyToBill } from '../utils/settlement';
+import { AuditService } from './audit.service';
+import { SequenceService } from './sequence.service';
+import { SalesSummaryService } from './sales-summary.service';
+import { CustomerBalanceService } from './customer-balance.service';
+import { AuthenticatedRequest } from '../types/common';
+
+type DbExecutor = typeof db | DbTransaction;
+type Bill = typeof bills.$inferSelect;
+type Payment = typeof payments.$inferSelect;
+type BillingStatus = typeof billingStatusEnum.enumValues[number];
+type PaymentStatus = typeof paymentStatusEnum.enumValues[number];
+type CreditApplicationMode = typeof creditApplicationEnum.enumValues[number];
+
+export interface AvailableCredit {
+  customerId: string;
+  advances: Array<{ paymentId: string; paymentNumber: string; paymentDate: Date; method: Payment['method']; amount: string; unallocatedAmount: string }>;
+  unallocatedTotal: string;
+  walletBalance: string;
+  totalAvailable: string;
+}
+
+export interface CreditApplication {
+  bill: Bill;
+  applied: Array<{ source: 'ADVANCE' | 'WALLET'; paymentId: string; paymentNumber: string; amount: string }>;
+  amountApplied: string;
+  newBalance: string;
+}
+
+export interface CreditOffer {
+  mode: CreditApplicationMode;
+  availableCredit: AvailableCredit;
+  application: CreditApplication | null; // Set when the business applies credit automatically
+}
+
+const auditService = new AuditService();
+const sequenceService = new SequenceService();
+const salesSummaryService = new SalesSummaryService();
+const customerBalanceService = new CustomerBalanceService();
+
+/**
+ * Payments that count as credit: settled money the customer paid that no bill holds yet.
+ * Cheques still processing are left out until they clear.
+ */
+function advanceConditions(businessId: string, customerId: string): SQL[] {
+  return [
+    eq(payments.businessId, businessId),
+    eq(payments.customerId, customerId),
+    eq(payments.status, 'COMPLETED'),
+    isNull(payments.deletedAt),
+    gt(payments.unallocatedAmount, '0'),
+  ];
+}
+
+export class CustomerCreditService {
+  async getAvailableCredit(executor: DbExecutor, businessId: string, customerId: string): Promise<AvailableCredit> {
+    const [customer] = await executor
+      .select({ walletBalance: customers.walletBalance })
+      .from(customers)
+      .where(and(eq(customers.id, customerId), eq(customers.businessId, businessId)))
+      .limit(1);
+
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+
+    const advances = await executor
+      .select({
+        paymentId: payments.id,
+        paymentNumber: payments.paymentNumber,
+        paymentDate: payments.paymentDate,
+        method: payments.method,
+        amount: payments.amount,
+        unallocatedAmount: payments.unallocatedAmount,
+      })
+      .from(payments)
+      .where(and(...advanceConditions(businessId, customerId)))
+      .orderBy(asc(payments.paymentDate), asc(payments.createdAt));
+
+    const unallocatedTotal = advances.reduce((total, advance) => total + parseFloat(advance.unallocatedAmount), 0);
+    const walletBalance = Math.max(0, parseFloat(customer.walletBalance));
+
+    return {
+      customerId,
+      advances,
+      unallocatedTotal: unallocatedTotal.toFixed(2),
+      walletBalance: walletBalance.toFixed(2),
+      totalAvailable: (unallocatedTotal + walletBalance).toFixed(2),
+    };
+  }
+
+  /**
+   * Put part of a payment against a bill locked by the caller, keeping the bill, the payment and the allocation in step.
+   * Returns the bill as it now stands.
+   */
+  async allocate(tx: DbTransaction, payment: Payment, bill: Bill, amount: number): Promise<Bill> {
+    const balanceBefore = parseFloat(bill.balanceAmount);
+    const { paidAmount, balanceAmount: balanceAfter, fullyPaid } = applyToBill(parseFloat(bill.paidAmount), balanceBefore, amount);
+
+    await tx.insert(paymentAllocations).values({
+      paymentId: payment.id,
+      billId: bill.id,
+      allocatedAmount: amount.toFixed(2),
+      billBalanceBefore: balanceBefore.toFixed(2),
+      billBalanceAfter: balanceAfter.toFixed(2),
+    });
+
+    await tx.update(payments)
+      .set({
+        allocatedAmount: sql`${payments.allocatedAmount} + ${amount.toFixed(2)}`,
+        unallocatedAmount: sql`${payments.unallocatedAmount} - ${amount.toFixed(2)}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(payments.id, payment.id));
+
+    // A bill settled while any of its cheques is still out stays processing until they clear
+    let paymentStatus: PaymentStatus = 'PENDING';
+    if (fullyPaid) {
+      const [pendingCheque] = payment.status === 'PROCESSING' ? [payment] : await tx
+        .select({ id: payments.id })
+        .from(paymentAllocations)
+        .innerJoin(payments, eq(paymentAllocations.paymentId, payments.id))
+        .where(and(
+          eq(paymentAllocations.billId, bill.id),
+          eq(paymentAllocations.status, 'ACTIVE'),
+          eq(payments.status, 'PROCESSING')
+        ))
+        .limit(1);
+      paymentStatus = pendingCheque ? 'PROCESSING' : 'COMPLETED';
+    }
+
+    const [updatedBill] = await tx.update(bills)
+      .set({
+        paidAmount: paidAmount.toFixed(2),
+        balanceAmount: balanceAfter.toFixed(2),
+        status: (fullyPaid ? 'PAID' : 'PARTIAL') as BillingStatus,
+        paymentStatus,
+        updatedAt: new Date(),
+      })
+      .where(eq(bills.id, bill.id))
+      .returning();
+
+    if (!updatedBill) throw new Error('Failed to update bill');
+
+    return updatedBill;
+  }
+
+  /**
+   * Pay a bill from its customer's credit: advance payments oldest first, then the wallet.
+   * With an explicit amount the whole amount must be covered; otherwise as much of the balance as the credit allows.
+   */
+  async applyCredit(businessId: string, userId: string, billId: string, input: ApplyCreditInput, req?: AuthenticatedRequest): Promise<CreditApplication> {
+    const { paymentIds, useWallet, notes } = input;
+
+    const result = await db.transaction(async (tx) => {
+      const [bill] = await tx
+        .select()
+        .from(bills)
+        .where(and(eq(bills.id, billId), eq(bills.businessId, businessId)))
+        .for('update');
+
+      if (!bill) throw new Error('Bill not found');
+      if (bill.status === 'DRAFT') throw new Error('Finalize the bill before applying credit');
+      if (bill.status === 'VOID' || bill.status === 'CANCELLED') {
+        throw new Error(`Cannot apply credit to a ${bill.status.toLowerCase()} bill`);
+      }
+      if (!bill.customerId) throw new Error('Credit can only be applied to a bill with a customer');
+      const customerId = bill.customerId;
+
+      const balance = parseFloat(bill.balanceAmount);
+      if (balance <= 0) throw new Error('Bill is already fully paid');
+      if (input.amount !== undefined && input.amount > balance + 0.005) {
+        throw new Error(`Amount exceeds the bill balance (${balance.toFixed(2)})`);
+      }
+      const target = Number((input.amount ?? balance).toFixed(2));
+
+      const conditions = advanceConditions(businessId, customerId);
+      if (paymentIds) conditions.push(inArray(payments.id, paymentIds));
+
+      const advances = await tx
+        .select()
+        .from(payments)
+        .where(and(...conditions))
+        .orderBy(asc(payments.paymentDate), asc(payments.createdAt))
+        .for('update');
+
+      if (paymentIds && advances.length !== new Set(paymentIds).size) {
+        throw new Error('One or more payments have no credit left for this customer');
+      }
+
+      const [customer] = await tx
+        .select()
+        .from(customers)
+        .where(eq(customers.id, customerId))
+        .for('update');
+
+      const walletBefore = parseFloat(customer?.walletBalance ?? '0');
+      const draw = creditDraw(target, advances.map(a => parseFloat(a.unallocatedAmount)), useWallet ? walletBefore : 0);
+
+      const applied: CreditApplication['applied'] = [];
+      let current = bill;
+
+      for (const [index, advance] of advances.entries()) {
+        const amount = draw.fromAdvances[index] ?? 0;
+        if (amount <= 0) continue;
+
+        current = await this.allocate(tx, advance, current, amount);
+        applied.push({ source: 'ADVANCE', paymentId: advance.id, paymentNumber: advance.paymentNumber, amount: amount.toFixed(2) });
+      }
+
+      // The wallet pays the rest as a WALLET payment, like a wallet tender at checkout
+      if (draw.fromWallet > 0) {
+        const amount = draw.fromWallet;
+        const walletAfter = Number((walletBefore - amount).toFixed(2));
+        await tx.update(customers)
+          .set({ walletBalance: walletAfter.toFixed(2), updatedAt: new Date() })
+          .where(eq(customers.id, customerId));
+
+        const paymentNumber = await sequenceService.next(tx, businessId, 'PAYMENT');
+        const [payment] = await tx.insert(payments).values({
+          businessId,
+          customerId,
+          paymentNumber,
+          paymentDate: new Date(),
+          amount: amount.toFixed(2),
+          method: 'WALLET',
+          status: 'COMPLETED',
+          allocatedAmount: '0',
+          unallocatedAmount: amount.toFixed(2),
+          notes,
+          createdBy: userId,
+        }).returning();
+
+        if (!payment) throw new Error('Failed to create payment record');
+
+        current = await this.allocate(tx, payment, current, amount);
+
+        await tx.insert(walletTransactions).values({
+          businessId,
+          customerId,
+          transactionType: 'USED_IN_BILL',
+          amount: amount.toFixed(2),
+          balanceBefore: walletBefore.toFixed(2),
+          balanceAfter: walletAfter.toFixed(2),
+          billId: bill.id,
+          paymentId: payment.id,
+          description: `Paid towards bill ${bill.billNumber}`,
+          performedBy: userId,
+        });
+
+        await auditService.logPaymentAction('CREATE', businessId, userId, payment.id, undefined, payment, req);
+        applied.push({ source: 'WALLET', paymentId: payment.id, paymentNumber: payment.paymentNumber, amount: amount.toFixed(2) });
+      }
+
+      const remaining = draw.remaining;
+
+      if (applied.length === 0) {
+        throw new Error('No credit available for this customer');
+      }
+      if (input.amount !== undefined && remaining > 0) {
+        throw new Error(`Available credit covers only ${(target - remaining).toFixed(2)} of ${target.toFixed(2)}`);
+      }
+
+      const amountApplied = Number((target - remaining).toFixed(2));
+      await customerBalanceService.refreshOutstandingBalance(tx, businessId, customerId);
+
+      await tx.insert(billHistory).values({
+        billId: bill.id,
+        action: 'CREDIT_APPLIED',
+        performedBy: userId,
+        oldStatus: bill.status,
+        newStatus: current.status,
+        notes,
+        description: `${amountApplied.toFixed(2)} of customer credit applied; balance now ${current.balanceAmount}`,
+        ipAddress: req?.ip,
+        userAgent: req?.get('User-Agent'),
+        metadata: { applied },
+      });
+
+      await auditService.logBillAction('PAY', businessId, userId, bill.id, { balance }, { balance: parseFloat(current.balanceAmount), credit: applied }, notes, req);
+      logger.info('Customer credit applied', { billId, customerId, amountApplied, sources: applied.length });
+
+      return {
+        bill: current,
+        applied,
+        amountApplied: amountApplied.toFixed(2),
+        newBalance: current.balanceAmount,
+      };
+    });
+
+    try {
+      await salesSummaryService.refreshDay(db, businessId, new Date());
+    } catch (error) {
+      logger.error('Error refreshing daily sales summary', { error, businessId, billId });
+    }
+
+    return result;
+  }
+
+  /**
+   * What a newly finalized bill does with its customer's credit, as the business has set it up:
+   * AUTO applies it, PROMPT hands it back so the till can offer it, NEVER leaves it alone
+   */
+  async onBillFinalized(businessId: string, userId: string, bill: Bill, req?: AuthenticatedRequest): Promise<CreditOffer | null> {
+    if (!bill.customerId || parseFloat(bill.balanceAmount) <= 0) return null;
+
+    const [business] = await db
+      .select({ creditApplication: retailBusinesses.creditApplication })
+      .from(retailBusinesses)
+      .where(eq(retailBusinesses.id, businessId))
+      .limit(1);
+
+    const mode = business?.creditApplication ?? 'PROMPT';
+    if (mode === 'NEVER') return null;
+
+    const availableCredit = await this.getAvailableCredit(db, businessId, bill.customerId);
+    if (parseFloat(availableCredit.totalAvailable) <= 0) return null;
+
+    if (mode === 'PROMPT') {
+      return { mode, availableCredit, application: null };
+    }
+
+    const application = await this.applyCredit(businessId, userId, bill.id, { useWallet: true }, req);
+    return { mode, availableCredit, application };
+  }
+}
@@ -1,6 +1,6 @@
 import { db } from '../config/database';
-import { customers, payments, bills, paymentMethodEnum, billingStatusEnum } from '../models/drizzle/schema';
-import { eq, and, sql, desc, sum, count, gte, lte, SQL } from 'drizzle-orm';
+import { customers, payments, bills, priceLists, moneyTransactions, paymentMethodEnum, billingStatusEnum } from '../models/drizzle/schema';
+import { eq, and, sql, desc, sum, count, gte, lte, inArray, isNotNull, SQL } from 'drizzle-orm';
 import { 
   CreateCustomerInput, 
   UpdateCustomerInput, 
@@ -11,14 +11,32 @@ import {
 import { logger } from '../utils/logger';
 import { sendWelcomeMessage } from '../utils/notifications';
 import { AuditService } from './audit.service';
+import { SequenceService } from './sequence.service';
+import { CustomerBalanceService } from './customer-balance.service';
+import { CustomerCreditService, AvailableCredit } from './customer-credit.service';
 import { AuthenticatedRequest } from '../types/common';
 
 const auditService = new AuditService();
+const sequenceService = new SequenceService();
+const customerCreditService = new CustomerCreditService();
+const customerBalanceService = new CustomerBalanceService();
 
 type PaymentMethod = typeof paymentMethodEnum.enumValues[number];
 type BillingStatus = typeof billingStatusEnum.enumValues[number];
 
 export class CustomerService {
+  private async assertPriceList(businessId: string, priceListId: string): Promise<void> {
+    const [priceList] = await db
+      .select({ id: priceLists.id })
+      .from(priceLists)
+      .where(and(eq(priceLists.id, priceListId), eq(priceLists.businessId, businessId)))
+      .limit(1);
+
+    if (!priceList) {
+      throw new Error('Price list not found');
+    }
+  }
+
   async createCustomer(businessId: string, userId: string, input: CreateCustomerInput, req?: AuthenticatedRequest): Promise<typeof customers.$inferSelect> {
     const {
       customerCode,
@@ -32,51 +50,62 @@ export class CustomerService {
       creditLimit,
       creditDays,
       isCreditAllowed,
+      priceListId,
       notes,
       tags,
     } = input;
 
-    // Generate customer code if not provided
-    const finalCustomerCode = customerCode || await this.generateCustomerCode(businessId);
+    if (priceListId) {
+      await this.assertPriceList(businessId, priceListId);
+    }
 
-    // Check if customer code already exists
-    const existingCustomer = await db
-      .select()
-      .from(customers)
-      .where(and(
-        eq(customers.businessId, businessId),
-        eq(customers.customerCode, finalCustomerCode)
-      ))
-      .limit(1);
+    // Allocate the code and insert in one transaction so the sequence row stays locked until the customer is committed
+    const { customer, finalCustomerCode } = await db.transaction(async (tx) => {
+      // Generate customer code if not provided
+      const finalCustomerCode = customerCode || await sequenceService.next(tx, businessId, 'CUSTOMER');
 
-    if (existingCustomer.length > 0) {
-      throw new Error('Customer with this code already exists');
-    }
+      // Check if customer code already exists
+      const existingCustomer = await tx
+        .select()
+        .from(customers)
+        .where(and(
+          eq(customers.businessId, businessId),
+          eq(customers.customerCode, finalCustomerCode)
+        ))
+        .limit(1);
 
-    // Create customer
-    const [customer] = await db
-      .insert(customers)
-      .values({
-        businessId,
-        customerCode: finalCustomerCode,
-        firstName,
-        lastName,
-        email,
-        phone,
-        alternatePhone,
-        billingAddress,
-        shippingAddress,
-        creditLimit: creditLimit?.toString() || '0',
-        creditDays: creditDays || 0,
-        isCreditAllowed: isCreditAllowed || false,
-        outstandingBalance: '0',
-        totalPurchases: '0',
-        totalPayments: '0',
-        notes,
-        tags: tags || [],
-        isActive: true,
-      })
-      .returning();
+      if (existingCustomer.length > 0) {
+        throw new Error('Customer with this code already exists');
+      }
+
+      // Create customer
+      const [created] = await tx
+        .insert(customers)
+        .values({
+          businessId,
+          customerCode: finalCustomerCode,
+          firstName,
+          lastName,
+          email,
+          phone,
+          alternatePhone,
+          billingAddress,
+          shippingAddress,
+          creditLimit: creditLimit?.toString() || '0',
+          creditDays: creditDays || 0,
+          isCreditAllowed: isCreditAllowed || false,
+          priceListId,
+          outstandingBalance: '0',
+          totalPurchases: '0',
+          totalPayments: '0',
+          notes,
+          tags: tags || [],
+          isActive: true,
+        })
+        .returning();
+
+      return { customer: created, finalCustomerCode };
+    });
 
     if (!customer) {
       throw new Error('Failed to create customer');
@@ -134,6 +163,7 @@ export class CustomerService {
       creditLimit?: string;
       creditDays?: number;
       isCreditAllowed?: boolean;
+      priceListId?: string | null;
       notes?: string;
       tags?: string[];
       isActive?: boolean;
@@ -150,6 +180,10 @@ export class CustomerService {
     if (input.creditLimit !== undefined) updateData.creditLimit = input.creditLimit.toString();
     if (input.creditDays !== undefined) updateData.creditDays = input.creditDays;
     if (input.isCreditAllowed !== undefined) updateData.isCreditAllowed = input.isCreditAllowed;
+    if (input.priceListId !== undefined) {
+      if (input.priceListId) await this.assertPriceList(businessId, input.priceListId);
+      updateData.priceListId = input.priceListId;
+    }
     if (input.notes !== undefined) updateData.notes = input.notes;
     if (input.tags !== undefined) updateData.tags = input.tags;
     if (input.isActive !== undefined) updateData.isActive = input.isActive;
@@ -330,44 +364,50 @@ export class CustomerService {
       throw new Error('Customer not found');
     }
 
-    // Generate payment number
-    const paymentNumber = `CUST-PAY-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-
-    // Create payment
-    const [payment] = await db
-      .insert(payments)
-      .values({
-        businessId,
-        customerId,
-        // billId removed as it does not exist in payments table
-        paymentNumber,
-        paymentDate: new Date(),
-        amount: String(amount),
-        method: method as PaymentMethod,
-        status: 'COMPLETED',
-        referenceNumber,
-        notes,
-        createdBy: userId,
-      })
-      .returning();
+    const payment = await db.transaction(async (tx) => {
+      const paymentNumber = await sequenceService.next(tx, businessId, 'PAYMENT');
+
+      // Recorded as an advance; whatever the listed bills do not take stays available as credit
+      const [created] = await tx
+        .insert(payments)
+        .values({
+          businessId,
+          customerId,
+          paymentNumber,
+          paymentDate: new Date(),
+          amount: String(amount),
+          method: method as PaymentMethod,
+          // Cheques settle only once they clear
+          status: method === 'CHEQUE' ? 'PROCESSING' : 'COMPLETED',
+          allocatedAmount: '0',
+          unallocatedAmount: amount.toFixed(2),
+          referenceNumber,
+          chequeNumber: input.chequeNumber,
+          chequeDate: input.chequeDate ? new Date(input.chequeDate) : undefined,
+          bankName: input.bankName,
+          chequeStatus: method === 'CHEQUE' ? 'RECEIVED' : undefined,
+          notes,
+          createdBy: userId,
+        })
+        .returning();
+
+      if (!created) {
+        throw new Error('Failed to create payment');
+      }
 
-    if (!payment) {
-      throw new Error('Failed to create payment');
-    }
+      await tx
+        .update(customers)
+        .set({
+          totalPayments: sql`${customers.totalPayments} + ${amount}`,
+        })
+        .where(eq(customers.id, customerId));
 
-    // Update customer balance
-    await db
-      .update(customers)
-      .set({
-        outstandingBalance: sql`${customers.outstandingBalance} - ${amount}`,
-        totalPayments: sql`${customers.totalPayments} + ${amount}`,
-      })
-      .where(eq(customers.id, customerId));
+      // Allocate to the listed bills in order, each up to its balance
+      let remaining = amount;
+      for (const billId of billIds || []) {
+        if (remaining <= 0) break;
 
-    // Update bills if billIds are provided
-    if (billIds && billIds.length > 0) {
-      for (const billId of billIds) {
-        const [bill] = await db
+        const [bill] = await tx
           .select()
           .from(bills)
           .where(and(
@@ -375,37 +415,33 @@ export class CustomerService {
             eq(bills.customerId, customerId),
             eq(bills.businessId, businessId)
           ))
-          .limit(1);
-
-        if (bill) {
-          const newPaidAmount = Number(bill.paidAmount) + amount;
-          const newBalanceAmount = Number(bill.totalAmount) - newPaidAmount;
-          let newStatus: BillingStatus = bill.status as BillingStatus;
-
-          if (newBalanceAmount <= 0) {
-            newStatus = 'PAID' as BillingStatus;
-          } else if (newPaidAmount > 0) {
-            newStatus = 'PARTIAL' as BillingStatus;
-          }
-
-          await db
-            .update(bills)
-            .set({
-              paidAmount: newPaidAmount.toString(),
-              balanceAmount: newBalanceAmount.toString(),
-              status: newStatus,
-            })
-            .where(eq(bills.id, billId));
-        }
+          .for('update');
+
+        if (!bill || ['DRAFT', 'VOID', 'CANCELLED'].includes(bill.status)) continue;
+
+        const allocation = Number(Math.min(remaining, parseFloat(bill.balanceAmount)).toFixed(2));
+        if (allocation <= 0) continue;
+
+        await customerCreditService.allocate(tx, created, bill, allocation);
+        remaining = Number((remaining - allocation).toFixed(2));
       }
-    }
+
+      await customerBalanceService.refreshOutstandingBalance(tx, businessId, customerId);
+
+      const [updated] = await tx.select().from(payments).where(eq(payments.id, created.id));
+      return updated ?? created;
+    });
 
     logger.info('Customer payment added', { paymentId: payment.id, customerId, amount });
 
     return payment;
   }
 
-  async getCustomerStatement(businessId: string, customerId: string, input: CustomerStatementInput): Promise<{ customer: typeof customers.$inferSelect; openingBalance: number; transactions: unknown[]; closingBalance: number; period: { startDate: Date | null; endDate: Date | null } }> {
+  async getAvailableCredit(businessId: string, customerId: string): Promise<AvailableCredit> {
+    return customerCreditService.getAvailableCredit(db, businessId, customerId);
+  }
+
+  async getCustomerStatement(businessId: string, customerId: string, input: CustomerStatementInput): Promise<{ customer: typeof customers.$inferSelect; openingBalance: number; transactions: unknown[]; closingBalance: number; availableCredit: AvailableCredit; period: { startDate: Date | null; endDate: Date | null } }> {
     const { startDate, endDate } = input;
 
     // Get customer details
@@ -451,6 +487,49 @@ export class CustomerService {
       .where(and(...paymentConditions))
       .orderBy(payments.paymentDate);
 
+    // Get refunds paid back to the customer and debit notes raised on them
+    const refundConditions: SQL[] = [
+      eq(moneyTransactions.customerId, customerId),
+      eq(moneyTransactions.businessId, businessId),
+      inArray(moneyTransactions.transactionType, ['REFUND', 'DEBIT_NOTE']),
+      eq(moneyTransactions.status, 'COMPLETED')
+    ];
+
+    if (startDate) {
+      refundConditions.push(gte(moneyTransactions.transactionDate, new Date(startDate)));
+    }
+
+    if (endDate) {
+      refundConditions.push(lte(moneyTransactions.transactionDate, new Date(endDate)));
+    }
+
+    const customerRefunds = await db
+      .select()
+      .from(moneyTransactions)
+      .where(and(...refundConditions))
+      .orderBy(moneyTransactions.transactionDate);
+
+    // Get bounced cheques, which take back the payment they recorded
+    const bounceConditions: SQL[] = [
+      eq(payments.customerId, customerId),
+      eq(payments.businessId, businessId),
+      isNotNull(payments.chequeBouncedAt)
+    ];
+
+    if (startDate) {
+      bounceConditions.push(gte(payments.chequeBouncedAt, new Date(startDate)));
+    }
+
+    if (endDate) {
+      bounceConditions.push(lte(payments.chequeBouncedAt, new Date(endDate)));
+    }
+
+    const bouncedCheques = await db
+      .select()
+      .from(payments)
+      .where(and(...bounceConditions))
+      .orderBy(payments.chequeBouncedAt);
+
     // Calculate opening balance
     let openingBalance = 0;
     if (startDate) {
@@ -472,7 +551,27 @@ export class CustomerService {
           sql`${payments.paymentDate} < ${new Date(startDate)}`
         ));
 
-      openingBalance = Number(openingBills?.total || 0) - Number(openingPayments?.total || 0);
+      const [openingRefunds] = await db
+        .select({ total: sum(moneyTransactions.amount) })
+        .from(moneyTransactions)
+        .where(and(
+          eq(moneyTransactions.customerId, customerId),
+          eq(moneyTransactions.businessId, businessId),
+          inArray(moneyTransactions.transactionType, ['REFUND', 'DEBIT_NOTE']),
+          eq(moneyTransactions.status, 'COMPLETED'),
+          sql`${moneyTransactions.transactionDate} < ${new Date(startDate)}`
+        ));
+
+      const [openingBounces] = await db
+        .select({ total: sum(payments.amount) })
+        .from(payments)
+        .where(and(
+          eq(payments.customerId, customerId),
+          eq(payments.businessId, businessId),
+          sql`${payments.chequeBouncedAt} < ${new Date(startDate)}`
+        ));
+
+      openingBalance = Number(openingBills?.total || 0) - Number(openingPayments?.total || 0) + Number(openingRefunds?.total || 0) + Number(openingBounces?.total || 0);
     }
 
     // Combine and sort transactions
@@ -493,6 +592,22 @@ export class CustomerService {
         credit: Number(payment.amount),
         balance: 0, // Will be calculated
       })),
+      ...customerRefunds.map(entry => ({
+        date: entry.transactionDate,
+        type: entry.transactionType === 'DEBIT_NOTE' ? 'DEBIT_NOTE' as const : 'REFUND' as const,
+        description: entry.description || (entry.transactionType === 'DEBIT_NOTE' ? 'Debit note' : 'Refund'),
+        debit: Number(entry.amount),
+        credit: 0,
+        balance: 0, // Will be calculated
+      })),
+      ...bouncedCheques.map(cheque => ({
+        date: cheque.chequeBouncedAt ?? cheque.paymentDate,
+        type: 'CHEQUE_BOUNCED' as const,
+        description: `Cheque ${cheque.chequeNumber || cheque.paymentNumber} bounced${cheque.chequeBounceReason ? `: ${cheque.chequeBounceReason}` : ''}`,
+        debit: Number(cheque.amount),
+        credit: 0,
+        balance: 0, // Will be calculated
+      })),
     ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
     // Calculate running balance
@@ -502,11 +617,15 @@ export class CustomerService {
       transaction.balance = runningBalance;
     }
 
+    // Credit as it stands today, whatever period the statement covers
+    const availableCredit = await customerCreditService.getAvailableCredit(db, businessId, customerId);
+
     return {
       customer,
       openingBalance,
       transactions,
       closingBalance: runningBalance,
+      availableCredit,
       period: {
         startDate: startDate ? new Date(startDate) : null,
         endDate: endDate ? new Date(endDate) : null,
@@ -623,24 +742,4 @@ export class CustomerService {
       pendingBillCount: pendingBills?.count || 0,
     };
   }
-
-  private async generateCustomerCode(businessId: string): Promise<string> {
-    const [lastCustomer] = await db
-      .select({ customerCode: customers.customerCode })
-      .from(customers)
-      .where(eq(customers.businessId, businessId))
-      .orderBy(sql`${customers.customerCode} DESC`)
-      .limit(1);
-
-    let nextNumber = 1;
-    
-    if (lastCustomer) {
-      const lastNumber = parseInt(lastCustomer.customerCode.replace(/[^0-9]/g, ''));
-      if (!isNaN(lastNumber)) {
-        nextNumber = lastNumber + 1;
-      }
-    }
-
-    return `CUST-${nextNumber.toString().padStart(4, '0')}`;
-  }
 }
\ No newline at end of file
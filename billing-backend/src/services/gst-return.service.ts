@@ -0,0 +1,697 @@
+import { db } from '../config/database';
+import {
+  bills,
+  billItems,
+  customers,
+  creditNotes,
+  creditNoteItems,
+  retailBusinesses,
+} from '../models/drizzle/schema';
+import { and, eq, gte, lt, ne, inArray } from 'drizzle-orm';
+import { format } from 'date-fns';
+import { logger } from '../utils/logger';
+import { GST_STATE_CODES, getStateCodeFromAddress, getStateCodeFromGstin, isValidGstin } from '../utils/gst';
+import { Sheet } from '../utils/spreadsheet';
+
+// Unregistered inter-state invoices above this value are reported invoice-wise in B2CL (Notification 12/2024-CT)
+const B2CL_THRESHOLD = 100000;
+const OFFLINE_TOOL_VERSION = 'GST3.0.4';
+
+// Unit Quantity Codes expected in the HSN summary
+const UQC_BY_UNIT: Record<string, string> = {
+  KG: 'KGS',
+  GRAM: 'GMS',
+  LITER: 'LTR',
+  MILLILITER: 'MLT',
+  PIECE: 'PCS',
+  DOZEN: 'DOZ',
+  METER: 'MTR',
+  BOX: 'BOX',
+  BUNDLE: 'BDL',
+  YARD: 'YDS',
+  TON: 'TON',
+  QUINTAL: 'QTL',
+  HOUR: 'NA',
+  DAY: 'NA',
+  SERVICE: 'NA',
+  NOT_APPLICABLE: 'NA',
+};
+
+type Bill = typeof bills.$inferSelect;
+type BillItem = typeof billItems.$inferSelect;
+
+export type GstReturnWarningCode =
+  | 'MISSING_BUSINESS_GSTIN'
+  | 'INVALID_CUSTOMER_GSTIN'
+  | 'MISSING_HSN'
+  | 'MISSING_PLACE_OF_SUPPLY'
+  | 'ITC_NOT_TRACKED';
+
+export interface GstReturnWarning {
+  code: GstReturnWarningCode;
+  message: string;
+  reference?: string;
+}
+
+interface TaxAmounts {
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+interface RatedAmounts extends TaxAmounts {
+  rt: number;
+}
+
+interface ItemDetail {
+  num: number;
+  itm_det: RatedAmounts;
+}
+
+interface Gstr1Invoice {
+  inum: string;
+  idt: string;
+  val: number;
+  pos: string;
+  rchrg: 'N';
+  inv_typ: 'R';
+  itms: ItemDetail[];
+}
+
+interface Gstr1Note {
+  ntty: 'C';
+  nt_num: string;
+  nt_dt: string;
+  val: number;
+  pos: string;
+  rchrg: 'N';
+  inv_typ: 'R';
+  itms: ItemDetail[];
+}
+
+interface Gstr1B2cs extends RatedAmounts {
+  sply_ty: 'INTRA' | 'INTER';
+  pos: string;
+  typ: 'OE';
+}
+
+interface Gstr1Hsn extends RatedAmounts {
+  num: number;
+  hsn_sc: string;
+  desc: string;
+  uqc: string;
+  qty: number;
+  val: number;
+}
+
+interface Gstr1DocSeries {
+  num: number;
+  from: string;
+  to: string;
+  totnum: number;
+  cancel: number;
+  net_issue: number;
+}
+
+export interface Gstr1Return {
+  gstin: string;
+  fp: string;
+  version: string;
+  hash: string;
+  b2b: Array<{ ctin: string; inv: Gstr1Invoice[] }>;
+  b2cl: Array<{ pos: string; inv: Array<Omit<Gstr1Invoice, 'pos' | 'rchrg' | 'inv_typ'>> }>;
+  b2cs: Gstr1B2cs[];
+  cdnr: Array<{ ctin: string; nt: Gstr1Note[] }>;
+  cdnur: Array<{ typ: 'B2CL'; ntty: 'C'; nt_num: string; nt_dt: string; val: number; pos: string; itms: ItemDetail[] }>;
+  hsn: { data: Gstr1Hsn[] };
+  doc_issue: { doc_det: Array<{ doc_num: number; doc_typ: string; docs: Gstr1DocSeries[] }> };
+}
+
+export interface Gstr3bReturn {
+  gstin: string;
+  ret_period: string;
+  sup_details: {
+    osup_det: TaxAmounts;
+    osup_zero: Pick<TaxAmounts, 'txval' | 'iamt' | 'csamt'>;
+    osup_nil_exmp: Pick<TaxAmounts, 'txval'>;
+    isup_rev: TaxAmounts;
+    osup_nongst: Pick<TaxAmounts, 'txval'>;
+  };
+  inter_sup: {
+    unreg_details: Array<{ pos: string; txval: number; iamt: number }>;
+    comp_details: Array<{ pos: string; txval: number; iamt: number }>;
+    uin_details: Array<{ pos: string; txval: number; iamt: number }>;
+  };
+  itc_elg: {
+    itc_avl: Array<{ ty: string } & Omit<TaxAmounts, 'txval'>>;
+    itc_rev: Array<{ ty: string } & Omit<TaxAmounts, 'txval'>>;
+    itc_net: Omit<TaxAmounts, 'txval'>;
+    itc_inelg: Array<{ ty: string } & Omit<TaxAmounts, 'txval'>>;
+  };
+}
+
+interface InvoiceRow {
+  bill: Bill;
+  ctin: string | null; // Valid customer GSTIN, null for unregistered buyers
+  pos: string;
+  items: BillItem[];
+}
+
+interface NoteRow {
+  note: typeof creditNotes.$inferSelect;
+  bill: Bill;
+  ctin: string | null;
+  pos: string;
+  amounts: RatedAmounts[];
+}
+
+interface PeriodData {
+  gstin: string;
+  invoices: InvoiceRow[];
+  cancelledInvoices: Bill[];
+  notes: NoteRow[];
+  cancelledNotes: number;
+  warnings: GstReturnWarning[];
+}
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function num(value: string | null | undefined): number {
+  return parseFloat(value || '0');
+}
+
+function emptyAmounts(): TaxAmounts {
+  return { txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 };
+}
+
+function addAmounts(target: TaxAmounts, source: TaxAmounts, sign: number = 1): void {
+  target.txval = round2(target.txval + sign * source.txval);
+  target.iamt = round2(target.iamt + sign * source.iamt);
+  target.camt = round2(target.camt + sign * source.camt);
+  target.samt = round2(target.samt + sign * source.samt);
+  target.csamt = round2(target.csamt + sign * source.csamt);
+}
+
+function formatReturnDate(date: Date): string {
+  return format(date, 'dd-MM-yyyy');
+}
+
+function formatPlaceOfSupply(pos: string): string {
+  return `${pos}-${GST_STATE_CODES[pos] || ''}`;
+}
+
+export class GstReturnService {
+
+  // Return period in the portal's MMYYYY form
+  private getPeriodRange(period: string): { start: Date; end: Date } {
+    const month = parseInt(period.slice(0, 2), 10);
+    const year = parseInt(period.slice(2), 10);
+    if (!month || month > 12 || !year) throw new Error('Return period must be in MMYYYY format');
+    return { start: new Date(year, month - 1, 1), end: new Date(year, month, 1) };
+  }
+
+  // Component split for a stored line; bills priced before the GST split only carry a combined taxAmount
+  private itemAmounts(item: Pick<BillItem, 'taxPercent' | 'taxAmount' | 'subtotal' | 'cgstAmount' | 'sgstAmount' | 'igstAmount' | 'cessAmount'>, supplyType: string): RatedAmounts {
+    const amounts: RatedAmounts = {
+      rt: num(item.taxPercent),
+      txval: num(item.subtotal),
+      iamt: num(item.igstAmount),
+      camt: num(item.cgstAmount),
+      samt: num(item.sgstAmount),
+      csamt: num(item.cessAmount),
+    };
+
+    const tax = num(item.taxAmount);
+    if (amounts.iamt + amounts.camt + amounts.samt + amounts.csamt === 0 && tax > 0) {
+      if (supplyType === 'INTER_STATE') {
+        amounts.iamt = tax;
+      } else {
+        amounts.camt = round2(tax / 2);
+        amounts.samt = round2(tax - amounts.camt);
+      }
+    }
+
+    return amounts;
+  }
+
+  // Group line amounts by rate, as the return reports one row per rate per document
+  private groupByRate(lines: RatedAmounts[]): ItemDetail[] {
+    const byRate = new Map<number, RatedAmounts>();
+    for (const line of lines) {
+      const existing = byRate.get(line.rt);
+      if (existing) {
+        addAmounts(existing, line);
+      } else {
+        byRate.set(line.rt, { ...line });
+      }
+    }
+    return [...byRate.values()]
+      .sort((a, b) => a.rt - b.rt)
+      .map((itm_det, index) => ({ num: index + 1, itm_det }));
+  }
+
+  private async loadPeriod(businessId: string, period: string): Promise<PeriodData> {
+    const { start, end } = this.getPeriodRange(period);
+    const warnings: GstReturnWarning[] = [];
+
+    const [business] = await db.select().from(retailBusinesses).where(eq(retailBusinesses.id, businessId)).limit(1);
+    if (!business) throw new Error('Business not found');
+
+    const gstin = business.gstNumber?.trim().toUpperCase() || '';
+    if (!isValidGstin(gstin)) {
+      warnings.push({ code: 'MISSING_BUSINESS_GSTIN', message: gstin ? `Business GSTIN ${gstin} is not valid` : 'Business has no GSTIN configured' });
+    }
+    const supplierState = getStateCodeFromGstin(gstin) || getStateCodeFromAddress(business.address);
+
+    const billRows = await db
+      .select({ bill: bills, customerGstin: customers.gstNumber })
+      .from(bills)
+      .leftJoin(customers, eq(bills.customerId, customers.id))
+      .where(and(
+        eq(bills.businessId, businessId),
+        gte(bills.billDate, start),
+        lt(bills.billDate, end),
+        ne(bills.status, 'DRAFT')
+      ));
+
+    const issued = billRows.filter(row => row.bill.status !== 'VOID' && row.bill.status !== 'CANCELLED');
+    const cancelledInvoices = billRows.filter(row => row.bill.status === 'VOID' || row.bill.status === 'CANCELLED').map(row => row.bill);
+
+    const items = issued.length > 0
+      ? await db.select().from(billItems).where(inArray(billItems.billId, issued.map(row => row.bill.id)))
+      : [];
+
+    const invoices: InvoiceRow[] = issued.map(row => {
+      const billItemsForBill = items.filter(item => item.billId === row.bill.id);
+
+      let ctin: string | null = null;
+      if (row.customerGstin) {
+        if (isValidGstin(row.customerGstin)) {
+          ctin = row.customerGstin.trim().toUpperCase();
+        } else {
+          warnings.push({
+            code: 'INVALID_CUSTOMER_GSTIN',
+            message: `Customer GSTIN ${row.customerGstin} is not valid; invoice reported as B2C`,
+            reference: row.bill.billNumber,
+          });
+        }
+      }
+
+      const pos = row.bill.placeOfSupply || supplierState;
+      if (!pos) {
+        warnings.push({ code: 'MISSING_PLACE_OF_SUPPLY', message: 'Place of supply could not be determined', reference: row.bill.billNumber });
+      }
+
+      for (const item of billItemsForBill) {
+        if (!item.hsnCode && !item.sacCode) {
+          warnings.push({ code: 'MISSING_HSN', message: `No HSN/SAC code for ${item.productName}`, reference: row.bill.billNumber });
+        }
+      }
+
+      return {
+        bill: row.bill,
+        ctin,
+        pos: pos || '',
+        items: billItemsForBill,
+      };
+    });
+
+    const noteRows = await db
+      .select({ note: creditNotes, bill: bills, customerGstin: customers.gstNumber })
+      .from(creditNotes)
+      .innerJoin(bills, eq(creditNotes.billId, bills.id))
+      .leftJoin(customers, eq(bills.customerId, customers.id))
+      .where(and(
+        eq(creditNotes.businessId, businessId),
+        gte(creditNotes.creditNoteDate, start),
+        lt(creditNotes.creditNoteDate, end)
+      ));
+
+    const issuedNotes = noteRows.filter(row => row.note.status === 'ISSUED');
+    const noteItems = issuedNotes.length > 0
+      ? await db
+          .select({ noteItem: creditNoteItems, billItem: billItems })
+          .from(creditNoteItems)
+          .leftJoin(billItems, eq(creditNoteItems.billItemId, billItems.id))
+          .where(inArray(creditNoteItems.creditNoteId, issuedNotes.map(row => row.note.id)))
+      : [];
+
+    const notes: NoteRow[] = issuedNotes.map(row => {
+      const amounts = noteItems
+        .filter(({ noteItem }) => noteItem.creditNoteId === row.note.id)
+        .map(({ noteItem, billItem }) => {
+          // Returned lines take the original line's split in proportion to the value returned
+          if (billItem && num(billItem.subtotal) > 0) {
+            const original = this.itemAmounts(billItem, row.bill.supplyType);
+            const ratio = num(noteItem.subtotal) / num(billItem.subtotal);
+            return {
+              rt: original.rt,
+              txval: num(noteItem.subtotal),
+              iamt: round2(original.iamt * ratio),
+              camt: round2(original.camt * ratio),
+              samt: round2(original.samt * ratio),
+              csamt: round2(original.csamt * ratio),
+            };
+          }
+          return this.itemAmounts({ ...noteItem, cgstAmount: null, sgstAmount: null, igstAmount: null, cessAmount: null }, row.bill.supplyType);
+        });
+
+      return {
+        note: row.note,
+        bill: row.bill,
+        ctin: row.customerGstin && isValidGstin(row.customerGstin) ? row.customerGstin.trim().toUpperCase() : null,
+        pos: row.bill.placeOfSupply || supplierState || '',
+        amounts,
+      };
+    });
+
+    return {
+      gstin,
+      invoices,
+      cancelledInvoices,
+      notes,
+      cancelledNotes: noteRows.length - issuedNotes.length,
+      warnings,
+    };
+  }
+
+  private isB2cl(row: { ctin: string | null; bill: Bill }): boolean {
+    return !row.ctin && row.bill.supplyType === 'INTER_STATE' && num(row.bill.totalAmount) > B2CL_THRESHOLD;
+  }
+
+  private documentSeries(numbers: string[], cancelled: number): Gstr1DocSeries[] {
+    if (numbers.length === 0) return [];
+    const sorted = [...numbers].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    return [{
+      num: 1,
+      from: sorted[0] || '',
+      to: sorted[sorted.length - 1] || '',
+      totnum: numbers.length,
+      cancel: cancelled,
+      net_issue: numbers.length - cancelled,
+    }];
+  }
+
+  async getGstr1(businessId: string, period: string): Promise<{ return: Gstr1Return; warnings: GstReturnWarning[] }> {
+    const data = await this.loadPeriod(businessId, period);
+
+    const b2b = new Map<string, Gstr1Invoice[]>();
+    const b2cl = new Map<string, Array<Omit<Gstr1Invoice, 'pos' | 'rchrg' | 'inv_typ'>>>();
+    const b2cs = new Map<string, Gstr1B2cs>();
+    const hsn = new Map<string, Gstr1Hsn>();
+
+    const addB2cs = (supplyType: string, pos: string, line: RatedAmounts, sign: number): void => {
+      const sply_ty = supplyType === 'INTER_STATE' ? 'INTER' : 'INTRA';
+      const key = `${sply_ty}|${pos}|${line.rt}`;
+      const existing = b2cs.get(key);
+      if (existing) {
+        addAmounts(existing, line, sign);
+      } else {
+        const entry: Gstr1B2cs = { sply_ty, pos, typ: 'OE', rt: line.rt, ...emptyAmounts() };
+        addAmounts(entry, line, sign);
+        b2cs.set(key, entry);
+      }
+    };
+
+    for (const invoice of data.invoices) {
+      const lines = invoice.items.map(item => this.itemAmounts(item, invoice.bill.supplyType));
+
+      if (invoice.ctin) {
+        const entry: Gstr1Invoice = {
+          inum: invoice.bill.billNumber,
+          idt: formatReturnDate(invoice.bill.billDate),
+          val: num(invoice.bill.totalAmount),
+          pos: invoice.pos,
+          rchrg: 'N',
+          inv_typ: 'R',
+          itms: this.groupByRate(lines),
+        };
+        b2b.set(invoice.ctin, [...(b2b.get(invoice.ctin) || []), entry]);
+      } else if (this.isB2cl(invoice)) {
+        const entry = {
+          inum: invoice.bill.billNumber,
+          idt: formatReturnDate(invoice.bill.billDate),
+          val: num(invoice.bill.totalAmount),
+          itms: this.groupByRate(lines),
+        };
+        b2cl.set(invoice.pos, [...(b2cl.get(invoice.pos) || []), entry]);
+      } else {
+        for (const line of lines) addB2cs(invoice.bill.supplyType, invoice.pos, line, 1);
+      }
+
+      invoice.items.forEach((item, index) => {
+        const line = lines[index];
+        if (!line) return;
+        const code = item.hsnCode || item.sacCode || '';
+        const uqc = UQC_BY_UNIT[item.unit] || 'OTH';
+        const key = `${code}|${uqc}|${line.rt}`;
+        const existing = hsn.get(key);
+        const lineValue = round2(line.txval + line.iamt + line.camt + line.samt + line.csamt);
+        if (existing) {
+          addAmounts(existing, line);
+          existing.qty = round2(existing.qty + (uqc === 'NA' ? 0 : num(item.quantity)));
+          existing.val = round2(existing.val + lineValue);
+        } else {
+          hsn.set(key, {
+            num: 0,
+            hsn_sc: code,
+            desc: item.productName.slice(0, 30),
+            uqc,
+            qty: uqc === 'NA' ? 0 : num(item.quantity),
+            val: lineValue,
+            ...line,
+          });
+        }
+      });
+    }
+
+    const cdnr = new Map<string, Gstr1Note[]>();
+    const cdnur: Gstr1Return['cdnur'] = [];
+
+    for (const note of data.notes) {
+      const base = {
+        ntty: 'C' as const,
+        nt_num: note.note.creditNoteNumber,
+        nt_dt: formatReturnDate(note.note.creditNoteDate),
+        val: num(note.note.totalAmount),
+        pos: note.pos,
+        itms: this.groupByRate(note.amounts),
+      };
+
+      if (note.ctin) {
+        cdnr.set(note.ctin, [...(cdnr.get(note.ctin) || []), { ...base, rchrg: 'N', inv_typ: 'R' }]);
+      } else if (this.isB2cl(note)) {
+        cdnur.push({ typ: 'B2CL', ...base });
+      } else {
+        // Credit notes against small B2C invoices are netted off the B2CS figures
+        for (const line of note.amounts) addB2cs(note.bill.supplyType, note.pos, line, -1);
+      }
+    }
+
+    const gstr1: Gstr1Return = {
+      gstin: data.gstin,
+      fp: period,
+      version: OFFLINE_TOOL_VERSION,
+      hash: 'hash',
+      b2b: [...b2b.entries()].map(([ctin, inv]) => ({ ctin, inv })),
+      b2cl: [...b2cl.entries()].map(([pos, inv]) => ({ pos, inv })),
+      b2cs: [...b2cs.values()],
+      cdnr: [...cdnr.entries()].map(([ctin, nt]) => ({ ctin, nt })),
+      cdnur,
+      hsn: { data: [...hsn.values()].map((row, index) => ({ ...row, num: index + 1 })) },
+      doc_issue: {
+        doc_det: [
+          {
+            doc_num: 1,
+            doc_typ: 'Invoices for outward supply',
+            docs: this.documentSeries(
+              [...data.invoices.map(i => i.bill.billNumber), ...data.cancelledInvoices.map(b => b.billNumber)],
+              data.cancelledInvoices.length
+            ),
+          },
+          {
+            doc_num: 5,
+            doc_typ: 'Credit Note',
+            docs: this.documentSeries(
+              data.notes.map(n => n.note.creditNoteNumber),
+              0
+            ).map(series => ({ ...series, totnum: series.totnum + data.cancelledNotes, cancel: data.cancelledNotes })),
+          },
+        ].filter(doc => doc.docs.length > 0),
+      },
+    };
+
+    logger.info('GSTR-1 prepared', { businessId, period, invoices: data.invoices.length, warnings: data.warnings.length });
+
+    return { return: gstr1, warnings: data.warnings };
+  }
+
+  async getGstr3b(businessId: string, period: string): Promise<{ return: Gstr3bReturn; warnings: GstReturnWarning[] }> {
+    const data = await this.loadPeriod(businessId, period);
+
+    const outward = emptyAmounts();
+    const nilRated = emptyAmounts();
+    const unregistered = new Map<string, { pos: string; txval: number; iamt: number }>();
+
+    const addLine = (line: RatedAmounts, registered: boolean, supplyType: string, pos: string, sign: number): void => {
+      if (line.rt > 0 || line.iamt + line.camt + line.samt + line.csamt !== 0) {
+        addAmounts(outward, line, sign);
+      } else {
+        addAmounts(nilRated, line, sign);
+      }
+
+      // Table 3.2: inter-state supplies to unregistered persons, by place of supply
+      if (!registered && supplyType === 'INTER_STATE') {
+        const entry = unregistered.get(pos) || { pos, txval: 0, iamt: 0 };
+        entry.txval = round2(entry.txval + sign * line.txval);
+        entry.iamt = round2(entry.iamt + sign * line.iamt);
+        unregistered.set(pos, entry);
+      }
+    };
+
+    for (const invoice of data.invoices) {
+      for (const item of invoice.items) {
+        addLine(this.itemAmounts(item, invoice.bill.supplyType), !!invoice.ctin, invoice.bill.supplyType, invoice.pos, 1);
+      }
+    }
+    for (const note of data.notes) {
+      for (const line of note.amounts) {
+        addLine(line, !!note.ctin, note.bill.supplyType, note.pos, -1);
+      }
+    }
+
+    const zeroItc = { iamt: 0, camt: 0, samt: 0, csamt: 0 };
+    const warnings: GstReturnWarning[] = [
+      ...data.warnings,
+      { code: 'ITC_NOT_TRACKED', message: 'Input tax credit is not recorded in the system; table 4 is reported as zero and must be filled from GSTR-2B' },
+    ];
+
+    const gstr3b: Gstr3bReturn = {
+      gstin: data.gstin,
+      ret_period: period,
+      sup_details: {
+        osup_det: outward,
+        osup_zero: { txval: 0, iamt: 0, csamt: 0 },
+        osup_nil_exmp: { txval: nilRated.txval },
+        isup_rev: emptyAmounts(),
+        osup_nongst: { txval: 0 },
+      },
+      inter_sup: {
+        unreg_details: [...unregistered.values()].filter(entry => entry.txval !== 0),
+        comp_details: [],
+        uin_details: [],
+      },
+      itc_elg: {
+        itc_avl: ['IMPG', 'IMPS', 'ISRC', 'ISD', 'OTH'].map(ty => ({ ty, ...zeroItc })),
+        itc_rev: ['RUL', 'OTH'].map(ty => ({ ty, ...zeroItc })),
+        itc_net: { ...zeroItc },
+        itc_inelg: ['RUL', 'OTH'].map(ty => ({ ty, ...zeroItc })),
+      },
+    };
+
+    logger.info('GSTR-3B prepared', { businessId, period, warnings: warnings.length });
+
+    return { return: gstr3b, warnings };
+  }
+
+  // Sheets laid out like the offline tool's Excel template, with the tax amounts added for review
+  buildGstr1Sheets(gstr1: Gstr1Return): Sheet[] {
+    const rateColumns = ['Rate', 'Taxable Value', 'Integrated Tax', 'Central Tax', 'State/UT Tax', 'Cess Amount'];
+    const rateCells = (d: RatedAmounts): number[] => [d.rt, d.txval, d.iamt, d.camt, d.samt, d.csamt];
+
+    return [
+      {
+        name: 'b2b',
+        columns: ['GSTIN/UIN of Recipient', 'Invoice Number', 'Invoice date', 'Invoice Value', 'Place Of Supply', 'Reverse Charge', 'Invoice Type', ...rateColumns],
+        rows: gstr1.b2b.flatMap(party => party.inv.flatMap(inv => inv.itms.map(({ itm_det }) => [
+          party.ctin, inv.inum, inv.idt, inv.val, formatPlaceOfSupply(inv.pos), inv.rchrg, 'Regular B2B', ...rateCells(itm_det),
+        ]))),
+      },
+      {
+        name: 'b2cl',
+        columns: ['Invoice Number', 'Invoice date', 'Invoice Value', 'Place Of Supply', ...rateColumns],
+        rows: gstr1.b2cl.flatMap(group => group.inv.flatMap(inv => inv.itms.map(({ itm_det }) => [
+          inv.inum, inv.idt, inv.val, formatPlaceOfSupply(group.pos), ...rateCells(itm_det),
+        ]))),
+      },
+      {
+        name: 'b2cs',
+        columns: ['Type', 'Supply Type', 'Place Of Supply', ...rateColumns],
+        rows: gstr1.b2cs.map(row => ['OE', row.sply_ty, formatPlaceOfSupply(row.pos), ...rateCells(row)]),
+      },
+      {
+        name: 'cdnr',
+        columns: ['GSTIN/UIN of Recipient', 'Note Number', 'Note Date', 'Note Type', 'Place Of Supply', 'Note Value', ...rateColumns],
+        rows: gstr1.cdnr.flatMap(party => party.nt.flatMap(nt => nt.itms.map(({ itm_det }) => [
+          party.ctin, nt.nt_num, nt.nt_dt, nt.ntty, formatPlaceOfSupply(nt.pos), nt.val, ...rateCells(itm_det),
+        ]))),
+      },
+      {
+        name: 'cdnur',
+        columns: ['UR Type', 'Note Number', 'Note Date', 'Note Type', 'Place Of Supply', 'Note Value', ...rateColumns],
+        rows: gstr1.cdnur.flatMap(nt => nt.itms.map(({ itm_det }) => [
+          nt.typ, nt.nt_num, nt.nt_dt, nt.ntty, formatPlaceOfSupply(nt.pos), nt.val, ...rateCells(itm_det),
+        ])),
+      },
+      {
+        name: 'hsn',
+        columns: ['HSN', 'Description', 'UQC', 'Total Quantity', 'Total Value', ...rateColumns],
+        rows: gstr1.hsn.data.map(row => [row.hsn_sc, row.desc, row.uqc, row.qty, row.val, ...rateCells(row)]),
+      },
+      {
+        name: 'docs',
+        columns: ['Nature of Document', 'Sr. No. From', 'Sr. No. To', 'Total Number', 'Cancelled', 'Net Issued'],
+        rows: gstr1.doc_issue.doc_det.flatMap(doc => doc.docs.map(series => [
+          doc.doc_typ, series.from, series.to, series.totnum, series.cancel, series.net_issue,
+        ])),
+      },
+    ];
+  }
+
+  buildGstr3bSheets(gstr3b: Gstr3bReturn): Sheet[] {
+    const { sup_details: sup, inter_sup, itc_elg } = gstr3b;
+    const taxRow = (label: string, amounts: Partial<TaxAmounts>): Array<string | number> => [
+      label, amounts.txval ?? 0, amounts.iamt ?? 0, amounts.camt ?? 0, amounts.samt ?? 0, amounts.csamt ?? 0,
+    ];
+
+    return [
+      {
+        name: '3.1 Outward supplies',
+        columns: ['Nature of Supplies', 'Total Taxable Value', 'Integrated Tax', 'Central Tax', 'State/UT Tax', 'Cess'],
+        rows: [
+          taxRow('(a) Outward taxable supplies (other than zero rated, nil rated and exempted)', sup.osup_det),
+          taxRow('(b) Outward taxable supplies (zero rated)', sup.osup_zero),
+          taxRow('(c) Other outward supplies (nil rated, exempted)', sup.osup_nil_exmp),
+          taxRow('(d) Inward supplies (liable to reverse charge)', sup.isup_rev),
+          taxRow('(e) Non-GST outward supplies', sup.osup_nongst),
+        ],
+      },
+      {
+        name: '3.2 Inter-state supplies',
+        columns: ['Place of Supply', 'Supplies to Unregistered Persons - Taxable Value', 'Integrated Tax'],
+        rows: inter_sup.unreg_details.map(row => [formatPlaceOfSupply(row.pos), row.txval, row.iamt]),
+      },
+      {
+        name: '4 Eligible ITC',
+        columns: ['Details', 'Integrated Tax', 'Central Tax', 'State/UT Tax', 'Cess'],
+        rows: [
+          ...itc_elg.itc_avl.map(row => [`ITC available: ${row.ty}`, row.iamt, row.camt, row.samt, row.csamt]),
+          ...itc_elg.itc_rev.map(row => [`ITC reversed: ${row.ty}`, row.iamt, row.camt, row.samt, row.csamt]),
+          ['Net ITC available', itc_elg.itc_net.iamt, itc_elg.itc_net.camt, itc_elg.itc_net.samt, itc_elg.itc_net.csamt],
+        ],
+      },
+    ];
+  }
+
+  buildWarningSheet(warnings: GstReturnWarning[]): Sheet {
+    return {
+      name: 'warnings',
+      columns: ['Code', 'Reference', 'Message'],
+      rows: warnings.map(w => [w.code, w.reference || '', w.message]),
+    };
+  }
+}
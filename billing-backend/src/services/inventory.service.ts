@@ -0,0 +1,1233 @@
+import { db, DbTransaction } from '../config/database';
+import {
+  products,
+  productVariants,
+  stockMovements,
+  retailBusinesses,
+  inventoryCostLayers,
+  inventoryCostLayerConsumptions,
+  productBatches,
+  stockMovementBatches,
+  productSerials,
+  stockMovementSerials,
+  storeLocations,
+  locationStock,
+} from '../models/drizzle/schema';
+import { eq, and, sql, asc, desc, count, gte, lte, gt, isNull, inArray, SQL } from 'drizzle-orm';
+import { logger } from '../utils/logger';
+import { openingLayerQuantity } from '../utils/stock-ledger';
+import { StockMovementType } from '../types/common';
+
+type Product = typeof products.$inferSelect;
+type ProductVariant = typeof productVariants.$inferSelect;
+type ProductBatch = typeof productBatches.$inferSelect;
+type ProductSerial = typeof productSerials.$inferSelect;
+type StockMovement = typeof stockMovements.$inferSelect;
+type InventoryMethod = typeof retailBusinesses.$inferSelect['inventoryMethod'];
+
+export interface StockMovementInput {
+  businessId: string;
+  productId: string;
+  variantId?: string | null;
+  locationId?: string | null; // Location the stock is taken from or put into; the business's default location when omitted
+  movementType: StockMovementType;
+  quantity: number; // Signed change: positive adds stock, negative removes it
+  unitCost?: number | string | null; // Cost of inward stock; outward stock is costed from the cost layers
+  costLayerId?: string; // Layer to draw first under SPECIFIC identification
+  batchId?: string; // Batch to draw from or receive into; outward stock otherwise goes first-expiry-first-out
+  batch?: { batchNumber: string; manufactureDate?: Date; expiryDate?: Date }; // Batch received by number, created on first receipt
+  serialNumbers?: string[]; // Units moved on a serialised product; returns against a bill line default to the units it sold
+  billId?: string;
+  billItemId?: string;
+  customerId?: string | null; // Buyer of serialised units sold
+  transferMovementId?: string; // Outward transfer movement this inward movement receives; its batches and serials come back in
+  purchaseOrderId?: string;
+  reason?: string;
+  notes?: string;
+  performedBy?: string;
+  movementDate?: Date;
+  metadata?: Record<string, unknown>;
+}
+
+export interface StockDrift {
+  productId: string;
+  productCode: string;
+  productName: string;
+  currentStock: number;
+  ledgerStock: number | null; // Null when the product has no movements at all
+  drift: number;
+  repaired: boolean;
+}
+
+interface LayerDraw {
+  layerId: string;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface BatchDraw {
+  batchId: string;
+  quantity: number;
+  received: boolean; // Counts towards the batch's received quantity (not a return)
+}
+
+interface SerialDraw {
+  existing: ProductSerial[];
+  created: string[]; // Serial numbers seen for the first time
+}
+
+export interface RecordedMovement {
+  movement: StockMovement;
+  product: Product;
+  batches: BatchDraw[];
+}
+
+// Movement types that bring stock in at a new cost and so refresh the product's purchase price
+const COSTED_INBOUND_TYPES: StockMovementType[] = ['PURCHASE', 'PRODUCTION'];
+
+// Write-offs may draw from expired batches; everything else skips them
+const WRITE_OFF_TYPES: StockMovementType[] = ['EXPIRED', 'DAMAGE'];
+
+const STOCK_TOLERANCE = 0.005;
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function drawnCost(draws: LayerDraw[]): number {
+  return draws.reduce((total, draw) => total + draw.quantity * draw.unitCost, 0);
+}
+
+function drawnQuantity(draws: LayerDraw[]): number {
+  return round2(draws.reduce((total, draw) => total + draw.quantity, 0));
+}
+
+// Movement fields needed to rebuild balances from the ledger
+interface LedgerRow {
+  variantId: string | null;
+  locationId: string | null;
+  quantity: string;
+  stockBefore: string;
+  movementDate: Date;
+  metadata: unknown;
+}
+
+/**
+ * Balance per key (variant, or location and variant) as the balance recorded before the key's first movement
+ * plus every movement since. Keys whose first movement did not record a balance are left out rather than guessed.
+ */
+function ledgerBalances(movements: LedgerRow[], keyOf: (movement: LedgerRow) => string | null, openingField: 'variantStockBefore' | 'locationStockBefore'): Map<string, number> {
+  const balances = new Map<string, number>();
+  const unknown = new Set<string>();
+
+  for (const movement of movements) {
+    const key = keyOf(movement);
+    if (!key || unknown.has(key)) continue;
+
+    const balance = balances.get(key);
+    if (balance === undefined) {
+      const opening = (movement.metadata as Record<string, unknown> | null)?.[openingField];
+      if (typeof opening !== 'number') {
+        unknown.add(key);
+        continue;
+      }
+      balances.set(key, round2(opening + Number(movement.quantity)));
+    } else {
+      balances.set(key, round2(balance + Number(movement.quantity)));
+    }
+  }
+
+  return balances;
+}
+
+export class InventoryService {
+  private async getStockSettings(tx: DbTransaction, businessId: string): Promise<{ allowNegativeStock: boolean; inventoryMethod: InventoryMethod }> {
+    const [business] = await tx
+      .select({ allowNegativeStock: retailBusinesses.allowNegativeStock, inventoryMethod: retailBusinesses.inventoryMethod })
+      .from(retailBusinesses)
+      .where(eq(retailBusinesses.id, businessId))
+      .limit(1);
+
+    return {
+      allowNegativeStock: business?.allowNegativeStock ?? false,
+      inventoryMethod: business?.inventoryMethod ?? 'FIFO',
+    };
+  }
+
+  /**
+   * Variant products keep stock per variant. Movements without a variant fall to the default variant;
+   * products without variants (or without a default) move stock on the product alone.
+   */
+  private async resolveVariant(tx: DbTransaction, product: Product, variantId?: string | null): Promise<ProductVariant | undefined> {
+    if (variantId) {
+      const [variant] = await tx
+        .select()
+        .from(productVariants)
+        .where(and(eq(productVariants.id, variantId), eq(productVariants.productId, product.id)))
+        .for('update');
+
+      if (!variant) {
+        throw new Error(`Variant ${variantId} does not belong to ${product.name}`);
+      }
+
+      return variant;
+    }
+
+    if (!product.hasVariants) {
+      return undefined;
+    }
+
+    const [defaultVariant] = await tx
+      .select()
+      .from(productVariants)
+      .where(and(
+        eq(productVariants.productId, product.id),
+        eq(productVariants.isDefault, true),
+        eq(productVariants.isActive, true)
+      ))
+      .limit(1)
+      .for('update');
+
+    return defaultVariant;
+  }
+
+  /**
+   * Businesses that have set up locations hold stock per location; movements without one go to the default location.
+   * Businesses without locations keep stock on the product alone.
+   */
+  private async resolveLocation(tx: DbTransaction, businessId: string, locationId?: string | null): Promise<typeof storeLocations.$inferSelect | undefined> {
+    if (locationId) {
+      const [location] = await tx
+        .select()
+        .from(storeLocations)
+        .where(and(eq(storeLocations.id, locationId), eq(storeLocations.businessId, businessId)))
+        .limit(1);
+
+      if (!location || !location.isActive) {
+        throw new Error('Location not found');
+      }
+
+      return location;
+    }
+
+    const [defaultLocation] = await tx
+      .select()
+      .from(storeLocations)
+      .where(and(
+        eq(storeLocations.businessId, businessId),
+        eq(storeLocations.isDefault, true),
+        eq(storeLocations.isActive, true)
+      ))
+      .limit(1);
+
+    return defaultLocation;
+  }
+
+  private async lockLocationStock(tx: DbTransaction, businessId: string, locationId: string, productId: string, variantId: string | undefined): Promise<typeof locationStock.$inferSelect> {
+    const scope = and(
+      eq(locationStock.locationId, locationId),
+      eq(locationStock.productId, productId),
+      variantId ? eq(locationStock.variantId, variantId) : isNull(locationStock.variantId)
+    );
+
+    const [existing] = await tx.select().from(locationStock).where(scope).for('update');
+    if (existing) {
+      return existing;
+    }
+
+    const [created] = await tx.insert(locationStock).values({
+      businessId,
+      locationId,
+      productId,
+      variantId,
+      quantity: '0',
+    }).returning();
+
+    if (!created) {
+      throw new Error('Failed to create location stock');
+    }
+
+    return created;
+  }
+
+  /**
+   * Pick open layers for an outward movement: oldest first, newest first under LIFO,
+   * with the requested layer ahead of the rest under SPECIFIC identification.
+   */
+  private async drawLayers(tx: DbTransaction, input: StockMovementInput, variantId: string | undefined, quantity: number, method: InventoryMethod): Promise<LayerDraw[]> {
+    const conditions: SQL[] = [
+      eq(inventoryCostLayers.productId, input.productId),
+      gt(inventoryCostLayers.remainingQuantity, '0'),
+    ];
+    if (variantId) conditions.push(eq(inventoryCostLayers.variantId, variantId));
+
+    const order = method === 'LIFO'
+      ? [desc(inventoryCostLayers.layerDate), desc(inventoryCostLayers.createdAt)]
+      : [asc(inventoryCostLayers.layerDate), asc(inventoryCostLayers.createdAt)];
+
+    const layers = await tx
+      .select()
+      .from(inventoryCostLayers)
+      .where(and(...conditions))
+      .orderBy(...order)
+      .for('update');
+
+    if (method === 'SPECIFIC' && input.costLayerId) {
+      layers.sort((a, b) => Number(b.id === input.costLayerId) - Number(a.id === input.costLayerId));
+    }
+
+    const draws: LayerDraw[] = [];
+    let needed = quantity;
+
+    for (const layer of layers) {
+      if (needed < STOCK_TOLERANCE) break;
+      const take = Math.min(Number(layer.remainingQuantity), needed);
+      draws.push({ layerId: layer.id, quantity: take, unitCost: Number(layer.unitCost) });
+      needed = round2(needed - take);
+    }
+
+    return draws;
+  }
+
+  /**
+   * Returned goods go back into the layers their sale drew from, latest layer first, so they keep their original cost.
+   * A composite line draws several components, so only this product's layers are considered.
+   */
+  private async restoreLayers(tx: DbTransaction, productId: string, billItemId: string, quantity: number): Promise<LayerDraw[]> {
+    const consumed = await tx
+      .select({
+        layerId: inventoryCostLayerConsumptions.layerId,
+        unitCost: inventoryCostLayerConsumptions.unitCost,
+        quantity: sql<string>`SUM(${inventoryCostLayerConsumptions.quantity})`,
+      })
+      .from(inventoryCostLayerConsumptions)
+      .innerJoin(inventoryCostLayers, eq(inventoryCostLayerConsumptions.layerId, inventoryCostLayers.id))
+      .where(and(eq(inventoryCostLayerConsumptions.billItemId, billItemId), eq(inventoryCostLayers.productId, productId)))
+      .groupBy(inventoryCostLayerConsumptions.layerId, inventoryCostLayerConsumptions.unitCost, inventoryCostLayers.layerDate)
+      .orderBy(desc(inventoryCostLayers.layerDate));
+
+    const draws: LayerDraw[] = [];
+    let needed = quantity;
+
+    for (const row of consumed) {
+      const outstanding = Number(row.quantity);
+      if (needed < STOCK_TOLERANCE) break;
+      if (outstanding < STOCK_TOLERANCE) continue;
+      const take = Math.min(outstanding, needed);
+      draws.push({ layerId: row.layerId, quantity: take, unitCost: Number(row.unitCost) });
+      needed = round2(needed - take);
+    }
+
+    return draws;
+  }
+
+  private async lockBatch(tx: DbTransaction, product: Product, batchId: string): Promise<ProductBatch> {
+    const [batch] = await tx
+      .select()
+      .from(productBatches)
+      .where(and(eq(productBatches.id, batchId), eq(productBatches.productId, product.id)))
+      .for('update');
+
+    if (!batch) {
+      throw new Error(`Batch ${batchId} does not belong to ${product.name}`);
+    }
+
+    return batch;
+  }
+
+  private async findOrCreateBatch(tx: DbTransaction, product: Product, variantId: string | undefined, details: NonNullable<StockMovementInput['batch']>): Promise<ProductBatch> {
+    const [existing] = await tx
+      .select()
+      .from(productBatches)
+      .where(and(
+        eq(productBatches.productId, product.id),
+        eq(productBatches.batchNumber, details.batchNumber),
+        variantId ? eq(productBatches.variantId, variantId) : isNull(productBatches.variantId)
+      ))
+      .for('update');
+
+    if (existing) {
+      if (details.expiryDate && existing.expiryDate && details.expiryDate.getTime() !== existing.expiryDate.getTime()) {
+        throw new Error(`Batch ${details.batchNumber} of ${product.name} is already recorded with a different expiry date`);
+      }
+      return existing;
+    }
+
+    const [created] = await tx.insert(productBatches).values({
+      businessId: product.businessId,
+      productId: product.id,
+      variantId,
+      batchNumber: details.batchNumber,
+      manufactureDate: details.manufactureDate,
+      expiryDate: details.expiryDate,
+    }).returning();
+
+    if (!created) {
+      throw new Error('Failed to create batch');
+    }
+
+    return created;
+  }
+
+  /**
+   * Returned goods go back into the batches their sale drew from; received transfers into the batches they were dispatched from
+   */
+  private async restoreBatches(tx: DbTransaction, product: Product, source: SQL, quantity: number): Promise<BatchDraw[]> {
+    const allocated = await tx
+      .select({
+        batchId: stockMovementBatches.batchId,
+        quantity: sql<string>`SUM(${stockMovementBatches.quantity})`,
+      })
+      .from(stockMovementBatches)
+      .innerJoin(productBatches, eq(stockMovementBatches.batchId, productBatches.id))
+      .where(and(source, eq(productBatches.productId, product.id)))
+      .groupBy(stockMovementBatches.batchId);
+
+    const draws: BatchDraw[] = [];
+    let needed = quantity;
+
+    for (const row of allocated) {
+      // Sales are recorded negative, so what is still out is the negated net
+      const outstanding = -Number(row.quantity);
+      if (needed < STOCK_TOLERANCE) break;
+      if (outstanding < STOCK_TOLERANCE) continue;
+      const take = Math.min(outstanding, needed);
+      draws.push({ batchId: row.batchId, quantity: take, received: false });
+      needed = round2(needed - take);
+    }
+
+    return draws;
+  }
+
+  /**
+   * Decide which batches a movement on a batch-tracked product touches. Receipts go into the named batch;
+   * outward stock comes from the chosen batch or first-expiry-first-out, never from expired batches unless written off.
+   * Stock that predates batch tracking sits outside any batch and can still be sold.
+   */
+  private async allocateBatches(tx: DbTransaction, product: Product, variantId: string | undefined, input: StockMovementInput, levelBefore: number, allowNegativeStock: boolean): Promise<BatchDraw[]> {
+    const quantity = Math.abs(input.quantity);
+
+    if (input.quantity > 0) {
+      if (input.batchId || input.batch) {
+        const batch = input.batchId
+          ? await this.lockBatch(tx, product, input.batchId)
+          : await this.findOrCreateBatch(tx, product, variantId, input.batch as NonNullable<StockMovementInput['batch']>);
+        return [{ batchId: batch.id, quantity, received: input.movementType !== 'RETURN' }];
+      }
+
+      if (input.transferMovementId) {
+        return this.restoreBatches(tx, product, eq(stockMovementBatches.movementId, input.transferMovementId), quantity);
+      }
+
+      if (input.movementType === 'RETURN' && input.billItemId) {
+        return this.restoreBatches(tx, product, eq(stockMovementBatches.billItemId, input.billItemId), quantity);
+      }
+
+      if (COSTED_INBOUND_TYPES.includes(input.movementType)) {
+        throw new Error(`Batch number is required for ${product.name}`);
+      }
+
+      return [];
+    }
+
+    const now = new Date();
+    const writeOff = WRITE_OFF_TYPES.includes(input.movementType);
+
+    if (input.batchId) {
+      const batch = await this.lockBatch(tx, product, input.batchId);
+      if (!writeOff && batch.expiryDate && batch.expiryDate < now) {
+        throw new Error(`Batch ${batch.batchNumber} of ${product.name} expired on ${batch.expiryDate.toISOString().slice(0, 10)}`);
+      }
+      if (Number(batch.quantity) < quantity - STOCK_TOLERANCE && !allowNegativeStock) {
+        throw new Error(`Batch ${batch.batchNumber} of ${product.name} has only ${Number(batch.quantity)} left`);
+      }
+      return [{ batchId: batch.id, quantity, received: false }];
+    }
+
+    const scope: SQL[] = [eq(productBatches.productId, product.id)];
+    if (variantId) scope.push(eq(productBatches.variantId, variantId));
+
+    const conditions: SQL[] = [...scope, gt(productBatches.quantity, '0')];
+    if (!writeOff) {
+      conditions.push(sql`(${productBatches.expiryDate} IS NULL OR ${productBatches.expiryDate} >= ${now})`);
+    }
+
+    const batches = await tx
+      .select()
+      .from(productBatches)
+      .where(and(...conditions))
+      .orderBy(sql`${productBatches.expiryDate} ASC NULLS LAST`, asc(productBatches.createdAt))
+      .for('update');
+
+    const draws: BatchDraw[] = [];
+    let needed = quantity;
+
+    for (const batch of batches) {
+      if (needed < STOCK_TOLERANCE) break;
+      const take = Math.min(Number(batch.quantity), needed);
+      draws.push({ batchId: batch.id, quantity: take, received: false });
+      needed = round2(needed - take);
+    }
+
+    if (needed >= STOCK_TOLERANCE && !allowNegativeStock) {
+      const [batched] = await tx
+        .select({ total: sql<string>`COALESCE(SUM(${productBatches.quantity}), 0)` })
+        .from(productBatches)
+        .where(and(...scope, gt(productBatches.quantity, '0')));
+
+      const unbatched = Math.max(round2(levelBefore - Number(batched?.total || 0)), 0);
+      if (needed > unbatched + STOCK_TOLERANCE) {
+        throw new Error(`Only ${round2(quantity - needed + unbatched)} of ${product.name} available in unexpired batches, ${quantity} required`);
+      }
+    }
+
+    return draws;
+  }
+
+  /**
+   * Decide which serialised units a movement touches. Receipts bring in new serials (or written-off ones found again),
+   * returns take back what the bill line sold, and everything outward must name units that are in stock.
+   */
+  private async allocateSerials(tx: DbTransaction, product: Product, input: StockMovementInput, locationId: string | undefined): Promise<SerialDraw> {
+    const quantity = Math.abs(input.quantity);
+
+    if (!Number.isInteger(input.quantity)) {
+      throw new Error(`${product.name} is serialised and moves in whole units only`);
+    }
+
+    const serialNumbers = (input.serialNumbers || []).map(serial => serial.trim()).filter(Boolean);
+
+    if (new Set(serialNumbers).size !== serialNumbers.length) {
+      throw new Error(`Duplicate serial numbers given for ${product.name}`);
+    }
+
+    // Received transfers take in the units dispatched on the outward movement
+    if (input.quantity > 0 && input.transferMovementId) {
+      const conditions: SQL[] = [
+        eq(stockMovementSerials.movementId, input.transferMovementId),
+        eq(productSerials.status, 'IN_TRANSIT'),
+      ];
+      if (serialNumbers.length > 0) conditions.push(inArray(productSerials.serialNumber, serialNumbers));
+
+      const inTransit = await tx
+        .select({ serial: productSerials })
+        .from(productSerials)
+        .innerJoin(stockMovementSerials, eq(stockMovementSerials.serialId, productSerials.id))
+        .where(and(...conditions))
+        .for('update');
+
+      if (inTransit.length !== quantity) {
+        throw new Error(`${quantity} serial number(s) of ${product.name} expected in transit, ${inTransit.length} found`);
+      }
+
+      return { existing: inTransit.map(row => row.serial), created: [] };
+    }
+
+    if (input.quantity > 0 && input.movementType === 'RETURN' && input.billItemId) {
+      const conditions: SQL[] = [
+        eq(productSerials.productId, product.id),
+        eq(productSerials.billItemId, input.billItemId),
+        eq(productSerials.status, 'SOLD'),
+      ];
+      if (serialNumbers.length > 0) conditions.push(inArray(productSerials.serialNumber, serialNumbers));
+
+      const sold = await tx
+        .select()
+        .from(productSerials)
+        .where(and(...conditions))
+        .orderBy(asc(productSerials.serialNumber))
+        .for('update');
+
+      if (serialNumbers.length > 0 && sold.length !== serialNumbers.length) {
+        const found = new Set(sold.map(serial => serial.serialNumber));
+        const missing = serialNumbers.filter(serial => !found.has(serial));
+        throw new Error(`Serial ${missing.join(', ')} was not sold on this bill line`);
+      }
+
+      // Without serials named, the whole line must be coming back (voids, full returns)
+      if (sold.length !== quantity) {
+        throw new Error(`Specify which serial numbers of ${product.name} are being returned`);
+      }
+
+      return { existing: sold, created: [] };
+    }
+
+    if (serialNumbers.length !== quantity) {
+      throw new Error(`${quantity} serial number(s) required for ${product.name}, ${serialNumbers.length} given`);
+    }
+
+    const existing = await tx
+      .select()
+      .from(productSerials)
+      .where(and(eq(productSerials.productId, product.id), inArray(productSerials.serialNumber, serialNumbers)))
+      .for('update');
+
+    const byNumber = new Map(existing.map(serial => [serial.serialNumber, serial]));
+
+    if (input.quantity > 0) {
+      // Units sold earlier may come back without a bill line (manual returns); anything else must be new or written off
+      const reusable = input.movementType === 'RETURN' ? ['SOLD', 'WRITTEN_OFF'] : ['WRITTEN_OFF'];
+      for (const serial of existing) {
+        if (!reusable.includes(serial.status)) {
+          throw new Error(`Serial ${serial.serialNumber} of ${product.name} is already ${serial.status === 'SOLD' ? 'sold' : 'in stock'}`);
+        }
+      }
+
+      return { existing, created: serialNumbers.filter(serial => !byNumber.has(serial)) };
+    }
+
+    for (const serialNumber of serialNumbers) {
+      const serial = byNumber.get(serialNumber);
+      if (!serial || serial.status !== 'IN_STOCK') {
+        throw new Error(`Serial ${serialNumber} of ${product.name} is not in stock`);
+      }
+      if (input.variantId && serial.variantId && serial.variantId !== input.variantId) {
+        throw new Error(`Serial ${serialNumber} belongs to a different variant of ${product.name}`);
+      }
+      if (locationId && serial.locationId && serial.locationId !== locationId) {
+        throw new Error(`Serial ${serialNumber} of ${product.name} is held at another location`);
+      }
+    }
+
+    return { existing, created: [] };
+  }
+
+  /**
+   * Move allocated serials to their new state and link them to the movement
+   */
+  private async applySerials(tx: DbTransaction, product: Product, variantId: string | undefined, locationId: string | undefined, input: StockMovementInput, movement: StockMovement, draw: SerialDraw): Promise<void> {
+    const now = input.movementDate || new Date();
+    const unitCost = movement.unitCost;
+    const serialIds: string[] = [];
+
+    if (draw.created.length > 0) {
+      const created = await tx.insert(productSerials).values(draw.created.map(serialNumber => ({
+        businessId: product.businessId,
+        productId: product.id,
+        variantId,
+        serialNumber,
+        status: 'IN_STOCK' as const,
+        locationId,
+        purchaseOrderId: input.purchaseOrderId,
+        receivedAt: now,
+        unitCost,
+      }))).returning({ id: productSerials.id });
+
+      serialIds.push(...created.map(serial => serial.id));
+    }
+
+    if (draw.existing.length > 0) {
+      const ids = draw.existing.map(serial => serial.id);
+      let update: Partial<typeof productSerials.$inferInsert>;
+
+      if (input.quantity > 0) {
+        // Back in stock; returns and transfers keep their original receipt, anything else is a fresh receipt
+        update = {
+          status: 'IN_STOCK',
+          locationId: locationId ?? null,
+          billId: null,
+          billItemId: null,
+          customerId: null,
+          soldAt: null,
+          warrantyExpiresAt: null,
+          ...(input.movementType === 'RETURN' || input.transferMovementId ? {} : { purchaseOrderId: input.purchaseOrderId ?? null, receivedAt: now, unitCost }),
+        };
+      } else if (input.movementType === 'SALE') {
+        let warrantyExpiresAt: Date | null = null;
+        if (product.warrantyMonths) {
+          warrantyExpiresAt = new Date(now);
+          warrantyExpiresAt.setMonth(warrantyExpiresAt.getMonth() + product.warrantyMonths);
+        }
+
+        update = {
+          status: 'SOLD',
+          billId: input.billId ?? null,
+          billItemId: input.billItemId ?? null,
+          customerId: input.customerId ?? null,
+          soldAt: now,
+          warrantyExpiresAt,
+        };
+      } else if (input.movementType === 'TRANSFER') {
+        update = { status: 'IN_TRANSIT' };
+      } else {
+        update = { status: 'WRITTEN_OFF' };
+      }
+
+      await tx.update(productSerials)
+        .set({ ...update, updatedAt: new Date() })
+        .where(inArray(productSerials.id, ids));
+
+      serialIds.push(...ids);
+    }
+
+    if (serialIds.length > 0) {
+      await tx.insert(stockMovementSerials).values(serialIds.map(serialId => ({
+        movementId: movement.id,
+        serialId,
+      })));
+    }
+  }
+
+  /**
+   * The only place product stock is changed. Locks the product, checks the business's negative stock rule,
+   * costs the movement from the purchase cost layers, writes it with before/after levels and updates the product.
+   * Returns null for products that do not track quantity (services, non-stock items).
+   */
+  async recordMovement(tx: DbTransaction, input: StockMovementInput): Promise<RecordedMovement | null> {
+    const [product] = await tx
+      .select()
+      .from(products)
+      .where(and(eq(products.id, input.productId), eq(products.businessId, input.businessId)))
+      .for('update');
+
+    if (!product) {
+      throw new Error('Product not found');
+    }
+
+    if (!product.trackQuantity || product.isService || input.quantity === 0) {
+      return null;
+    }
+
+    // The ledger starts with whatever the product held before it was tracked
+    await this.seedOpeningStock(tx, product, input.performedBy, input.movementDate);
+
+    const settings = await this.getStockSettings(tx, input.businessId);
+    const variant = await this.resolveVariant(tx, product, input.variantId);
+    const variantId = variant?.id;
+    const location = await this.resolveLocation(tx, input.businessId, input.locationId);
+
+    // The parent's stock is the total across its variants, so both move by the same quantity
+    const stockBefore = parseFloat(product.currentStock || '0');
+    const stockAfter = round2(stockBefore + input.quantity);
+    const variantStockBefore = variant ? parseFloat(variant.stockQuantity || '0') : undefined;
+    const variantStockAfter = variantStockBefore !== undefined ? round2(variantStockBefore + input.quantity) : undefined;
+
+    if (input.quantity < 0 && !settings.allowNegativeStock) {
+      if (variant && variantStockBefore !== undefined && variantStockAfter !== undefined && variantStockAfter < 0) {
+        throw new Error(`Insufficient stock for ${product.name} - ${variant.variantName}: ${variantStockBefore} available, ${Math.abs(input.quantity)} required`);
+      }
+      if (stockAfter < 0) {
+        throw new Error(`Insufficient stock for ${product.name}: ${stockBefore} available, ${Math.abs(input.quantity)} required`);
+      }
+    }
+
+    const locationBalance = location
+      ? await this.lockLocationStock(tx, input.businessId, location.id, product.id, variantId)
+      : undefined;
+    const locationStockBefore = locationBalance ? parseFloat(locationBalance.quantity) : undefined;
+    const locationStockAfter = locationStockBefore !== undefined ? round2(locationStockBefore + input.quantity) : undefined;
+
+    if (input.quantity < 0 && !settings.allowNegativeStock && location && locationStockBefore !== undefined && locationStockAfter !== undefined && locationStockAfter < 0) {
+      throw new Error(`Insufficient stock for ${product.name} at ${location.name}: ${locationStockBefore} available, ${Math.abs(input.quantity)} required`);
+    }
+
+    const batchDraws = product.tracksBatches
+      ? await this.allocateBatches(tx, product, variantId, input, variantStockBefore ?? stockBefore, settings.allowNegativeStock)
+      : [];
+
+    const serialDraw = product.tracksSerials
+      ? await this.allocateSerials(tx, product, input, location?.id)
+      : undefined;
+
+    // Stock not covered by any layer (pre-ledger stock, negative stock) is costed at the running average
+    const fallbackCost = variant?.purchasePrice ?? product.averageCost ?? product.purchasePrice;
+    const quantity = Math.abs(input.quantity);
+    let draws: LayerDraw[] = [];
+    let unitCost: number | undefined;
+    let newLayerQuantity = 0;
+    let newLayerCost: number | undefined;
+
+    if (input.quantity < 0) {
+      draws = await this.drawLayers(tx, input, variantId, quantity, settings.inventoryMethod);
+      const shortfall = round2(quantity - drawnQuantity(draws));
+
+      if (settings.inventoryMethod === 'AVERAGE' || settings.inventoryMethod === 'NONE') {
+        // Layers are still drawn down so valuation stays in step, but the sale is costed at the average
+        unitCost = fallbackCost !== null ? Number(fallbackCost) : undefined;
+      } else if (draws.length > 0 || fallbackCost !== null) {
+        unitCost = (drawnCost(draws) + shortfall * Number(fallbackCost ?? 0)) / quantity;
+      }
+    } else {
+      if (input.movementType === 'RETURN' && input.billItemId) {
+        draws = await this.restoreLayers(tx, product.id, input.billItemId, quantity);
+      }
+
+      newLayerQuantity = round2(quantity - drawnQuantity(draws));
+      newLayerCost = input.unitCost !== undefined && input.unitCost !== null
+        ? Number(input.unitCost)
+        : fallbackCost !== null ? Number(fallbackCost) : undefined;
+
+      if (draws.length > 0 || newLayerCost !== undefined) {
+        unitCost = (drawnCost(draws) + newLayerQuantity * (newLayerCost ?? 0)) / quantity;
+      }
+    }
+
+    const productUpdate: Partial<typeof products.$inferInsert> = {
+      currentStock: stockAfter.toFixed(2),
+      updatedAt: new Date(),
+    };
+
+    if (input.quantity > 0 && unitCost !== undefined) {
+      // Moving weighted average over stock on hand; with nothing on hand the new cost simply replaces it
+      const previousCost = Number(product.averageCost ?? product.purchasePrice ?? unitCost);
+      const averageCost = stockBefore > 0
+        ? (stockBefore * previousCost + quantity * unitCost) / stockAfter
+        : unitCost;
+
+      productUpdate.averageCost = averageCost.toFixed(2);
+
+      if (COSTED_INBOUND_TYPES.includes(input.movementType)) {
+        productUpdate.purchasePrice = unitCost.toFixed(2);
+        productUpdate.lastRestockedAt = input.movementDate || new Date();
+      }
+    }
+
+    const [updatedProduct] = await tx.update(products)
+      .set(productUpdate)
+      .where(eq(products.id, product.id))
+      .returning();
+
+    if (locationBalance && locationStockAfter !== undefined) {
+      await tx.update(locationStock)
+        .set({ quantity: locationStockAfter.toFixed(2), updatedAt: new Date() })
+        .where(eq(locationStock.id, locationBalance.id));
+    }
+
+    if (variant && variantStockAfter !== undefined) {
+      await tx.update(productVariants)
+        .set({
+          stockQuantity: variantStockAfter.toFixed(2),
+          ...(productUpdate.purchasePrice ? { purchasePrice: productUpdate.purchasePrice } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(productVariants.id, variant.id));
+    }
+
+    const [movement] = await tx.insert(stockMovements).values({
+      businessId: input.businessId,
+      productId: product.id,
+      variantId,
+      locationId: location?.id,
+      movementType: input.movementType,
+      quantity: input.quantity.toString(),
+      stockBefore: stockBefore.toFixed(2),
+      stockAfter: stockAfter.toFixed(2),
+      unitCost: unitCost !== undefined ? unitCost.toFixed(2) : undefined,
+      totalCost: unitCost !== undefined ? (quantity * unitCost).toFixed(2) : undefined,
+      billId: input.billId,
+      billItemId: input.billItemId,
+      purchaseOrderId: input.purchaseOrderId,
+      reason: input.reason,
+      notes: input.notes,
+      performedBy: input.performedBy,
+      movementDate: input.movementDate,
+      metadata: variant || location
+        ? { ...input.metadata, variantStockBefore, variantStockAfter, locationStockBefore, locationStockAfter }
+        : input.metadata,
+    }).returning();
+
+    if (!movement || !updatedProduct) {
+      throw new Error('Failed to record stock movement');
+    }
+
+    // Outward draws reduce their layers; restored quantity goes back and is recorded as a negative consumption
+    const direction = input.quantity < 0 ? 1 : -1;
+    for (const draw of draws) {
+      await tx.update(inventoryCostLayers)
+        .set({
+          remainingQuantity: sql`${inventoryCostLayers.remainingQuantity} - ${(direction * draw.quantity).toFixed(2)}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(inventoryCostLayers.id, draw.layerId));
+
+      await tx.insert(inventoryCostLayerConsumptions).values({
+        layerId: draw.layerId,
+        movementId: movement.id,
+        billItemId: input.billItemId,
+        quantity: (direction * draw.quantity).toFixed(2),
+        unitCost: draw.unitCost.toFixed(2),
+      });
+    }
+
+    if (newLayerQuantity > 0 && newLayerCost !== undefined) {
+      await tx.insert(inventoryCostLayers).values({
+        businessId: input.businessId,
+        productId: product.id,
+        variantId,
+        sourceMovementId: movement.id,
+        layerDate: input.movementDate || new Date(),
+        originalQuantity: newLayerQuantity.toFixed(2),
+        remainingQuantity: newLayerQuantity.toFixed(2),
+        unitCost: newLayerCost.toFixed(2),
+      });
+    }
+
+    for (const draw of batchDraws) {
+      const signed = (input.quantity < 0 ? -draw.quantity : draw.quantity).toFixed(2);
+      await tx.update(productBatches)
+        .set({
+          quantity: sql`${productBatches.quantity} + ${signed}`,
+          receivedQuantity: sql`${productBatches.receivedQuantity} + ${draw.received ? signed : '0'}`,
+          // Emptied batches are depleted; stock coming back revives them and the expiry job re-flags them if needed
+          status: sql`CASE WHEN ${productBatches.quantity} + ${signed} <= 0 THEN 'DEPLETED'::batch_status WHEN ${productBatches.status} = 'DEPLETED' THEN 'ACTIVE'::batch_status ELSE ${productBatches.status} END`,
+          updatedAt: new Date(),
+        })
+        .where(eq(productBatches.id, draw.batchId));
+
+      await tx.insert(stockMovementBatches).values({
+        movementId: movement.id,
+        batchId: draw.batchId,
+        billItemId: input.billItemId,
+        quantity: signed,
+      });
+    }
+
+    if (serialDraw) {
+      await this.applySerials(tx, product, variantId, location?.id, input, movement, serialDraw);
+    }
+
+    return { movement, product: updatedProduct, batches: batchDraws };
+  }
+
+  /**
+   * Bring a product, or one of its variants, to an exact stock level (stock counts, manual corrections) by recording the difference
+   */
+  async setStock(tx: DbTransaction, input: Omit<StockMovementInput, 'quantity' | 'movementType'> & { targetStock: number; movementType?: StockMovementType }): Promise<RecordedMovement | null> {
+    const [product] = await tx
+      .select()
+      .from(products)
+      .where(and(eq(products.id, input.productId), eq(products.businessId, input.businessId)))
+      .for('update');
+
+    if (!product) {
+      throw new Error('Product not found');
+    }
+
+    const variant = await this.resolveVariant(tx, product, input.variantId);
+    let currentStock = variant ? variant.stockQuantity : product.currentStock;
+
+    // A count taken at one location sets that location's stock, not the business-wide total
+    if (input.locationId) {
+      const location = await this.resolveLocation(tx, input.businessId, input.locationId);
+      if (location) {
+        const balance = await this.lockLocationStock(tx, input.businessId, location.id, product.id, variant?.id);
+        currentStock = balance.quantity;
+      }
+    }
+
+    const { targetStock, movementType = 'ADJUSTMENT', ...rest } = input;
+    const quantity = round2(targetStock - parseFloat(currentStock || '0'));
+
+    return this.recordMovement(tx, { ...rest, variantId: variant?.id, movementType, quantity });
+  }
+
+  async getStockLedger(businessId: string, productId: string, query: { startDate?: string; endDate?: string; movementType?: StockMovementType; page?: number; limit?: number }): Promise<{
+    product: { id: string; productCode: string; name: string; unit: string; currentStock: number; ledgerStock: number; drift: number };
+    openingStock: number;
+    movements: StockMovement[];
+    pagination: { page: number; limit: number; total: number; totalPages: number };
+  }> {
+    const { startDate, endDate, movementType, page = 1, limit = 50 } = query;
+
+    const [product] = await db
+      .select()
+      .from(products)
+      .where(and(eq(products.id, productId), eq(products.businessId, businessId)))
+      .limit(1);
+
+    if (!product) {
+      throw new Error('Product not found');
+    }
+
+    const conditions: SQL[] = [
+      eq(stockMovements.businessId, businessId),
+      eq(stockMovements.productId, productId),
+    ];
+    if (startDate) conditions.push(gte(stockMovements.movementDate, new Date(startDate)));
+    if (endDate) conditions.push(lte(stockMovements.movementDate, new Date(endDate)));
+    if (movementType) conditions.push(eq(stockMovements.movementType, movementType));
+
+    const [countResult] = await db
+      .select({ count: count() })
+      .from(stockMovements)
+      .where(and(...conditions));
+
+    const total = countResult?.count || 0;
+
+    const movements = await db
+      .select()
+      .from(stockMovements)
+      .where(and(...conditions))
+      .orderBy(desc(stockMovements.movementDate), desc(stockMovements.createdAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    const [totals] = await db
+      .select({
+        ledgerStock: sql<string>`COALESCE(SUM(${stockMovements.quantity}), 0)`,
+        openingStock: startDate
+          ? sql<string>`COALESCE(SUM(CASE WHEN ${stockMovements.movementDate} < ${new Date(startDate)} THEN ${stockMovements.quantity} ELSE 0 END), 0)`
+          : sql<string>`0`,
+      })
+      .from(stockMovements)
+      .where(and(
+        eq(stockMovements.businessId, businessId),
+        eq(stockMovements.productId, productId)
+      ));
+
+    const currentStock = Number(product.currentStock || 0);
+    const ledgerStock = Number(totals?.ledgerStock || 0);
+
+    return {
+      product: {
+        id: product.id,
+        productCode: product.productCode,
+        name: product.name,
+        unit: product.unit,
+        currentStock,
+        ledgerStock,
+        drift: round2(currentStock - ledgerStock),
+      },
+      openingStock: Number(totals?.openingStock || 0),
+      movements,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Post what a product held before its first ledger movement (its current stock when it has none) as an opening
+   * ADJUSTMENT dated just before that movement, so the ledger alone accounts for its stock from then on. Once the
+   * ledger starts from zero this does nothing, so it is safe to call on every movement. Call with the product locked.
+   * Returns the opening posted.
+   */
+  private async seedOpeningStock(tx: DbTransaction, product: Product, performedBy?: string, before?: Date): Promise<number> {
+    const [first] = await tx
+      .select({ stockBefore: stockMovements.stockBefore, movementDate: stockMovements.movementDate })
+      .from(stockMovements)
+      .where(eq(stockMovements.productId, product.id))
+      .orderBy(asc(stockMovements.movementDate), asc(stockMovements.createdAt))
+      .limit(1);
+
+    const openingStock = first ? Number(first.stockBefore) : Number(product.currentStock || 0);
+    if (Math.abs(openingStock) < STOCK_TOLERANCE) return 0;
+
+    const openingDate = first?.movementDate ?? before;
+    const openingCost = product.averageCost ?? product.purchasePrice;
+    const [opening] = await tx.insert(stockMovements).values({
+      businessId: product.businessId,
+      productId: product.id,
+      movementType: 'ADJUSTMENT',
+      quantity: openingStock.toFixed(2),
+      stockBefore: '0.00',
+      stockAfter: openingStock.toFixed(2),
+      unitCost: openingCost,
+      totalCost: openingCost !== null ? (openingStock * Number(openingCost)).toFixed(2) : undefined,
+      reason: 'Opening stock',
+      notes: 'Stock held before the ledger started',
+      performedBy,
+      movementDate: openingDate ? new Date(openingDate.getTime() - 1) : sql`now() - interval '1 millisecond'`,
+    }).returning();
+
+    if (opening && openingCost !== null && openingStock > 0) {
+      const [totals] = await tx
+        .select({
+          ledgerStock: sql<string>`(SELECT COALESCE(SUM(${stockMovements.quantity}), 0) FROM ${stockMovements} WHERE ${stockMovements.productId} = ${product.id})`,
+          openLayers: sql<string>`COALESCE(SUM(${inventoryCostLayers.remainingQuantity}), 0)`,
+        })
+        .from(inventoryCostLayers)
+        .where(and(eq(inventoryCostLayers.productId, product.id), gt(inventoryCostLayers.remainingQuantity, '0')));
+
+      const layerQuantity = openingLayerQuantity(openingStock, Number(totals?.ledgerStock ?? openingStock), Number(totals?.openLayers ?? 0));
+      if (layerQuantity > 0) {
+        await tx.insert(inventoryCostLayers).values({
+          businessId: product.businessId,
+          productId: product.id,
+          sourceMovementId: opening.id,
+          layerDate: opening.movementDate,
+          originalQuantity: layerQuantity.toFixed(2),
+          remainingQuantity: layerQuantity.toFixed(2),
+          unitCost: openingCost,
+        });
+      }
+    }
+
+    logger.info('Opening stock posted to ledger', { productId: product.id, openingStock });
+    return openingStock;
+  }
+
+  /**
+   * Rebuild a product's stock from the ledger under the product lock, posting its opening balance first if the
+   * ledger has none yet (see seedOpeningStock). Variant and location balances are rebuilt the same way from the
+   * balances their first movements recorded.
+   */
+  private async repairStock(tx: DbTransaction, businessId: string, productId: string, performedBy?: string): Promise<void> {
+    const [product] = await tx
+      .select()
+      .from(products)
+      .where(eq(products.id, productId))
+      .for('update');
+
+    if (!product) throw new Error('Product not found');
+
+    const openingStock = await this.seedOpeningStock(tx, product, performedBy);
+
+    const movements: LedgerRow[] = await tx
+      .select({
+        variantId: stockMovements.variantId,
+        locationId: stockMovements.locationId,
+        quantity: stockMovements.quantity,
+        stockBefore: stockMovements.stockBefore,
+        movementDate: stockMovements.movementDate,
+        metadata: stockMovements.metadata,
+      })
+      .from(stockMovements)
+      .where(eq(stockMovements.productId, productId))
+      .orderBy(asc(stockMovements.movementDate), asc(stockMovements.createdAt));
+
+    const currentStock = Number(product.currentStock || 0);
+    const ledgerStock = round2(movements.reduce((total, movement) => total + Number(movement.quantity), 0));
+    if (Math.abs(ledgerStock - currentStock) >= STOCK_TOLERANCE) {
+      await tx.update(products)
+        .set({ currentStock: ledgerStock.toFixed(2), updatedAt: new Date() })
+        .where(eq(products.id, productId));
+    }
+
+    const variantBalances = ledgerBalances(movements, movement => movement.variantId, 'variantStockBefore');
+    for (const [variantId, balance] of variantBalances) {
+      const [variant] = await tx
+        .select()
+        .from(productVariants)
+        .where(eq(productVariants.id, variantId))
+        .for('update');
+
+      if (variant && Math.abs(Number(variant.stockQuantity || 0) - balance) >= STOCK_TOLERANCE) {
+        await tx.update(productVariants)
+          .set({ stockQuantity: balance.toFixed(2), updatedAt: new Date() })
+          .where(eq(productVariants.id, variantId));
+      }
+    }
+
+    const locationKey = (movement: LedgerRow): string | null => movement.locationId ? `${movement.locationId}:${movement.variantId ?? ''}` : null;
+    const locationBalances = ledgerBalances(movements, locationKey, 'locationStockBefore');
+    for (const [key, balance] of locationBalances) {
+      const [locationId = '', variantId] = key.split(':');
+      const current = await this.lockLocationStock(tx, businessId, locationId, productId, variantId || undefined);
+
+      if (Math.abs(Number(current.quantity) - balance) >= STOCK_TOLERANCE) {
+        await tx.update(locationStock)
+          .set({ quantity: balance.toFixed(2), updatedAt: new Date() })
+          .where(eq(locationStock.id, current.id));
+      }
+    }
+
+    logger.info('Stock rebuilt from ledger', { productId, openingStock, previousStock: currentStock, ledgerStock });
+  }
+
+  /**
+   * Rebuild stock from the ledger and report products whose stored stock disagrees with it. Products whose ledger
+   * has no opening balance yet get one posted first (see seedOpeningStock), so stock held before tracking started
+   * is never reported as drift. With repair on, each drifted product is rebuilt from the ledger (see repairStock).
+   */
+  async reconcileStock(businessId: string, options: { repair?: boolean; performedBy?: string } = {}): Promise<{ checked: number; seeded: number; drifted: StockDrift[]; repaired: number }> {
+    const rows = await db
+      .select({
+        product: products,
+        ledgerStock: sql<string | null>`(SELECT SUM(${stockMovements.quantity}) FROM ${stockMovements} WHERE ${stockMovements.productId} = ${products.id})`,
+        firstStockBefore: sql<string | null>`(SELECT ${stockMovements.stockBefore} FROM ${stockMovements} WHERE ${stockMovements.productId} = ${products.id} ORDER BY ${stockMovements.movementDate}, ${stockMovements.createdAt} LIMIT 1)`,
+      })
+      .from(products)
+      .where(and(
+        eq(products.businessId, businessId),
+        eq(products.trackQuantity, true),
+        eq(products.isService, false),
+        isNull(products.deletedAt)
+      ));
+
+    const drifted: StockDrift[] = [];
+    let seeded = 0;
+    let repaired = 0;
+
+    for (const row of rows) {
+      const currentStock = Number(row.product.currentStock || 0);
+      let ledgerStock = row.ledgerStock === null ? null : Number(row.ledgerStock);
+      const unposted = ledgerStock === null ? currentStock : Number(row.firstStockBefore ?? 0);
+
+      if (Math.abs(unposted) >= STOCK_TOLERANCE) {
+        const opening = await db.transaction(async (tx) => {
+          const [product] = await tx
+            .select()
+            .from(products)
+            .where(eq(products.id, row.product.id))
+            .for('update');
+
+          return product ? this.seedOpeningStock(tx, product, options.performedBy) : 0;
+        });
+        ledgerStock = round2((ledgerStock ?? 0) + opening);
+        seeded++;
+      }
+
+      const drift = round2(currentStock - (ledgerStock ?? 0));
+
+      if (Math.abs(drift) < STOCK_TOLERANCE) continue;
+
+      const entry: StockDrift = {
+        productId: row.product.id,
+        productCode: row.product.productCode,
+        productName: row.product.name,
+        currentStock,
+        ledgerStock,
+        drift,
+        repaired: false,
+      };
+
+      if (options.repair) {
+        await db.transaction(async (tx) => this.repairStock(tx, businessId, row.product.id, options.performedBy));
+        entry.repaired = true;
+        repaired++;
+      }
+
+      drifted.push(entry);
+    }
+
+    if (drifted.length > 0) {
+      logger.warn('Stock drift detected', { businessId, drifted: drifted.length, repaired });
+    }
+
+    return { checked: rows.length, seeded, drifted, repaired };
+  }
+
+  /**
+   * Nightly drift check across every business that tracks inventory. Missing openings are posted, but drift is
+   * only reported; repairs are left to the owner.
+   */
+  async reconcileAllBusinesses(): Promise<{ businesses: number; checked: number; seeded: number; drifted: number; failed: number }> {
+    const businesses = await db
+      .select({ id: retailBusinesses.id })
+      .from(retailBusinesses)
+      .where(and(
+        eq(retailBusinesses.tracksInventory, true),
+        eq(retailBusinesses.isActive, true)
+      ));
+
+    const summary = { businesses: businesses.length, checked: 0, seeded: 0, drifted: 0, failed: 0 };
+
+    for (const business of businesses) {
+      try {
+        const result = await this.reconcileStock(business.id);
+        summary.checked += result.checked;
+        summary.seeded += result.seeded;
+        summary.drifted += result.drifted.length;
+      } catch (error) {
+        summary.failed++;
+        logger.error('Stock reconciliation failed', { businessId: business.id, error });
+      }
+    }
+
+    return summary;
+  }
+}
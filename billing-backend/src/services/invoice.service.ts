@@ -1,15 +1,22 @@
 import PDFDocument from 'pdfkit';
 import { BillingService } from './billing.service';
+import { BatchService } from './batch.service';
 import { retailBusinesses } from '../models/drizzle/schema';
 import { db } from '../config/database';
 import { eq } from 'drizzle-orm';
+import { GST_STATE_CODES } from '../utils/gst';
 
 // Interface for bill items used in invoice
 interface InvoiceItem {
+  id: string;
   productName: string;
+  hsnCode?: string | null;
+  sacCode?: string | null;
   quantity: string | number;
   rate: string | number;
+  taxPercent?: string | null;
   totalAmount: string | number;
+  serialNumbers?: unknown;
 }
 
 // Interface for bill with relations
@@ -18,11 +25,13 @@ interface BillWithRelations {
     name?: string;
     phone?: string;
     email?: string;
+    gstNumber?: string | null;
   };
   items?: InvoiceItem[];
 }
 
 const billingService = new BillingService();
+const batchService = new BatchService();
 
 export class InvoiceService {
   
@@ -42,6 +51,7 @@ export class InvoiceService {
       .text(business?.description || '', 50, 75)
       .text(`Phone: ${business?.phone || ''}`, 50, 90)
       .text(`Email: ${business?.email || ''}`, 50, 105)
+      .text(business?.gstNumber ? `GSTIN: ${business.gstNumber}` : '', 50, 120)
       .moveDown();
 
     // If address/contact info is missing in schema, we'll verify where it is later.
@@ -51,12 +61,13 @@ export class InvoiceService {
     // INVOICE DETAILS
     doc
       .fontSize(16)
-      .text('INVOICE', 400, 50, { align: 'right' })
+      .text(business?.gstNumber ? 'TAX INVOICE' : 'INVOICE', 400, 50, { align: 'right' })
       .fontSize(10)
       .text(`Invoice #: ${bill.billNumber}`, 400, 75, { align: 'right' })
       .text(`Date: ${new Date(bill.billDate).toLocaleDateString()}`, 400, 90, { align: 'right' })
       .text(`Due Date: ${bill.dueDate ? new Date(bill.dueDate).toLocaleDateString() : 'N/A'}`, 400, 105, { align: 'right' })
-      .text(`Status: ${bill.status}`, 400, 120, { align: 'right' });
+      .text(`Status: ${bill.status}`, 400, 120, { align: 'right' })
+      .text(bill.placeOfSupply ? `Place of Supply: ${bill.placeOfSupply}-${GST_STATE_CODES[bill.placeOfSupply] || ''}` : '', 400, 135, { align: 'right' });
 
     doc.moveDown(2);
 
@@ -67,14 +78,17 @@ export class InvoiceService {
         .fontSize(10)
         .text(customer?.name || 'Walk-in Customer', 50, 165)
         .text(customer?.phone || '', 50, 180)
-        .text(customer?.email || '', 50, 195);
+        .text(customer?.email || '', 50, 195)
+        .text(customer?.gstNumber ? `GSTIN: ${customer.gstNumber}` : '', 50, 210);
         
     // ITEMS TABLE HEADER
     const tableTop = 250;
     doc.font('Helvetica-Bold');
-    doc.text('Item', 50, tableTop);
-    doc.text('Qty', 250, tableTop, { width: 50, align: 'right' });
-    doc.text('Rate', 300, tableTop, { width: 70, align: 'right' });
+    doc.text('Item', 50, tableTop, { width: 140 });
+    doc.text('HSN/SAC', 190, tableTop, { width: 60 });
+    doc.text('Qty', 250, tableTop, { width: 45, align: 'right' });
+    doc.text('Rate', 295, tableTop, { width: 60, align: 'right' });
+    doc.text('GST %', 355, tableTop, { width: 40, align: 'right' });
     doc.text('Total', 400, tableTop, { width: 70, align: 'right' });
     doc.font('Helvetica');
     
@@ -83,13 +97,32 @@ export class InvoiceService {
     // ITEMS
     let y = tableTop + 25;
     const items: InvoiceItem[] = (bill as unknown as BillWithRelations).items || [];
+    const itemBatches = await batchService.getBillItemBatches(billId);
     
     for (const item of items) {
-        doc.text(String(item.productName), 50, y);
-        doc.text(String(item.quantity), 250, y, { width: 50, align: 'right' });
-        doc.text(String(item.rate), 300, y, { width: 70, align: 'right' });
+        doc.text(String(item.productName), 50, y, { width: 140 });
+        doc.text(item.hsnCode || item.sacCode || '', 190, y, { width: 60 });
+        doc.text(String(item.quantity), 250, y, { width: 45, align: 'right' });
+        doc.text(String(item.rate), 295, y, { width: 60, align: 'right' });
+        doc.text(item.taxPercent || '0.00', 355, y, { width: 40, align: 'right' });
         doc.text(String(item.totalAmount), 400, y, { width: 70, align: 'right' });
         y += 20;
+
+        // Batch and expiry under the line, as required for pharmacy and packaged food invoices
+        for (const batch of itemBatches.get(item.id) || []) {
+            const expiry = batch.expiryDate ? ` Exp ${batch.expiryDate.toISOString().slice(0, 7)}` : '';
+            doc.fontSize(8).text(`Batch ${batch.batchNumber}${expiry} x ${batch.quantity}`, 60, y - 6, { width: 190 });
+            doc.fontSize(10);
+            y += 8;
+        }
+
+        // Serial numbers back warranty claims, so they go on the customer's copy
+        if (Array.isArray(item.serialNumbers) && item.serialNumbers.length > 0) {
+            const serials = `S/N ${(item.serialNumbers as string[]).join(', ')}`;
+            doc.fontSize(8).text(serials, 60, y - 6, { width: 190 });
+            y += doc.heightOfString(serials, { width: 190 });
+            doc.fontSize(10);
+        }
     }
     
     doc.moveTo(50, y).lineTo(500, y).stroke();
@@ -108,9 +141,21 @@ export class InvoiceService {
         y += 15;
     }
     
-    if (parseFloat(bill.taxAmount) > 0) {
-        doc.text('Tax:', 300, y, { width: 90, align: 'right' });
-        doc.text(bill.taxAmount, rightColX, y, { width: 70, align: 'right' });
+    // GST split; bills created before the split was stored only carry a single tax figure
+    const taxLines = [
+        { label: 'CGST:', amount: bill.cgstAmount },
+        { label: 'SGST:', amount: bill.sgstAmount },
+        { label: 'IGST:', amount: bill.igstAmount },
+        { label: 'Cess:', amount: bill.cessAmount },
+    ].filter(line => parseFloat(line.amount) > 0);
+
+    if (taxLines.length === 0 && parseFloat(bill.taxAmount) > 0) {
+        taxLines.push({ label: 'Tax:', amount: bill.taxAmount });
+    }
+
+    for (const line of taxLines) {
+        doc.text(line.label, 300, y, { width: 90, align: 'right' });
+        doc.text(line.amount, rightColX, y, { width: 70, align: 'right' });
         y += 15;
     }
 
@@ -120,6 +165,12 @@ export class InvoiceService {
     doc.font('Helvetica');
     y += 25;
 
+    if (bill.taxInclusive) {
+        doc.fontSize(8).text('Prices are inclusive of GST.', 50, y, { width: 420 });
+        doc.fontSize(10);
+        y += 15;
+    }
+
     // FOOTER
     doc.fontSize(10).text('Thank you for your business!', 50, y + 50, { align: 'center', width: 500 });
 
@@ -0,0 +1,285 @@
+import { db, DbTransaction } from '../config/database';
+import {
+  storeLocations,
+  locationStock,
+  products,
+  productVariants,
+  productSerials,
+} from '../models/drizzle/schema';
+import { eq, and, ne, sql, asc, count, ilike, or, SQL } from 'drizzle-orm';
+import { CreateLocationInput, UpdateLocationInput, LocationStockQueryInput } from '../schemas/location.schema';
+import { logger } from '../utils/logger';
+
+type StoreLocation = typeof storeLocations.$inferSelect;
+
+export interface LocationStockItem {
+  locationId: string;
+  locationName: string;
+  productId: string;
+  productCode: string;
+  productName: string;
+  variantId: string | null;
+  variantName: string | null;
+  unit: string;
+  quantity: number;
+}
+
+export class LocationService {
+  async getLocations(businessId: string, includeInactive: boolean = false): Promise<StoreLocation[]> {
+    const conditions: SQL[] = [eq(storeLocations.businessId, businessId)];
+    if (!includeInactive) conditions.push(eq(storeLocations.isActive, true));
+
+    return db
+      .select()
+      .from(storeLocations)
+      .where(and(...conditions))
+      .orderBy(sql`${storeLocations.isDefault} DESC`, asc(storeLocations.name));
+  }
+
+  async getLocation(businessId: string, locationId: string): Promise<StoreLocation> {
+    const [location] = await db
+      .select()
+      .from(storeLocations)
+      .where(and(eq(storeLocations.id, locationId), eq(storeLocations.businessId, businessId)))
+      .limit(1);
+
+    if (!location) {
+      throw new Error('Location not found');
+    }
+
+    return location;
+  }
+
+  /**
+   * Stock on hand before the first location existed belongs to no location; it is placed in the first location
+   * so location balances add up to product stock from the start.
+   */
+  private async seedLocationStock(tx: DbTransaction, businessId: string, locationId: string): Promise<void> {
+    const stocked = await tx
+      .select({
+        productId: products.id,
+        currentStock: products.currentStock,
+      })
+      .from(products)
+      .where(and(
+        eq(products.businessId, businessId),
+        eq(products.trackQuantity, true),
+        eq(products.isService, false)
+      ));
+
+    for (const product of stocked) {
+      const variants = await tx
+        .select({ id: productVariants.id, stockQuantity: productVariants.stockQuantity })
+        .from(productVariants)
+        .where(eq(productVariants.productId, product.productId));
+
+      const rows = variants
+        .filter(variant => Number(variant.stockQuantity || 0) !== 0)
+        .map(variant => ({ variantId: variant.id as string | undefined, quantity: Number(variant.stockQuantity || 0) }));
+
+      // Stock moved before variants were set up sits on the product itself
+      const unassigned = Number(product.currentStock || 0) - variants.reduce((total, variant) => total + Number(variant.stockQuantity || 0), 0);
+      if (Math.abs(unassigned) >= 0.005) rows.push({ variantId: undefined, quantity: unassigned });
+
+      for (const row of rows) {
+        await tx.insert(locationStock).values({
+          businessId,
+          locationId,
+          productId: product.productId,
+          variantId: row.variantId,
+          quantity: row.quantity.toFixed(2),
+        });
+      }
+    }
+
+    await tx.update(productSerials)
+      .set({ locationId, updatedAt: new Date() })
+      .where(and(eq(productSerials.businessId, businessId), eq(productSerials.status, 'IN_STOCK')));
+  }
+
+  async createLocation(businessId: string, input: CreateLocationInput): Promise<StoreLocation> {
+    const code = input.code.toUpperCase();
+
+    const location = await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select({ id: storeLocations.id })
+        .from(storeLocations)
+        .where(and(eq(storeLocations.businessId, businessId), eq(storeLocations.code, code)))
+        .limit(1);
+
+      if (existing) {
+        throw new Error('A location with this code already exists');
+      }
+
+      const [locationCount] = await tx
+        .select({ count: count() })
+        .from(storeLocations)
+        .where(eq(storeLocations.businessId, businessId));
+
+      const isFirst = (locationCount?.count || 0) === 0;
+      const isDefault = isFirst || input.isDefault === true;
+
+      if (isDefault && !isFirst) {
+        await tx.update(storeLocations)
+          .set({ isDefault: false, updatedAt: new Date() })
+          .where(eq(storeLocations.businessId, businessId));
+      }
+
+      const [created] = await tx.insert(storeLocations).values({
+        businessId,
+        code,
+        name: input.name,
+        locationType: input.locationType,
+        address: input.address,
+        phone: input.phone,
+        isDefault,
+        notes: input.notes,
+      }).returning();
+
+      if (!created) {
+        throw new Error('Failed to create location');
+      }
+
+      if (isFirst) {
+        await this.seedLocationStock(tx, businessId, created.id);
+      }
+
+      return created;
+    });
+
+    logger.info('Location created', { locationId: location.id, businessId, code });
+
+    return location;
+  }
+
+  async updateLocation(businessId: string, locationId: string, input: UpdateLocationInput): Promise<StoreLocation> {
+    const location = await this.getLocation(businessId, locationId);
+
+    const updateData: Partial<typeof storeLocations.$inferInsert> = { updatedAt: new Date() };
+    if (input.code !== undefined) updateData.code = input.code.toUpperCase();
+    if (input.name !== undefined) updateData.name = input.name;
+    if (input.locationType !== undefined) updateData.locationType = input.locationType;
+    if (input.address !== undefined) updateData.address = input.address;
+    if (input.phone !== undefined) updateData.phone = input.phone;
+    if (input.notes !== undefined) updateData.notes = input.notes;
+
+    if (input.isDefault === false && location.isDefault) {
+      throw new Error('Make another location the default instead');
+    }
+
+    if (input.isActive === false && location.isActive) {
+      if (location.isDefault || input.isDefault) {
+        throw new Error('The default location cannot be deactivated');
+      }
+
+      const [held] = await db
+        .select({ total: sql<string>`COALESCE(SUM(ABS(${locationStock.quantity})), 0)` })
+        .from(locationStock)
+        .where(eq(locationStock.locationId, locationId));
+
+      if (Number(held?.total || 0) > 0) {
+        throw new Error('Transfer out the stock held at this location before deactivating it');
+      }
+
+      updateData.isActive = false;
+    } else if (input.isActive !== undefined) {
+      updateData.isActive = input.isActive;
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      if (updateData.code && updateData.code !== location.code) {
+        const [clash] = await tx
+          .select({ id: storeLocations.id })
+          .from(storeLocations)
+          .where(and(
+            eq(storeLocations.businessId, businessId),
+            eq(storeLocations.code, updateData.code),
+            ne(storeLocations.id, locationId)
+          ))
+          .limit(1);
+
+        if (clash) {
+          throw new Error('A location with this code already exists');
+        }
+      }
+
+      if (input.isDefault && !location.isDefault) {
+        await tx.update(storeLocations)
+          .set({ isDefault: false, updatedAt: new Date() })
+          .where(eq(storeLocations.businessId, businessId));
+        updateData.isDefault = true;
+      }
+
+      const [row] = await tx
+        .update(storeLocations)
+        .set(updateData)
+        .where(eq(storeLocations.id, locationId))
+        .returning();
+
+      return row;
+    });
+
+    if (!updated) {
+      throw new Error('Location not found');
+    }
+
+    logger.info('Location updated', { locationId, businessId });
+
+    return updated;
+  }
+
+  /**
+   * Per-location balances, filtered to one location, one product, or both
+   */
+  async getLocationStock(businessId: string, query: LocationStockQueryInput): Promise<{ items: LocationStockItem[]; pagination: { page: number; limit: number; total: number; totalPages: number } }> {
+    const { locationId, productId, search, includeZero = false, page = 1, limit = 50 } = query;
+
+    const conditions: SQL[] = [eq(locationStock.businessId, businessId)];
+    if (locationId) conditions.push(eq(locationStock.locationId, locationId));
+    if (productId) conditions.push(eq(locationStock.productId, productId));
+    if (!includeZero) conditions.push(ne(locationStock.quantity, '0'));
+    if (search) {
+      const searchCondition = or(ilike(products.name, `%${search}%`), ilike(products.productCode, `%${search}%`));
+      if (searchCondition) conditions.push(searchCondition);
+    }
+
+    const [countResult] = await db
+      .select({ count: count() })
+      .from(locationStock)
+      .innerJoin(products, eq(locationStock.productId, products.id))
+      .where(and(...conditions));
+
+    const total = countResult?.count || 0;
+
+    const rows = await db
+      .select({
+        locationId: locationStock.locationId,
+        locationName: storeLocations.name,
+        productId: locationStock.productId,
+        productCode: products.productCode,
+        productName: products.name,
+        variantId: locationStock.variantId,
+        variantName: productVariants.variantName,
+        unit: products.unit,
+        quantity: locationStock.quantity,
+      })
+      .from(locationStock)
+      .innerJoin(storeLocations, eq(locationStock.locationId, storeLocations.id))
+      .innerJoin(products, eq(locationStock.productId, products.id))
+      .leftJoin(productVariants, eq(locationStock.variantId, productVariants.id))
+      .where(and(...conditions))
+      .orderBy(asc(products.name), asc(storeLocations.name))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      items: rows.map(row => ({ ...row, quantity: Number(row.quantity) })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+}
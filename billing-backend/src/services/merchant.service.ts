@@ -1,13 +1,72 @@
 import { db } from '../config/database';
-import { merchants /*, merchantPayments*/ } from '../models/drizzle/schema';
-import { eq, and, sql, desc, sum, count, SQL } from 'drizzle-orm';
+import { merchants, merchantPayments, merchantPaymentAllocations, purchaseOrders, paymentMethodEnum } from '../models/drizzle/schema';
+import { eq, and, sql, desc, asc, sum, count, gte, lte, inArray, notInArray, isNull, SQL } from 'drizzle-orm';
 import { 
   CreateMerchantInput, 
   UpdateMerchantInput, 
   MerchantQueryInput,
-  MerchantPaymentInput 
+  MerchantPaymentInput,
+  MerchantStatementInput,
+  PayablesAgeingInput
 } from '../schemas/merchant.schema';
 import { logger } from '../utils/logger';
+import { SequenceService } from './sequence.service';
+
+const sequenceService = new SequenceService();
+
+type PaymentMethod = typeof paymentMethodEnum.enumValues[number];
+type MerchantPayment = typeof merchantPayments.$inferSelect;
+type MerchantPaymentAllocation = typeof merchantPaymentAllocations.$inferSelect;
+
+export type AgeingBucket = 'current' | '1-30' | '31-60' | '61-90' | '90+';
+
+interface AgeingOrder {
+  purchaseOrderId: string;
+  orderNumber: string;
+  orderDate: Date;
+  dueDate: Date;
+  daysOverdue: number;
+  balanceAmount: number;
+  bucket: AgeingBucket;
+}
+
+interface MerchantAgeing {
+  merchantId: string;
+  merchantCode: string;
+  merchantName: string;
+  buckets: Record<AgeingBucket, number>;
+  total: number;
+  orders: AgeingOrder[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function emptyBuckets(): Record<AgeingBucket, number> {
+  return { 'current': 0, '1-30': 0, '31-60': 0, '61-90': 0, '90+': 0 };
+}
+
+function getAgeingBucket(daysOverdue: number): AgeingBucket {
+  if (daysOverdue <= 0) return 'current';
+  if (daysOverdue <= 30) return '1-30';
+  if (daysOverdue <= 60) return '31-60';
+  if (daysOverdue <= 90) return '61-90';
+  return '90+';
+}
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+// Purchase orders that count towards what we owe the merchant: sent to the supplier and not cancelled
+function payableOrderConditions(businessId: string, merchantId?: string): SQL[] {
+  const conditions: SQL[] = [
+    eq(purchaseOrders.businessId, businessId),
+    notInArray(purchaseOrders.status, ['PENDING', 'CANCELLED']),
+    isNull(purchaseOrders.deletedAt),
+  ];
+  if (merchantId) conditions.push(eq(purchaseOrders.merchantId, merchantId));
+  return conditions;
+}
 
 export class MerchantService {
   async createMerchant(businessId: string, input: CreateMerchantInput): Promise<typeof merchants.$inferSelect> {
@@ -27,49 +86,54 @@ export class MerchantService {
       notes,
     } = input;
 
-    // Generate merchant code if not provided
-    const finalMerchantCode = merchantCode || await this.generateMerchantCode(businessId);
-
-    // Check if merchant code already exists
-    const existingMerchant = await db
-      .select()
-      .from(merchants)
-      .where(and(
-        eq(merchants.businessId, businessId),
-        eq(merchants.merchantCode, finalMerchantCode)
-      ))
-      .limit(1);
-
-    if (existingMerchant.length > 0) {
-      throw new Error('Merchant with this code already exists');
-    }
+    // Allocate the code and insert in one transaction so the sequence row stays locked until the merchant is committed
+    const { merchant, finalMerchantCode } = await db.transaction(async (tx) => {
+      // Generate merchant code if not provided
+      const finalMerchantCode = merchantCode || await sequenceService.next(tx, businessId, 'MERCHANT');
+
+      // Check if merchant code already exists
+      const existingMerchant = await tx
+        .select()
+        .from(merchants)
+        .where(and(
+          eq(merchants.businessId, businessId),
+          eq(merchants.merchantCode, finalMerchantCode)
+        ))
+        .limit(1);
+
+      if (existingMerchant.length > 0) {
+        throw new Error('Merchant with this code already exists');
+      }
 
-    // Create merchant
-    const [merchant] = await db
-      .insert(merchants)
-      .values({
-        businessId,
-        merchantCode: finalMerchantCode,
-        name,
-        contactPerson,
-        email,
-        phone,
-        alternatePhone,
-        address,
-        accountNumber: bankDetails?.accountNumber,
-        bankName: bankDetails?.bankName,
-        ifscCode: bankDetails?.ifscCode,
-        gstNumber,
-        panNumber,
-        creditLimit: creditLimit?.toString() || '0',
-        paymentTerms: paymentTerms || 30,
-        outstandingBalance: '0',
-        totalPurchases: '0',
-        totalPayments: '0',
-        notes,
-        isActive: true,
-      })
-      .returning();
+      // Create merchant
+      const [created] = await tx
+        .insert(merchants)
+        .values({
+          businessId,
+          merchantCode: finalMerchantCode,
+          name,
+          contactPerson,
+          email,
+          phone,
+          alternatePhone,
+          address,
+          accountNumber: bankDetails?.accountNumber,
+          bankName: bankDetails?.bankName,
+          ifscCode: bankDetails?.ifscCode,
+          gstNumber,
+          panNumber,
+          creditLimit: creditLimit?.toString() || '0',
+          paymentTerms: paymentTerms || 30,
+          outstandingBalance: '0',
+          totalPurchases: '0',
+          totalPayments: '0',
+          notes,
+          isActive: true,
+        })
+        .returning();
+
+      return { merchant: created, finalMerchantCode };
+    });
 
     logger.info('Merchant created', { merchantId: merchant?.id, businessId, merchantCode: finalMerchantCode });
 
@@ -143,7 +207,6 @@ export class MerchantService {
   }
 
   async deleteMerchant(businessId: string, merchantId: string): Promise<{ message: string }> {
-/*
     // Check if merchant has any payments
     const merchantPaymentsData = await db
       .select()
@@ -157,7 +220,6 @@ export class MerchantService {
     if (merchantPaymentsData.length > 0) {
       throw new Error('Cannot delete merchant with existing payments');
     }
-    */
 
     const [deletedMerchant] = await db
       .delete(merchants)
@@ -252,30 +314,382 @@ export class MerchantService {
     };
   }
 
+  /**
+   * Record a payment to a merchant and allocate it against open purchase orders.
+   * Explicit allocations are honoured as given; otherwise the oldest open orders are settled first.
+   * Anything left over is kept on the payment as an advance.
+   */
   async addMerchantPayment(
     businessId: string,
     merchantId: string,
-    _userId: string,
-    _input: MerchantPaymentInput
-  ): Promise<void> {
-    // Stub implementation until merchant_payments table is created
-    logger.warn('addMerchantPayment called but not implemented', { businessId, merchantId });
-    throw new Error('Merchant payments not yet implemented');
+    userId: string,
+    input: MerchantPaymentInput
+  ): Promise<MerchantPayment & { allocations: MerchantPaymentAllocation[] }> {
+    const { amount, method, referenceNumber, notes, paymentDate, allocations } = input;
+
+    const result = await db.transaction(async (tx) => {
+      const [merchant] = await tx
+        .select()
+        .from(merchants)
+        .where(and(
+          eq(merchants.id, merchantId),
+          eq(merchants.businessId, businessId)
+        ))
+        .for('update');
+
+      if (!merchant) {
+        throw new Error('Merchant not found');
+      }
+
+      const openOrders = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(and(
+          ...payableOrderConditions(businessId, merchantId),
+          sql`${purchaseOrders.balanceAmount} > 0`
+        ))
+        .orderBy(asc(purchaseOrders.orderDate), asc(purchaseOrders.createdAt))
+        .for('update');
+
+      // Work out how much goes to each order before writing anything
+      const plan: { order: typeof purchaseOrders.$inferSelect; amount: number }[] = [];
+      if (allocations && allocations.length > 0) {
+        const requested = round2(allocations.reduce((total, allocation) => total + allocation.amount, 0));
+        if (requested > amount) {
+          throw new Error('Allocated amount exceeds payment amount');
+        }
+
+        for (const allocation of allocations) {
+          const order = openOrders.find(o => o.id === allocation.purchaseOrderId);
+          if (!order) {
+            throw new Error(`Purchase order ${allocation.purchaseOrderId} not found or already paid`);
+          }
+          if (plan.some(p => p.order.id === order.id)) {
+            throw new Error(`Purchase order ${order.orderNumber} is allocated more than once`);
+          }
+          if (allocation.amount > Number(order.balanceAmount)) {
+            throw new Error(`Allocation for ${order.orderNumber} exceeds its balance of ${order.balanceAmount}`);
+          }
+          plan.push({ order, amount: allocation.amount });
+        }
+      } else {
+        let remaining = amount;
+        for (const order of openOrders) {
+          if (remaining <= 0) break;
+          const allocated = round2(Math.min(remaining, Number(order.balanceAmount)));
+          plan.push({ order, amount: allocated });
+          remaining = round2(remaining - allocated);
+        }
+      }
+
+      const allocatedAmount = round2(plan.reduce((total, p) => total + p.amount, 0));
+      const date = paymentDate ? new Date(paymentDate) : new Date();
+      const paymentNumber = await sequenceService.next(tx, businessId, 'MERCHANT_PAYMENT', { date });
+
+      const [payment] = await tx
+        .insert(merchantPayments)
+        .values({
+          businessId,
+          merchantId,
+          paymentNumber,
+          paymentDate: date,
+          amount: amount.toFixed(2),
+          allocatedAmount: allocatedAmount.toFixed(2),
+          unallocatedAmount: round2(amount - allocatedAmount).toFixed(2),
+          method: method as PaymentMethod,
+          status: 'COMPLETED',
+          referenceNumber,
+          notes,
+          createdBy: userId,
+        })
+        .returning();
+
+      if (!payment) {
+        throw new Error('Failed to create merchant payment');
+      }
+
+      const createdAllocations: MerchantPaymentAllocation[] = [];
+      for (const [index, { order, amount: allocated }] of plan.entries()) {
+        const balanceBefore = Number(order.balanceAmount);
+        const balanceAfter = round2(balanceBefore - allocated);
+        const paidAmount = round2(Number(order.paidAmount) + allocated);
+
+        await tx
+          .update(purchaseOrders)
+          .set({
+            paidAmount: paidAmount.toFixed(2),
+            balanceAmount: balanceAfter.toFixed(2),
+            paymentStatus: balanceAfter <= 0 ? 'PAID' : 'PARTIAL',
+            updatedAt: new Date(),
+          })
+          .where(eq(purchaseOrders.id, order.id));
+
+        const [allocation] = await tx
+          .insert(merchantPaymentAllocations)
+          .values({
+            paymentId: payment.id,
+            purchaseOrderId: order.id,
+            allocatedAmount: allocated.toFixed(2),
+            orderBalanceBefore: balanceBefore.toFixed(2),
+            orderBalanceAfter: balanceAfter.toFixed(2),
+            allocationDate: date,
+            allocationOrder: index + 1,
+          })
+          .returning();
+
+        if (allocation) createdAllocations.push(allocation);
+      }
+
+      // The full amount reduces what we owe; an unallocated remainder shows up as an advance (negative balance)
+      await tx
+        .update(merchants)
+        .set({
+          outstandingBalance: sql`${merchants.outstandingBalance} - ${amount.toFixed(2)}`,
+          totalPayments: sql`${merchants.totalPayments} + ${amount.toFixed(2)}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(merchants.id, merchantId));
+
+      return { ...payment, allocations: createdAllocations };
+    });
+
+    logger.info('Merchant payment added', {
+      paymentId: result.id,
+      merchantId,
+      amount,
+      allocatedAmount: result.allocatedAmount,
+      orders: result.allocations.length,
+    });
+
+    return result;
   }
 
-  async getMerchantPayments(_businessId: string, _merchantId: string, page: number = 1, limit: number = 20): Promise<{ payments: unknown[]; pagination: { page: number; limit: number; total: number; totalPages: number } }> {
-    // Stub implementation until merchant_payments table is created
+  async getMerchantPayments(businessId: string, merchantId: string, page: number = 1, limit: number = 20): Promise<{ payments: (MerchantPayment & { allocations: MerchantPaymentAllocation[] })[]; pagination: { page: number; limit: number; total: number; totalPages: number } }> {
+    await this.getMerchant(businessId, merchantId);
+
+    const conditions = and(
+      eq(merchantPayments.businessId, businessId),
+      eq(merchantPayments.merchantId, merchantId)
+    );
+
+    const [countResult] = await db
+      .select({ count: count() })
+      .from(merchantPayments)
+      .where(conditions);
+
+    const total = countResult?.count || 0;
+    const offset = (page - 1) * limit;
+
+    const paymentRows = await db
+      .select()
+      .from(merchantPayments)
+      .where(conditions)
+      .orderBy(desc(merchantPayments.paymentDate), desc(merchantPayments.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const allocationRows = paymentRows.length > 0
+      ? await db
+        .select()
+        .from(merchantPaymentAllocations)
+        .where(inArray(merchantPaymentAllocations.paymentId, paymentRows.map(p => p.id)))
+        .orderBy(merchantPaymentAllocations.allocationOrder)
+      : [];
+
     return {
-      payments: [],
+      payments: paymentRows.map(payment => ({
+        ...payment,
+        allocations: allocationRows.filter(a => a.paymentId === payment.id),
+      })),
       pagination: {
         page,
         limit,
-        total: 0,
-        totalPages: 0,
+        total,
+        totalPages: Math.ceil(total / limit),
       },
     };
   }
 
+  async getMerchantStatement(businessId: string, merchantId: string, input: MerchantStatementInput): Promise<{ merchant: typeof merchants.$inferSelect; openingBalance: number; transactions: unknown[]; closingBalance: number; period: { startDate: Date | null; endDate: Date | null } }> {
+    const { startDate, endDate } = input;
+
+    const merchant = await this.getMerchant(businessId, merchantId);
+
+    // Purchase orders are what we owe
+    const orderConditions: SQL[] = payableOrderConditions(businessId, merchantId);
+
+    if (startDate) {
+      orderConditions.push(gte(purchaseOrders.orderDate, new Date(startDate)));
+    }
+
+    if (endDate) {
+      orderConditions.push(lte(purchaseOrders.orderDate, new Date(endDate)));
+    }
+
+    const merchantOrders = await db
+      .select()
+      .from(purchaseOrders)
+      .where(and(...orderConditions))
+      .orderBy(purchaseOrders.orderDate);
+
+    // Payments reduce it
+    const paymentConditions: SQL[] = [
+      eq(merchantPayments.merchantId, merchantId),
+      eq(merchantPayments.businessId, businessId),
+      eq(merchantPayments.status, 'COMPLETED'),
+    ];
+
+    if (startDate) {
+      paymentConditions.push(gte(merchantPayments.paymentDate, new Date(startDate)));
+    }
+
+    if (endDate) {
+      paymentConditions.push(lte(merchantPayments.paymentDate, new Date(endDate)));
+    }
+
+    const paymentRows = await db
+      .select()
+      .from(merchantPayments)
+      .where(and(...paymentConditions))
+      .orderBy(merchantPayments.paymentDate);
+
+    // Calculate opening balance
+    let openingBalance = 0;
+    if (startDate) {
+      const [openingOrders] = await db
+        .select({ total: sum(purchaseOrders.totalAmount) })
+        .from(purchaseOrders)
+        .where(and(
+          ...payableOrderConditions(businessId, merchantId),
+          sql`${purchaseOrders.orderDate} < ${new Date(startDate)}`
+        ));
+
+      const [openingPayments] = await db
+        .select({ total: sum(merchantPayments.amount) })
+        .from(merchantPayments)
+        .where(and(
+          eq(merchantPayments.merchantId, merchantId),
+          eq(merchantPayments.businessId, businessId),
+          eq(merchantPayments.status, 'COMPLETED'),
+          sql`${merchantPayments.paymentDate} < ${new Date(startDate)}`
+        ));
+
+      openingBalance = Number(openingOrders?.total || 0) - Number(openingPayments?.total || 0);
+    }
+
+    // Combine and sort transactions
+    const transactions = [
+      ...merchantOrders.map(order => ({
+        date: order.orderDate,
+        type: 'PURCHASE_ORDER' as const,
+        description: `Purchase order ${order.orderNumber}`,
+        debit: Number(order.totalAmount),
+        credit: 0,
+        balance: 0, // Will be calculated
+      })),
+      ...paymentRows.map(payment => ({
+        date: payment.paymentDate,
+        type: 'PAYMENT' as const,
+        description: `Payment ${payment.paymentNumber}`,
+        debit: 0,
+        credit: Number(payment.amount),
+        balance: 0, // Will be calculated
+      })),
+    ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    // Calculate running balance
+    let runningBalance = openingBalance;
+    for (const transaction of transactions) {
+      runningBalance = round2(runningBalance + transaction.debit - transaction.credit);
+      transaction.balance = runningBalance;
+    }
+
+    return {
+      merchant,
+      openingBalance,
+      transactions,
+      closingBalance: runningBalance,
+      period: {
+        startDate: startDate ? new Date(startDate) : null,
+        endDate: endDate ? new Date(endDate) : null,
+      },
+    };
+  }
+
+  /**
+   * Age unpaid purchase order balances by how far past their due date they are.
+   * An order falls due the merchant's payment terms after it was placed.
+   */
+  async getPayablesAgeing(businessId: string, input: PayablesAgeingInput): Promise<{ asOfDate: Date; buckets: Record<AgeingBucket, number>; total: number; merchants: MerchantAgeing[] }> {
+    const asOfDate = input.asOfDate ? new Date(input.asOfDate) : new Date();
+
+    if (input.merchantId) {
+      await this.getMerchant(businessId, input.merchantId);
+    }
+
+    const rows = await db
+      .select({
+        order: purchaseOrders,
+        merchantCode: merchants.merchantCode,
+        merchantName: merchants.name,
+        paymentTerms: merchants.paymentTerms,
+      })
+      .from(purchaseOrders)
+      .innerJoin(merchants, eq(purchaseOrders.merchantId, merchants.id))
+      .where(and(
+        ...payableOrderConditions(businessId, input.merchantId),
+        sql`${purchaseOrders.balanceAmount} > 0`,
+        lte(purchaseOrders.orderDate, asOfDate)
+      ))
+      .orderBy(asc(purchaseOrders.orderDate));
+
+    const buckets = emptyBuckets();
+    const byMerchant = new Map<string, MerchantAgeing>();
+
+    for (const row of rows) {
+      const { order } = row;
+      const dueDate = new Date(order.orderDate.getTime() + (row.paymentTerms ?? 30) * DAY_MS);
+      const daysOverdue = Math.floor((asOfDate.getTime() - dueDate.getTime()) / DAY_MS);
+      const bucket = getAgeingBucket(daysOverdue);
+      const balanceAmount = Number(order.balanceAmount);
+
+      let entry = byMerchant.get(order.merchantId);
+      if (!entry) {
+        entry = {
+          merchantId: order.merchantId,
+          merchantCode: row.merchantCode,
+          merchantName: row.merchantName,
+          buckets: emptyBuckets(),
+          total: 0,
+          orders: [],
+        };
+        byMerchant.set(order.merchantId, entry);
+      }
+
+      entry.buckets[bucket] = round2(entry.buckets[bucket] + balanceAmount);
+      entry.total = round2(entry.total + balanceAmount);
+      entry.orders.push({
+        purchaseOrderId: order.id,
+        orderNumber: order.orderNumber,
+        orderDate: order.orderDate,
+        dueDate,
+        daysOverdue: Math.max(daysOverdue, 0),
+        balanceAmount,
+        bucket,
+      });
+      buckets[bucket] = round2(buckets[bucket] + balanceAmount);
+    }
+
+    const merchantAgeing = [...byMerchant.values()].sort((a, b) => b.total - a.total);
+
+    return {
+      asOfDate,
+      buckets,
+      total: round2(merchantAgeing.reduce((total, m) => total + m.total, 0)),
+      merchants: merchantAgeing,
+    };
+  }
+
   async getMerchantStats(businessId: string): Promise<{ totalMerchants: number; activeMerchants: number; merchantsWithOutstanding: number; totalOutstanding: number }> {
     const [totalMerchants] = await db
       .select({ count: count() })
@@ -310,24 +724,4 @@ export class MerchantService {
       totalOutstanding: Number(totalOutstanding?.total || 0),
     };
   }
-
-  private async generateMerchantCode(businessId: string): Promise<string> {
-    const [lastMerchant] = await db
-      .select({ merchantCode: merchants.merchantCode })
-      .from(merchants)
-      .where(eq(merchants.businessId, businessId))
-      .orderBy(sql`${merchants.merchantCode} DESC`)
-      .limit(1);
-
-    let nextNumber = 1;
-    
-    if (lastMerchant) {
-      const lastNumber = parseInt(lastMerchant.merchantCode.replace(/[^0-9]/g, ''));
-      if (!isNaN(lastNumber)) {
-        nextNumber = lastNumber + 1;
-      }
-    }
-
-    return `MERC-${nextNumber.toString().padStart(4, '0')}`;
-  }
 }
\ No newline at end of file
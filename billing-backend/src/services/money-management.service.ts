@@ -1,11 +1,22 @@
-
-
-
+import { db, DbTransaction } from '../config/database';
+import {
+  customers,
+  bills,
+  moneyTransactions,
+  walletTransactions,
+  users,
+} from '../models/drizzle/schema';
+import { eq, and, asc, desc, gt, gte, lte, inArray, sql, SQL } from 'drizzle-orm';
 import { logger } from '../utils/logger';
 import { z } from 'zod';
+import { AuditService } from './audit.service';
+import { PermissionService, Permission } from './permission.service';
+import { BillingService } from './billing.service';
+import { AuthenticatedRequest } from '../types/common';
 
-// const auditService = new AuditService();
-// const permissionService = new PermissionService();
+const auditService = new AuditService();
+const permissionService = new PermissionService();
+const billingService = new BillingService();
 
 // Validation schemas
 const depositMoneySchema = z.object({
@@ -31,79 +42,166 @@ const transferMoneySchema = z.object({
   notes: z.string().optional(),
 });
 
+const payBillFromWalletSchema = z.object({
+  billId: z.string().uuid(),
+  amount: z.number().positive().multipleOf(0.01).optional(), // Defaults to as much of the bill as the wallet covers
+  notes: z.string().optional(),
+});
+
+type Customer = typeof customers.$inferSelect;
+type MoneyTransaction = typeof moneyTransactions.$inferSelect;
+type WalletTransaction = typeof walletTransactions.$inferSelect;
+type WalletEntryType = 'DEPOSIT' | 'WITHDRAWAL' | 'TRANSFER_IN' | 'TRANSFER_OUT';
+
+interface WalletEntry {
+  customer: Customer;
+  type: WalletEntryType;
+  amount: number;
+  method?: z.infer<typeof depositMoneySchema>['method'];
+  referenceNumber?: string;
+  description: string;
+  notes?: string;
+  fromAccount?: string;
+  toAccount?: string;
+}
+
+interface PostedEntry {
+  transaction: MoneyTransaction;
+  walletTransaction: WalletTransaction;
+  customer: Customer;
+}
+
 export class MoneyManagementService {
+  private async requirePermission(userId: string, businessId: string, permission: Permission, message: string): Promise<void> {
+    const hasPermission = await permissionService.hasPermission(userId, businessId, permission);
+    if (!hasPermission) {
+      throw new Error(message);
+    }
+  }
+
   /**
-   * Deposit money to customer account
+   * Lock the customers' rows for the rest of the transaction so concurrent entries cannot spend the same balance.
+   * Rows are locked in id order, so two transfers in opposite directions cannot deadlock.
    */
-  async depositMoney(
-    _businessId: string,
-    _userId: string,
-    _data: z.infer<typeof depositMoneySchema>
-  ): Promise<unknown> {
-    try {
-      /*
-      // Check permission
-      const hasPermission = await permissionService.hasPermission(
-        userId,
-        businessId,
-        'MONEY_DEPOSIT'
-      );
+  private async lockCustomers(tx: DbTransaction, businessId: string, customerIds: string[]): Promise<Customer[]> {
+    const locked = await tx
+      .select()
+      .from(customers)
+      .where(and(eq(customers.businessId, businessId), inArray(customers.id, customerIds)))
+      .orderBy(asc(customers.id))
+      .for('update');
 
-      if (!hasPermission) {
-        throw new Error('You do not have permission to deposit money');
+    return customerIds.map(customerId => {
+      const customer = locked.find(row => row.id === customerId);
+      if (!customer) {
+        throw new Error('Customer not found or does not belong to this business');
       }
+      return customer;
+    });
+  }
 
-      // Get customer and verify business ownership
-      const customer = await db
-        .select()
-        .from(customers)
-        .where(and(eq(customers.id, data.customerId), eq(customers.businessId, businessId)))
-        .limit(1);
+  /**
+   * Move a locked customer's wallet and record the entry in both the money and wallet ledgers
+   */
+  private async postEntry(tx: DbTransaction, businessId: string, userId: string, entry: WalletEntry): Promise<PostedEntry> {
+    const { customer, type, amount } = entry;
+    const isCredit = type === 'DEPOSIT' || type === 'TRANSFER_IN';
+    const balanceBefore = parseFloat(customer.walletBalance);
+    const balanceAfter = Number((isCredit ? balanceBefore + amount : balanceBefore - amount).toFixed(2));
 
-      if (!customer.length) {
-        throw new Error('Customer not found or does not belong to this business');
-      }
+    if (!isCredit && amount > balanceBefore + 0.005) {
+      throw new Error(`Insufficient wallet balance (${balanceBefore.toFixed(2)}) for ${amount.toFixed(2)}`);
+    }
 
-      const customerData = customer[0];
-      const currentBalance = parseFloat(String(customerData.currentBalance || '0'));
-      const currentDeposits = parseFloat(String(customerData.totalDeposits || '0'));
-      const newBalance = currentBalance + data.amount;
-      const newTotalDeposits = currentDeposits + data.amount;
-
-      // Update customer balance
-      await db
-        .update(customers)
-        .set({
-          currentBalance: String(newBalance),
-          totalDeposits: String(newTotalDeposits),
-          updatedAt: new Date(),
-        })
-        .where(eq(customers.id, data.customerId));
+    const updateData: Partial<typeof customers.$inferInsert> = {
+      walletBalance: balanceAfter.toFixed(2),
+      updatedAt: new Date(),
+    };
+    if (type === 'DEPOSIT') updateData.totalDeposits = (parseFloat(customer.totalDeposits) + amount).toFixed(2);
+    if (type === 'WITHDRAWAL') updateData.totalWithdrawals = (parseFloat(customer.totalWithdrawals) + amount).toFixed(2);
 
-      // Create money transaction record
-      const transaction = await db.insert(moneyTransactions).values({
-        businessId,
-        customerId: data.customerId,
-        type: 'DEPOSIT',
-        amount: String(data.amount),
-        method: data.method,
-        referenceNumber: data.referenceNumber,
-        notes: data.notes,
-        previousBalance: String(currentBalance),
-        newBalance: String(newBalance),
-        performedBy: userId,
-        status: 'COMPLETED',
-      }).returning();
+    const [updatedCustomer] = await tx
+      .update(customers)
+      .set(updateData)
+      .where(eq(customers.id, customer.id))
+      .returning();
+
+    if (!updatedCustomer) throw new Error('Failed to update customer wallet');
+
+    const [transaction] = await tx.insert(moneyTransactions).values({
+      businessId,
+      transactionType: type,
+      amount: amount.toFixed(2),
+      customerId: customer.id,
+      previousBalance: balanceBefore.toFixed(2),
+      newBalance: balanceAfter.toFixed(2),
+      method: entry.method,
+      referenceNumber: entry.referenceNumber,
+      fromAccount: entry.fromAccount,
+      toAccount: entry.toAccount,
+      status: 'COMPLETED',
+      description: entry.description,
+      notes: entry.notes,
+      performedBy: userId,
+    }).returning();
+
+    if (!transaction) throw new Error('Failed to record money transaction');
+
+    const [walletTransaction] = await tx.insert(walletTransactions).values({
+      businessId,
+      customerId: customer.id,
+      transactionType: type,
+      amount: amount.toFixed(2),
+      balanceBefore: balanceBefore.toFixed(2),
+      balanceAfter: balanceAfter.toFixed(2),
+      moneyTransactionId: transaction.id,
+      paymentMethod: entry.method,
+      referenceNumber: entry.referenceNumber,
+      description: entry.description,
+      notes: entry.notes,
+      performedBy: userId,
+    }).returning();
+
+    if (!walletTransaction) throw new Error('Failed to record wallet transaction');
+
+    return { transaction, walletTransaction, customer: updatedCustomer };
+  }
+
+  /**
+   * Deposit money to customer account
+   */
+  async depositMoney(
+    businessId: string,
+    userId: string,
+    data: z.infer<typeof depositMoneySchema>,
+    req?: AuthenticatedRequest
+  ): Promise<PostedEntry> {
+    try {
+      await this.requirePermission(userId, businessId, 'MONEY_DEPOSIT', 'You do not have permission to deposit money');
+
+      const result = await db.transaction(async (tx) => {
+        const [customer] = await this.lockCustomers(tx, businessId, [data.customerId]);
+        if (!customer) throw new Error('Customer not found or does not belong to this business');
+
+        return this.postEntry(tx, businessId, userId, {
+          customer,
+          type: 'DEPOSIT',
+          amount: data.amount,
+          method: data.method,
+          referenceNumber: data.referenceNumber,
+          description: `Deposited ${data.amount.toFixed(2)} via ${data.method}`,
+          notes: data.notes,
+        });
+      });
 
-      // Audit log
       await auditService.logCustomerAction(
-        'MONEY_DEPOSIT',
+        'UPDATE',
         businessId,
         userId,
         data.customerId,
-        { currentBalance: customerData.currentBalance || 0 },
-        { currentBalance: newBalance },
-        `Deposited ${data.amount} via ${data.method}`
+        { walletBalance: result.walletTransaction.balanceBefore },
+        { walletBalance: result.walletTransaction.balanceAfter, deposit: data.amount, method: data.method },
+        req
       );
 
       logger.info('Money deposited successfully', {
@@ -111,21 +209,12 @@ export class MoneyManagementService {
         userId,
         customerId: data.customerId,
         amount: data.amount,
-        transactionId: transaction[0].id,
+        transactionId: result.transaction.id,
       });
 
-      return {
-        transaction: transaction[0],
-        customer: {
-          ...customerData,
-          currentBalance: newBalance,
-          totalDeposits: (customerData.totalDeposits || 0) + data.amount,
-        },
-      };
-      */
-      throw new Error("Feature disabled due to missing schema");
+      return result;
     } catch (error) {
-      logger.error('Error depositing money', { error, businessId: _businessId, userId: _userId, data: _data });
+      logger.error('Error depositing money', { error, businessId, userId, data });
       throw error;
     }
   }
@@ -134,18 +223,50 @@ export class MoneyManagementService {
    * Withdraw money from customer account
    */
   async withdrawMoney(
-    _businessId: string,
-    _userId: string,
-    _data: z.infer<typeof withdrawMoneySchema>
-  ): Promise<unknown> {
+    businessId: string,
+    userId: string,
+    data: z.infer<typeof withdrawMoneySchema>,
+    req?: AuthenticatedRequest
+  ): Promise<PostedEntry> {
     try {
-      /*
-      // Check permission
-      // ... (code omitted for brevity in comment)
-      */
-      throw new Error("Feature disabled");
+      await this.requirePermission(userId, businessId, 'MONEY_WITHDRAW', 'You do not have permission to withdraw money');
+
+      const result = await db.transaction(async (tx) => {
+        const [customer] = await this.lockCustomers(tx, businessId, [data.customerId]);
+        if (!customer) throw new Error('Customer not found or does not belong to this business');
+
+        return this.postEntry(tx, businessId, userId, {
+          customer,
+          type: 'WITHDRAWAL',
+          amount: data.amount,
+          method: data.method,
+          referenceNumber: data.referenceNumber,
+          description: `Withdrew ${data.amount.toFixed(2)} via ${data.method}`,
+          notes: data.notes,
+        });
+      });
+
+      await auditService.logCustomerAction(
+        'UPDATE',
+        businessId,
+        userId,
+        data.customerId,
+        { walletBalance: result.walletTransaction.balanceBefore },
+        { walletBalance: result.walletTransaction.balanceAfter, withdrawal: data.amount, method: data.method },
+        req
+      );
+
+      logger.info('Money withdrawn successfully', {
+        businessId,
+        userId,
+        customerId: data.customerId,
+        amount: data.amount,
+        transactionId: result.transaction.id,
+      });
+
+      return result;
     } catch (error) {
-      logger.error('Error withdrawing money', { error, businessId: _businessId, userId: _userId, data: _data });
+      logger.error('Error withdrawing money', { error, businessId, userId, data });
       throw error;
     }
   }
@@ -154,17 +275,120 @@ export class MoneyManagementService {
    * Transfer money between customer accounts
    */
   async transferMoney(
-    _businessId: string,
-    _userId: string,
-    _data: z.infer<typeof transferMoneySchema>
-  ): Promise<unknown> {
+    businessId: string,
+    userId: string,
+    data: z.infer<typeof transferMoneySchema>,
+    req?: AuthenticatedRequest
+  ): Promise<{ from: PostedEntry; to: PostedEntry }> {
     try {
-      /*
-      // ... code
-      */
-      throw new Error("Feature disabled");
+      if (data.fromCustomerId === data.toCustomerId) {
+        throw new Error('Cannot transfer money to the same customer');
+      }
+
+      await this.requirePermission(userId, businessId, 'MONEY_TRANSFER', 'You do not have permission to transfer money');
+
+      const result = await db.transaction(async (tx) => {
+        const [fromCustomer, toCustomer] = await this.lockCustomers(tx, businessId, [data.fromCustomerId, data.toCustomerId]);
+        if (!fromCustomer || !toCustomer) throw new Error('Customer not found or does not belong to this business');
+
+        const from = await this.postEntry(tx, businessId, userId, {
+          customer: fromCustomer,
+          type: 'TRANSFER_OUT',
+          amount: data.amount,
+          description: `Transferred ${data.amount.toFixed(2)} to ${toCustomer.firstName} ${toCustomer.lastName ?? ''}`.trim(),
+          notes: data.notes,
+          fromAccount: fromCustomer.id,
+          toAccount: toCustomer.id,
+        });
+
+        const to = await this.postEntry(tx, businessId, userId, {
+          customer: toCustomer,
+          type: 'TRANSFER_IN',
+          amount: data.amount,
+          description: `Received ${data.amount.toFixed(2)} from ${fromCustomer.firstName} ${fromCustomer.lastName ?? ''}`.trim(),
+          notes: data.notes,
+          fromAccount: fromCustomer.id,
+          toAccount: toCustomer.id,
+        });
+
+        return { from, to };
+      });
+
+      await auditService.logCustomerAction(
+        'UPDATE',
+        businessId,
+        userId,
+        data.fromCustomerId,
+        { walletBalance: result.from.walletTransaction.balanceBefore },
+        { walletBalance: result.from.walletTransaction.balanceAfter, transferTo: data.toCustomerId, amount: data.amount },
+        req
+      );
+      await auditService.logCustomerAction(
+        'UPDATE',
+        businessId,
+        userId,
+        data.toCustomerId,
+        { walletBalance: result.to.walletTransaction.balanceBefore },
+        { walletBalance: result.to.walletTransaction.balanceAfter, transferFrom: data.fromCustomerId, amount: data.amount },
+        req
+      );
+
+      logger.info('Money transferred successfully', {
+        businessId,
+        userId,
+        fromCustomerId: data.fromCustomerId,
+        toCustomerId: data.toCustomerId,
+        amount: data.amount,
+      });
+
+      return result;
     } catch (error) {
-      logger.error('Error transferring money', { error, businessId: _businessId, userId: _userId, data: _data });
+      logger.error('Error transferring money', { error, businessId, userId, data });
+      throw error;
+    }
+  }
+
+  /**
+   * Pay a bill from the customer's wallet. Goes through checkout as a WALLET tender, which locks the customer,
+   * checks the balance again and records the USED_IN_BILL entry alongside the payment.
+   */
+  async payBillFromWallet(
+    businessId: string,
+    userId: string,
+    data: z.infer<typeof payBillFromWalletSchema>,
+    req?: AuthenticatedRequest
+  ): Promise<Awaited<ReturnType<BillingService['checkout']>>> {
+    try {
+      const [bill] = await db
+        .select({ id: bills.id, customerId: bills.customerId, balanceAmount: bills.balanceAmount })
+        .from(bills)
+        .where(and(eq(bills.id, data.billId), eq(bills.businessId, businessId)))
+        .limit(1);
+
+      if (!bill) throw new Error('Bill not found');
+      if (!bill.customerId) throw new Error('Wallet payments need a customer on the bill');
+
+      const [customer] = await db
+        .select({ walletBalance: customers.walletBalance })
+        .from(customers)
+        .where(eq(customers.id, bill.customerId))
+        .limit(1);
+
+      const amount = data.amount ?? Number(Math.min(parseFloat(bill.balanceAmount), parseFloat(customer?.walletBalance ?? '0')).toFixed(2));
+      if (amount <= 0) {
+        throw new Error('Wallet balance is empty');
+      }
+
+      const result = await billingService.checkout(businessId, userId, data.billId, {
+        tenders: [{ method: 'WALLET', amount }],
+        notes: data.notes,
+      }, req);
+
+      logger.info('Bill paid from wallet', { businessId, userId, billId: data.billId, customerId: bill.customerId, amount });
+
+      return result;
+    } catch (error) {
+      logger.error('Error paying bill from wallet', { error, businessId, userId, data });
       throw error;
     }
   }
@@ -176,39 +400,32 @@ export class MoneyManagementService {
     businessId: string,
     _userId: string,
     customerId: string,
-    _limit: number = 50,
-    _offset: number = 0,
-    _startDate?: Date,
-    _endDate?: Date
+    limit: number = 50,
+    offset: number = 0,
+    startDate?: Date,
+    endDate?: Date
   ): Promise<unknown> {
     try {
-      /*
-      // Check permission
-      const hasPermission = await permissionService.hasPermission(
-        userId,
-        businessId,
-        'CUSTOMER_READ'
-      );
-
-      if (!hasPermission) {
-        throw new Error('You do not have permission to view customer details');
-      }
-
-      // Get customer and verify business ownership
-      const customer = await db
+      const [customer] = await db
         .select()
         .from(customers)
         .where(and(eq(customers.id, customerId), eq(customers.businessId, businessId)))
         .limit(1);
 
-      if (!customer.length) {
+      if (!customer) {
         throw new Error('Customer not found or does not belong to this business');
       }
 
-      // Build query for transactions
-      let query = db
+      const conditions: SQL[] = [
+        eq(walletTransactions.businessId, businessId),
+        eq(walletTransactions.customerId, customerId),
+      ];
+      if (startDate) conditions.push(gte(walletTransactions.transactionDate, startDate));
+      if (endDate) conditions.push(lte(walletTransactions.transactionDate, endDate));
+
+      const transactions = await db
         .select({
-          transaction: moneyTransactions,
+          transaction: walletTransactions,
           performedByUser: {
             id: users.id,
             firstName: users.firstName,
@@ -216,81 +433,36 @@ export class MoneyManagementService {
             email: users.email,
           },
         })
-        .from(moneyTransactions)
-        .leftJoin(users, eq(moneyTransactions.performedBy, users.id))
-        .where(
-          and(
-            eq(moneyTransactions.businessId, businessId),
-            eq(moneyTransactions.customerId, customerId)
-          )
-        )
-        .orderBy(desc(moneyTransactions.createdAt))
+        .from(walletTransactions)
+        .leftJoin(users, eq(walletTransactions.performedBy, users.id))
+        .where(and(...conditions))
+        .orderBy(desc(walletTransactions.transactionDate), desc(walletTransactions.createdAt))
         .limit(limit)
         .offset(offset);
 
-      // Add date filters if provided
-      if (startDate || endDate) {
-        const conditions = [
-          eq(moneyTransactions.businessId, businessId),
-          eq(moneyTransactions.customerId, customerId),
-        ];
-
-        if (startDate) {
-          conditions.push(sql`money_transactions.created_at >= ${startDate}`);
-        }
-        if (endDate) {
-          conditions.push(sql`money_transactions.created_at <= ${endDate}`);
-        }
-
-        query = db
-          .select({
-            transaction: moneyTransactions,
-            performedByUser: {
-              id: users.id,
-              firstName: users.firstName,
-              lastName: users.lastName,
-              email: users.email,
-            },
-          })
-          .from(moneyTransactions)
-          .leftJoin(users, eq(moneyTransactions.performedBy, users.id))
-          .where(and(...conditions))
-          .orderBy(desc(moneyTransactions.createdAt))
-          .limit(limit)
-          .offset(offset);
-      }
-
-      const transactions = await query;
-
-      // Get transaction statistics
-      const stats = await db
+      const [stats] = await db
         .select({
-          totalDeposits: sql<string>`sum(case when ${moneyTransactions.type} = 'DEPOSIT' then ${moneyTransactions.amount} else 0 end)`,
-          totalWithdrawals: sql<string>`sum(case when ${moneyTransactions.type} = 'WITHDRAWAL' then ${moneyTransactions.amount} else 0 end)`,
-          totalTransfersIn: sql<string>`sum(case when ${moneyTransactions.type} = 'TRANSFER' then ${moneyTransactions.amount} else 0 end)`,
-          transactionCount: sql<number>`count(*)`,
+          totalDeposits: sql<string>`coalesce(sum(case when ${walletTransactions.transactionType} = 'DEPOSIT' then ${walletTransactions.amount} else 0 end), 0)`,
+          totalWithdrawals: sql<string>`coalesce(sum(case when ${walletTransactions.transactionType} = 'WITHDRAWAL' then ${walletTransactions.amount} else 0 end), 0)`,
+          totalTransfersIn: sql<string>`coalesce(sum(case when ${walletTransactions.transactionType} = 'TRANSFER_IN' then ${walletTransactions.amount} else 0 end), 0)`,
+          totalTransfersOut: sql<string>`coalesce(sum(case when ${walletTransactions.transactionType} = 'TRANSFER_OUT' then ${walletTransactions.amount} else 0 end), 0)`,
+          totalUsedInBills: sql<string>`coalesce(sum(case when ${walletTransactions.transactionType} = 'USED_IN_BILL' then ${walletTransactions.amount} else 0 end), 0)`,
+          totalRefunds: sql<string>`coalesce(sum(case when ${walletTransactions.transactionType} = 'REFUND' then ${walletTransactions.amount} else 0 end), 0)`,
+          transactionCount: sql<number>`count(*)`.mapWith(Number),
         })
-        .from(moneyTransactions)
-        .where(
-          and(
-            eq(moneyTransactions.businessId, businessId),
-            eq(moneyTransactions.customerId, customerId),
-            eq(moneyTransactions.status, 'COMPLETED')
-          )
-        );
+        .from(walletTransactions)
+        .where(and(...conditions));
 
       return {
-        customer: customer[0],
+        customer,
         transactions,
-        stats: stats[0],
+        stats,
         pagination: {
           limit,
           offset,
-          total: stats[0]?.transactionCount || 0,
+          total: stats?.transactionCount || 0,
         },
       };
-      */
-      throw new Error("Feature disabled");
     } catch (error) {
       logger.error('Error getting customer money history', { error, businessId, customerId });
       throw error;
@@ -302,10 +474,46 @@ export class MoneyManagementService {
    */
   async getBusinessMoneySummary(businessId: string, _userId: string): Promise<unknown> {
     try {
-      /*
-      // ... code
-      */
-      throw new Error("Feature disabled");
+      const [wallets] = await db
+        .select({
+          totalWalletBalance: sql<string>`coalesce(sum(${customers.walletBalance}), 0)`,
+          totalDeposits: sql<string>`coalesce(sum(${customers.totalDeposits}), 0)`,
+          totalWithdrawals: sql<string>`coalesce(sum(${customers.totalWithdrawals}), 0)`,
+          customersWithBalance: sql<number>`count(*) filter (where ${gt(customers.walletBalance, '0')})`.mapWith(Number),
+        })
+        .from(customers)
+        .where(eq(customers.businessId, businessId));
+
+      const byType = await db
+        .select({
+          transactionType: walletTransactions.transactionType,
+          count: sql<number>`count(*)`.mapWith(Number),
+          amount: sql<string>`coalesce(sum(${walletTransactions.amount}), 0)`,
+        })
+        .from(walletTransactions)
+        .where(eq(walletTransactions.businessId, businessId))
+        .groupBy(walletTransactions.transactionType);
+
+      const topBalances = await db
+        .select({
+          id: customers.id,
+          firstName: customers.firstName,
+          lastName: customers.lastName,
+          walletBalance: customers.walletBalance,
+        })
+        .from(customers)
+        .where(and(eq(customers.businessId, businessId), gt(customers.walletBalance, '0')))
+        .orderBy(desc(customers.walletBalance))
+        .limit(10);
+
+      return {
+        totalWalletBalance: wallets?.totalWalletBalance ?? '0',
+        totalDeposits: wallets?.totalDeposits ?? '0',
+        totalWithdrawals: wallets?.totalWithdrawals ?? '0',
+        customersWithBalance: wallets?.customersWithBalance ?? 0,
+        byType,
+        topBalances,
+      };
     } catch (error) {
       logger.error('Error getting business money summary', { error, businessId });
       throw error;
@@ -32,12 +32,14 @@ export const PERMISSIONS = {
   BILL_UPDATE: 'BILL_UPDATE',
   BILL_DELETE: 'BILL_DELETE',
   BILL_APPROVE: 'BILL_APPROVE',
+  BILL_VOID: 'BILL_VOID',
   
   // Payments
   PAYMENT_CREATE: 'PAYMENT_CREATE',
   PAYMENT_READ: 'PAYMENT_READ',
   PAYMENT_UPDATE: 'PAYMENT_UPDATE',
   PAYMENT_DELETE: 'PAYMENT_DELETE',
+  PAYMENT_REFUND: 'PAYMENT_REFUND',
   
   // Money Management
   MONEY_DEPOSIT: 'MONEY_DEPOSIT',
@@ -101,11 +103,17 @@ function parsePermission(permission: Permission): {
   else if (resource === 'AI_BANNER' || resource === 'AI_TEXT_TO') mappedResource = 'AI_FEATURES';
   else if (resource === 'FILE') mappedResource = 'SETTINGS'; // or default to generic
   else if (resource === 'QR') mappedResource = 'PRODUCTS'; // or similar
+  else if (resource === 'MONEY') mappedResource = 'MONEY_MANAGEMENT';
   else if (['DASHBOARD', 'CUSTOMERS', 'MERCHANTS', 'PRODUCTS', 'BILLS', 'PAYMENTS', 'REPORTS', 'SETTINGS', 'USERS', 'ROLES', 'MESSAGES', 'AI_FEATURES', 'ANALYTICS', 'MONEY_MANAGEMENT', 'INVENTORY', 'APPROVALS', 'AUDIT_LOGS'].includes(resource)) {
     mappedResource = resource as typeof mappedResource;
   }
   
-  const mappedAction = action as 'CREATE' | 'READ' | 'UPDATE' | 'DELETE' | 'APPROVE' | 'EXPORT' | 'MANAGE' | 'VOID';
+  // Wallet actions and refunds have no enum value of their own: MONEY_DEPOSIT -> MONEY_MANAGEMENT_CREATE,
+  // PAYMENT_REFUND -> PAYMENTS_VOID, and so on
+  const actionAliases: Record<string, string> = resource === 'MONEY'
+    ? { DEPOSIT: 'CREATE', WITHDRAW: 'MANAGE', TRANSFER: 'UPDATE' }
+    : resource === 'PAYMENT' ? { REFUND: 'VOID' } : {};
+  const mappedAction = (actionAliases[action] ?? action) as 'CREATE' | 'READ' | 'UPDATE' | 'DELETE' | 'APPROVE' | 'EXPORT' | 'MANAGE' | 'VOID';
   
   // Simple check if it might be valid (runtime check helps)
   return { resource: mappedResource, action: mappedAction };
@@ -189,8 +197,8 @@ export class PermissionService {
       
       // Fallback to legacy boolean flags (backward compatibility)
       if (permission === 'BILL_CREATE' && staff.canCreateBills) return true;
-      if (permission === 'BILL_APPROVE' && staff.canApproveBills) return true;
-      if ((permission === 'MONEY_DEPOSIT' || permission === 'MONEY_WITHDRAW') && staff.canManageMoney) return true;
+      if ((permission === 'BILL_APPROVE' || permission === 'BILL_VOID') && staff.canApproveBills) return true;
+      if ((permission === 'MONEY_DEPOSIT' || permission === 'MONEY_WITHDRAW' || permission === 'MONEY_TRANSFER' || permission === 'PAYMENT_REFUND') && staff.canManageMoney) return true;
       if (permission === 'ANALYTICS_READ' && staff.canAccessReports) return true;
       if ((permission === 'PRODUCT_CREATE' || permission === 'PRODUCT_UPDATE') && staff.canManageInventory) return true;
       if ((permission === 'CUSTOMER_CREATE' || permission === 'CUSTOMER_UPDATE') && staff.canManageCustomers) return true;
@@ -287,10 +295,15 @@ export class PermissionService {
 
       // 4. Legacy Flags (Backwards Compatibility)
       if (staff.canCreateBills) effectivePermissions.add('BILL_CREATE');
-      if (staff.canApproveBills) effectivePermissions.add('BILL_APPROVE');
+      if (staff.canApproveBills) {
+          effectivePermissions.add('BILL_APPROVE');
+          effectivePermissions.add('BILL_VOID');
+      }
       if (staff.canManageMoney) {
           effectivePermissions.add('MONEY_DEPOSIT');
           effectivePermissions.add('MONEY_WITHDRAW');
+          effectivePermissions.add('MONEY_TRANSFER');
+          effectivePermissions.add('PAYMENT_REFUND');
       }
       if (staff.canAccessReports) effectivePermissions.add('ANALYTICS_READ');
       if (staff.canManageInventory) {
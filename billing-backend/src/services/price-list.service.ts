@@ -0,0 +1,436 @@
+import { db, DbTransaction } from '../config/database';
+import {
+  priceLists,
+  priceListItems,
+  products,
+  productVariants,
+  customers,
+} from '../models/drizzle/schema';
+import { eq, and, ne, desc, count, ilike, inArray, lte, SQL } from 'drizzle-orm';
+import {
+  CreatePriceListInput,
+  UpdatePriceListInput,
+  SetPriceListItemsInput,
+  PriceListQueryInput,
+  AssignPriceListInput,
+  PriceQuoteQueryInput,
+  PriceListItemInput,
+} from '../schemas/price-list.schema';
+import { logger } from '../utils/logger';
+import { resolveVariantPrice } from '../utils/billing';
+
+type DbExecutor = typeof db | DbTransaction;
+type PriceList = typeof priceLists.$inferSelect;
+type PriceListItem = typeof priceListItems.$inferSelect;
+type Product = typeof products.$inferSelect;
+type ProductVariant = typeof productVariants.$inferSelect;
+
+export interface PriceListDetails extends PriceList {
+  customerCount: number;
+  items: (PriceListItem & { productName: string; productCode: string; variantName: string | null })[];
+}
+
+export interface ResolvedPrice {
+  price: number;
+  priceListId: string | null;
+  source: 'PRICE_LIST' | 'LIST_BASIS' | 'PRODUCT'; // A price on the list, the list's basis for unlisted products, or the product's own price
+  minQuantity: number | null; // Quantity break the price came from
+}
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function isValidOn(row: { validFrom: Date | null; validTo: Date | null }, date: Date): boolean {
+  return (!row.validFrom || row.validFrom <= date) && (!row.validTo || row.validTo >= date);
+}
+
+/**
+ * The product price a list falls back to for products it does not name
+ */
+function basisPrice(list: PriceList, product: Product, variant?: ProductVariant | null): number {
+  const retail = resolveVariantPrice(product, variant);
+
+  switch (list.priceBasis) {
+    case 'WHOLESALE_PRICE':
+      return product.wholesalePrice !== null
+        ? round2(Number(product.wholesalePrice) + Number(variant?.priceAdjustment || 0))
+        : retail;
+    case 'MRP': {
+      const mrp = variant?.mrp ?? product.mrp;
+      return mrp !== null ? Number(mrp) : retail;
+    }
+    default:
+      return retail;
+  }
+}
+
+export class PriceListService {
+  /**
+   * The list a customer is billed at on a date: their own list while it is active and valid, otherwise the business default
+   */
+  async findApplicableList(executor: DbExecutor, businessId: string, customerId: string | null | undefined, date: Date): Promise<PriceList | null> {
+    if (customerId) {
+      const [assigned] = await executor
+        .select({ list: priceLists })
+        .from(customers)
+        .innerJoin(priceLists, eq(customers.priceListId, priceLists.id))
+        .where(and(eq(customers.id, customerId), eq(customers.businessId, businessId)))
+        .limit(1);
+
+      if (assigned && assigned.list.isActive && isValidOn(assigned.list, date)) {
+        return assigned.list;
+      }
+    }
+
+    const [fallback] = await executor
+      .select()
+      .from(priceLists)
+      .where(and(eq(priceLists.businessId, businessId), eq(priceLists.isDefault, true), eq(priceLists.isActive, true)))
+      .limit(1);
+
+    return fallback && isValidOn(fallback, date) ? fallback : null;
+  }
+
+  /**
+   * Price of a product on a list for a quantity. A variant's own entry wins over one for the whole product,
+   * and the highest quantity break reached applies.
+   */
+  async resolvePrice(executor: DbExecutor, list: PriceList | null, product: Product, variant: ProductVariant | null | undefined, quantity: number, date: Date): Promise<ResolvedPrice> {
+    if (!list) {
+      return { price: resolveVariantPrice(product, variant), priceListId: null, source: 'PRODUCT', minQuantity: null };
+    }
+
+    const rows = await executor
+      .select()
+      .from(priceListItems)
+      .where(and(
+        eq(priceListItems.priceListId, list.id),
+        eq(priceListItems.productId, product.id),
+        lte(priceListItems.minQuantity, quantity.toFixed(2))
+      ));
+
+    const entry = rows
+      .filter(row => (row.variantId === null || row.variantId === variant?.id) && isValidOn(row, date))
+      .sort((a, b) => Number(b.variantId !== null) - Number(a.variantId !== null) || Number(b.minQuantity) - Number(a.minQuantity))[0];
+
+    if (entry) {
+      return { price: Number(entry.price), priceListId: list.id, source: 'PRICE_LIST', minQuantity: Number(entry.minQuantity) };
+    }
+
+    const adjusted = round2(basisPrice(list, product, variant) * (1 + Number(list.adjustmentPercent) / 100));
+    return { price: adjusted, priceListId: list.id, source: 'LIST_BASIS', minQuantity: null };
+  }
+
+  private async validateItems(executor: DbExecutor, businessId: string, items: PriceListItemInput[]): Promise<void> {
+    if (items.length === 0) return;
+
+    const productIds = [...new Set(items.map(item => item.productId))];
+    const found = await executor
+      .select({ id: products.id })
+      .from(products)
+      .where(and(eq(products.businessId, businessId), inArray(products.id, productIds)));
+
+    if (found.length !== productIds.length) {
+      throw new Error('One or more products were not found');
+    }
+
+    const variantIds = [...new Set(items.flatMap(item => item.variantId ? [item.variantId] : []))];
+    if (variantIds.length > 0) {
+      const variants = await executor
+        .select({ id: productVariants.id, productId: productVariants.productId })
+        .from(productVariants)
+        .where(inArray(productVariants.id, variantIds));
+
+      for (const item of items) {
+        if (item.variantId && !variants.some(v => v.id === item.variantId && v.productId === item.productId)) {
+          throw new Error('Variant does not belong to its product');
+        }
+      }
+    }
+
+    for (const item of items) {
+      if (item.validFrom && item.validTo && new Date(item.validFrom) > new Date(item.validTo)) {
+        throw new Error('Price validity ends before it starts');
+      }
+    }
+  }
+
+  private async insertItems(tx: DbTransaction, priceListId: string, items: PriceListItemInput[]): Promise<void> {
+    if (items.length === 0) return;
+
+    await tx.insert(priceListItems).values(items.map(item => ({
+      priceListId,
+      productId: item.productId,
+      variantId: item.variantId,
+      minQuantity: item.minQuantity.toFixed(2),
+      price: item.price.toFixed(2),
+      validFrom: item.validFrom ? new Date(item.validFrom) : undefined,
+      validTo: item.validTo ? new Date(item.validTo) : undefined,
+    })));
+  }
+
+  private async lockList(tx: DbTransaction, businessId: string, priceListId: string): Promise<PriceList> {
+    const [list] = await tx
+      .select()
+      .from(priceLists)
+      .where(and(eq(priceLists.id, priceListId), eq(priceLists.businessId, businessId)))
+      .for('update');
+
+    if (!list) {
+      throw new Error('Price list not found');
+    }
+
+    return list;
+  }
+
+  private async assertNameFree(executor: DbExecutor, businessId: string, name: string, exceptId?: string): Promise<void> {
+    const conditions: SQL[] = [eq(priceLists.businessId, businessId), eq(priceLists.name, name)];
+    if (exceptId) conditions.push(ne(priceLists.id, exceptId));
+
+    const [existing] = await executor.select({ id: priceLists.id }).from(priceLists).where(and(...conditions)).limit(1);
+    if (existing) {
+      throw new Error('A price list with this name already exists');
+    }
+  }
+
+  async getPriceLists(businessId: string, query: PriceListQueryInput): Promise<{ priceLists: PriceList[]; pagination: { page: number; limit: number; total: number; totalPages: number } }> {
+    const { search, includeInactive = false, page = 1, limit = 20 } = query;
+
+    const conditions: SQL[] = [eq(priceLists.businessId, businessId)];
+    if (!includeInactive) conditions.push(eq(priceLists.isActive, true));
+    if (search) conditions.push(ilike(priceLists.name, `%${search}%`));
+
+    const [countResult] = await db
+      .select({ count: count() })
+      .from(priceLists)
+      .where(and(...conditions));
+
+    const total = countResult?.count || 0;
+
+    const rows = await db
+      .select()
+      .from(priceLists)
+      .where(and(...conditions))
+      .orderBy(desc(priceLists.isDefault), priceLists.name)
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      priceLists: rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getPriceList(businessId: string, priceListId: string): Promise<PriceListDetails> {
+    const [list] = await db
+      .select()
+      .from(priceLists)
+      .where(and(eq(priceLists.id, priceListId), eq(priceLists.businessId, businessId)))
+      .limit(1);
+
+    if (!list) {
+      throw new Error('Price list not found');
+    }
+
+    const items = await db
+      .select({ item: priceListItems, productName: products.name, productCode: products.productCode, variantName: productVariants.variantName })
+      .from(priceListItems)
+      .innerJoin(products, eq(priceListItems.productId, products.id))
+      .leftJoin(productVariants, eq(priceListItems.variantId, productVariants.id))
+      .where(eq(priceListItems.priceListId, priceListId))
+      .orderBy(products.name, priceListItems.minQuantity);
+
+    const [customerCount] = await db
+      .select({ count: count() })
+      .from(customers)
+      .where(eq(customers.priceListId, priceListId));
+
+    return {
+      ...list,
+      customerCount: customerCount?.count || 0,
+      items: items.map(row => ({ ...row.item, productName: row.productName, productCode: row.productCode, variantName: row.variantName })),
+    };
+  }
+
+  async createPriceList(businessId: string, userId: string, input: CreatePriceListInput): Promise<PriceListDetails> {
+    const priceListId = await db.transaction(async (tx) => {
+      await this.assertNameFree(tx, businessId, input.name);
+      await this.validateItems(tx, businessId, input.items || []);
+
+      if (input.isDefault) {
+        await tx.update(priceLists)
+          .set({ isDefault: false, updatedAt: new Date() })
+          .where(and(eq(priceLists.businessId, businessId), eq(priceLists.isDefault, true)));
+      }
+
+      const [list] = await tx.insert(priceLists).values({
+        businessId,
+        name: input.name,
+        description: input.description,
+        priceBasis: input.priceBasis,
+        adjustmentPercent: (input.adjustmentPercent ?? 0).toFixed(2),
+        isDefault: input.isDefault ?? false,
+        validFrom: input.validFrom ? new Date(input.validFrom) : undefined,
+        validTo: input.validTo ? new Date(input.validTo) : undefined,
+        createdBy: userId,
+      }).returning();
+
+      if (!list) {
+        throw new Error('Failed to create price list');
+      }
+
+      await this.insertItems(tx, list.id, input.items || []);
+
+      return list.id;
+    });
+
+    logger.info('Price list created', { priceListId, businessId });
+
+    return this.getPriceList(businessId, priceListId);
+  }
+
+  async updatePriceList(businessId: string, priceListId: string, input: UpdatePriceListInput): Promise<PriceListDetails> {
+    await db.transaction(async (tx) => {
+      await this.lockList(tx, businessId, priceListId);
+
+      if (input.name !== undefined) await this.assertNameFree(tx, businessId, input.name, priceListId);
+
+      if (input.isDefault) {
+        await tx.update(priceLists)
+          .set({ isDefault: false, updatedAt: new Date() })
+          .where(and(eq(priceLists.businessId, businessId), eq(priceLists.isDefault, true), ne(priceLists.id, priceListId)));
+      }
+
+      const updateData: Partial<typeof priceLists.$inferInsert> = { updatedAt: new Date() };
+      if (input.name !== undefined) updateData.name = input.name;
+      if (input.description !== undefined) updateData.description = input.description;
+      if (input.priceBasis !== undefined) updateData.priceBasis = input.priceBasis;
+      if (input.adjustmentPercent !== undefined) updateData.adjustmentPercent = input.adjustmentPercent.toFixed(2);
+      if (input.isDefault !== undefined) updateData.isDefault = input.isDefault;
+      if (input.validFrom !== undefined) updateData.validFrom = new Date(input.validFrom);
+      if (input.validTo !== undefined) updateData.validTo = new Date(input.validTo);
+      if (input.isActive !== undefined) updateData.isActive = input.isActive;
+
+      await tx.update(priceLists).set(updateData).where(eq(priceLists.id, priceListId));
+    });
+
+    logger.info('Price list updated', { priceListId, businessId });
+
+    return this.getPriceList(businessId, priceListId);
+  }
+
+  /**
+   * Replace every price on a list
+   */
+  async setItems(businessId: string, priceListId: string, input: SetPriceListItemsInput): Promise<PriceListDetails> {
+    await db.transaction(async (tx) => {
+      await this.lockList(tx, businessId, priceListId);
+      await this.validateItems(tx, businessId, input.items);
+
+      await tx.delete(priceListItems).where(eq(priceListItems.priceListId, priceListId));
+      await this.insertItems(tx, priceListId, input.items);
+
+      await tx.update(priceLists).set({ updatedAt: new Date() }).where(eq(priceLists.id, priceListId));
+    });
+
+    logger.info('Price list items replaced', { priceListId, businessId, items: input.items.length });
+
+    return this.getPriceList(businessId, priceListId);
+  }
+
+  /**
+   * Delete a list; its customers go back to the default list
+   */
+  async deletePriceList(businessId: string, priceListId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await this.lockList(tx, businessId, priceListId);
+      await tx.delete(priceLists).where(eq(priceLists.id, priceListId));
+    });
+
+    logger.info('Price list deleted', { priceListId, businessId });
+  }
+
+  async assignCustomers(businessId: string, priceListId: string, input: AssignPriceListInput): Promise<{ assigned: number }> {
+    const assigned = await db.transaction(async (tx) => {
+      await this.lockList(tx, businessId, priceListId);
+
+      const updated = await tx.update(customers)
+        .set({ priceListId, updatedAt: new Date() })
+        .where(and(eq(customers.businessId, businessId), inArray(customers.id, input.customerIds)))
+        .returning({ id: customers.id });
+
+      if (updated.length !== input.customerIds.length) {
+        throw new Error('One or more customers were not found');
+      }
+
+      return updated.length;
+    });
+
+    logger.info('Customers assigned to price list', { priceListId, businessId, assigned });
+
+    return { assigned };
+  }
+
+  async unassignCustomers(businessId: string, priceListId: string, input: AssignPriceListInput): Promise<{ unassigned: number }> {
+    const updated = await db.update(customers)
+      .set({ priceListId: null, updatedAt: new Date() })
+      .where(and(
+        eq(customers.businessId, businessId),
+        eq(customers.priceListId, priceListId),
+        inArray(customers.id, input.customerIds)
+      ))
+      .returning({ id: customers.id });
+
+    logger.info('Customers removed from price list', { priceListId, businessId, unassigned: updated.length });
+
+    return { unassigned: updated.length };
+  }
+
+  /**
+   * What a customer would pay for a product, with the floor and discount cap billing enforces
+   */
+  async quote(businessId: string, query: PriceQuoteQueryInput): Promise<ResolvedPrice & { quantity: number; minSellingPrice: number | null; maxDiscountPercent: number; mrp: number | null }> {
+    const [product] = await db
+      .select()
+      .from(products)
+      .where(and(eq(products.id, query.productId), eq(products.businessId, businessId)))
+      .limit(1);
+
+    if (!product) {
+      throw new Error('Product not found');
+    }
+
+    let variant: ProductVariant | undefined;
+    if (query.variantId) {
+      [variant] = await db
+        .select()
+        .from(productVariants)
+        .where(and(eq(productVariants.id, query.variantId), eq(productVariants.productId, product.id)))
+        .limit(1);
+
+      if (!variant) {
+        throw new Error('Variant not found');
+      }
+    }
+
+    const quantity = query.quantity ?? 1;
+    const date = query.date ? new Date(query.date) : new Date();
+    const list = await this.findApplicableList(db, businessId, query.customerId, date);
+    const resolved = await this.resolvePrice(db, list, product, variant, quantity, date);
+    const mrp = variant?.mrp ?? product.mrp;
+
+    return {
+      ...resolved,
+      quantity,
+      minSellingPrice: product.minSellingPrice !== null ? Number(product.minSellingPrice) : null,
+      maxDiscountPercent: Number(product.maxDiscountPercent ?? 100),
+      mrp: mrp !== null ? Number(mrp) : null,
+    };
+  }
+}
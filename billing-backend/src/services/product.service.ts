@@ -9,6 +9,7 @@ import {
 } from '../schemas/product.schema';
 import { logger } from '../utils/logger';
 import { AuditService } from './audit.service';
+import { InventoryService } from './inventory.service';
 import { AuthenticatedRequest } from '../types/common';
 import { redis } from '../config/redis';
 import crypto from 'crypto';
@@ -17,6 +18,7 @@ type ProductUnit = typeof productUnitEnum.enumValues[number];
 type BillingStatus = typeof billingStatusEnum.enumValues[number];
 
 const auditService = new AuditService();
+const inventoryService = new InventoryService();
 
 export class ProductService {
   private async getProductVersion(businessId: string): Promise<string> {
@@ -238,7 +240,7 @@ export class ProductService {
     minimumStock?: number;
     weight?: number;
     isDefault?: boolean;
-  }): Promise<typeof productVariants.$inferSelect> {
+  }, userId?: string): Promise<typeof productVariants.$inferSelect> {
     // Verify product belongs to business and has variants enabled
     const [product] = await db
       .select()
@@ -257,28 +259,49 @@ export class ProductService {
       throw new Error('Product does not support variants');
     }
 
-    const [variant] = await db
-      .insert(productVariants)
-      .values({
-        productId,
-        variantName: variantData.variantName,
-        attributes: variantData.attributes,
-        sku: variantData.sku,
-        barcode: variantData.barcode,
-        priceAdjustment: (variantData.priceAdjustment || 0).toString(),
-        purchasePrice: variantData.purchasePrice?.toString(),
-        sellingPrice: variantData.sellingPrice?.toString(),
-        mrp: variantData.mrp?.toString(),
-        stockQuantity: (variantData.stockQuantity || 0).toString(),
-        minimumStock: variantData.minimumStock?.toString(),
-        weight: variantData.weight?.toString(),
-        isDefault: variantData.isDefault || false,
-      })
-      .returning();
+    // Opening stock goes through the ledger so the parent's stock stays the total of its variants
+    const variant = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(productVariants)
+        .values({
+          productId,
+          variantName: variantData.variantName,
+          attributes: variantData.attributes,
+          sku: variantData.sku,
+          barcode: variantData.barcode,
+          priceAdjustment: (variantData.priceAdjustment || 0).toString(),
+          purchasePrice: variantData.purchasePrice?.toString(),
+          sellingPrice: variantData.sellingPrice?.toString(),
+          mrp: variantData.mrp?.toString(),
+          stockQuantity: '0',
+          minimumStock: variantData.minimumStock?.toString(),
+          weight: variantData.weight?.toString(),
+          isDefault: variantData.isDefault || false,
+        })
+        .returning();
+
+      if (!created) {
+        throw new Error('Failed to create variant');
+      }
 
-    if (!variant) {
-      throw new Error('Failed to create variant');
-    }
+      if (!variantData.stockQuantity) {
+        return created;
+      }
+
+      await inventoryService.recordMovement(tx, {
+        businessId,
+        productId,
+        variantId: created.id,
+        movementType: 'ADJUSTMENT',
+        quantity: variantData.stockQuantity,
+        unitCost: variantData.purchasePrice ?? product.purchasePrice,
+        reason: 'Opening stock',
+        performedBy: userId,
+      });
+
+      const [stocked] = await tx.select().from(productVariants).where(eq(productVariants.id, created.id));
+      return stocked ?? created;
+    });
 
     await this.incrementProductVersion(businessId);
     logger.info('Product variant created', { variantId: variant.id, productId, businessId });
@@ -299,7 +322,7 @@ export class ProductService {
     minimumStock?: number;
     weight?: number;
     isDefault?: boolean;
-  }): Promise<typeof productVariants.$inferSelect> {
+  }, userId?: string): Promise<typeof productVariants.$inferSelect> {
     // Verify product belongs to business
     const [product] = await db
       .select()
@@ -323,23 +346,38 @@ export class ProductService {
     if (variantData.purchasePrice !== undefined) updateData.purchasePrice = variantData.purchasePrice?.toString();
     if (variantData.sellingPrice !== undefined) updateData.sellingPrice = variantData.sellingPrice?.toString();
     if (variantData.mrp !== undefined) updateData.mrp = variantData.mrp?.toString();
-    if (variantData.stockQuantity !== undefined) updateData.stockQuantity = variantData.stockQuantity.toString();
     if (variantData.minimumStock !== undefined) updateData.minimumStock = variantData.minimumStock?.toString();
     if (variantData.weight !== undefined) updateData.weight = variantData.weight?.toString();
     if (variantData.isDefault !== undefined) updateData.isDefault = variantData.isDefault;
 
-    const [updatedVariant] = await db
-      .update(productVariants)
-      .set(updateData)
-      .where(and(
-        eq(productVariants.id, variantId),
-        eq(productVariants.productId, productId)
-      ))
-      .returning();
+    const updatedVariant = await db.transaction(async (tx) => {
+      // A stock figure sent with the variant is treated as a manual count and goes through the ledger
+      if (variantData.stockQuantity !== undefined) {
+        await inventoryService.setStock(tx, {
+          businessId,
+          productId,
+          variantId,
+          targetStock: variantData.stockQuantity,
+          reason: 'Manual stock update',
+          performedBy: userId,
+        });
+      }
 
-    if (!updatedVariant) {
-      throw new Error('Variant not found');
-    }
+      const [updated] = await tx
+        .update(productVariants)
+        .set({ ...updateData, updatedAt: new Date() })
+        .where(and(
+          eq(productVariants.id, variantId),
+          eq(productVariants.productId, productId)
+        ))
+        .returning();
+
+      if (!updated) {
+        throw new Error('Variant not found');
+      }
+
+      return updated;
+    });
 
     await this.incrementProductVersion(businessId);
     logger.info('Product variant updated', { variantId, productId, businessId });
@@ -362,6 +400,20 @@ export class ProductService {
       throw new Error('Product not found');
     }
 
+    const [existingVariant] = await db
+      .select({ stockQuantity: productVariants.stockQuantity })
+      .from(productVariants)
+      .where(and(
+        eq(productVariants.id, variantId),
+        eq(productVariants.productId, productId)
+      ))
+      .limit(1);
+
+    // Deleting a stocked variant would leave its units in the parent's total with nothing to sell them from
+    if (existingVariant && Number(existingVariant.stockQuantity) !== 0) {
+      throw new Error('Adjust the variant\'s stock to zero before deleting it');
+    }
+
     const [deletedVariant] = await db
       .delete(productVariants)
       .where(and(
@@ -392,6 +444,7 @@ export class ProductService {
       mrp,
       maxDiscountPercent,
       taxPercent,
+      cessPercent,
       minimumStock,
       currentStock,
       barcode,
@@ -405,6 +458,11 @@ export class ProductService {
       isTaxable,
       hasVariants,
       variants,
+      tracksBatches,
+      nearExpiryDays,
+      tracksSerials,
+      warrantyMonths,
+      serialNumbers,
     } = input;
 
     // Validate category if provided
@@ -439,44 +497,51 @@ export class ProductService {
         }
     }
 
-    // Create product
-    const [product] = await db
-      .insert(products)
-      .values({
-        businessId,
-        categoryId,
-        productCode: productCode || `PROD-${Date.now()}`,
-        name,
-        description,
-        unit: unit as ProductUnit,
-        purchasePrice: purchasePrice?.toString(),
-        sellingPrice: sellingPrice.toString(),
-        mrp: mrp?.toString(),
-        maxDiscountPercent: (maxDiscountPercent || 0).toString(),
-        taxPercent: (taxPercent || 0).toString(),
-        minimumStock: (minimumStock || 0).toString(),
-        currentStock: (currentStock || 0).toString(),
-        barcode,
-        sku,
-        hsnCode,
-        weight: weight?.toString(),
-        dimensions: dimensions ? (dimensions as Record<string, unknown>) : null,
-        specifications: specifications ? (specifications as Record<string, unknown>) : null,
-        isActive: true,
-        isTaxable: isTaxable !== undefined ? isTaxable : true,
-        hasVariants: hasVariants || false,
-      })
-      .returning();
-
-    if (!product) {
-      throw new Error('Failed to create product');
-    }
+    // Create product; opening stock is recorded as a ledger movement rather than written directly
+    const product = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(products)
+        .values({
+          businessId,
+          categoryId,
+          productCode: productCode || `PROD-${Date.now()}`,
+          name,
+          description,
+          unit: unit as ProductUnit,
+          purchasePrice: purchasePrice?.toString(),
+          sellingPrice: sellingPrice.toString(),
+          mrp: mrp?.toString(),
+          maxDiscountPercent: (maxDiscountPercent || 0).toString(),
+          taxPercent: (taxPercent || 0).toString(),
+          cessPercent: (cessPercent || 0).toString(),
+          minimumStock: (minimumStock || 0).toString(),
+          currentStock: '0',
+          barcode,
+          sku,
+          hsnCode,
+          weight: weight?.toString(),
+          dimensions: dimensions ? (dimensions as Record<string, unknown>) : null,
+          specifications: specifications ? (specifications as Record<string, unknown>) : null,
+          isActive: true,
+          isTaxable: isTaxable !== undefined ? isTaxable : true,
+          hasVariants: hasVariants || false,
+          tracksBatches: tracksBatches || false,
+          nearExpiryDays,
+          tracksSerials: tracksSerials || false,
+          warrantyMonths,
+        })
+        .returning();
+
+      if (!created) {
+        throw new Error('Failed to create product');
+      }
 
-    // Create variants if provided
-    if (hasVariants && variants && variants.length > 0) {
-      await Promise.all(variants.map(async (variant) => {
-        await db.insert(productVariants).values({
-            productId: product.id,
+      // With variants the product's stock is the total of its variants' opening stock
+      if (hasVariants && variants && variants.length > 0) {
+        let latest = created;
+        for (const variant of variants) {
+          const [createdVariant] = await tx.insert(productVariants).values({
+            productId: created.id,
             variantName: variant.variantName,
             attributes: variant.attributes,
             sku: variant.sku,
@@ -485,14 +550,47 @@ export class ProductService {
             purchasePrice: variant.purchasePrice?.toString(),
             sellingPrice: variant.sellingPrice?.toString(),
             mrp: variant.mrp?.toString(),
-            stockQuantity: (variant.stockQuantity || 0).toString(),
+            stockQuantity: '0',
             minimumStock: variant.minimumStock?.toString(),
             weight: variant.weight?.toString(),
             isDefault: variant.isDefault || false,
             isActive: true,
-        });
-      }));
-    }
+          }).returning();
+
+          if (createdVariant && variant.stockQuantity) {
+            const opening = await inventoryService.recordMovement(tx, {
+              businessId,
+              productId: created.id,
+              variantId: createdVariant.id,
+              movementType: 'ADJUSTMENT',
+              quantity: variant.stockQuantity,
+              unitCost: variant.purchasePrice ?? purchasePrice,
+              reason: 'Opening stock',
+              performedBy: userId,
+            });
+            if (opening) latest = opening.product;
+          }
+        }
+        return latest;
+      }
+
+      if (!currentStock) {
+        return created;
+      }
+
+      const opening = await inventoryService.recordMovement(tx, {
+        businessId,
+        productId: created.id,
+        movementType: 'ADJUSTMENT',
+        quantity: currentStock,
+        unitCost: purchasePrice,
+        serialNumbers,
+        reason: 'Opening stock',
+        performedBy: userId,
+      });
+
+      return opening ? opening.product : created;
+    });
 
     await auditService.logProductAction('CREATE', businessId, userId, product.id, undefined, product, req);
     logger.info('Product created', { productId: product.id, businessId, productCode });
@@ -532,8 +630,8 @@ export class ProductService {
       mrp?: string | null;
       maxDiscountPercent?: string;
       taxPercent?: string;
+      cessPercent?: string;
       minimumStock?: string;
-      currentStock?: string;
       barcode?: string | null;
       sku?: string | null;
       hsnCode?: string | null;
@@ -542,6 +640,10 @@ export class ProductService {
       specifications?: Record<string, unknown> | null;
       isActive?: boolean;
       isTaxable?: boolean;
+      tracksBatches?: boolean;
+      nearExpiryDays?: number | null;
+      tracksSerials?: boolean;
+      warrantyMonths?: number | null;
     } = {};
 
     // Only update provided fields
@@ -555,8 +657,8 @@ export class ProductService {
     if (input.mrp !== undefined) updateData.mrp = input.mrp?.toString() ?? null;
     if (input.maxDiscountPercent !== undefined) updateData.maxDiscountPercent = input.maxDiscountPercent.toString();
     if (input.taxPercent !== undefined) updateData.taxPercent = input.taxPercent.toString();
+    if (input.cessPercent !== undefined) updateData.cessPercent = input.cessPercent.toString();
     if (input.minimumStock !== undefined) updateData.minimumStock = input.minimumStock.toString();
-    if (input.currentStock !== undefined) updateData.currentStock = input.currentStock.toString();
     if (input.barcode !== undefined) updateData.barcode = input.barcode ?? null;
     if (input.sku !== undefined) updateData.sku = input.sku ?? null;
     if (input.hsnCode !== undefined) updateData.hsnCode = input.hsnCode ?? null;
@@ -565,6 +667,10 @@ export class ProductService {
     if (input.specifications !== undefined) updateData.specifications = input.specifications ? (input.specifications as Record<string, unknown>) : null;
     if (input.isActive !== undefined) updateData.isActive = input.isActive;
     if (input.isTaxable !== undefined) updateData.isTaxable = input.isTaxable;
+    if (input.tracksBatches !== undefined) updateData.tracksBatches = input.tracksBatches;
+    if (input.nearExpiryDays !== undefined) updateData.nearExpiryDays = input.nearExpiryDays;
+    if (input.tracksSerials !== undefined) updateData.tracksSerials = input.tracksSerials;
+    if (input.warrantyMonths !== undefined) updateData.warrantyMonths = input.warrantyMonths;
 
     // Get old values for audit
     const [oldProduct] = await db
@@ -580,19 +686,39 @@ export class ProductService {
         throw new Error('Product not found');
     }
 
-    const [updatedProduct] = await db
-      .update(products)
-      .set(updateData)
-      .where(and(
-        eq(products.id, productId),
-        eq(products.businessId, businessId)
-      ))
-      .returning();
-
-    if (!updatedProduct) {
-      throw new Error('Product not found');
+    // Units already on hand have no serials to sell them by
+    if (input.tracksSerials && !oldProduct.tracksSerials && Number(oldProduct.currentStock || 0) !== 0) {
+      throw new Error('Stock must be zero before serial tracking is turned on');
     }
 
+    const updatedProduct = await db.transaction(async (tx) => {
+      // A stock figure sent with the product is treated as a manual count and goes through the ledger
+      if (input.currentStock !== undefined) {
+        await inventoryService.setStock(tx, {
+          businessId,
+          productId,
+          targetStock: input.currentStock,
+          reason: 'Manual stock update',
+          performedBy: userId,
+        });
+      }
+
+      const [updated] = await tx
+        .update(products)
+        .set(updateData)
+        .where(and(
+          eq(products.id, productId),
+          eq(products.businessId, businessId)
+        ))
+        .returning();
+
+      if (!updated) {
+        throw new Error('Product not found');
+      }
+
+      return updated;
+    });
+
     await auditService.logProductAction('UPDATE', businessId, userId, productId, oldProduct, updatedProduct, req);
     logger.info('Product updated', { productId, businessId });
 
@@ -743,7 +869,7 @@ export class ProductService {
   }
 
   async adjustStock(businessId: string, userId: string, input: StockAdjustmentInput, req?: AuthenticatedRequest): Promise<{ product: typeof products.$inferSelect; adjustment: unknown }> {
-    const { productId, adjustmentType, quantity, reason, notes } = input;
+    const { productId, variantId, locationId, batchId, batchNumber, manufactureDate, expiryDate, serialNumbers, adjustmentType, quantity, reason, notes } = input;
 
     if (!productId) {
       throw new Error('Product ID is required for stock adjustment');
@@ -763,37 +889,45 @@ export class ProductService {
       throw new Error('Product not found');
     }
 
-    let newStock;
     // Current stock is string/decimal from DB, convert to number
     const currentStock = Number(product.currentStock || 0);
     const qty = Number(quantity);
+    const movement = {
+      businessId,
+      productId,
+      variantId,
+      locationId,
+      batchId,
+      batch: batchNumber ? {
+        batchNumber,
+        manufactureDate: manufactureDate ? new Date(manufactureDate) : undefined,
+        expiryDate: expiryDate ? new Date(expiryDate) : undefined,
+      } : undefined,
+      serialNumbers,
+      movementType: input.type || 'ADJUSTMENT',
+      reason,
+      notes,
+      performedBy: userId,
+      metadata: { adjustmentType },
+    };
 
-    switch (adjustmentType) {
-      case 'ADD':
-        newStock = currentStock + qty;
-        break;
-      case 'SUBTRACT':
-        if (currentStock < qty) {
-          throw new Error('Insufficient stock to subtract');
-        }
-        newStock = currentStock - qty;
-        break;
-      case 'SET':
-        newStock = qty;
-        break;
-      default:
-        throw new Error('Invalid adjustment type');
-    }
-
-    // Update product stock
-    const [updatedProduct] = await db
-      .update(products)
-      .set({ currentStock: newStock.toString() })
-      .where(and(
-        eq(products.id, productId),
-        eq(products.businessId, businessId)
-      ))
-      .returning();
+    // Every adjustment is written to the stock ledger, which also enforces the business's negative stock rule
+    const recorded = await db.transaction(async (tx) => {
+      switch (adjustmentType) {
+        case 'ADD':
+          return inventoryService.recordMovement(tx, { ...movement, quantity: qty });
+        case 'SUBTRACT':
+          return inventoryService.recordMovement(tx, { ...movement, quantity: -qty });
+        case 'SET':
+          return inventoryService.setStock(tx, { ...movement, targetStock: qty });
+        default:
+          throw new Error('Invalid adjustment type');
+      }
+    });
+
+    // Products that do not track quantity (or an adjustment that changes nothing) leave no movement behind
+    const updatedProduct = recorded ? recorded.product : product;
+    const newStock = Number(updatedProduct.currentStock || 0);
 
     // Log the adjustment via AuditService
     await auditService.logProductAction(
@@ -806,10 +940,6 @@ export class ProductService {
         req
     );
 
-    if (!updatedProduct) {
-      throw new Error('Failed to update product stock: Product not found');
-    }
-
     // Invalidate cache
     await this.incrementProductVersion(businessId);
 
@@ -817,10 +947,12 @@ export class ProductService {
       product: updatedProduct,
       adjustment: {
         productId,
+        variantId: recorded?.movement.variantId ?? variantId,
         adjustmentType,
         quantity,
         oldStock: currentStock,
         newStock,
+        movementId: recorded?.movement.id,
         reason,
         notes,
         userId,
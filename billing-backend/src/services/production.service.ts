@@ -0,0 +1,326 @@
+import { db, DbTransaction } from '../config/database';
+import {
+  productionOrders,
+  productionOrderComponents,
+  products,
+  productVariants,
+  storeLocations,
+} from '../models/drizzle/schema';
+import { eq, and, desc, count, SQL } from 'drizzle-orm';
+import {
+  CreateProductionOrderInput,
+  ProductionOrderQueryInput,
+  CompleteProductionOrderInput,
+  CancelProductionOrderInput,
+} from '../schemas/production.schema';
+import { logger } from '../utils/logger';
+import { SequenceService } from './sequence.service';
+import { InventoryService } from './inventory.service';
+import { BomService, consumesOnSale } from './bom.service';
+
+type ProductionOrder = typeof productionOrders.$inferSelect;
+type ProductionOrderComponent = typeof productionOrderComponents.$inferSelect;
+
+export interface ProductionOrderDetails extends ProductionOrder {
+  productName: string;
+  variantName: string | null;
+  components: (ProductionOrderComponent & { productName: string; variantName: string | null })[];
+}
+
+const sequenceService = new SequenceService();
+const inventoryService = new InventoryService();
+const bomService = new BomService();
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function round3(value: number): number {
+  return Math.round((value + Number.EPSILON) * 1000) / 1000;
+}
+
+export class ProductionService {
+  private async lockOrder(tx: DbTransaction, businessId: string, orderId: string): Promise<ProductionOrder> {
+    const [order] = await tx
+      .select()
+      .from(productionOrders)
+      .where(and(eq(productionOrders.id, orderId), eq(productionOrders.businessId, businessId)))
+      .for('update');
+
+    if (!order) {
+      throw new Error('Production order not found');
+    }
+
+    return order;
+  }
+
+  /**
+   * Plan a production run; the components needed are taken from the product's bill of materials
+   */
+  async createProductionOrder(businessId: string, userId: string, input: CreateProductionOrderInput): Promise<ProductionOrderDetails> {
+    const orderId = await db.transaction(async (tx) => {
+      const [product] = await tx
+        .select()
+        .from(products)
+        .where(and(eq(products.id, input.productId), eq(products.businessId, businessId)))
+        .limit(1);
+
+      if (!product) {
+        throw new Error('Product not found');
+      }
+
+      if (consumesOnSale(product) || !product.trackQuantity) {
+        throw new Error(`${product.name} is assembled when sold and is not produced into stock`);
+      }
+
+      if (input.variantId) {
+        const [variant] = await tx
+          .select({ id: productVariants.id })
+          .from(productVariants)
+          .where(and(eq(productVariants.id, input.variantId), eq(productVariants.productId, product.id)))
+          .limit(1);
+
+        if (!variant) {
+          throw new Error('Variant not found');
+        }
+      }
+
+      if (input.locationId) {
+        const [location] = await tx
+          .select({ isActive: storeLocations.isActive })
+          .from(storeLocations)
+          .where(and(eq(storeLocations.id, input.locationId), eq(storeLocations.businessId, businessId)))
+          .limit(1);
+
+        if (!location || !location.isActive) {
+          throw new Error('Location not found');
+        }
+      }
+
+      const components = await bomService.getComponents(tx, product.id, input.variantId);
+      if (components.length === 0) {
+        throw new Error(`${product.name} has no bill of materials`);
+      }
+
+      const orderNumber = await sequenceService.next(tx, businessId, 'PRODUCTION_ORDER');
+
+      const [order] = await tx.insert(productionOrders).values({
+        businessId,
+        orderNumber,
+        productId: product.id,
+        variantId: input.variantId,
+        locationId: input.locationId,
+        plannedQuantity: input.quantity.toFixed(2),
+        additionalCost: (input.additionalCost ?? 0).toFixed(2),
+        notes: input.notes,
+        createdBy: userId,
+      }).returning();
+
+      if (!order) {
+        throw new Error('Failed to create production order');
+      }
+
+      await tx.insert(productionOrderComponents).values(components.map(component => ({
+        productionOrderId: order.id,
+        productId: component.componentProductId,
+        variantId: component.componentVariantId,
+        plannedQuantity: round3(Number(component.quantity) * input.quantity).toFixed(3),
+      })));
+
+      return order.id;
+    });
+
+    logger.info('Production order created', { orderId, businessId });
+
+    return this.getProductionOrder(businessId, orderId);
+  }
+
+  async getProductionOrders(businessId: string, query: ProductionOrderQueryInput): Promise<{ orders: (ProductionOrder & { productName: string })[]; pagination: { page: number; limit: number; total: number; totalPages: number } }> {
+    const { status, productId, page = 1, limit = 20 } = query;
+
+    const conditions: SQL[] = [eq(productionOrders.businessId, businessId)];
+    if (status) conditions.push(eq(productionOrders.status, status));
+    if (productId) conditions.push(eq(productionOrders.productId, productId));
+
+    const [countResult] = await db
+      .select({ count: count() })
+      .from(productionOrders)
+      .where(and(...conditions));
+
+    const total = countResult?.count || 0;
+
+    const rows = await db
+      .select({ order: productionOrders, productName: products.name })
+      .from(productionOrders)
+      .innerJoin(products, eq(productionOrders.productId, products.id))
+      .where(and(...conditions))
+      .orderBy(desc(productionOrders.createdAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      orders: rows.map(row => ({ ...row.order, productName: row.productName })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getProductionOrder(businessId: string, orderId: string): Promise<ProductionOrderDetails> {
+    const [row] = await db
+      .select({ order: productionOrders, productName: products.name, variantName: productVariants.variantName })
+      .from(productionOrders)
+      .innerJoin(products, eq(productionOrders.productId, products.id))
+      .leftJoin(productVariants, eq(productionOrders.variantId, productVariants.id))
+      .where(and(eq(productionOrders.id, orderId), eq(productionOrders.businessId, businessId)))
+      .limit(1);
+
+    if (!row) {
+      throw new Error('Production order not found');
+    }
+
+    const components = await db
+      .select({ component: productionOrderComponents, productName: products.name, variantName: productVariants.variantName })
+      .from(productionOrderComponents)
+      .innerJoin(products, eq(productionOrderComponents.productId, products.id))
+      .leftJoin(productVariants, eq(productionOrderComponents.variantId, productVariants.id))
+      .where(eq(productionOrderComponents.productionOrderId, orderId))
+      .orderBy(productionOrderComponents.createdAt);
+
+    return {
+      ...row.order,
+      productName: row.productName,
+      variantName: row.variantName,
+      components: components.map(c => ({ ...c.component, productName: c.productName, variantName: c.variantName })),
+    };
+  }
+
+  /**
+   * Consume the materials and put the finished goods into stock. The goods are costed at the materials actually
+   * consumed plus labour and overheads, which becomes the product's purchase price and feeds its average cost.
+   */
+  async completeProductionOrder(businessId: string, userId: string, orderId: string, input: CompleteProductionOrderInput): Promise<ProductionOrderDetails> {
+    const result = await db.transaction(async (tx) => {
+      const order = await this.lockOrder(tx, businessId, orderId);
+
+      if (order.status !== 'PLANNED') {
+        throw new Error(`Cannot complete a production order that is ${order.status.toLowerCase()}`);
+      }
+
+      const planned = Number(order.plannedQuantity);
+      const produced = input.producedQuantity ?? planned;
+      const components = await tx
+        .select()
+        .from(productionOrderComponents)
+        .where(eq(productionOrderComponents.productionOrderId, orderId));
+
+      for (const override of input.components || []) {
+        if (!components.some(component => component.id === override.componentId)) {
+          throw new Error('Component is not part of this production order');
+        }
+      }
+
+      const metadata = { productionOrderId: order.id };
+      let materialCost = 0;
+
+      for (const component of components) {
+        const override = input.components?.find(c => c.componentId === component.id);
+        // Without an actual figure, consumption scales with what was produced
+        const quantity = round2(override ? override.quantity : Number(component.plannedQuantity) * produced / planned);
+
+        const recorded = quantity > 0
+          ? await inventoryService.recordMovement(tx, {
+              businessId,
+              productId: component.productId,
+              variantId: component.variantId,
+              locationId: order.locationId,
+              movementType: 'CONSUMPTION',
+              quantity: -quantity,
+              serialNumbers: override?.serialNumbers,
+              reason: `Production ${order.orderNumber}`,
+              performedBy: userId,
+              metadata,
+            })
+          : null;
+
+        materialCost += Number(recorded?.movement.totalCost ?? 0);
+
+        await tx.update(productionOrderComponents)
+          .set({
+            consumedQuantity: quantity.toFixed(3),
+            unitCost: recorded?.movement.unitCost,
+            movementId: recorded?.movement.id,
+          })
+          .where(eq(productionOrderComponents.id, component.id));
+      }
+
+      const additionalCost = input.additionalCost ?? Number(order.additionalCost || 0);
+      const unitCost = (materialCost + additionalCost) / produced;
+
+      const output = await inventoryService.recordMovement(tx, {
+        businessId,
+        productId: order.productId,
+        variantId: order.variantId,
+        locationId: order.locationId,
+        movementType: 'PRODUCTION',
+        quantity: produced,
+        unitCost,
+        batch: input.batchNumber ? {
+          batchNumber: input.batchNumber,
+          manufactureDate: input.manufactureDate ? new Date(input.manufactureDate) : undefined,
+          expiryDate: input.expiryDate ? new Date(input.expiryDate) : undefined,
+        } : undefined,
+        serialNumbers: input.serialNumbers,
+        reason: `Production ${order.orderNumber}`,
+        performedBy: userId,
+        metadata,
+      });
+
+      await tx.update(productionOrders)
+        .set({
+          status: 'COMPLETED',
+          producedQuantity: produced.toFixed(2),
+          materialCost: materialCost.toFixed(2),
+          additionalCost: additionalCost.toFixed(2),
+          unitCost: unitCost.toFixed(2),
+          outputMovementId: output?.movement.id,
+          completedAt: new Date(),
+          completedBy: userId,
+          notes: input.notes ? [order.notes, input.notes].filter(Boolean).join('\n') : order.notes,
+          updatedAt: new Date(),
+        })
+        .where(eq(productionOrders.id, orderId));
+
+      return { produced, materialCost, unitCost };
+    });
+
+    logger.info('Production order completed', { orderId, businessId, ...result });
+
+    return this.getProductionOrder(businessId, orderId);
+  }
+
+  async cancelProductionOrder(businessId: string, orderId: string, input: CancelProductionOrderInput): Promise<ProductionOrderDetails> {
+    await db.transaction(async (tx) => {
+      const order = await this.lockOrder(tx, businessId, orderId);
+
+      if (order.status !== 'PLANNED') {
+        throw new Error(`Cannot cancel a production order that is ${order.status.toLowerCase()}`);
+      }
+
+      await tx.update(productionOrders)
+        .set({
+          status: 'CANCELLED',
+          notes: [order.notes, `Cancelled: ${input.reason}`].filter(Boolean).join('\n'),
+          updatedAt: new Date(),
+        })
+        .where(eq(productionOrders.id, orderId));
+    });
+
+    logger.info('Production order cancelled', { orderId, businessId, reason: input.reason });
+
+    return this.getProductionOrder(businessId, orderId);
+  }
+}
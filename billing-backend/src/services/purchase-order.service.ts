@@ -0,0 +1,736 @@
+import { db, DbTransaction } from '../config/database';
+import {
+  purchaseOrders,
+  purchaseOrderItems,
+  goodsReceipts,
+  goodsReceiptItems,
+  merchants,
+  products,
+  productVariants,
+  retailBusinesses,
+  storeLocations,
+} from '../models/drizzle/schema';
+import { eq, and, sql, desc, count, gte, lte, isNull, inArray, SQL } from 'drizzle-orm';
+import {
+  CreatePurchaseOrderInput,
+  UpdatePurchaseOrderInput,
+  PurchaseOrderQueryInput,
+  PurchaseOrderItemInput,
+  SendPurchaseOrderInput,
+  CancelPurchaseOrderInput,
+  GoodsReceiptInput,
+} from '../schemas/purchase-order.schema';
+import { logger } from '../utils/logger';
+import { sendPurchaseOrder } from '../utils/notifications';
+import { AuditService } from './audit.service';
+import { SequenceService } from './sequence.service';
+import { InventoryService } from './inventory.service';
+import { AuthenticatedRequest } from '../types/common';
+
+type DbExecutor = typeof db | DbTransaction;
+type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
+type GoodsReceipt = typeof goodsReceipts.$inferSelect;
+type GoodsReceiptItem = typeof goodsReceiptItems.$inferSelect;
+type PricedItem = Omit<typeof purchaseOrderItems.$inferInsert, 'purchaseOrderId'>;
+
+export type PurchaseOrderDetails = PurchaseOrder & {
+  merchant: { id: string; merchantCode: string; name: string } | null;
+  items: PurchaseOrderItem[];
+  receipts: (GoodsReceipt & { items: GoodsReceiptItem[] })[];
+};
+
+const auditService = new AuditService();
+const sequenceService = new SequenceService();
+const inventoryService = new InventoryService();
+
+// Receipts are compared against ordered quantities stored with two decimals
+const QUANTITY_TOLERANCE = 0.005;
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export class PurchaseOrderService {
+  private async audit(action: string, businessId: string, userId: string, orderId: string, oldValues?: Record<string, unknown>, newValues?: Record<string, unknown>, req?: AuthenticatedRequest): Promise<void> {
+    await auditService.logAction({
+      businessId,
+      userId,
+      action,
+      entityType: 'PURCHASE_ORDER',
+      entityId: orderId,
+      oldValues,
+      newValues,
+      ipAddress: req?.ip,
+      userAgent: req?.get('User-Agent'),
+    });
+  }
+
+  private async lockOrder(tx: DbTransaction, businessId: string, orderId: string): Promise<PurchaseOrder> {
+    const [order] = await tx
+      .select()
+      .from(purchaseOrders)
+      .where(and(
+        eq(purchaseOrders.id, orderId),
+        eq(purchaseOrders.businessId, businessId),
+        isNull(purchaseOrders.deletedAt)
+      ))
+      .for('update');
+
+    if (!order) {
+      throw new Error('Purchase order not found');
+    }
+
+    return order;
+  }
+
+  private async assertLocation(executor: DbExecutor, businessId: string, locationId: string): Promise<void> {
+    const [location] = await executor
+      .select({ isActive: storeLocations.isActive })
+      .from(storeLocations)
+      .where(and(eq(storeLocations.id, locationId), eq(storeLocations.businessId, businessId)))
+      .limit(1);
+
+    if (!location || !location.isActive) {
+      throw new Error('Location not found');
+    }
+  }
+
+  /**
+   * Resolve products and price each line. Unit price and tax rate fall back to the product's purchase price and tax rate.
+   */
+  private async priceItems(executor: DbExecutor, businessId: string, items: PurchaseOrderItemInput[]): Promise<{ lines: PricedItem[]; subtotal: number; taxAmount: number }> {
+    const productIds = [...new Set(items.map(item => item.productId))];
+    const productRows = await executor
+      .select()
+      .from(products)
+      .where(and(
+        inArray(products.id, productIds),
+        eq(products.businessId, businessId),
+        isNull(products.deletedAt)
+      ));
+
+    const variantIds = items.map(item => item.variantId).filter((id): id is string => !!id);
+    const variantRows = variantIds.length > 0
+      ? await executor.select().from(productVariants).where(inArray(productVariants.id, variantIds))
+      : [];
+
+    let subtotal = 0;
+    let taxAmount = 0;
+
+    const lines = items.map((item): PricedItem => {
+      const product = productRows.find(p => p.id === item.productId);
+      if (!product) {
+        throw new Error(`Product ${item.productId} not found`);
+      }
+
+      const variant = item.variantId ? variantRows.find(v => v.id === item.variantId) : undefined;
+      if (item.variantId && (!variant || variant.productId !== product.id)) {
+        throw new Error(`Variant ${item.variantId} does not belong to ${product.name}`);
+      }
+
+      const unitPrice = item.unitPrice ?? Number(variant?.purchasePrice ?? product.purchasePrice ?? 0);
+      const taxPercent = item.taxPercent ?? Number(product.taxPercent || 0);
+      const lineSubtotal = round2(item.quantity * unitPrice);
+      const lineTax = round2((lineSubtotal * taxPercent) / 100);
+
+      subtotal += lineSubtotal;
+      taxAmount += lineTax;
+
+      return {
+        productId: product.id,
+        variantId: item.variantId,
+        productName: variant ? `${product.name} - ${variant.variantName}` : product.name,
+        productCode: variant?.sku || product.productCode,
+        quantity: item.quantity.toFixed(2),
+        receivedQuantity: '0.00',
+        unitPrice: unitPrice.toFixed(2),
+        taxPercent: taxPercent.toFixed(2),
+        taxAmount: lineTax.toFixed(2),
+        subtotal: lineSubtotal.toFixed(2),
+        totalAmount: (lineSubtotal + lineTax).toFixed(2),
+        notes: item.notes,
+      };
+    });
+
+    return { lines, subtotal: round2(subtotal), taxAmount: round2(taxAmount) };
+  }
+
+  async createPurchaseOrder(businessId: string, userId: string, input: CreatePurchaseOrderInput, req?: AuthenticatedRequest): Promise<PurchaseOrder & { items: PurchaseOrderItem[] }> {
+    const { merchantId, locationId, orderDate, expectedDeliveryDate, shippingCost = 0, notes, internalNotes, items } = input;
+
+    const result = await db.transaction(async (tx) => {
+      const [merchant] = await tx
+        .select()
+        .from(merchants)
+        .where(and(
+          eq(merchants.id, merchantId),
+          eq(merchants.businessId, businessId)
+        ))
+        .limit(1);
+
+      if (!merchant) {
+        throw new Error('Merchant not found');
+      }
+
+      if (!merchant.isActive) {
+        throw new Error('Cannot raise a purchase order for an inactive merchant');
+      }
+
+      if (locationId) {
+        await this.assertLocation(tx, businessId, locationId);
+      }
+
+      const { lines, subtotal, taxAmount } = await this.priceItems(tx, businessId, items);
+      const totalAmount = round2(subtotal + taxAmount + shippingCost);
+      const date = orderDate ? new Date(orderDate) : new Date();
+      const orderNumber = await sequenceService.next(tx, businessId, 'PURCHASE_ORDER', { date });
+
+      const [order] = await tx
+        .insert(purchaseOrders)
+        .values({
+          businessId,
+          merchantId,
+          locationId,
+          orderNumber,
+          orderDate: date,
+          expectedDeliveryDate: expectedDeliveryDate ? new Date(expectedDeliveryDate) : undefined,
+          subtotal: subtotal.toFixed(2),
+          taxAmount: taxAmount.toFixed(2),
+          shippingCost: shippingCost.toFixed(2),
+          totalAmount: totalAmount.toFixed(2),
+          paidAmount: '0.00',
+          balanceAmount: totalAmount.toFixed(2),
+          status: 'PENDING',
+          paymentStatus: 'PENDING',
+          notes,
+          internalNotes,
+          createdBy: userId,
+        })
+        .returning();
+
+      if (!order) {
+        throw new Error('Failed to create purchase order');
+      }
+
+      const orderItems = await tx
+        .insert(purchaseOrderItems)
+        .values(lines.map(line => ({ ...line, purchaseOrderId: order.id })))
+        .returning();
+
+      return { ...order, items: orderItems };
+    });
+
+    await this.audit('CREATE', businessId, userId, result.id, undefined, { orderNumber: result.orderNumber, merchantId, totalAmount: result.totalAmount }, req);
+    logger.info('Purchase order created', { purchaseOrderId: result.id, businessId, orderNumber: result.orderNumber });
+
+    return result;
+  }
+
+  async getPurchaseOrder(businessId: string, orderId: string): Promise<PurchaseOrderDetails> {
+    const [row] = await db
+      .select({
+        order: purchaseOrders,
+        merchant: {
+          id: merchants.id,
+          merchantCode: merchants.merchantCode,
+          name: merchants.name,
+        },
+      })
+      .from(purchaseOrders)
+      .leftJoin(merchants, eq(purchaseOrders.merchantId, merchants.id))
+      .where(and(
+        eq(purchaseOrders.id, orderId),
+        eq(purchaseOrders.businessId, businessId),
+        isNull(purchaseOrders.deletedAt)
+      ))
+      .limit(1);
+
+    if (!row) {
+      throw new Error('Purchase order not found');
+    }
+
+    const items = await db
+      .select()
+      .from(purchaseOrderItems)
+      .where(eq(purchaseOrderItems.purchaseOrderId, orderId))
+      .orderBy(purchaseOrderItems.createdAt);
+
+    const receipts = await db
+      .select()
+      .from(goodsReceipts)
+      .where(eq(goodsReceipts.purchaseOrderId, orderId))
+      .orderBy(goodsReceipts.receivedDate);
+
+    const receiptItems = receipts.length > 0
+      ? await db
+        .select()
+        .from(goodsReceiptItems)
+        .where(inArray(goodsReceiptItems.goodsReceiptId, receipts.map(r => r.id)))
+      : [];
+
+    return {
+      ...row.order,
+      merchant: row.merchant,
+      items,
+      receipts: receipts.map(receipt => ({
+        ...receipt,
+        items: receiptItems.filter(item => item.goodsReceiptId === receipt.id),
+      })),
+    };
+  }
+
+  async getPurchaseOrders(businessId: string, query: PurchaseOrderQueryInput): Promise<{ purchaseOrders: (PurchaseOrder & { merchantName: string | null })[]; pagination: { page: number; limit: number; total: number; totalPages: number } }> {
+    const {
+      search,
+      merchantId,
+      status,
+      paymentStatus,
+      startDate,
+      endDate,
+      sortBy = 'orderDate',
+      sortOrder = 'desc',
+      page = 1,
+      limit = 20,
+    } = query;
+
+    const conditions: SQL[] = [
+      eq(purchaseOrders.businessId, businessId),
+      isNull(purchaseOrders.deletedAt),
+    ];
+
+    if (search) {
+      conditions.push(sql`(
+        ${purchaseOrders.orderNumber} ILIKE ${`%${search}%`} OR
+        ${merchants.name} ILIKE ${`%${search}%`}
+      )`);
+    }
+
+    if (merchantId) conditions.push(eq(purchaseOrders.merchantId, merchantId));
+    if (status) conditions.push(eq(purchaseOrders.status, status));
+    if (paymentStatus) conditions.push(eq(purchaseOrders.paymentStatus, paymentStatus));
+    if (startDate) conditions.push(gte(purchaseOrders.orderDate, new Date(startDate)));
+    if (endDate) conditions.push(lte(purchaseOrders.orderDate, new Date(endDate)));
+
+    const [countResult] = await db
+      .select({ count: count() })
+      .from(purchaseOrders)
+      .leftJoin(merchants, eq(purchaseOrders.merchantId, merchants.id))
+      .where(and(...conditions));
+
+    const total = countResult?.count || 0;
+    const offset = (page - 1) * limit;
+
+    const validSortColumns = {
+      orderDate: purchaseOrders.orderDate,
+      createdAt: purchaseOrders.createdAt,
+      totalAmount: purchaseOrders.totalAmount,
+      orderNumber: purchaseOrders.orderNumber,
+      expectedDeliveryDate: purchaseOrders.expectedDeliveryDate,
+    };
+    const sortColumn = validSortColumns[sortBy] || purchaseOrders.orderDate;
+
+    const rows = await db
+      .select({ order: purchaseOrders, merchantName: merchants.name })
+      .from(purchaseOrders)
+      .leftJoin(merchants, eq(purchaseOrders.merchantId, merchants.id))
+      .where(and(...conditions))
+      .orderBy(sortOrder === 'desc' ? desc(sortColumn) : sortColumn)
+      .limit(limit)
+      .offset(offset);
+
+    return {
+      purchaseOrders: rows.map(row => ({ ...row.order, merchantName: row.merchantName })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Edit a purchase order that has not been sent yet. Passing items replaces all lines.
+   */
+  async updatePurchaseOrder(businessId: string, userId: string, orderId: string, input: UpdatePurchaseOrderInput, req?: AuthenticatedRequest): Promise<PurchaseOrder & { items: PurchaseOrderItem[] }> {
+    const result = await db.transaction(async (tx) => {
+      const order = await this.lockOrder(tx, businessId, orderId);
+
+      if (order.status !== 'PENDING') {
+        throw new Error('Only pending purchase orders can be edited');
+      }
+
+      let subtotal = Number(order.subtotal);
+      let taxAmount = Number(order.taxAmount);
+
+      if (input.items) {
+        const priced = await this.priceItems(tx, businessId, input.items);
+        subtotal = priced.subtotal;
+        taxAmount = priced.taxAmount;
+
+        await tx.delete(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, orderId));
+        await tx.insert(purchaseOrderItems).values(priced.lines.map(line => ({ ...line, purchaseOrderId: orderId })));
+      }
+
+      const shippingCost = input.shippingCost ?? Number(order.shippingCost);
+      const totalAmount = round2(subtotal + taxAmount + shippingCost);
+
+      const updateData: Partial<typeof purchaseOrders.$inferInsert> = {
+        subtotal: subtotal.toFixed(2),
+        taxAmount: taxAmount.toFixed(2),
+        shippingCost: shippingCost.toFixed(2),
+        totalAmount: totalAmount.toFixed(2),
+        balanceAmount: round2(totalAmount - Number(order.paidAmount)).toFixed(2),
+        updatedAt: new Date(),
+      };
+
+      if (input.locationId !== undefined) {
+        await this.assertLocation(tx, businessId, input.locationId);
+        updateData.locationId = input.locationId;
+      }
+      if (input.orderDate !== undefined) updateData.orderDate = new Date(input.orderDate);
+      if (input.expectedDeliveryDate !== undefined) updateData.expectedDeliveryDate = new Date(input.expectedDeliveryDate);
+      if (input.notes !== undefined) updateData.notes = input.notes;
+      if (input.internalNotes !== undefined) updateData.internalNotes = input.internalNotes;
+
+      const [updated] = await tx
+        .update(purchaseOrders)
+        .set(updateData)
+        .where(eq(purchaseOrders.id, orderId))
+        .returning();
+
+      if (!updated) {
+        throw new Error('Purchase order not found');
+      }
+
+      const items = await tx
+        .select()
+        .from(purchaseOrderItems)
+        .where(eq(purchaseOrderItems.purchaseOrderId, orderId));
+
+      return { before: order, order: { ...updated, items } };
+    });
+
+    await this.audit('UPDATE', businessId, userId, orderId, { totalAmount: result.before.totalAmount }, { totalAmount: result.order.totalAmount }, req);
+    logger.info('Purchase order updated', { purchaseOrderId: orderId, businessId });
+
+    return result.order;
+  }
+
+  async deletePurchaseOrder(businessId: string, userId: string, orderId: string, req?: AuthenticatedRequest): Promise<{ message: string }> {
+    await db.transaction(async (tx) => {
+      const order = await this.lockOrder(tx, businessId, orderId);
+
+      if (order.status !== 'PENDING') {
+        throw new Error('Only pending purchase orders can be deleted; cancel it instead');
+      }
+
+      await tx
+        .update(purchaseOrders)
+        .set({ deletedAt: new Date(), updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, orderId));
+    });
+
+    await this.audit('DELETE', businessId, userId, orderId, undefined, undefined, req);
+    logger.info('Purchase order deleted', { purchaseOrderId: orderId, businessId });
+
+    return { message: 'Purchase order deleted successfully' };
+  }
+
+  /**
+   * Confirm a pending order and send it to the supplier. The order becomes payable to the merchant at this point.
+   * Already confirmed orders can be re-sent without changing any balances.
+   */
+  async sendPurchaseOrder(businessId: string, userId: string, orderId: string, input: SendPurchaseOrderInput, req?: AuthenticatedRequest): Promise<{ purchaseOrder: PurchaseOrder; sent: string[]; failed: string[] }> {
+    const { order, merchant, businessName, confirmed } = await db.transaction(async (tx) => {
+      const existing = await this.lockOrder(tx, businessId, orderId);
+
+      if (existing.status !== 'PENDING' && existing.status !== 'CONFIRMED') {
+        throw new Error(`Cannot send a purchase order that is ${existing.status.toLowerCase().replace('_', ' ')}`);
+      }
+
+      const [merchant] = await tx
+        .select()
+        .from(merchants)
+        .where(eq(merchants.id, existing.merchantId))
+        .for('update');
+
+      if (!merchant) {
+        throw new Error('Merchant not found');
+      }
+
+      const [business] = await tx
+        .select({ name: retailBusinesses.name })
+        .from(retailBusinesses)
+        .where(eq(retailBusinesses.id, businessId))
+        .limit(1);
+
+      if (existing.status === 'CONFIRMED') {
+        return { order: existing, merchant, businessName: business?.name || '', confirmed: false };
+      }
+
+      const [updated] = await tx
+        .update(purchaseOrders)
+        .set({ status: 'CONFIRMED', updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, orderId))
+        .returning();
+
+      if (!updated) {
+        throw new Error('Purchase order not found');
+      }
+
+      await tx
+        .update(merchants)
+        .set({
+          outstandingBalance: sql`${merchants.outstandingBalance} + ${existing.totalAmount}`,
+          totalPurchases: sql`${merchants.totalPurchases} + ${existing.totalAmount}`,
+          totalOrders: sql`${merchants.totalOrders} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(eq(merchants.id, merchant.id));
+
+      return { order: updated, merchant, businessName: business?.name || '', confirmed: true };
+    });
+
+    const items = await db
+      .select()
+      .from(purchaseOrderItems)
+      .where(eq(purchaseOrderItems.purchaseOrderId, orderId));
+
+    const channels = input.channels || (merchant.email ? ['email' as const] : []);
+    const sent: string[] = [];
+    const failed: string[] = [];
+
+    for (const channel of channels) {
+      const recipient = channel === 'email' ? merchant.email : (merchant.whatsappNumber || merchant.phone);
+      if (!recipient) {
+        failed.push(channel);
+        continue;
+      }
+
+      try {
+        await sendPurchaseOrder(channel, recipient, businessName, order, items, input.message);
+        sent.push(channel);
+      } catch {
+        failed.push(channel);
+      }
+    }
+
+    await this.audit(confirmed ? 'SEND' : 'RESEND', businessId, userId, orderId, undefined, { status: order.status, sent, failed }, req);
+    logger.info('Purchase order sent to supplier', { purchaseOrderId: orderId, businessId, confirmed, sent, failed });
+
+    return { purchaseOrder: order, sent, failed };
+  }
+
+  async cancelPurchaseOrder(businessId: string, userId: string, orderId: string, input: CancelPurchaseOrderInput, req?: AuthenticatedRequest): Promise<PurchaseOrder> {
+    const result = await db.transaction(async (tx) => {
+      const order = await this.lockOrder(tx, businessId, orderId);
+
+      if (order.status === 'CANCELLED') {
+        throw new Error('Purchase order is already cancelled');
+      }
+
+      if (order.status === 'PARTIALLY_RECEIVED' || order.status === 'RECEIVED') {
+        throw new Error('Cannot cancel a purchase order after goods have been received');
+      }
+
+      if (Number(order.paidAmount) > 0) {
+        throw new Error('Cannot cancel a purchase order with payments allocated to it');
+      }
+
+      // Confirmed orders were added to the merchant's payables when they were sent
+      if (order.status === 'CONFIRMED') {
+        await tx
+          .update(merchants)
+          .set({
+            outstandingBalance: sql`${merchants.outstandingBalance} - ${order.totalAmount}`,
+            totalPurchases: sql`${merchants.totalPurchases} - ${order.totalAmount}`,
+            totalOrders: sql`GREATEST(${merchants.totalOrders} - 1, 0)`,
+            updatedAt: new Date(),
+          })
+          .where(eq(merchants.id, order.merchantId));
+      }
+
+      const metadata = (order.metadata || {}) as Record<string, unknown>;
+
+      const [updated] = await tx
+        .update(purchaseOrders)
+        .set({
+          status: 'CANCELLED',
+          balanceAmount: '0.00',
+          metadata: { ...metadata, cancellationReason: input.reason, cancelledBy: userId, cancelledAt: new Date().toISOString() },
+          updatedAt: new Date(),
+        })
+        .where(eq(purchaseOrders.id, orderId))
+        .returning();
+
+      if (!updated) {
+        throw new Error('Purchase order not found');
+      }
+
+      return { before: order, order: updated };
+    });
+
+    await this.audit('CANCEL', businessId, userId, orderId, { status: result.before.status }, { status: 'CANCELLED', reason: input.reason }, req);
+    logger.info('Purchase order cancelled', { purchaseOrderId: orderId, businessId });
+
+    return result.order;
+  }
+
+  /**
+   * Record a goods receipt note against a confirmed order.
+   * Received stock is added through PURCHASE stock movements, product costs are refreshed,
+   * and the order closes itself once every line has been received in full.
+   */
+  async receiveGoods(businessId: string, userId: string, orderId: string, input: GoodsReceiptInput, req?: AuthenticatedRequest): Promise<{ receipt: GoodsReceipt & { items: GoodsReceiptItem[] }; purchaseOrder: PurchaseOrder }> {
+    const result = await db.transaction(async (tx) => {
+      const order = await this.lockOrder(tx, businessId, orderId);
+
+      if (order.status === 'PENDING') {
+        throw new Error('Send the purchase order to the supplier before receiving goods');
+      }
+
+      if (order.status !== 'CONFIRMED' && order.status !== 'PARTIALLY_RECEIVED') {
+        throw new Error(`Cannot receive goods against a purchase order that is ${order.status.toLowerCase()}`);
+      }
+
+      const orderItems = await tx
+        .select()
+        .from(purchaseOrderItems)
+        .where(eq(purchaseOrderItems.purchaseOrderId, orderId))
+        .for('update');
+
+      // Validate every line before touching stock
+      const lines = input.items.map((line, index) => {
+        const item = orderItems.find(i => i.id === line.purchaseOrderItemId);
+        if (!item) {
+          throw new Error(`Item ${line.purchaseOrderItemId} is not on this purchase order`);
+        }
+        if (input.items.findIndex(l => l.purchaseOrderItemId === line.purchaseOrderItemId) !== index) {
+          throw new Error(`${item.productName} is listed more than once`);
+        }
+
+        const outstanding = round2(Number(item.quantity) - Number(item.receivedQuantity));
+        if (line.quantity > outstanding + QUANTITY_TOLERANCE) {
+          throw new Error(`Cannot receive ${line.quantity} of ${item.productName}; only ${outstanding} outstanding`);
+        }
+
+        const unitCost = line.unitCost ?? Number(item.unitPrice);
+        const batch = line.batchNumber ? {
+          batchNumber: line.batchNumber,
+          manufactureDate: line.manufactureDate ? new Date(line.manufactureDate) : undefined,
+          expiryDate: line.expiryDate ? new Date(line.expiryDate) : undefined,
+        } : undefined;
+
+        return { item, quantity: line.quantity, unitCost, totalCost: round2(line.quantity * unitCost), batch, serialNumbers: line.serialNumbers, notes: line.notes };
+      });
+
+      const receivedDate = input.receivedDate ? new Date(input.receivedDate) : new Date();
+      const receiptNumber = await sequenceService.next(tx, businessId, 'GOODS_RECEIPT', { date: receivedDate });
+
+      const [receipt] = await tx
+        .insert(goodsReceipts)
+        .values({
+          businessId,
+          purchaseOrderId: orderId,
+          receiptNumber,
+          receivedDate,
+          supplierInvoiceNumber: input.supplierInvoiceNumber,
+          totalQuantity: round2(lines.reduce((total, line) => total + line.quantity, 0)).toFixed(2),
+          totalCost: round2(lines.reduce((total, line) => total + line.totalCost, 0)).toFixed(2),
+          notes: input.notes,
+          receivedBy: userId,
+        })
+        .returning();
+
+      if (!receipt) {
+        throw new Error('Failed to create goods receipt');
+      }
+
+      const receiptItems: GoodsReceiptItem[] = [];
+
+      for (const line of lines) {
+        const recorded = await inventoryService.recordMovement(tx, {
+          businessId,
+          productId: line.item.productId,
+          variantId: line.item.variantId,
+          locationId: order.locationId,
+          movementType: 'PURCHASE',
+          quantity: line.quantity,
+          unitCost: line.unitCost,
+          batch: line.batch,
+          serialNumbers: line.serialNumbers,
+          purchaseOrderId: orderId,
+          reason: `Goods receipt ${receiptNumber}`,
+          notes: line.notes,
+          performedBy: userId,
+          movementDate: receivedDate,
+          metadata: { goodsReceiptId: receipt.id, orderNumber: order.orderNumber },
+        });
+
+        // Non-stock items have no movement, but their purchase price still follows the latest receipt
+        if (!recorded) {
+          await tx.update(products)
+            .set({ purchasePrice: line.unitCost.toFixed(2), lastRestockedAt: receivedDate, updatedAt: new Date() })
+            .where(and(eq(products.id, line.item.productId), eq(products.businessId, businessId)));
+        }
+
+        await tx.update(purchaseOrderItems)
+          .set({ receivedQuantity: (Number(line.item.receivedQuantity) + line.quantity).toFixed(2) })
+          .where(eq(purchaseOrderItems.id, line.item.id));
+
+        const [receiptItem] = await tx
+          .insert(goodsReceiptItems)
+          .values({
+            goodsReceiptId: receipt.id,
+            purchaseOrderItemId: line.item.id,
+            productId: line.item.productId,
+            variantId: line.item.variantId,
+            quantity: line.quantity.toFixed(2),
+            unitCost: line.unitCost.toFixed(2),
+            totalCost: line.totalCost.toFixed(2),
+            stockMovementId: recorded?.movement.id,
+            batchId: recorded?.batches[0]?.batchId,
+            notes: line.notes,
+          })
+          .returning();
+
+        if (receiptItem) receiptItems.push(receiptItem);
+      }
+
+      const fullyReceived = orderItems.every(item => {
+        const received = Number(item.receivedQuantity) + (lines.find(l => l.item.id === item.id)?.quantity || 0);
+        return received >= Number(item.quantity) - QUANTITY_TOLERANCE;
+      });
+
+      const [updated] = await tx
+        .update(purchaseOrders)
+        .set(fullyReceived
+          ? { status: 'RECEIVED', actualDeliveryDate: receivedDate, receivedBy: userId, updatedAt: new Date() }
+          : { status: 'PARTIALLY_RECEIVED', updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, orderId))
+        .returning();
+
+      if (!updated) {
+        throw new Error('Purchase order not found');
+      }
+
+      return { receipt: { ...receipt, items: receiptItems }, purchaseOrder: updated };
+    });
+
+    await this.audit('RECEIVE_GOODS', businessId, userId, orderId, undefined, {
+      receiptNumber: result.receipt.receiptNumber,
+      totalQuantity: result.receipt.totalQuantity,
+      status: result.purchaseOrder.status,
+    }, req);
+    logger.info('Goods received', {
+      purchaseOrderId: orderId,
+      goodsReceiptId: result.receipt.id,
+      businessId,
+      status: result.purchaseOrder.status,
+    });
+
+    return result;
+  }
+}
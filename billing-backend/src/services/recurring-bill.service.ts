@@ -0,0 +1,346 @@
+import { db } from '../config/database';
+import { bills, billItems, billHistory, customers } from '../models/drizzle/schema';
+import { eq, and, sql, desc, count, lte, isNull, isNotNull, notInArray, SQL } from 'drizzle-orm';
+import { RecurringBillQueryInput } from '../schemas/bill.schema';
+import { logger } from '../utils/logger';
+import { calculateNextRecurringDate } from '../utils/billing';
+import { addBillNotificationJob } from '../queues/bullmq';
+import { BillingService } from './billing.service';
+import { AuthenticatedRequest } from '../types/common';
+
+type Bill = typeof bills.$inferSelect;
+type RecurringBill = Bill & { recurringFrequency: NonNullable<Bill['recurringFrequency']> };
+
+interface RecurringRunSummary {
+  processed: number;
+  generated: number;
+  skipped: number;
+  ended: number;
+  failed: number;
+}
+
+// Guards against runaway previews for DAILY schedules
+const MAX_PREVIEW_OCCURRENCES = 52;
+
+// Templates in these states never issue occurrences; a draft has not been finalized yet
+const INACTIVE_TEMPLATE_STATUSES: Bill['status'][] = ['DRAFT', 'VOID', 'CANCELLED'];
+
+const billingService = new BillingService();
+
+export class RecurringBillService {
+
+  private isRecurringTemplate(bill: Bill): bill is RecurringBill {
+    return bill.isRecurring && !!bill.recurringFrequency;
+  }
+
+  private async getTemplate(businessId: string, billId: string): Promise<RecurringBill> {
+    const [bill] = await db
+      .select()
+      .from(bills)
+      .where(and(eq(bills.id, billId), eq(bills.businessId, businessId)))
+      .limit(1);
+
+    if (!bill) throw new Error('Bill not found');
+    if (!this.isRecurringTemplate(bill)) throw new Error('Bill is not recurring');
+
+    return bill;
+  }
+
+  private hasReachedLimit(bill: RecurringBill, occurrenceDate: Date, occurrenceCount: number): boolean {
+    if (bill.recurringEndDate && occurrenceDate > bill.recurringEndDate) return true;
+    if (bill.recurringMaxOccurrences && occurrenceCount >= bill.recurringMaxOccurrences) return true;
+    return false;
+  }
+
+  async listRecurringBills(businessId: string, query: RecurringBillQueryInput): Promise<{ bills: Bill[]; pagination: { page: number; limit: number; total: number; totalPages: number } }> {
+    const { state, customerId, page = 1, limit = 20 } = query;
+
+    const conditions: SQL[] = [
+      eq(bills.businessId, businessId),
+      eq(bills.isRecurring, true),
+      isNull(bills.parentBillId),
+    ];
+
+    if (customerId) {
+      conditions.push(eq(bills.customerId, customerId));
+    }
+    if (state === 'ACTIVE') {
+      conditions.push(isNotNull(bills.nextRecurringDate), eq(bills.recurringPaused, false));
+    } else if (state === 'PAUSED') {
+      conditions.push(isNotNull(bills.nextRecurringDate), eq(bills.recurringPaused, true));
+    } else if (state === 'ENDED') {
+      conditions.push(isNull(bills.nextRecurringDate));
+    }
+
+    const condition = and(...conditions);
+    const offset = (page - 1) * limit;
+
+    const [totalRes] = await db.select({ count: count() }).from(bills).where(condition);
+    const total = totalRes?.count ? Number(totalRes.count) : 0;
+    const totalPages = Math.ceil(total / limit);
+
+    const data = await db
+      .select()
+      .from(bills)
+      .where(condition)
+      .orderBy(sql`${bills.nextRecurringDate} ASC NULLS LAST`, desc(bills.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    return {
+      bills: data,
+      pagination: { page, limit, total, totalPages }
+    };
+  }
+
+  async pauseRecurringBill(businessId: string, userId: string, billId: string, req?: AuthenticatedRequest): Promise<Bill> {
+    const bill = await this.getTemplate(businessId, billId);
+
+    if (!bill.nextRecurringDate) throw new Error('Recurring schedule has already ended');
+    if (bill.recurringPaused) throw new Error('Recurring schedule is already paused');
+
+    const [updated] = await db.update(bills)
+      .set({ recurringPaused: true, updatedAt: new Date() })
+      .where(eq(bills.id, billId))
+      .returning();
+
+    if (!updated) throw new Error('Failed to update recurring schedule');
+
+    await db.insert(billHistory).values({
+      billId,
+      action: 'RECURRING_PAUSED',
+      performedBy: userId,
+      description: 'Recurring schedule paused',
+      ipAddress: req?.ip,
+      userAgent: req?.get('User-Agent'),
+    });
+
+    logger.info('Recurring bill paused', { billId, businessId });
+
+    return updated;
+  }
+
+  async resumeRecurringBill(businessId: string, userId: string, billId: string, req?: AuthenticatedRequest): Promise<Bill> {
+    const bill = await this.getTemplate(businessId, billId);
+
+    if (!bill.nextRecurringDate) throw new Error('Recurring schedule has already ended');
+    if (!bill.recurringPaused) throw new Error('Recurring schedule is not paused');
+
+    // Occurrences missed while paused are not back-filled
+    const now = new Date();
+    let nextRecurringDate = bill.nextRecurringDate;
+    while (nextRecurringDate < now) {
+      nextRecurringDate = calculateNextRecurringDate(nextRecurringDate, bill.recurringFrequency, bill.billDate.getDate());
+    }
+
+    const ended = this.hasReachedLimit(bill, nextRecurringDate, bill.recurringOccurrenceCount);
+
+    const [updated] = await db.update(bills)
+      .set({
+        recurringPaused: false,
+        nextRecurringDate: ended ? null : nextRecurringDate,
+        updatedAt: new Date(),
+      })
+      .where(eq(bills.id, billId))
+      .returning();
+
+    if (!updated) throw new Error('Failed to update recurring schedule');
+
+    await db.insert(billHistory).values({
+      billId,
+      action: 'RECURRING_RESUMED',
+      performedBy: userId,
+      description: ended ? 'Recurring schedule resumed past its end date and has ended' : `Recurring schedule resumed, next occurrence on ${nextRecurringDate.toISOString()}`,
+      ipAddress: req?.ip,
+      userAgent: req?.get('User-Agent'),
+    });
+
+    logger.info('Recurring bill resumed', { billId, businessId, nextRecurringDate: ended ? null : nextRecurringDate });
+
+    return updated;
+  }
+
+  async previewOccurrences(businessId: string, billId: string, countRequested: number = 5): Promise<{ billId: string; paused: boolean; occurrences: Array<{ occurrence: number; billDate: Date; dueDate: Date | null }> }> {
+    const bill = await this.getTemplate(businessId, billId);
+    const limit = Math.min(Math.max(countRequested, 1), MAX_PREVIEW_OCCURRENCES);
+    const dueOffset = bill.dueDate ? bill.dueDate.getTime() - bill.billDate.getTime() : null;
+
+    const occurrences: Array<{ occurrence: number; billDate: Date; dueDate: Date | null }> = [];
+    let occurrenceDate = bill.nextRecurringDate;
+    let occurrenceCount = bill.recurringOccurrenceCount;
+
+    while (occurrenceDate && occurrences.length < limit && !this.hasReachedLimit(bill, occurrenceDate, occurrenceCount)) {
+      occurrenceCount++;
+      occurrences.push({
+        occurrence: occurrenceCount,
+        billDate: occurrenceDate,
+        dueDate: dueOffset !== null ? new Date(occurrenceDate.getTime() + dueOffset) : null,
+      });
+      occurrenceDate = calculateNextRecurringDate(occurrenceDate, bill.recurringFrequency, bill.billDate.getDate());
+    }
+
+    return { billId, paused: bill.recurringPaused, occurrences };
+  }
+
+  /**
+   * Generate the next occurrence of every recurring bill that has fallen due.
+   * Run from the recurring bills repeatable job; each run issues at most one occurrence per template.
+   */
+  async processDueRecurringBills(now: Date = new Date()): Promise<RecurringRunSummary> {
+    const summary: RecurringRunSummary = { processed: 0, generated: 0, skipped: 0, ended: 0, failed: 0 };
+
+    const dueBills = await db
+      .select()
+      .from(bills)
+      .where(and(
+        eq(bills.isRecurring, true),
+        eq(bills.recurringPaused, false),
+        isNotNull(bills.nextRecurringDate),
+        lte(bills.nextRecurringDate, now),
+        notInArray(bills.status, INACTIVE_TEMPLATE_STATUSES)
+      ));
+
+    for (const template of dueBills) {
+      if (!this.isRecurringTemplate(template)) continue;
+
+      summary.processed++;
+      try {
+        const outcome = await this.generateOccurrence(template);
+        summary[outcome]++;
+      } catch (error) {
+        summary.failed++;
+        logger.error('Failed to generate recurring bill', {
+          billId: template.id,
+          businessId: template.businessId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    logger.info('Recurring bills processed', summary);
+
+    return summary;
+  }
+
+  private async generateOccurrence(template: RecurringBill): Promise<'generated' | 'skipped' | 'ended'> {
+    const occurrenceDate = template.nextRecurringDate;
+    if (!occurrenceDate) return 'skipped';
+
+    const following = calculateNextRecurringDate(occurrenceDate, template.recurringFrequency, template.billDate.getDate());
+
+    if (this.hasReachedLimit(template, occurrenceDate, template.recurringOccurrenceCount)) {
+      await db.update(bills)
+        .set({ nextRecurringDate: null, updatedAt: new Date() })
+        .where(eq(bills.id, template.id));
+      logger.info('Recurring schedule ended', { billId: template.id });
+      return 'ended';
+    }
+
+    // Claim the occurrence before creating the bill so overlapping runs cannot issue it twice
+    const [claimed] = await db.update(bills)
+      .set({
+        nextRecurringDate: following,
+        recurringOccurrenceCount: sql`${bills.recurringOccurrenceCount} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(bills.id, template.id),
+        eq(bills.nextRecurringDate, occurrenceDate),
+        notInArray(bills.status, INACTIVE_TEMPLATE_STATUSES)
+      ))
+      .returning({ id: bills.id });
+
+    if (!claimed) return 'skipped';
+
+    let customer: typeof customers.$inferSelect | undefined;
+    if (template.customerId) {
+      [customer] = await db.select().from(customers).where(eq(customers.id, template.customerId)).limit(1);
+    }
+
+    if (customer && (customer.isBlacklisted || !customer.isActive || customer.deletedAt)) {
+      // The occurrence is skipped rather than issued, so it does not count towards the limit
+      await db.update(bills)
+        .set({ recurringOccurrenceCount: sql`${bills.recurringOccurrenceCount} - 1` })
+        .where(eq(bills.id, template.id));
+      await db.insert(billHistory).values({
+        billId: template.id,
+        action: 'RECURRING_SKIPPED',
+        description: `Occurrence for ${occurrenceDate.toISOString()} skipped: customer is ${customer.isBlacklisted ? 'blacklisted' : 'inactive'}`,
+      });
+      logger.info('Recurring occurrence skipped', { billId: template.id, customerId: customer.id });
+      return 'skipped';
+    }
+
+    const templateItems = await db
+      .select()
+      .from(billItems)
+      .where(eq(billItems.billId, template.id))
+      .orderBy(billItems.sortOrder);
+
+    const dueDate = template.dueDate
+      ? new Date(occurrenceDate.getTime() + (template.dueDate.getTime() - template.billDate.getTime()))
+      : undefined;
+
+    let bill: Bill;
+    try {
+      bill = await billingService.createBill(template.businessId, template.createdBy, {
+        customerId: template.customerId || undefined,
+        locationId: template.locationId || undefined,
+        billDate: occurrenceDate.toISOString(),
+        dueDate: dueDate?.toISOString(),
+        // Each occurrence sells from whichever batches are current, not the template's
+        items: billingService.toItemInputs(templateItems, template.taxInclusive).map(item => ({ ...item, batchId: undefined, serialNumbers: undefined })),
+        shippingCost: Number(template.shippingCost || 0),
+        adjustmentAmount: Number(template.adjustmentAmount || 0),
+        roundOffAmount: Number(template.roundOffAmount || 0),
+        notes: template.notes || undefined,
+        internalNotes: template.internalNotes || undefined,
+        terms: template.terms || undefined,
+        customerNotes: template.customerNotes || undefined,
+        billingAddress: template.billingAddress || undefined,
+        shippingAddress: template.shippingAddress || undefined,
+        placeOfSupply: template.placeOfSupply || undefined,
+        taxInclusive: template.taxInclusive,
+        paymentMethod: template.paymentMethod || undefined,
+        status: 'PENDING',
+      }, undefined, { parentBillId: template.id });
+    } catch (error) {
+      // Release the claim so the occurrence is retried on the next run
+      await db.update(bills)
+        .set({
+          nextRecurringDate: occurrenceDate,
+          recurringOccurrenceCount: sql`${bills.recurringOccurrenceCount} - 1`,
+        })
+        .where(eq(bills.id, template.id));
+      throw error;
+    }
+
+    await db.insert(billHistory).values({
+      billId: template.id,
+      action: 'RECURRING_GENERATED',
+      newValue: bill.billNumber,
+      description: `Generated ${bill.billNumber} for ${occurrenceDate.toISOString()}`,
+    });
+
+    if (template.recurringAutoSend && customer) {
+      await this.queueNotifications(customer, bill);
+    }
+
+    logger.info('Recurring bill generated', { templateId: template.id, billId: bill.id, billNumber: bill.billNumber });
+
+    return 'generated';
+  }
+
+  private async queueNotifications(customer: typeof customers.$inferSelect, bill: Bill): Promise<void> {
+    const channels: Array<{ type: 'email' | 'sms' | 'whatsapp'; recipient: string | null }> = [
+      { type: 'whatsapp', recipient: customer.sendWhatsappBills ? (customer.whatsappNumber || customer.phone) : null },
+      { type: 'sms', recipient: customer.sendSmsBills ? customer.phone : null },
+      { type: 'email', recipient: customer.sendEmailBills ? customer.email : null },
+    ];
+
+    for (const { type, recipient } of channels) {
+      if (!recipient) continue;
+      await addBillNotificationJob({ type, recipient, billId: bill.id, businessId: bill.businessId });
+    }
+  }
+}
@@ -0,0 +1,387 @@
+import { db } from '../config/database';
+import {
+  products,
+  merchants,
+  purchaseOrders,
+  purchaseOrderItems,
+  stockMovements,
+  bills,
+  billItems,
+} from '../models/drizzle/schema';
+import { eq, and, sql, gte, inArray, notInArray, isNull, desc } from 'drizzle-orm';
+import { ReorderSuggestionQueryInput, ConfirmReorderInput } from '../schemas/purchase-order.schema';
+import { logger } from '../utils/logger';
+import { PurchaseOrderService } from './purchase-order.service';
+import { AuthenticatedRequest } from '../types/common';
+
+export interface ReorderSuggestion {
+  productId: string;
+  productCode: string;
+  productName: string;
+  unit: string;
+  currentStock: number;
+  onOrder: number;
+  soldInWindow: number;
+  dailyVelocity: number;
+  daysOfCover: number | null;
+  leadTimeDays: number;
+  reorderPoint: number;
+  targetStock: number;
+  suggestedQuantity: number;
+  unitPrice: number;
+  estimatedCost: number;
+  supplierSource: 'PURCHASE_HISTORY' | 'CATEGORY' | null;
+}
+
+export interface ReorderGroup {
+  merchant: { id: string; merchantCode: string; name: string; isPreferred: boolean } | null;
+  items: ReorderSuggestion[];
+  estimatedTotal: number;
+}
+
+interface SupplierCandidate {
+  merchantId: string;
+  isPreferred: boolean;
+  lastOrderDate: Date;
+  lastUnitPrice: number;
+}
+
+const DEFAULT_WINDOW_DAYS = 30;
+const DEFAULT_LEAD_TIME_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Units that are bought in whole numbers; everything else is ordered to two decimals
+const COUNTABLE_UNITS = ['PIECE', 'DOZEN', 'BOX', 'BUNDLE'];
+
+const purchaseOrderService = new PurchaseOrderService();
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function roundUpQuantity(quantity: number, unit: string): number {
+  return COUNTABLE_UNITS.includes(unit) ? Math.ceil(quantity - 0.0001) : Math.ceil(quantity * 100 - 0.0001) / 100;
+}
+
+export class ReplenishmentService {
+  /**
+   * Net units sold per product over the window. Stock movements are the source of truth;
+   * products with no movements in the window (e.g. bills raised before stock tracking) fall back to bill lines.
+   */
+  private async getSalesInWindow(businessId: string, productIds: string[], since: Date): Promise<Map<string, number>> {
+    const movementRows = await db
+      .select({
+        productId: stockMovements.productId,
+        sold: sql<string>`COALESCE(SUM(CASE WHEN ${stockMovements.movementType} = 'SALE' THEN -${stockMovements.quantity} ELSE 0 END), 0)`,
+        returned: sql<string>`COALESCE(SUM(CASE WHEN ${stockMovements.movementType} = 'RETURN' AND ${stockMovements.billId} IS NOT NULL THEN ${stockMovements.quantity} ELSE 0 END), 0)`,
+      })
+      .from(stockMovements)
+      .where(and(
+        eq(stockMovements.businessId, businessId),
+        inArray(stockMovements.productId, productIds),
+        inArray(stockMovements.movementType, ['SALE', 'RETURN']),
+        gte(stockMovements.movementDate, since)
+      ))
+      .groupBy(stockMovements.productId);
+
+    const sales = new Map<string, number>();
+    for (const row of movementRows) {
+      sales.set(row.productId, Math.max(Number(row.sold) - Number(row.returned), 0));
+    }
+
+    const withoutMovements = productIds.filter(id => !sales.has(id));
+    if (withoutMovements.length > 0) {
+      const billRows = await db
+        .select({
+          productId: billItems.productId,
+          sold: sql<string>`COALESCE(SUM(${billItems.quantity}), 0)`,
+        })
+        .from(billItems)
+        .innerJoin(bills, eq(billItems.billId, bills.id))
+        .where(and(
+          eq(bills.businessId, businessId),
+          inArray(billItems.productId, withoutMovements),
+          notInArray(bills.status, ['DRAFT', 'CANCELLED', 'VOID']),
+          gte(bills.billDate, since)
+        ))
+        .groupBy(billItems.productId);
+
+      for (const row of billRows) {
+        if (row.productId) sales.set(row.productId, Number(row.sold));
+      }
+    }
+
+    return sales;
+  }
+
+  // Quantity still to arrive on open orders, drafts included so suggestions are not raised twice
+  private async getOnOrder(businessId: string, productIds: string[]): Promise<Map<string, number>> {
+    const rows = await db
+      .select({
+        productId: purchaseOrderItems.productId,
+        outstanding: sql<string>`COALESCE(SUM(GREATEST(${purchaseOrderItems.quantity} - ${purchaseOrderItems.receivedQuantity}, 0)), 0)`,
+      })
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchaseOrderId, purchaseOrders.id))
+      .where(and(
+        eq(purchaseOrders.businessId, businessId),
+        inArray(purchaseOrders.status, ['PENDING', 'CONFIRMED', 'PARTIALLY_RECEIVED']),
+        isNull(purchaseOrders.deletedAt),
+        inArray(purchaseOrderItems.productId, productIds)
+      ))
+      .groupBy(purchaseOrderItems.productId);
+
+    return new Map(rows.map(row => [row.productId, Number(row.outstanding)]));
+  }
+
+  // Merchants that have supplied each product before, most recent order first
+  private async getSupplierHistory(businessId: string, productIds: string[]): Promise<Map<string, SupplierCandidate[]>> {
+    const rows = await db
+      .select({
+        productId: purchaseOrderItems.productId,
+        merchantId: purchaseOrders.merchantId,
+        isPreferred: merchants.isPreferred,
+        orderDate: purchaseOrders.orderDate,
+        unitPrice: purchaseOrderItems.unitPrice,
+      })
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchaseOrderId, purchaseOrders.id))
+      .innerJoin(merchants, eq(purchaseOrders.merchantId, merchants.id))
+      .where(and(
+        eq(purchaseOrders.businessId, businessId),
+        inArray(purchaseOrderItems.productId, productIds),
+        sql`${purchaseOrders.status} <> 'CANCELLED'`,
+        isNull(purchaseOrders.deletedAt),
+        eq(merchants.isActive, true)
+      ))
+      .orderBy(desc(purchaseOrders.orderDate));
+
+    const history = new Map<string, SupplierCandidate[]>();
+    for (const row of rows) {
+      const candidates = history.get(row.productId) || [];
+      if (!candidates.some(c => c.merchantId === row.merchantId)) {
+        candidates.push({
+          merchantId: row.merchantId,
+          isPreferred: row.isPreferred,
+          lastOrderDate: row.orderDate,
+          lastUnitPrice: Number(row.unitPrice),
+        });
+      }
+      history.set(row.productId, candidates);
+    }
+
+    return history;
+  }
+
+  /**
+   * Propose replenishment quantities for tracked products and group them by merchant.
+   *
+   * A product needs reordering when stock on hand plus stock on order has fallen to its reorder point
+   * (the configured one, or minimum stock / lead-time demand when none is set). It is topped up to
+   * maximum stock when configured, otherwise by its reorder quantity or one window's worth of demand.
+   *
+   * Each product goes to a preferred merchant that has supplied it before, then its most recent supplier,
+   * then a preferred merchant covering its category.
+   */
+  async getReorderSuggestions(businessId: string, query: ReorderSuggestionQueryInput): Promise<{ generatedAt: Date; windowDays: number; groups: ReorderGroup[]; totalProducts: number; estimatedTotal: number }> {
+    const windowDays = query.windowDays || DEFAULT_WINDOW_DAYS;
+    const defaultLeadTime = query.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS;
+    const generatedAt = new Date();
+    const since = new Date(generatedAt.getTime() - windowDays * DAY_MS);
+
+    const productConditions = [
+      eq(products.businessId, businessId),
+      eq(products.isActive, true),
+      eq(products.trackQuantity, true),
+      eq(products.isService, false),
+      isNull(products.deletedAt),
+    ];
+    if (query.categoryId) productConditions.push(eq(products.categoryId, query.categoryId));
+
+    const productRows = await db
+      .select()
+      .from(products)
+      .where(and(...productConditions))
+      .orderBy(products.name);
+
+    const empty = { generatedAt, windowDays, groups: [], totalProducts: 0, estimatedTotal: 0 };
+    if (productRows.length === 0) return empty;
+
+    const productIds = productRows.map(p => p.id);
+    const [sales, onOrder, history] = await Promise.all([
+      this.getSalesInWindow(businessId, productIds, since),
+      this.getOnOrder(businessId, productIds),
+      this.getSupplierHistory(businessId, productIds),
+    ]);
+
+    const merchantRows = await db
+      .select()
+      .from(merchants)
+      .where(and(
+        eq(merchants.businessId, businessId),
+        eq(merchants.isActive, true),
+        isNull(merchants.deletedAt)
+      ));
+
+    const preferredByCategory = merchantRows.filter(m => m.isPreferred && Array.isArray(m.categories));
+
+    const groups = new Map<string, ReorderGroup>();
+
+    for (const product of productRows) {
+      // Pick the supplier first so its delivery time feeds the reorder point
+      const candidates = history.get(product.id) || [];
+      let supplier = candidates.find(c => c.isPreferred) || candidates[0];
+      let supplierSource: ReorderSuggestion['supplierSource'] = supplier ? 'PURCHASE_HISTORY' : null;
+      let merchant = supplier ? merchantRows.find(m => m.id === supplier?.merchantId) : undefined;
+
+      if (!merchant) {
+        merchant = product.categoryId
+          ? preferredByCategory.find(m => (m.categories as unknown[]).includes(product.categoryId))
+          : undefined;
+        supplier = undefined;
+        supplierSource = merchant ? 'CATEGORY' : null;
+      }
+
+      if (query.merchantId && merchant?.id !== query.merchantId) continue;
+
+      const currentStock = Number(product.currentStock || 0);
+      const pending = onOrder.get(product.id) || 0;
+      const soldInWindow = sales.get(product.id) || 0;
+      const dailyVelocity = soldInWindow / windowDays;
+      const leadTimeDays = merchant?.avgDeliveryTime ?? defaultLeadTime;
+
+      const leadTimeDemand = dailyVelocity * leadTimeDays;
+      const reorderPoint = product.reorderPoint !== null
+        ? Number(product.reorderPoint)
+        : Math.max(Number(product.minimumStock || 0), leadTimeDemand);
+
+      const projected = currentStock + pending;
+      // Nothing selling and no thresholds configured means there is nothing to plan for
+      if (reorderPoint <= 0 && dailyVelocity === 0) continue;
+      if (projected > reorderPoint) continue;
+
+      let targetStock: number;
+      if (product.maximumStock !== null && Number(product.maximumStock) > 0) {
+        targetStock = Number(product.maximumStock);
+      } else if (product.reorderQuantity !== null && Number(product.reorderQuantity) > 0) {
+        targetStock = projected + Number(product.reorderQuantity);
+      } else {
+        targetStock = reorderPoint + dailyVelocity * windowDays;
+      }
+
+      const suggestedQuantity = roundUpQuantity(targetStock - projected, product.unit);
+      if (suggestedQuantity <= 0) continue;
+
+      const unitPrice = supplier?.lastUnitPrice ?? Number(product.purchasePrice || 0);
+
+      const suggestion: ReorderSuggestion = {
+        productId: product.id,
+        productCode: product.productCode,
+        productName: product.name,
+        unit: product.unit,
+        currentStock,
+        onOrder: round2(pending),
+        soldInWindow: round2(soldInWindow),
+        dailyVelocity: round2(dailyVelocity),
+        daysOfCover: dailyVelocity > 0 ? Math.floor(currentStock / dailyVelocity) : null,
+        leadTimeDays,
+        reorderPoint: round2(reorderPoint),
+        targetStock: round2(targetStock),
+        suggestedQuantity,
+        unitPrice,
+        estimatedCost: round2(suggestedQuantity * unitPrice),
+        supplierSource,
+      };
+
+      const key = merchant?.id || 'UNASSIGNED';
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          merchant: merchant
+            ? { id: merchant.id, merchantCode: merchant.merchantCode, name: merchant.name, isPreferred: merchant.isPreferred }
+            : null,
+          items: [],
+          estimatedTotal: 0,
+        };
+        groups.set(key, group);
+      }
+      group.items.push(suggestion);
+      group.estimatedTotal = round2(group.estimatedTotal + suggestion.estimatedCost);
+    }
+
+    // Merchant groups first, largest spend first; products without a supplier last
+    const sorted = [...groups.values()].sort((a, b) => {
+      if (!a.merchant) return 1;
+      if (!b.merchant) return -1;
+      return b.estimatedTotal - a.estimatedTotal;
+    });
+
+    return {
+      generatedAt,
+      windowDays,
+      groups: sorted,
+      totalProducts: sorted.reduce((total, group) => total + group.items.length, 0),
+      estimatedTotal: round2(sorted.reduce((total, group) => total + group.estimatedTotal, 0)),
+    };
+  }
+
+  /**
+   * Turn reorder suggestions into one draft (PENDING) purchase order per merchant.
+   * Reviewed lines can be passed in; otherwise the current suggestions are used as they stand.
+   */
+  async createDraftPurchaseOrders(businessId: string, userId: string, input: ConfirmReorderInput, req?: AuthenticatedRequest): Promise<{ purchaseOrders: Awaited<ReturnType<PurchaseOrderService['createPurchaseOrder']>>[]; unassigned: ReorderSuggestion[] }> {
+    let lines = input.lines;
+    let unassigned: ReorderSuggestion[] = [];
+
+    if (!lines) {
+      const suggestions = await this.getReorderSuggestions(businessId, {
+        windowDays: input.windowDays,
+        leadTimeDays: input.leadTimeDays,
+      });
+
+      lines = suggestions.groups.flatMap(group => group.merchant
+        ? group.items.map(item => ({
+          productId: item.productId,
+          merchantId: group.merchant?.id || '',
+          quantity: item.suggestedQuantity,
+          unitPrice: item.unitPrice,
+        }))
+        : []);
+      unassigned = suggestions.groups.find(group => !group.merchant)?.items || [];
+    }
+
+    if (lines.length === 0) {
+      throw new Error('No reorder suggestions to confirm');
+    }
+
+    const byMerchant = new Map<string, typeof lines>();
+    for (const line of lines) {
+      byMerchant.set(line.merchantId, [...(byMerchant.get(line.merchantId) || []), line]);
+    }
+
+    const created: Awaited<ReturnType<PurchaseOrderService['createPurchaseOrder']>>[] = [];
+    for (const [merchantId, merchantLines] of byMerchant) {
+      const order = await purchaseOrderService.createPurchaseOrder(businessId, userId, {
+        merchantId,
+        expectedDeliveryDate: input.expectedDeliveryDate,
+        notes: input.notes,
+        internalNotes: 'Generated from reorder suggestions',
+        items: merchantLines.map(line => ({
+          productId: line.productId,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+        })),
+      }, req);
+      created.push(order);
+    }
+
+    logger.info('Draft purchase orders created from reorder suggestions', {
+      businessId,
+      purchaseOrders: created.length,
+      lines: lines.length,
+      unassigned: unassigned.length,
+    });
+
+    return { purchaseOrders: created, unassigned };
+  }
+}
@@ -5,8 +5,10 @@ import {
   products, 
   productVariants, 
   expenses,
+  inventoryCostLayers,
+  moneyTransactions,
 } from '../models/drizzle/schema';
-import { and, eq, sql, between, desc } from 'drizzle-orm';
+import { and, eq, sql, between, desc, isNull } from 'drizzle-orm';
 
 export class ReportService {
 
@@ -73,59 +75,128 @@ export class ReportService {
 
   // ==================== INVENTORY REPORT ====================
   async getInventoryValuation(businessId: string): Promise<{ totalValuation: number; totalItems: number; breakdown: unknown[] }> {
-    // Current stock valuation based on product variants
-    // Valuation = Stock Quantity * Purchase Price (Average Cost ideally, but using purchasePrice from variant for now)
+    // Stock on hand valued at the cost of the purchase layers it still holds, per variant for variant products.
+    // Stock no layer covers (pre-ledger or negative stock) is valued at the variant's or product's average cost.
+    const stockedProduct = and(
+      eq(products.businessId, businessId),
+      eq(products.trackQuantity, true),
+      eq(products.isService, false),
+      isNull(products.deletedAt)
+    );
 
-    const inventoryData = await db
+    const productRows = await db
       .select({
-        variantId: productVariants.id,
+        productId: products.id,
+        productCode: products.productCode,
         productName: products.name,
+        variantId: sql<string | null>`NULL`,
+        variantName: sql<string | null>`NULL`,
+        stockQuantity: sql<number>`COALESCE(${products.currentStock}, 0)`.mapWith(Number),
+        layeredQuantity: sql<number>`COALESCE(SUM(${inventoryCostLayers.remainingQuantity}), 0)`.mapWith(Number),
+        layeredValue: sql<number>`COALESCE(SUM(${inventoryCostLayers.remainingQuantity} * ${inventoryCostLayers.unitCost}), 0)`.mapWith(Number),
+        averageCost: sql<number>`COALESCE(${products.averageCost}, ${products.purchasePrice}, 0)`.mapWith(Number),
+      })
+      .from(products)
+      .leftJoin(inventoryCostLayers, and(
+        eq(inventoryCostLayers.productId, products.id),
+        sql`${inventoryCostLayers.remainingQuantity} > 0`
+      ))
+      .where(and(
+        stockedProduct,
+        sql`NOT EXISTS (SELECT 1 FROM ${productVariants} WHERE ${productVariants.productId} = ${products.id})`
+      ))
+      .groupBy(products.id);
+
+    const variantRows = await db
+      .select({
+        productId: products.id,
+        productCode: products.productCode,
+        productName: products.name,
+        variantId: productVariants.id,
         variantName: productVariants.variantName,
-        stockQuantity: productVariants.stockQuantity,
-        purchasePrice: productVariants.purchasePrice,
-        valuation: sql<number>`(${productVariants.stockQuantity} * COALESCE(${productVariants.purchasePrice}, 0))`.mapWith(Number)
+        stockQuantity: sql<number>`COALESCE(${productVariants.stockQuantity}, 0)`.mapWith(Number),
+        layeredQuantity: sql<number>`COALESCE(SUM(${inventoryCostLayers.remainingQuantity}), 0)`.mapWith(Number),
+        layeredValue: sql<number>`COALESCE(SUM(${inventoryCostLayers.remainingQuantity} * ${inventoryCostLayers.unitCost}), 0)`.mapWith(Number),
+        averageCost: sql<number>`COALESCE(${productVariants.purchasePrice}, ${products.averageCost}, ${products.purchasePrice}, 0)`.mapWith(Number),
       })
       .from(productVariants)
-      .leftJoin(products, eq(productVariants.productId, products.id))
-      .where(
-        and(
-            eq(products.businessId, businessId),
-            eq(productVariants.isActive, true)
-        )
-      );
+      .innerJoin(products, eq(productVariants.productId, products.id))
+      .leftJoin(inventoryCostLayers, and(
+        eq(inventoryCostLayers.variantId, productVariants.id),
+        sql`${inventoryCostLayers.remainingQuantity} > 0`
+      ))
+      .where(stockedProduct)
+      .groupBy(productVariants.id, products.id);
+
+    const breakdown = [...productRows, ...variantRows].map(item => {
+      const unlayered = item.stockQuantity - item.layeredQuantity;
+      const valuation = item.layeredValue + unlayered * item.averageCost;
+      return {
+        ...item,
+        valuation: Math.round(valuation * 100) / 100,
+      };
+    });
 
-    const totalValuation = inventoryData.reduce((sum, item) => sum + item.valuation, 0);
-    const totalItems = inventoryData.reduce((sum, item) => sum + Number(item.stockQuantity), 0);
+    const totalValuation = breakdown.reduce((sum, item) => sum + item.valuation, 0);
+    const totalItems = breakdown.reduce((sum, item) => sum + item.stockQuantity, 0);
 
     return {
       totalValuation,
       totalItems,
-      breakdown: inventoryData
+      breakdown
     };
   }
 
   async getLowStockAlerts(businessId: string): Promise<unknown[]> {
-    return await db
+    // Variants are checked against their own minimum, falling back to the product's; other products against the product's
+    const variantAlerts = await db
       .select({
         productId: products.id,
         productName: products.name,
+        variantId: productVariants.id,
         variantName: productVariants.variantName,
         currentStock: productVariants.stockQuantity,
-        minimumStock: productVariants.minimumStock,
+        minimumStock: sql<string>`COALESCE(${productVariants.minimumStock}, ${products.minimumStock})`,
       })
       .from(productVariants)
-      .leftJoin(products, eq(productVariants.productId, products.id))
+      .innerJoin(products, eq(productVariants.productId, products.id))
       .where(
         and(
           eq(products.businessId, businessId),
+          eq(products.isActive, true),
           eq(productVariants.isActive, true),
-          sql`${productVariants.stockQuantity} <= ${productVariants.minimumStock}`
+          sql`COALESCE(${productVariants.minimumStock}, ${products.minimumStock}) > 0`,
+          sql`${productVariants.stockQuantity} <= COALESCE(${productVariants.minimumStock}, ${products.minimumStock})`
+        )
+      );
+
+    const productAlerts = await db
+      .select({
+        productId: products.id,
+        productName: products.name,
+        variantId: sql<string | null>`NULL`,
+        variantName: sql<string | null>`NULL`,
+        currentStock: products.currentStock,
+        minimumStock: products.minimumStock,
+      })
+      .from(products)
+      .where(
+        and(
+          eq(products.businessId, businessId),
+          eq(products.isActive, true),
+          eq(products.trackQuantity, true),
+          isNull(products.deletedAt),
+          sql`${products.minimumStock} > 0`,
+          sql`${products.currentStock} <= ${products.minimumStock}`,
+          sql`NOT EXISTS (SELECT 1 FROM ${productVariants} WHERE ${productVariants.productId} = ${products.id} AND ${productVariants.isActive} = true)`
         )
       );
+
+    return [...productAlerts, ...variantAlerts];
   }
 
   // ==================== PROFIT & LOSS ====================
-  async getProfitLoss(businessId: string, startDate: Date, endDate: Date): Promise<{ revenue: number; discounts: number; cogs: number; grossProfit: number; grossMargin: number; operatingExpenses: number; netProfit: number; netMargin: number }> {
+  async getProfitLoss(businessId: string, startDate: Date, endDate: Date): Promise<{ revenue: number; discounts: number; refunds: number; cogs: number; grossProfit: number; grossMargin: number; operatingExpenses: number; netProfit: number; netMargin: number }> {
     // 1. Revenue (Sales)
     const revenueResult = await db
       .select({
@@ -146,7 +217,7 @@ export class ReportService {
 
     // 2. COGS (Cost of Goods Sold)
     // We need to sum (quantity * costPrice) for all items in PAID bills in this period
-    // Note: This relies on `costPrice` being correctly populated in `billItems` at time of sale
+    // `costPrice` is stamped on each line from the inventory cost layers when the bill deducts stock
     const cogsResult = await db
       .select({
         totalCOGS: sql<number>`sum(${billItems.quantity} * COALESCE(${billItems.costPrice}, 0))`.mapWith(Number)
@@ -178,6 +249,24 @@ export class ReportService {
     
     const operatingExpenses = expensesResult[0]?.totalExpenses || 0;
 
+    // 4. Refunds paid out against payments
+    // A refund reopens the bills it paid, which leave revenue until they are paid again, so it is shown rather than deducted
+    const refundsResult = await db
+      .select({
+        totalRefunds: sql<number>`sum(${moneyTransactions.amount})`.mapWith(Number)
+      })
+      .from(moneyTransactions)
+      .where(
+        and(
+            eq(moneyTransactions.businessId, businessId),
+            eq(moneyTransactions.transactionType, 'REFUND'),
+            eq(moneyTransactions.status, 'COMPLETED'),
+            between(moneyTransactions.transactionDate, startDate, endDate)
+        )
+      );
+
+    const refunds = refundsResult[0]?.totalRefunds || 0;
+
     // Calculations
     const grossProfit = revenue - cogs;
     const netProfit = grossProfit - operatingExpenses;
@@ -188,6 +277,7 @@ export class ReportService {
     return {
       revenue,
       discounts,
+      refunds,
       cogs,
       grossProfit,
       grossMargin: Number(grossMargin.toFixed(2)),
@@ -198,7 +288,7 @@ export class ReportService {
   }
 
   // ==================== TAX REPORT ====================
-  async getTaxReport(businessId: string, startDate: Date, endDate: Date): Promise<{ totalOutputTax: number; totalTaxableRevenue: number; breakdown: unknown[] }> {
+  async getTaxReport(businessId: string, startDate: Date, endDate: Date): Promise<{ totalOutputTax: number; totalTaxableRevenue: number; components: { cgst: number; sgst: number; igst: number; cess: number }; breakdown: unknown[] }> {
     // 1. Output Tax (Collected from Sales)
     // We get total tax collected, and can also break it down by rate if needed.
     // For now, let's just get total Tax from bills.
@@ -207,7 +297,11 @@ export class ReportService {
     const outputTaxResult = await db
       .select({
         totalTax: sql<number>`sum(${bills.taxAmount})`.mapWith(Number),
-        taxableAmount: sql<number>`sum(${bills.subtotal} - ${bills.discountAmount})`.mapWith(Number)
+        taxableAmount: sql<number>`sum(${bills.subtotal} - ${bills.discountAmount})`.mapWith(Number),
+        cgst: sql<number>`sum(${bills.cgstAmount})`.mapWith(Number),
+        sgst: sql<number>`sum(${bills.sgstAmount})`.mapWith(Number),
+        igst: sql<number>`sum(${bills.igstAmount})`.mapWith(Number),
+        cess: sql<number>`sum(${bills.cessAmount})`.mapWith(Number),
       })
       .from(bills)
       .where(
@@ -218,12 +312,17 @@ export class ReportService {
         )
       );
 
-    // Breakdown by Tax Rate (from billItems)
+    // Breakdown by Tax Rate and supply type (from billItems), with the CGST/SGST/IGST/cess split
     const taxBreakdown = await db
       .select({
         taxRate: billItems.taxPercent,
+        supplyType: bills.supplyType,
         totalTaxAmount: sql<number>`sum(${billItems.taxAmount})`.mapWith(Number),
-        totalTaxableAmount: sql<number>`sum(${billItems.subtotal})`.mapWith(Number)
+        totalTaxableAmount: sql<number>`sum(${billItems.subtotal})`.mapWith(Number),
+        cgstAmount: sql<number>`sum(${billItems.cgstAmount})`.mapWith(Number),
+        sgstAmount: sql<number>`sum(${billItems.sgstAmount})`.mapWith(Number),
+        igstAmount: sql<number>`sum(${billItems.igstAmount})`.mapWith(Number),
+        cessAmount: sql<number>`sum(${billItems.cessAmount})`.mapWith(Number),
       })
       .from(billItems)
       .leftJoin(bills, eq(billItems.billId, bills.id))
@@ -235,12 +334,18 @@ export class ReportService {
           sql`${billItems.taxPercent} > 0`
         )
       )
-      .groupBy(billItems.taxPercent)
-      .orderBy(billItems.taxPercent);
+      .groupBy(billItems.taxPercent, bills.supplyType)
+      .orderBy(billItems.taxPercent, bills.supplyType);
 
     return {
       totalOutputTax: outputTaxResult[0]?.totalTax || 0,
       totalTaxableRevenue: outputTaxResult[0]?.taxableAmount || 0,
+      components: {
+        cgst: outputTaxResult[0]?.cgst || 0,
+        sgst: outputTaxResult[0]?.sgst || 0,
+        igst: outputTaxResult[0]?.igst || 0,
+        cess: outputTaxResult[0]?.cess || 0,
+      },
       breakdown: taxBreakdown
     };
   }
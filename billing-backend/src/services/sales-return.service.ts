@@ -0,0 +1,363 @@
+import { db, DbTransaction } from '../config/database';
+import {
+  bills,
+  billItems,
+  billHistory,
+  creditNotes,
+  creditNoteItems,
+  customers,
+  moneyTransactions,
+  walletTransactions,
+  billingStatusEnum,
+  paymentStatusEnum,
+} from '../models/drizzle/schema';
+import { eq, and, sql, desc, inArray } from 'drizzle-orm';
+import { BillReturnInput } from '../schemas/bill.schema';
+import { logger } from '../utils/logger';
+import { returnSettlement } from '../utils/settlement';
+import { AuditService } from './audit.service';
+import { SequenceService } from './sequence.service';
+import { InventoryService } from './inventory.service';
+import { BomService } from './bom.service';
+import { CustomerBalanceService } from './customer-balance.service';
+import { AuthenticatedRequest } from '../types/common';
+
+type BillingStatus = typeof billingStatusEnum.enumValues[number];
+type PaymentStatus = typeof paymentStatusEnum.enumValues[number];
+
+interface ProcessedReturnItem {
+  billItem: typeof billItems.$inferSelect;
+  quantity: number;
+  restock: boolean;
+  serialNumbers?: string[];
+  grossAmount: number;
+  discountAmount: number;
+  taxAmount: number;
+  subtotal: number;
+  totalAmount: number;
+}
+
+const auditService = new AuditService();
+const sequenceService = new SequenceService();
+const inventoryService = new InventoryService();
+const bomService = new BomService();
+const customerBalanceService = new CustomerBalanceService();
+
+export class SalesReturnService {
+
+  // Quantities already returned per bill item across issued credit notes
+  private async getReturnedQuantities(tx: DbTransaction, billId: string): Promise<Map<string, number>> {
+    const rows = await tx
+      .select({
+        billItemId: creditNoteItems.billItemId,
+        quantity: sql<string>`COALESCE(SUM(${creditNoteItems.quantity}), 0)`,
+      })
+      .from(creditNoteItems)
+      .innerJoin(creditNotes, eq(creditNoteItems.creditNoteId, creditNotes.id))
+      .where(and(
+        eq(creditNotes.billId, billId),
+        eq(creditNotes.status, 'ISSUED')
+      ))
+      .groupBy(creditNoteItems.billItemId);
+
+    const returned = new Map<string, number>();
+    for (const row of rows) {
+      if (row.billItemId) {
+        returned.set(row.billItemId, parseFloat(row.quantity));
+      }
+    }
+    return returned;
+  }
+
+  async createReturn(
+    businessId: string,
+    userId: string,
+    billId: string,
+    input: BillReturnInput,
+    req?: AuthenticatedRequest
+  ): Promise<{ creditNote: typeof creditNotes.$inferSelect; items: typeof creditNoteItems.$inferSelect[]; bill: typeof bills.$inferSelect }> {
+    const { items, returnDate, reason, notes, settlementMode = 'ADJUST_BALANCE' } = input;
+
+    const result = await db.transaction(async (tx) => {
+      const [bill] = await tx
+        .select()
+        .from(bills)
+        .where(and(eq(bills.id, billId), eq(bills.businessId, businessId)))
+        .for('update');
+
+      if (!bill) throw new Error('Bill not found');
+      if (bill.status === 'DRAFT') throw new Error('Cannot return items on a draft bill');
+      if (bill.status === 'VOID' || bill.status === 'CANCELLED') {
+        throw new Error(`Cannot return items on a ${bill.status.toLowerCase()} bill`);
+      }
+      if (settlementMode === 'WALLET_CREDIT' && !bill.customerId) {
+        throw new Error('Wallet credit requires a bill with a customer');
+      }
+
+      const lineItems = await tx.select().from(billItems).where(eq(billItems.billId, billId));
+      const returnedQuantities = await this.getReturnedQuantities(tx, billId);
+
+      // 1. Validate quantities and pro-rate amounts from the original lines
+      const processedItems: ProcessedReturnItem[] = [];
+      const requestedQuantities = new Map<string, number>();
+
+      for (const item of items) {
+        const billItem = lineItems.find(li => li.id === item.billItemId);
+        if (!billItem) throw new Error(`Bill item ${item.billItemId} not found on this bill`);
+
+        const soldQuantity = parseFloat(billItem.quantity);
+        const alreadyReturned = (returnedQuantities.get(billItem.id) || 0) + (requestedQuantities.get(billItem.id) || 0);
+        const returnable = Number((soldQuantity - alreadyReturned).toFixed(2));
+
+        if (item.quantity > returnable) {
+          throw new Error(`Cannot return ${item.quantity} of ${billItem.productName}; only ${returnable} returnable`);
+        }
+        requestedQuantities.set(billItem.id, (requestedQuantities.get(billItem.id) || 0) + item.quantity);
+
+        const ratio = item.quantity / soldQuantity;
+        const discountAmount = Number((parseFloat(billItem.discountAmount || '0') * ratio).toFixed(2));
+        const taxAmount = Number((parseFloat(billItem.taxAmount || '0') * ratio).toFixed(2));
+        const subtotal = Number((parseFloat(billItem.subtotal) * ratio).toFixed(2));
+
+        processedItems.push({
+          billItem,
+          quantity: item.quantity,
+          restock: item.restock,
+          serialNumbers: item.serialNumbers,
+          grossAmount: subtotal + discountAmount,
+          discountAmount,
+          taxAmount,
+          subtotal,
+          totalAmount: Number((subtotal + taxAmount).toFixed(2)),
+        });
+      }
+
+      const grossTotal = processedItems.reduce((acc, i) => acc + i.grossAmount, 0);
+      const discountTotal = processedItems.reduce((acc, i) => acc + i.discountAmount, 0);
+      const taxTotal = processedItems.reduce((acc, i) => acc + i.taxAmount, 0);
+      const creditTotal = Number(processedItems.reduce((acc, i) => acc + i.totalAmount, 0).toFixed(2));
+
+      // 2. Work out how the credit is settled; earlier returns may already have paid some of the bill back
+      const [paidBack] = await tx
+        .select({ amount: sql<string>`COALESCE(SUM(${creditNotes.walletCreditAmount} + ${creditNotes.refundDueAmount}), 0)` })
+        .from(creditNotes)
+        .where(and(eq(creditNotes.billId, billId), eq(creditNotes.status, 'ISSUED')));
+
+      const currentBalance = parseFloat(bill.balanceAmount);
+      const paidNotReturned = parseFloat(bill.paidAmount) - parseFloat(paidBack?.amount ?? '0');
+      const { appliedToBill, walletCredit, refundDue } = returnSettlement(creditTotal, currentBalance, paidNotReturned, settlementMode, !!bill.customerId);
+
+      // 3. Create credit note
+      const creditNoteNumber = await sequenceService.next(tx, businessId, 'CREDIT_NOTE');
+
+      const [creditNote] = await tx.insert(creditNotes).values({
+        businessId,
+        billId,
+        customerId: bill.customerId,
+        creditNoteNumber,
+        creditNoteDate: new Date(returnDate || Date.now()),
+        noteType: 'SALES_RETURN',
+        status: 'ISSUED',
+        reason,
+        subtotal: grossTotal.toFixed(2),
+        discountAmount: discountTotal.toFixed(2),
+        taxAmount: taxTotal.toFixed(2),
+        totalAmount: creditTotal.toFixed(2),
+        settlementMode,
+        appliedToBillAmount: appliedToBill.toFixed(2),
+        walletCreditAmount: walletCredit.toFixed(2),
+        refundDueAmount: refundDue.toFixed(2),
+        notes,
+        createdBy: userId,
+      }).returning();
+
+      if (!creditNote) throw new Error('Failed to create credit note');
+
+      // 4. Credit note lines and restocking
+      const noteItems: typeof creditNoteItems.$inferSelect[] = [];
+
+      for (const item of processedItems) {
+        let restocked = false;
+
+        // Composite and service lines put back the components they consumed
+        const components = item.restock
+          ? await bomService.returnForBillItem(tx, {
+              businessId,
+              billId,
+              item: item.billItem,
+              locationId: bill.locationId,
+              userId,
+              quantity: item.quantity,
+              reason: 'Sales return',
+              notes: `Credit note ${creditNoteNumber}`,
+            })
+          : null;
+
+        if (components !== null) {
+          restocked = components > 0;
+        } else if (item.restock && item.billItem.productId) {
+          const result = await inventoryService.recordMovement(tx, {
+            businessId,
+            productId: item.billItem.productId,
+            variantId: item.billItem.variantId,
+            locationId: bill.locationId,
+            movementType: 'RETURN',
+            quantity: item.quantity,
+            unitCost: item.billItem.costPrice,
+            billId,
+            billItemId: item.billItem.id,
+            serialNumbers: item.serialNumbers,
+            reason: 'Sales return',
+            notes: `Credit note ${creditNoteNumber}`,
+            performedBy: userId,
+          });
+
+          restocked = result !== null;
+        }
+
+        const [noteItem] = await tx.insert(creditNoteItems).values({
+          creditNoteId: creditNote.id,
+          billItemId: item.billItem.id,
+          productId: item.billItem.productId,
+          variantId: item.billItem.variantId,
+          productName: item.billItem.productName,
+          unit: item.billItem.unit,
+          quantity: item.quantity.toString(),
+          rate: item.billItem.rate,
+          discountAmount: item.discountAmount.toFixed(2),
+          taxPercent: item.billItem.taxPercent,
+          taxAmount: item.taxAmount.toFixed(2),
+          subtotal: item.subtotal.toFixed(2),
+          totalAmount: item.totalAmount.toFixed(2),
+          restocked,
+        }).returning();
+
+        if (noteItem) noteItems.push(noteItem);
+      }
+
+      // 5. Adjust the bill
+      const newBalance = (currentBalance - appliedToBill).toFixed(2);
+      let newStatus = bill.status as BillingStatus;
+      let newPaymentStatus = bill.paymentStatus as PaymentStatus;
+
+      if (appliedToBill > 0 && parseFloat(newBalance) <= 0.01) {
+        newStatus = 'PAID';
+        newPaymentStatus = 'COMPLETED';
+      }
+
+      const [updatedBill] = await tx.update(bills)
+        .set({
+          creditedAmount: (parseFloat(bill.creditedAmount) + creditTotal).toFixed(2),
+          balanceAmount: newBalance,
+          status: newStatus,
+          paymentStatus: newPaymentStatus,
+          updatedAt: new Date(),
+        })
+        .where(eq(bills.id, billId))
+        .returning();
+
+      if (!updatedBill) throw new Error('Failed to update bill');
+
+      // 6. Adjust the customer's balances
+      if (bill.customerId) {
+        const [customer] = await tx
+          .select()
+          .from(customers)
+          .where(eq(customers.id, bill.customerId))
+          .for('update');
+
+        if (customer) {
+          const walletBefore = parseFloat(customer.walletBalance);
+          const walletAfter = walletBefore + walletCredit;
+
+          await tx.update(customers)
+            .set({
+              walletBalance: walletAfter.toFixed(2),
+              updatedAt: new Date(),
+            })
+            .where(eq(customers.id, customer.id));
+
+          const { previousBalance, newBalance: balanceAfter } = await customerBalanceService.refreshOutstandingBalance(tx, businessId, customer.id);
+
+          const [moneyTransaction] = await tx.insert(moneyTransactions).values({
+            businessId,
+            transactionType: 'CREDIT_NOTE',
+            amount: creditTotal.toFixed(2),
+            customerId: customer.id,
+            billId,
+            previousBalance,
+            newBalance: balanceAfter,
+            referenceNumber: creditNoteNumber,
+            description: `Credit note ${creditNoteNumber} against bill ${bill.billNumber}`,
+            performedBy: userId,
+            metadata: { creditNoteId: creditNote.id },
+          }).returning();
+
+          if (walletCredit > 0) {
+            await tx.insert(walletTransactions).values({
+              businessId,
+              customerId: customer.id,
+              transactionType: 'REFUND',
+              amount: walletCredit.toFixed(2),
+              balanceBefore: walletBefore.toFixed(2),
+              balanceAfter: walletAfter.toFixed(2),
+              billId,
+              moneyTransactionId: moneyTransaction?.id,
+              referenceNumber: creditNoteNumber,
+              description: `Return credit from bill ${bill.billNumber}`,
+              performedBy: userId,
+            });
+          }
+        }
+      }
+
+      // 7. History
+      await tx.insert(billHistory).values({
+        billId,
+        action: 'RETURNED',
+        performedBy: userId,
+        oldStatus: bill.status,
+        newStatus,
+        notes: reason,
+        description: `Credit note ${creditNoteNumber} issued for ${creditTotal.toFixed(2)}`,
+        ipAddress: req?.ip,
+        userAgent: req?.get('User-Agent'),
+        metadata: {
+          creditNoteId: creditNote.id,
+          appliedToBill,
+          walletCredit,
+          refundDue,
+        },
+      });
+
+      logger.info('Credit note issued', { billId, creditNoteId: creditNote.id, creditNoteNumber, amount: creditTotal });
+
+      return { creditNote, items: noteItems, bill: updatedBill, previousBalance: bill.balanceAmount };
+    });
+
+    const { previousBalance, ...created } = result;
+    await auditService.logBillAction('RETURN', businessId, userId, billId, { balance: previousBalance }, { balance: created.bill.balanceAmount, creditNoteNumber: created.creditNote.creditNoteNumber }, reason, req);
+
+    return created;
+  }
+
+  async listReturns(businessId: string, billId: string): Promise<Array<typeof creditNotes.$inferSelect & { items: typeof creditNoteItems.$inferSelect[] }>> {
+    const notes = await db
+      .select()
+      .from(creditNotes)
+      .where(and(eq(creditNotes.billId, billId), eq(creditNotes.businessId, businessId)))
+      .orderBy(desc(creditNotes.creditNoteDate));
+
+    if (notes.length === 0) return [];
+
+    const items = await db
+      .select()
+      .from(creditNoteItems)
+      .where(inArray(creditNoteItems.creditNoteId, notes.map(n => n.id)));
+
+    return notes.map(note => ({
+      ...note,
+      items: items.filter(i => i.creditNoteId === note.id),
+    }));
+  }
+}
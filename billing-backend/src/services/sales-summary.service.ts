@@ -0,0 +1,191 @@
+import { db, DbTransaction } from '../config/database';
+import {
+  dailySalesSummary,
+  bills,
+  payments,
+  paymentAllocations,
+  customers,
+  creditNotes,
+  moneyTransactions,
+  paymentMethodEnum,
+} from '../models/drizzle/schema';
+import { eq, and, gte, lt, isNull, inArray, notInArray, sql } from 'drizzle-orm';
+
+type DbExecutor = typeof db | DbTransaction;
+type PaymentMethod = typeof paymentMethodEnum.enumValues[number];
+type DailySalesSummary = typeof dailySalesSummary.$inferSelect;
+
+export interface BillTenderMix {
+  billId: string;
+  billNumber: string;
+  tenders: Partial<Record<PaymentMethod, number>>;
+}
+
+// Bills that never became sales
+const EXCLUDED_STATUSES = ['DRAFT', 'VOID', 'CANCELLED'] as const;
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function dayBounds(date: Date): { start: Date; end: Date } {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return { start, end };
+}
+
+export class SalesSummaryService {
+  /**
+   * Rebuild one day's summary from its bills and payments, including how every bill paid that day was tendered
+   */
+  async refreshDay(executor: DbExecutor, businessId: string, date: Date): Promise<DailySalesSummary> {
+    const { start, end } = dayBounds(date);
+
+    const [sales] = await executor
+      .select({
+        totalBills: sql<number>`count(*)`.mapWith(Number),
+        totalSales: sql<string>`coalesce(sum(${bills.totalAmount}), 0)`,
+        totalDiscounts: sql<string>`coalesce(sum(${bills.discountAmount}), 0)`,
+        totalTax: sql<string>`coalesce(sum(${bills.taxAmount}), 0)`,
+        creditSales: sql<string>`coalesce(sum(${bills.balanceAmount}), 0)`,
+        highest: sql<string>`coalesce(max(${bills.totalAmount}), 0)`,
+        lowest: sql<string>`coalesce(min(${bills.totalAmount}), 0)`,
+        uniqueCustomers: sql<number>`count(distinct ${bills.customerId})`.mapWith(Number),
+        returningCustomers: sql<number>`count(distinct ${bills.customerId}) filter (where exists (
+          select 1 from bills earlier
+          where earlier.customer_id = ${bills.customerId} and earlier.bill_date < ${start}
+            and earlier.status not in ('DRAFT', 'VOID', 'CANCELLED')
+        ))`.mapWith(Number),
+      })
+      .from(bills)
+      .where(and(
+        eq(bills.businessId, businessId),
+        gte(bills.billDate, start),
+        lt(bills.billDate, end),
+        notInArray(bills.status, [...EXCLUDED_STATUSES])
+      ));
+
+    const [newCustomers] = await executor
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(customers)
+      .where(and(eq(customers.businessId, businessId), gte(customers.createdAt, start), lt(customers.createdAt, end)));
+
+    const [refunds] = await executor
+      .select({ total: sql<string>`coalesce(sum(${creditNotes.totalAmount}), 0)` })
+      .from(creditNotes)
+      .where(and(
+        eq(creditNotes.businessId, businessId),
+        eq(creditNotes.status, 'ISSUED'),
+        gte(creditNotes.creditNoteDate, start),
+        lt(creditNotes.creditNoteDate, end)
+      ));
+
+    const [paymentRefunds] = await executor
+      .select({ total: sql<string>`coalesce(sum(${moneyTransactions.amount}), 0)` })
+      .from(moneyTransactions)
+      .where(and(
+        eq(moneyTransactions.businessId, businessId),
+        eq(moneyTransactions.transactionType, 'REFUND'),
+        eq(moneyTransactions.status, 'COMPLETED'),
+        gte(moneyTransactions.transactionDate, start),
+        lt(moneyTransactions.transactionDate, end)
+      ));
+
+    // Refunded payments were still taken on their day; the refund counts on the day it was paid back
+    const paymentWindow = and(
+      eq(payments.businessId, businessId),
+      inArray(payments.status, ['COMPLETED', 'REFUNDED']),
+      isNull(payments.deletedAt),
+      gte(payments.paymentDate, start),
+      lt(payments.paymentDate, end)
+    );
+
+    const byMethod = await executor
+      .select({
+        method: payments.method,
+        amount: sql<string>`sum(${payments.amount})`,
+        change: sql<string>`coalesce(sum(${payments.changeAmount}), 0)`,
+      })
+      .from(payments)
+      .where(paymentWindow)
+      .groupBy(payments.method);
+
+    const tenderRows = await executor
+      .select({
+        billId: bills.id,
+        billNumber: bills.billNumber,
+        method: payments.method,
+        amount: sql<string>`sum(${paymentAllocations.allocatedAmount})`,
+      })
+      .from(paymentAllocations)
+      .innerJoin(payments, eq(paymentAllocations.paymentId, payments.id))
+      .innerJoin(bills, eq(paymentAllocations.billId, bills.id))
+      .where(and(paymentWindow, eq(paymentAllocations.status, 'ACTIVE')))
+      .groupBy(bills.id, bills.billNumber, payments.method)
+      .orderBy(bills.billNumber);
+
+    const tenderMix: BillTenderMix[] = [];
+    for (const row of tenderRows) {
+      let entry = tenderMix.find(mix => mix.billId === row.billId);
+      if (!entry) {
+        entry = { billId: row.billId, billNumber: row.billNumber, tenders: {} };
+        tenderMix.push(entry);
+      }
+      entry.tenders[row.method] = round2(Number(row.amount));
+    }
+
+    const methodTotal = (...methods: PaymentMethod[]): string =>
+      byMethod.filter(row => methods.includes(row.method)).reduce((total, row) => total + Number(row.amount), 0).toFixed(2);
+
+    const totalBills = sales?.totalBills ?? 0;
+    const totalSales = Number(sales?.totalSales ?? 0);
+
+    const values = {
+      totalBills,
+      totalSales: totalSales.toFixed(2),
+      totalPayments: methodTotal(...paymentMethodEnum.enumValues),
+      totalRefunds: (Number(refunds?.total ?? 0) + Number(paymentRefunds?.total ?? 0)).toFixed(2),
+      totalDiscounts: Number(sales?.totalDiscounts ?? 0).toFixed(2),
+      totalTax: Number(sales?.totalTax ?? 0).toFixed(2),
+      cashSales: methodTotal('CASH'),
+      cardSales: methodTotal('CARD'),
+      upiSales: methodTotal('UPI'),
+      walletSales: methodTotal('WALLET'),
+      chequeSales: methodTotal('CHEQUE'),
+      bankSales: methodTotal('BANK_TRANSFER', 'NET_BANKING'),
+      otherSales: methodTotal('DIGITAL_WALLET', 'OTHER'),
+      creditSales: Number(sales?.creditSales ?? 0).toFixed(2),
+      changeGiven: byMethod.reduce((total, row) => total + Number(row.change), 0).toFixed(2),
+      splitTenderBills: tenderMix.filter(mix => Object.keys(mix.tenders).length > 1).length,
+      newCustomers: newCustomers?.count ?? 0,
+      returningCustomers: sales?.returningCustomers ?? 0,
+      uniqueCustomers: sales?.uniqueCustomers ?? 0,
+      averageBillValue: (totalBills > 0 ? totalSales / totalBills : 0).toFixed(2),
+      highestBillAmount: Number(sales?.highest ?? 0).toFixed(2),
+      lowestBillAmount: Number(sales?.lowest ?? 0).toFixed(2),
+      metadata: { tenderMix },
+      updatedAt: new Date(),
+    };
+
+    const [summary] = await executor
+      .insert(dailySalesSummary)
+      .values({ businessId, summaryDate: start, ...values })
+      .onConflictDoUpdate({
+        target: [dailySalesSummary.businessId, dailySalesSummary.summaryDate],
+        set: values,
+      })
+      .returning();
+
+    if (!summary) {
+      throw new Error('Failed to update daily sales summary');
+    }
+
+    return summary;
+  }
+
+  async getDailySummary(businessId: string, date: Date): Promise<DailySalesSummary> {
+    return this.refreshDay(db, businessId, date);
+  }
+}
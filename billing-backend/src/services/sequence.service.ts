@@ -0,0 +1,276 @@
+import { db, DbTransaction } from '../config/database';
+import {
+  documentSequences,
+  retailBusinesses,
+  bills,
+  payments,
+  creditNotes,
+  moneyTransactions,
+  customers,
+  merchants,
+  purchaseOrders,
+  merchantPayments,
+  goodsReceipts,
+  stockTransfers,
+  stocktakes,
+  productionOrders,
+} from '../models/drizzle/schema';
+import { eq, and, sql, SQL } from 'drizzle-orm';
+import { PgColumn, PgTable } from 'drizzle-orm/pg-core';
+import { logger } from '../utils/logger';
+import {
+  SequenceResetPolicy,
+  DocumentNumberFormat,
+  getSequencePeriod,
+  formatDocumentNumber,
+  documentNumberPattern,
+  sequenceSeed,
+} from '../utils/document-number';
+
+export type DocumentType = 'BILL' | 'PAYMENT' | 'CREDIT_NOTE' | 'DEBIT_NOTE' | 'CUSTOMER' | 'MERCHANT' | 'PURCHASE_ORDER' | 'MERCHANT_PAYMENT' | 'GOODS_RECEIPT' | 'STOCK_TRANSFER' | 'STOCKTAKE' | 'PRODUCTION_ORDER';
+
+type DbExecutor = typeof db | DbTransaction;
+
+interface SequenceConfig extends DocumentNumberFormat {
+  resetPolicy: SequenceResetPolicy;
+  startingNumber: number;
+}
+
+// Where the numbers of a document type are stored
+interface NumberSource {
+  table: PgTable;
+  businessId: PgColumn;
+  number: PgColumn;
+  filter?: SQL;
+}
+
+// Shape of retailBusinesses.billingSettings.numberSequences[documentType]
+interface SequenceSettings {
+  prefix?: string;
+  suffix?: string;
+  format?: string;
+  padding?: number;
+  resetPolicy?: SequenceResetPolicy;
+  startingNumber?: number;
+}
+
+// Invoice numbering from the business settings screen
+interface InvoiceSettings {
+  prefix?: string;
+  suffix?: string;
+  startingNumber?: number;
+}
+
+// updateBusinessSettings stores invoiceSettings at the top level of billingSettings
+interface BillingSettings extends InvoiceSettings {
+  numberSequences?: Partial<Record<DocumentType, SequenceSettings>>;
+  [key: string]: unknown;
+}
+
+interface BusinessSettings {
+  branchCode?: string;
+  invoiceSettings?: InvoiceSettings;
+  [key: string]: unknown;
+}
+
+const DEFAULT_CONFIG: Record<DocumentType, SequenceConfig> = {
+  BILL: { prefix: 'INV', suffix: '', format: '{PREFIX}-{YEAR}-{NUMBER}', padding: 5, resetPolicy: 'YEARLY', startingNumber: 1 },
+  PAYMENT: { prefix: 'PAY', suffix: '', format: '{PREFIX}-{YEAR}-{NUMBER}', padding: 5, resetPolicy: 'YEARLY', startingNumber: 1 },
+  CREDIT_NOTE: { prefix: 'CN', suffix: '', format: '{PREFIX}-{YEAR}-{NUMBER}', padding: 5, resetPolicy: 'YEARLY', startingNumber: 1 },
+  DEBIT_NOTE: { prefix: 'DN', suffix: '', format: '{PREFIX}-{YEAR}-{NUMBER}', padding: 5, resetPolicy: 'YEARLY', startingNumber: 1 },
+  CUSTOMER: { prefix: 'CUST', suffix: '', format: '{PREFIX}-{NUMBER}', padding: 4, resetPolicy: 'NEVER', startingNumber: 1 },
+  MERCHANT: { prefix: 'MERC', suffix: '', format: '{PREFIX}-{NUMBER}', padding: 4, resetPolicy: 'NEVER', startingNumber: 1 },
+  PURCHASE_ORDER: { prefix: 'PO', suffix: '', format: '{PREFIX}-{YEAR}-{NUMBER}', padding: 5, resetPolicy: 'YEARLY', startingNumber: 1 },
+  MERCHANT_PAYMENT: { prefix: 'MPAY', suffix: '', format: '{PREFIX}-{YEAR}-{NUMBER}', padding: 5, resetPolicy: 'YEARLY', startingNumber: 1 },
+  GOODS_RECEIPT: { prefix: 'GRN', suffix: '', format: '{PREFIX}-{YEAR}-{NUMBER}', padding: 5, resetPolicy: 'YEARLY', startingNumber: 1 },
+  STOCK_TRANSFER: { prefix: 'TRF', suffix: '', format: '{PREFIX}-{YEAR}-{NUMBER}', padding: 5, resetPolicy: 'YEARLY', startingNumber: 1 },
+  STOCKTAKE: { prefix: 'STK', suffix: '', format: '{PREFIX}-{YEAR}-{NUMBER}', padding: 4, resetPolicy: 'YEARLY', startingNumber: 1 },
+  PRODUCTION_ORDER: { prefix: 'MO', suffix: '', format: '{PREFIX}-{YEAR}-{NUMBER}', padding: 5, resetPolicy: 'YEARLY', startingNumber: 1 },
+};
+
+export class SequenceService {
+
+  private async getConfig(executor: DbExecutor, businessId: string, documentType: DocumentType): Promise<{ config: SequenceConfig; branchCode: string }> {
+    const [business] = await executor
+      .select()
+      .from(retailBusinesses)
+      .where(eq(retailBusinesses.id, businessId))
+      .limit(1);
+
+    if (!business) throw new Error('Business not found');
+
+    const billingSettings = (business.billingSettings || {}) as BillingSettings;
+    const overrides = billingSettings.numberSequences?.[documentType] || {};
+    const config: SequenceConfig = { ...DEFAULT_CONFIG[documentType], ...overrides };
+
+    const settings = (business.settings || {}) as BusinessSettings;
+
+    // Bills are configured through the dedicated business columns; invoice settings take precedence over the column defaults
+    if (documentType === 'BILL') {
+      const invoice: InvoiceSettings = { ...settings.invoiceSettings, ...billingSettings };
+      config.prefix = invoice.prefix || business.billPrefix || config.prefix;
+      config.suffix = invoice.suffix || config.suffix;
+      config.format = business.billNumberFormat || config.format;
+      config.startingNumber = Math.max(business.nextBillNumber, invoice.startingNumber || 1, config.startingNumber);
+    }
+
+    return { config, branchCode: settings.branchCode || '' };
+  }
+
+  private numberSource(documentType: DocumentType): NumberSource {
+    switch (documentType) {
+      case 'BILL':
+        return { table: bills, businessId: bills.businessId, number: bills.billNumber };
+      case 'PAYMENT':
+        return { table: payments, businessId: payments.businessId, number: payments.paymentNumber };
+      case 'CREDIT_NOTE':
+        return { table: creditNotes, businessId: creditNotes.businessId, number: creditNotes.creditNoteNumber };
+      case 'DEBIT_NOTE':
+        return {
+          table: moneyTransactions,
+          businessId: moneyTransactions.businessId,
+          number: moneyTransactions.referenceNumber,
+          filter: eq(moneyTransactions.transactionType, 'DEBIT_NOTE'),
+        };
+      case 'CUSTOMER':
+        return { table: customers, businessId: customers.businessId, number: customers.customerCode };
+      case 'MERCHANT':
+        return { table: merchants, businessId: merchants.businessId, number: merchants.merchantCode };
+      case 'PURCHASE_ORDER':
+        return { table: purchaseOrders, businessId: purchaseOrders.businessId, number: purchaseOrders.orderNumber };
+      case 'MERCHANT_PAYMENT':
+        return { table: merchantPayments, businessId: merchantPayments.businessId, number: merchantPayments.paymentNumber };
+      case 'GOODS_RECEIPT':
+        return { table: goodsReceipts, businessId: goodsReceipts.businessId, number: goodsReceipts.receiptNumber };
+      case 'STOCK_TRANSFER':
+        return { table: stockTransfers, businessId: stockTransfers.businessId, number: stockTransfers.transferNumber };
+      case 'STOCKTAKE':
+        return { table: stocktakes, businessId: stocktakes.businessId, number: stocktakes.stocktakeNumber };
+      case 'PRODUCTION_ORDER':
+        return { table: productionOrders, businessId: productionOrders.businessId, number: productionOrders.orderNumber };
+    }
+  }
+
+  private async isTaken(executor: DbExecutor, businessId: string, documentType: DocumentType, value: string): Promise<boolean> {
+    const source = this.numberSource(documentType);
+    const rows = await executor.select({ value: source.number }).from(source.table)
+      .where(and(eq(source.businessId, businessId), eq(source.number, value), source.filter))
+      .limit(1);
+    return rows.length > 0;
+  }
+
+  // Highest number already issued in this format for the period, including legacy and manually entered numbers
+  private async highestIssued(executor: DbExecutor, businessId: string, documentType: DocumentType, config: SequenceConfig, date: Date, branchCode: string): Promise<number | null> {
+    const pattern = documentNumberPattern(config, date, branchCode);
+    if (!pattern) return null;
+
+    const source = this.numberSource(documentType);
+    const [row] = await executor
+      .select({ highest: sql<string | null>`max(cast(substring(${source.number} from ${pattern}) as numeric))` })
+      .from(source.table)
+      .where(and(eq(source.businessId, businessId), sql`${source.number} ~ ${pattern}`, source.filter));
+
+    return row?.highest ? Number(row.highest) : null;
+  }
+
+  private async getSeed(executor: DbExecutor, businessId: string, documentType: DocumentType, config: SequenceConfig, date: Date, branchCode: string): Promise<number> {
+    const [previousPeriod] = await executor
+      .select({ id: documentSequences.id })
+      .from(documentSequences)
+      .where(and(
+        eq(documentSequences.businessId, businessId),
+        eq(documentSequences.documentType, documentType)
+      ))
+      .limit(1);
+
+    const highest = await this.highestIssued(executor, businessId, documentType, config, date, branchCode);
+
+    return sequenceSeed(config.startingNumber, !previousPeriod, highest);
+  }
+
+  private async getCounter(executor: DbExecutor, businessId: string, documentType: DocumentType, period: string): Promise<{ id: string; nextNumber: number } | undefined> {
+    const [row] = await executor
+      .select({ id: documentSequences.id, nextNumber: documentSequences.nextNumber })
+      .from(documentSequences)
+      .where(and(
+        eq(documentSequences.businessId, businessId),
+        eq(documentSequences.documentType, documentType),
+        eq(documentSequences.period, period)
+      ))
+      .limit(1);
+    return row;
+  }
+  /**
+   * Allocate the next number for a document type.
+   * Pass the surrounding transaction so the sequence row stays locked until the document is committed.
+   */
+  async next(executor: DbExecutor, businessId: string, documentType: DocumentType, options: { date?: Date; branchCode?: string } = {}): Promise<string> {
+    const date = options.date || new Date();
+    const { config, branchCode } = await this.getConfig(executor, businessId, documentType);
+    const period = getSequencePeriod(config.resetPolicy, date);
+    const branch = options.branchCode ?? branchCode;
+
+    // A new period's counter starts after whatever was already issued, so existing numbers are never replayed
+    const existing = await this.getCounter(executor, businessId, documentType, period);
+    const seed = existing ? existing.nextNumber : await this.getSeed(executor, businessId, documentType, config, date, branch);
+
+    // Upsert takes a row lock, so concurrent callers are serialised on the counter
+    const [row] = await executor
+      .insert(documentSequences)
+      .values({ businessId, documentType, period, nextNumber: seed + 1 })
+      .onConflictDoUpdate({
+        target: [documentSequences.businessId, documentSequences.documentType, documentSequences.period],
+        set: {
+          nextNumber: sql`${documentSequences.nextNumber} + 1`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning({ id: documentSequences.id, nextNumber: documentSequences.nextNumber });
+
+    if (!row) throw new Error('Failed to allocate document number');
+
+    let allocated = row.nextNumber - 1;
+    let value = formatDocumentNumber(config, allocated, date, branch);
+
+    // Someone issued this number outside the sequence (manual entry or import); jump the counter past the highest one
+    if (await this.isTaken(executor, businessId, documentType, value)) {
+      const highest = await this.highestIssued(executor, businessId, documentType, config, date, branch);
+      allocated = Math.max(allocated, highest ?? 0) + 1;
+      value = formatDocumentNumber(config, allocated, date, branch);
+
+      if (await this.isTaken(executor, businessId, documentType, value)) {
+        logger.error('Document number collision after resync', { businessId, documentType, period, value });
+        throw new Error(`Unable to allocate a unique ${documentType.toLowerCase().replace('_', ' ')} number`);
+      }
+
+      logger.warn('Document sequence resynced past existing numbers', { businessId, documentType, period, allocated });
+    }
+
+    await executor.update(documentSequences)
+      .set({ nextNumber: allocated + 1, lastAllocated: value })
+      .where(eq(documentSequences.id, row.id));
+
+    if (documentType === 'BILL') {
+      await executor.update(retailBusinesses)
+        .set({ nextBillNumber: allocated + 1 })
+        .where(eq(retailBusinesses.id, businessId));
+    }
+
+    return value;
+  }
+
+  /**
+   * Preview the next number without consuming it
+   */
+  async peek(businessId: string, documentType: DocumentType, options: { date?: Date; branchCode?: string } = {}): Promise<string> {
+    const date = options.date || new Date();
+    const { config, branchCode } = await this.getConfig(db, businessId, documentType);
+    const period = getSequencePeriod(config.resetPolicy, date);
+    const branch = options.branchCode ?? branchCode;
+
+    const row = await this.getCounter(db, businessId, documentType, period);
+    const sequence = row?.nextNumber ?? await this.getSeed(db, businessId, documentType, config, date, branch);
+
+    return formatDocumentNumber(config, sequence, date, branch);
+  }
+}
@@ -0,0 +1,168 @@
+import { db } from '../config/database';
+import {
+  productSerials,
+  products,
+  productVariants,
+  stockMovementSerials,
+  stockMovements,
+  purchaseOrders,
+  merchants,
+  bills,
+  customers,
+} from '../models/drizzle/schema';
+import { eq, and, sql, asc, desc, count, ilike, SQL } from 'drizzle-orm';
+import { SerialQueryInput } from '../schemas/product.schema';
+import { StockMovementType } from '../types/common';
+
+type ProductSerial = typeof productSerials.$inferSelect;
+
+const customerName = sql<string | null>`NULLIF(TRIM(CONCAT(${customers.firstName}, ' ', COALESCE(${customers.lastName}, ''))), '')`;
+
+export interface SerialListItem extends ProductSerial {
+  variantName: string | null;
+}
+
+export interface SerialHistoryEntry {
+  movementId: string;
+  movementType: StockMovementType;
+  movementDate: Date;
+  reason: string | null;
+  purchaseOrder: { id: string; orderNumber: string; merchantName: string | null } | null;
+  bill: { id: string; billNumber: string; customerId: string | null; customerName: string | null } | null;
+}
+
+export interface SerialLookup {
+  serial: ProductSerial;
+  product: { id: string; productCode: string; name: string; variantName: string | null; warrantyMonths: number | null };
+  customer: { id: string; name: string; phone: string | null } | null;
+  warranty: { expiresAt: Date | null; active: boolean };
+  history: SerialHistoryEntry[];
+}
+
+export class SerialService {
+  async getSerials(businessId: string, productId: string, query: SerialQueryInput): Promise<{ serials: SerialListItem[]; pagination: { page: number; limit: number; total: number; totalPages: number } }> {
+    const { variantId, status, search, page = 1, limit = 50 } = query;
+
+    const conditions: SQL[] = [
+      eq(productSerials.businessId, businessId),
+      eq(productSerials.productId, productId),
+    ];
+    if (variantId) conditions.push(eq(productSerials.variantId, variantId));
+    if (status) conditions.push(eq(productSerials.status, status));
+    if (search) conditions.push(ilike(productSerials.serialNumber, `%${search}%`));
+
+    const [countResult] = await db
+      .select({ count: count() })
+      .from(productSerials)
+      .where(and(...conditions));
+
+    const total = countResult?.count || 0;
+
+    const rows = await db
+      .select({
+        serial: productSerials,
+        variantName: productVariants.variantName,
+      })
+      .from(productSerials)
+      .leftJoin(productVariants, eq(productSerials.variantId, productVariants.id))
+      .where(and(...conditions))
+      .orderBy(asc(productSerials.serialNumber))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      serials: rows.map(row => ({ ...row.serial, variantName: row.variantName })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Everything known about one unit: where it came from, who bought it, warranty status and every movement it took part in
+   */
+  async lookupSerial(businessId: string, serialNumber: string): Promise<SerialLookup> {
+    const [row] = await db
+      .select({
+        serial: productSerials,
+        productCode: products.productCode,
+        productName: products.name,
+        warrantyMonths: products.warrantyMonths,
+        variantName: productVariants.variantName,
+        customerName,
+        customerPhone: customers.phone,
+      })
+      .from(productSerials)
+      .innerJoin(products, eq(productSerials.productId, products.id))
+      .leftJoin(productVariants, eq(productSerials.variantId, productVariants.id))
+      .leftJoin(customers, eq(productSerials.customerId, customers.id))
+      .where(and(eq(productSerials.businessId, businessId), eq(productSerials.serialNumber, serialNumber.trim())))
+      // The same number may exist under two products; the most recently moved unit wins
+      .orderBy(desc(productSerials.updatedAt))
+      .limit(1);
+
+    if (!row) {
+      throw new Error('Serial number not found');
+    }
+
+    const { serial } = row;
+
+    const movements = await db
+      .select({
+        movementId: stockMovements.id,
+        movementType: stockMovements.movementType,
+        movementDate: stockMovements.movementDate,
+        reason: stockMovements.reason,
+        purchaseOrderId: purchaseOrders.id,
+        orderNumber: purchaseOrders.orderNumber,
+        merchantName: merchants.name,
+        billId: bills.id,
+        billNumber: bills.billNumber,
+        customerId: bills.customerId,
+        customerName,
+      })
+      .from(stockMovementSerials)
+      .innerJoin(stockMovements, eq(stockMovementSerials.movementId, stockMovements.id))
+      .leftJoin(purchaseOrders, eq(stockMovements.purchaseOrderId, purchaseOrders.id))
+      .leftJoin(merchants, eq(purchaseOrders.merchantId, merchants.id))
+      .leftJoin(bills, eq(stockMovements.billId, bills.id))
+      .leftJoin(customers, eq(bills.customerId, customers.id))
+      .where(eq(stockMovementSerials.serialId, serial.id))
+      .orderBy(asc(stockMovements.movementDate), asc(stockMovements.createdAt));
+
+    const history: SerialHistoryEntry[] = movements.map(movement => ({
+      movementId: movement.movementId,
+      movementType: movement.movementType,
+      movementDate: movement.movementDate,
+      reason: movement.reason,
+      purchaseOrder: movement.purchaseOrderId && movement.orderNumber
+        ? { id: movement.purchaseOrderId, orderNumber: movement.orderNumber, merchantName: movement.merchantName }
+        : null,
+      bill: movement.billId && movement.billNumber
+        ? { id: movement.billId, billNumber: movement.billNumber, customerId: movement.customerId, customerName: movement.customerName }
+        : null,
+    }));
+
+    return {
+      serial,
+      product: {
+        id: serial.productId,
+        productCode: row.productCode,
+        name: row.productName,
+        variantName: row.variantName,
+        warrantyMonths: row.warrantyMonths,
+      },
+      customer: serial.customerId && row.customerName
+        ? { id: serial.customerId, name: row.customerName, phone: row.customerPhone }
+        : null,
+      warranty: {
+        expiresAt: serial.warrantyExpiresAt,
+        active: serial.status === 'SOLD' && serial.warrantyExpiresAt !== null && serial.warrantyExpiresAt > new Date(),
+      },
+      history,
+    };
+  }
+}
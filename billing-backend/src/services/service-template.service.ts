@@ -0,0 +1,283 @@
+import { db } from '../config/database';
+import {
+  servicePricingTemplates,
+  products,
+  productVariants,
+  retailBusinesses,
+} from '../models/drizzle/schema';
+import { eq, and, desc, count, ilike, inArray, SQL } from 'drizzle-orm';
+import {
+  CreateServiceTemplateInput,
+  UpdateServiceTemplateInput,
+  ServiceTemplateQueryInput,
+  ServiceTemplateUsageInput,
+  IncludedMaterial,
+  PricingTier,
+} from '../schemas/service-template.schema';
+import { CreateBillInput } from '../schemas/bill.schema';
+import { logger } from '../utils/logger';
+
+type ServiceTemplate = typeof servicePricingTemplates.$inferSelect;
+type BillItemInput = CreateBillInput['items'][number];
+
+function materialsOf(template: ServiceTemplate): IncludedMaterial[] {
+  return Array.isArray(template.includedMaterials) ? template.includedMaterials as IncludedMaterial[] : [];
+}
+
+function tiersOf(template: ServiceTemplate): PricingTier[] {
+  return Array.isArray(template.pricingTiers) ? template.pricingTiers as PricingTier[] : [];
+}
+
+/**
+ * Labour rate for a quantity: the tier with the highest threshold reached, otherwise the base service cost
+ */
+function labourRate(template: ServiceTemplate, quantity: number): { rate: number; tier: string | null } {
+  const tier = tiersOf(template)
+    .filter(t => quantity >= t.minQuantity)
+    .sort((a, b) => b.minQuantity - a.minQuantity)[0];
+
+  return tier ? { rate: tier.price, tier: tier.name } : { rate: Number(template.baseServiceCost), tier: null };
+}
+
+export class ServiceTemplateService {
+  /**
+   * Linked products must belong to the business; materials must be stock items, not services
+   */
+  private async validateProducts(businessId: string, input: Pick<CreateServiceTemplateInput, 'productId' | 'includedMaterials'>): Promise<void> {
+    if (input.productId) {
+      const [product] = await db
+        .select({ id: products.id })
+        .from(products)
+        .where(and(eq(products.id, input.productId), eq(products.businessId, businessId)))
+        .limit(1);
+
+      if (!product) {
+        throw new Error('Product not found');
+      }
+    }
+
+    const materials = input.includedMaterials || [];
+    if (materials.length === 0) return;
+
+    const productIds = [...new Set(materials.map(material => material.productId))];
+    const found = await db
+      .select({ id: products.id, name: products.name, isService: products.isService })
+      .from(products)
+      .where(and(eq(products.businessId, businessId), inArray(products.id, productIds)));
+
+    for (const productId of productIds) {
+      const product = found.find(row => row.id === productId);
+      if (!product) {
+        throw new Error('One or more materials were not found');
+      }
+      if (product.isService) {
+        throw new Error(`${product.name} is a service and cannot be a material`);
+      }
+    }
+  }
+
+  async getTemplates(businessId: string, query: ServiceTemplateQueryInput): Promise<{ templates: ServiceTemplate[]; pagination: { page: number; limit: number; total: number; totalPages: number } }> {
+    const { productId, search, includeInactive = false, page = 1, limit = 20 } = query;
+
+    const conditions: SQL[] = [eq(servicePricingTemplates.businessId, businessId)];
+    if (!includeInactive) conditions.push(eq(servicePricingTemplates.isActive, true));
+    if (productId) conditions.push(eq(servicePricingTemplates.productId, productId));
+    if (search) conditions.push(ilike(servicePricingTemplates.name, `%${search}%`));
+
+    const [countResult] = await db
+      .select({ count: count() })
+      .from(servicePricingTemplates)
+      .where(and(...conditions));
+
+    const total = countResult?.count || 0;
+
+    const templates = await db
+      .select()
+      .from(servicePricingTemplates)
+      .where(and(...conditions))
+      .orderBy(desc(servicePricingTemplates.createdAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      templates,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getTemplate(businessId: string, templateId: string): Promise<ServiceTemplate> {
+    const [template] = await db
+      .select()
+      .from(servicePricingTemplates)
+      .where(and(eq(servicePricingTemplates.id, templateId), eq(servicePricingTemplates.businessId, businessId)))
+      .limit(1);
+
+    if (!template) {
+      throw new Error('Service template not found');
+    }
+
+    return template;
+  }
+
+  async createTemplate(businessId: string, input: CreateServiceTemplateInput): Promise<ServiceTemplate> {
+    await this.validateProducts(businessId, input);
+
+    const [template] = await db.insert(servicePricingTemplates).values({
+      businessId,
+      productId: input.productId,
+      name: input.name,
+      description: input.description,
+      baseServiceCost: input.baseServiceCost.toFixed(2),
+      includedMaterials: input.includedMaterials,
+      allowMaterialModification: input.allowMaterialModification,
+      pricingTiers: input.pricingTiers,
+      estimatedDuration: input.estimatedDuration,
+    }).returning();
+
+    if (!template) {
+      throw new Error('Failed to create service template');
+    }
+
+    logger.info('Service template created', { templateId: template.id, businessId });
+
+    return template;
+  }
+
+  async updateTemplate(businessId: string, templateId: string, input: UpdateServiceTemplateInput): Promise<ServiceTemplate> {
+    await this.getTemplate(businessId, templateId);
+    await this.validateProducts(businessId, input);
+
+    const updateData: Partial<typeof servicePricingTemplates.$inferInsert> = { updatedAt: new Date() };
+    if (input.productId !== undefined) updateData.productId = input.productId;
+    if (input.name !== undefined) updateData.name = input.name;
+    if (input.description !== undefined) updateData.description = input.description;
+    if (input.baseServiceCost !== undefined) updateData.baseServiceCost = input.baseServiceCost.toFixed(2);
+    if (input.includedMaterials !== undefined) updateData.includedMaterials = input.includedMaterials;
+    if (input.allowMaterialModification !== undefined) updateData.allowMaterialModification = input.allowMaterialModification;
+    if (input.pricingTiers !== undefined) updateData.pricingTiers = input.pricingTiers;
+    if (input.estimatedDuration !== undefined) updateData.estimatedDuration = input.estimatedDuration;
+    if (input.isActive !== undefined) updateData.isActive = input.isActive;
+
+    const [template] = await db
+      .update(servicePricingTemplates)
+      .set(updateData)
+      .where(eq(servicePricingTemplates.id, templateId))
+      .returning();
+
+    if (!template) {
+      throw new Error('Service template not found');
+    }
+
+    logger.info('Service template updated', { templateId, businessId });
+
+    return template;
+  }
+
+  async deleteTemplate(businessId: string, templateId: string): Promise<void> {
+    await this.getTemplate(businessId, templateId);
+
+    await db.delete(servicePricingTemplates).where(eq(servicePricingTemplates.id, templateId));
+
+    logger.info('Service template deleted', { templateId, businessId });
+  }
+
+  /**
+   * Turn a template into bill lines: one labour line at the tier rate for the quantity, then one line per material.
+   * Material quantities scale with the service quantity and can be overridden when the template (or the material) allows it.
+   * Businesses that do not bill materials with services get the labour line only.
+   */
+  async expandTemplate(businessId: string, templateId: string, usage: ServiceTemplateUsageInput): Promise<{ items: BillItemInput[]; pricingTier: string | null; estimatedDuration: number | null }> {
+    const template = await this.getTemplate(businessId, templateId);
+
+    if (!template.isActive) {
+      throw new Error('Service template is inactive');
+    }
+
+    const [business] = await db
+      .select({ allowMaterialInService: retailBusinesses.allowMaterialInService })
+      .from(retailBusinesses)
+      .where(eq(retailBusinesses.id, businessId))
+      .limit(1);
+
+    const allowMaterials = business?.allowMaterialInService ?? true;
+    const materials = materialsOf(template);
+    const overrides = usage.materials || [];
+    const quantity = usage.quantity;
+
+    if (overrides.length > 0 && !allowMaterials) {
+      throw new Error('This business does not bill materials with services');
+    }
+
+    for (const override of overrides) {
+      const material = materials.find(m => m.productId === override.productId);
+      if (!material) {
+        throw new Error('Material is not part of this service template');
+      }
+      if (!template.allowMaterialModification && !material.isVariable) {
+        throw new Error(`Materials of ${template.name} cannot be changed`);
+      }
+    }
+
+    const [service] = template.productId
+      ? await db.select().from(products).where(eq(products.id, template.productId)).limit(1)
+      : [];
+
+    const { rate, tier } = labourRate(template, quantity);
+
+    const items: BillItemInput[] = [{
+      productId: service?.id,
+      productName: service?.name ?? template.name,
+      description: template.description || undefined,
+      sacCode: service?.sacCode || undefined,
+      itemType: 'SERVICE',
+      unit: service?.unit ?? 'SERVICE',
+      quantity,
+      rate,
+      discountPercent: 0,
+      discountAmount: 0,
+      taxPercent: Number(service?.taxPercent || 0),
+      taxAmount: 0,
+    }];
+
+    if (allowMaterials && materials.length > 0) {
+      const parts = await db
+        .select({ product: products, variant: productVariants })
+        .from(products)
+        .leftJoin(productVariants, eq(productVariants.productId, products.id))
+        .where(and(eq(products.businessId, businessId), inArray(products.id, materials.map(m => m.productId))));
+
+      for (const material of materials) {
+        const override = overrides.find(o => o.productId === material.productId);
+        const lineQuantity = override ? override.quantity : Math.round(material.quantity * quantity * 1000) / 1000;
+        if (lineQuantity <= 0) continue;
+
+        const part = parts.find(row => row.product.id === material.productId && (!material.variantId || row.variant?.id === material.variantId));
+        if (!part) {
+          throw new Error('A material of this template no longer exists');
+        }
+
+        items.push({
+          productId: part.product.id,
+          variantId: material.variantId,
+          productName: part.product.name,
+          hsnCode: part.product.hsnCode || undefined,
+          itemType: 'PRODUCT',
+          unit: part.product.unit,
+          quantity: lineQuantity,
+          rate: material.price, // Left to the product's selling price when the template does not fix one
+          discountPercent: 0,
+          discountAmount: 0,
+          taxPercent: Number(part.product.taxPercent || 0),
+          taxAmount: 0,
+        });
+      }
+    }
+
+    return { items, pricingTier: tier, estimatedDuration: template.estimatedDuration };
+  }
+}
@@ -0,0 +1,335 @@
+import { db, DbTransaction } from '../config/database';
+import {
+  stockTransfers,
+  stockTransferItems,
+  storeLocations,
+  products,
+  productVariants,
+} from '../models/drizzle/schema';
+import { eq, and, or, desc, count, inArray, SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import {
+  CreateStockTransferInput,
+  StockTransferQueryInput,
+  ReceiveStockTransferInput,
+  CancelStockTransferInput,
+} from '../schemas/location.schema';
+import { logger } from '../utils/logger';
+import { SequenceService } from './sequence.service';
+import { InventoryService } from './inventory.service';
+
+type StockTransfer = typeof stockTransfers.$inferSelect;
+type StockTransferItem = typeof stockTransferItems.$inferSelect;
+
+export interface StockTransferDetails extends StockTransfer {
+  fromLocationName: string;
+  toLocationName: string;
+  items: (StockTransferItem & { productName: string; productCode: string; variantName: string | null })[];
+}
+
+const sequenceService = new SequenceService();
+const inventoryService = new InventoryService();
+
+const fromLocations = alias(storeLocations, 'from_locations');
+const toLocations = alias(storeLocations, 'to_locations');
+
+export class StockTransferService {
+  private async lockTransfer(tx: DbTransaction, businessId: string, transferId: string): Promise<StockTransfer> {
+    const [transfer] = await tx
+      .select()
+      .from(stockTransfers)
+      .where(and(eq(stockTransfers.id, transferId), eq(stockTransfers.businessId, businessId)))
+      .for('update');
+
+    if (!transfer) {
+      throw new Error('Stock transfer not found');
+    }
+
+    return transfer;
+  }
+
+  /**
+   * Take the stock out of the source location; it stays in transit (off both locations) until received
+   */
+  private async dispatch(tx: DbTransaction, transfer: StockTransfer, userId: string): Promise<void> {
+    const items = await tx.select().from(stockTransferItems).where(eq(stockTransferItems.transferId, transfer.id));
+
+    for (const item of items) {
+      const recorded = await inventoryService.recordMovement(tx, {
+        businessId: transfer.businessId,
+        productId: item.productId,
+        variantId: item.variantId,
+        locationId: transfer.fromLocationId,
+        movementType: 'TRANSFER',
+        quantity: -Number(item.quantity),
+        serialNumbers: Array.isArray(item.serialNumbers) ? item.serialNumbers as string[] : undefined,
+        reason: `Transfer ${transfer.transferNumber} dispatched`,
+        performedBy: userId,
+        metadata: { stockTransferId: transfer.id },
+      });
+
+      if (recorded) {
+        await tx.update(stockTransferItems)
+          .set({ dispatchMovementId: recorded.movement.id, unitCost: recorded.movement.unitCost })
+          .where(eq(stockTransferItems.id, item.id));
+      }
+    }
+
+    await tx.update(stockTransfers)
+      .set({ status: 'IN_TRANSIT', dispatchedAt: new Date(), dispatchedBy: userId, updatedAt: new Date() })
+      .where(eq(stockTransfers.id, transfer.id));
+  }
+
+  /**
+   * Put dispatched stock into a location at the cost it left with, back into the batches and serials it was dispatched from
+   */
+  private async bringIn(tx: DbTransaction, transfer: StockTransfer, locationId: string, userId: string, reason: string, movementDate?: Date): Promise<void> {
+    const items = await tx.select().from(stockTransferItems).where(eq(stockTransferItems.transferId, transfer.id));
+
+    for (const item of items) {
+      // Non-stock items were never taken out
+      if (!item.dispatchMovementId) continue;
+
+      const recorded = await inventoryService.recordMovement(tx, {
+        businessId: transfer.businessId,
+        productId: item.productId,
+        variantId: item.variantId,
+        locationId,
+        movementType: 'TRANSFER',
+        quantity: Number(item.quantity),
+        unitCost: item.unitCost,
+        transferMovementId: item.dispatchMovementId,
+        reason,
+        performedBy: userId,
+        movementDate,
+        metadata: { stockTransferId: transfer.id },
+      });
+
+      if (recorded) {
+        await tx.update(stockTransferItems)
+          .set({ receiptMovementId: recorded.movement.id })
+          .where(eq(stockTransferItems.id, item.id));
+      }
+    }
+  }
+
+  async createTransfer(businessId: string, userId: string, input: CreateStockTransferInput): Promise<StockTransferDetails> {
+    if (input.fromLocationId === input.toLocationId) {
+      throw new Error('Source and destination must be different locations');
+    }
+
+    const transferId = await db.transaction(async (tx) => {
+      const locations = await tx
+        .select()
+        .from(storeLocations)
+        .where(and(
+          eq(storeLocations.businessId, businessId),
+          inArray(storeLocations.id, [input.fromLocationId, input.toLocationId])
+        ));
+
+      for (const locationId of [input.fromLocationId, input.toLocationId]) {
+        const location = locations.find(l => l.id === locationId);
+        if (!location || !location.isActive) {
+          throw new Error('Location not found');
+        }
+      }
+
+      const productIds = [...new Set(input.items.map(item => item.productId))];
+      const found = await tx
+        .select({ id: products.id })
+        .from(products)
+        .where(and(eq(products.businessId, businessId), inArray(products.id, productIds)));
+
+      if (found.length !== productIds.length) {
+        throw new Error('One or more products were not found');
+      }
+
+      const transferNumber = await sequenceService.next(tx, businessId, 'STOCK_TRANSFER');
+
+      const [transfer] = await tx.insert(stockTransfers).values({
+        businessId,
+        transferNumber,
+        fromLocationId: input.fromLocationId,
+        toLocationId: input.toLocationId,
+        notes: input.notes,
+        createdBy: userId,
+      }).returning();
+
+      if (!transfer) {
+        throw new Error('Failed to create stock transfer');
+      }
+
+      await tx.insert(stockTransferItems).values(input.items.map(item => ({
+        transferId: transfer.id,
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity.toFixed(2),
+        serialNumbers: item.serialNumbers,
+        notes: item.notes,
+      })));
+
+      if (input.dispatch) {
+        await this.dispatch(tx, transfer, userId);
+      }
+
+      return transfer.id;
+    });
+
+    logger.info('Stock transfer created', { transferId, businessId, dispatched: input.dispatch === true });
+
+    return this.getTransfer(businessId, transferId);
+  }
+
+  async getTransfers(businessId: string, query: StockTransferQueryInput): Promise<{ transfers: (StockTransfer & { fromLocationName: string; toLocationName: string })[]; pagination: { page: number; limit: number; total: number; totalPages: number } }> {
+    const { status, locationId, page = 1, limit = 20 } = query;
+
+    const conditions: SQL[] = [eq(stockTransfers.businessId, businessId)];
+    if (status) conditions.push(eq(stockTransfers.status, status));
+    if (locationId) {
+      const locationCondition = or(eq(stockTransfers.fromLocationId, locationId), eq(stockTransfers.toLocationId, locationId));
+      if (locationCondition) conditions.push(locationCondition);
+    }
+
+    const [countResult] = await db
+      .select({ count: count() })
+      .from(stockTransfers)
+      .where(and(...conditions));
+
+    const total = countResult?.count || 0;
+
+    const rows = await db
+      .select({
+        transfer: stockTransfers,
+        fromLocationName: fromLocations.name,
+        toLocationName: toLocations.name,
+      })
+      .from(stockTransfers)
+      .innerJoin(fromLocations, eq(stockTransfers.fromLocationId, fromLocations.id))
+      .innerJoin(toLocations, eq(stockTransfers.toLocationId, toLocations.id))
+      .where(and(...conditions))
+      .orderBy(desc(stockTransfers.createdAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      transfers: rows.map(row => ({ ...row.transfer, fromLocationName: row.fromLocationName, toLocationName: row.toLocationName })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getTransfer(businessId: string, transferId: string): Promise<StockTransferDetails> {
+    const [row] = await db
+      .select({
+        transfer: stockTransfers,
+        fromLocationName: fromLocations.name,
+        toLocationName: toLocations.name,
+      })
+      .from(stockTransfers)
+      .innerJoin(fromLocations, eq(stockTransfers.fromLocationId, fromLocations.id))
+      .innerJoin(toLocations, eq(stockTransfers.toLocationId, toLocations.id))
+      .where(and(eq(stockTransfers.id, transferId), eq(stockTransfers.businessId, businessId)))
+      .limit(1);
+
+    if (!row) {
+      throw new Error('Stock transfer not found');
+    }
+
+    const items = await db
+      .select({
+        item: stockTransferItems,
+        productName: products.name,
+        productCode: products.productCode,
+        variantName: productVariants.variantName,
+      })
+      .from(stockTransferItems)
+      .innerJoin(products, eq(stockTransferItems.productId, products.id))
+      .leftJoin(productVariants, eq(stockTransferItems.variantId, productVariants.id))
+      .where(eq(stockTransferItems.transferId, transferId))
+      .orderBy(stockTransferItems.createdAt);
+
+    return {
+      ...row.transfer,
+      fromLocationName: row.fromLocationName,
+      toLocationName: row.toLocationName,
+      items: items.map(i => ({ ...i.item, productName: i.productName, productCode: i.productCode, variantName: i.variantName })),
+    };
+  }
+
+  async dispatchTransfer(businessId: string, userId: string, transferId: string): Promise<StockTransferDetails> {
+    await db.transaction(async (tx) => {
+      const transfer = await this.lockTransfer(tx, businessId, transferId);
+
+      if (transfer.status !== 'DRAFT') {
+        throw new Error(`Cannot dispatch a transfer that is ${transfer.status.toLowerCase().replace('_', ' ')}`);
+      }
+
+      await this.dispatch(tx, transfer, userId);
+    });
+
+    logger.info('Stock transfer dispatched', { transferId, businessId });
+
+    return this.getTransfer(businessId, transferId);
+  }
+
+  async receiveTransfer(businessId: string, userId: string, transferId: string, input: ReceiveStockTransferInput): Promise<StockTransferDetails> {
+    await db.transaction(async (tx) => {
+      const transfer = await this.lockTransfer(tx, businessId, transferId);
+
+      if (transfer.status !== 'IN_TRANSIT') {
+        throw new Error('Only transfers in transit can be received');
+      }
+
+      const receivedAt = input.receivedDate ? new Date(input.receivedDate) : new Date();
+
+      await this.bringIn(tx, transfer, transfer.toLocationId, userId, `Transfer ${transfer.transferNumber} received`, receivedAt);
+
+      await tx.update(stockTransfers)
+        .set({
+          status: 'RECEIVED',
+          receivedAt,
+          receivedBy: userId,
+          notes: input.notes ? [transfer.notes, input.notes].filter(Boolean).join('\n') : transfer.notes,
+          updatedAt: new Date(),
+        })
+        .where(eq(stockTransfers.id, transferId));
+    });
+
+    logger.info('Stock transfer received', { transferId, businessId });
+
+    return this.getTransfer(businessId, transferId);
+  }
+
+  /**
+   * Drafts are simply cancelled; stock already in transit goes back to the source location
+   */
+  async cancelTransfer(businessId: string, userId: string, transferId: string, input: CancelStockTransferInput): Promise<StockTransferDetails> {
+    await db.transaction(async (tx) => {
+      const transfer = await this.lockTransfer(tx, businessId, transferId);
+
+      if (transfer.status !== 'DRAFT' && transfer.status !== 'IN_TRANSIT') {
+        throw new Error(`Cannot cancel a transfer that is ${transfer.status.toLowerCase()}`);
+      }
+
+      if (transfer.status === 'IN_TRANSIT') {
+        await this.bringIn(tx, transfer, transfer.fromLocationId, userId, `Transfer ${transfer.transferNumber} cancelled`);
+      }
+
+      await tx.update(stockTransfers)
+        .set({
+          status: 'CANCELLED',
+          notes: [transfer.notes, `Cancelled: ${input.reason}`].filter(Boolean).join('\n'),
+          updatedAt: new Date(),
+        })
+        .where(eq(stockTransfers.id, transferId));
+    });
+
+    logger.info('Stock transfer cancelled', { transferId, businessId, reason: input.reason });
+
+    return this.getTransfer(businessId, transferId);
+  }
+}
@@ -0,0 +1,826 @@
+import { db, DbTransaction } from '../config/database';
+import {
+  stocktakes,
+  stocktakeItems,
+  stocktakeCounts,
+  storeLocations,
+  locationStock,
+  productCategories,
+  products,
+  productVariants,
+  productSerials,
+  users,
+} from '../models/drizzle/schema';
+import { eq, and, or, ne, desc, asc, count, sql, inArray, isNull, ilike, SQL } from 'drizzle-orm';
+import {
+  CreateStocktakeInput,
+  StocktakeQueryInput,
+  SubmitStocktakeCountsInput,
+  StocktakeVarianceQueryInput,
+  StocktakeCountQueryInput,
+  ApproveStocktakeInput,
+  CancelStocktakeInput,
+} from '../schemas/stocktake.schema';
+import { AuthenticatedRequest } from '../types/common';
+import { logger } from '../utils/logger';
+import { SequenceService } from './sequence.service';
+import { InventoryService } from './inventory.service';
+import { AuditService } from './audit.service';
+
+type Stocktake = typeof stocktakes.$inferSelect;
+type StocktakeItem = typeof stocktakeItems.$inferSelect;
+
+export interface StocktakeSummary {
+  totalItems: number;
+  countedItems: number;
+  uncountedItems: number;
+  varianceItems: number;
+  shortageValue: number; // Value of stock counted short, at snapshot cost (negative)
+  surplusValue: number; // Value of stock counted over
+  netValue: number;
+}
+
+export interface StocktakeDetails extends Stocktake {
+  locationName: string | null;
+  categoryName: string | null;
+  summary: StocktakeSummary;
+}
+
+export interface StocktakeVarianceLine {
+  itemId: string;
+  productId: string;
+  productCode: string;
+  productName: string;
+  variantId: string | null;
+  variantName: string | null;
+  unit: string;
+  expectedQuantity: number;
+  countedQuantity: number | null;
+  variance: number | null;
+  unitCost: number;
+  valueImpact: number | null;
+}
+
+interface CountTarget {
+  item: StocktakeItem & { productName: string; tracksSerials: boolean };
+  counted: number;
+}
+
+const sequenceService = new SequenceService();
+const inventoryService = new InventoryService();
+const auditService = new AuditService();
+
+const STOCK_TOLERANCE = 0.005;
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function itemKey(productId: string, variantId?: string | null): string {
+  return `${productId}:${variantId ?? ''}`;
+}
+
+export class StocktakeService {
+  private async lockStocktake(tx: DbTransaction, businessId: string, stocktakeId: string): Promise<Stocktake> {
+    const [stocktake] = await tx
+      .select()
+      .from(stocktakes)
+      .where(and(eq(stocktakes.id, stocktakeId), eq(stocktakes.businessId, businessId)))
+      .for('update');
+
+    if (!stocktake) {
+      throw new Error('Stocktake not found');
+    }
+
+    return stocktake;
+  }
+
+  private async getSummary(stocktakeId: string): Promise<StocktakeSummary> {
+    const variance = sql`(${stocktakeItems.countedQuantity} - ${stocktakeItems.expectedQuantity}) * COALESCE(${stocktakeItems.unitCost}, 0)`;
+
+    const [row] = await db
+      .select({
+        totalItems: count(),
+        countedItems: sql<number>`COUNT(${stocktakeItems.countedQuantity})::int`,
+        varianceItems: sql<number>`(COUNT(*) FILTER (WHERE ${stocktakeItems.countedQuantity} <> ${stocktakeItems.expectedQuantity}))::int`,
+        shortageValue: sql<string>`COALESCE(SUM(LEAST(${variance}, 0)), 0)`,
+        surplusValue: sql<string>`COALESCE(SUM(GREATEST(${variance}, 0)), 0)`,
+      })
+      .from(stocktakeItems)
+      .where(eq(stocktakeItems.stocktakeId, stocktakeId));
+
+    const totalItems = row?.totalItems || 0;
+    const countedItems = row?.countedItems || 0;
+    const shortageValue = round2(Number(row?.shortageValue || 0));
+    const surplusValue = round2(Number(row?.surplusValue || 0));
+
+    return {
+      totalItems,
+      countedItems,
+      uncountedItems: totalItems - countedItems,
+      varianceItems: row?.varianceItems || 0,
+      shortageValue,
+      surplusValue,
+      netValue: round2(shortageValue + surplusValue),
+    };
+  }
+
+  /**
+   * Freeze the expected quantity of every stocked product in scope, at the location's balance when counting one location
+   */
+  private async snapshotItems(tx: DbTransaction, businessId: string, stocktakeId: string, locationId: string | null, categoryId: string | null): Promise<number> {
+    const conditions: SQL[] = [
+      eq(products.businessId, businessId),
+      eq(products.trackQuantity, true),
+      eq(products.isService, false),
+      eq(products.isActive, true),
+    ];
+    if (categoryId) conditions.push(eq(products.categoryId, categoryId));
+
+    const stocked = await tx.select().from(products).where(and(...conditions));
+    if (stocked.length === 0) return 0;
+
+    const variants = await tx
+      .select()
+      .from(productVariants)
+      .where(inArray(productVariants.productId, stocked.map(product => product.id)));
+
+    const balances = new Map<string, number>();
+    if (locationId) {
+      const rows = await tx
+        .select()
+        .from(locationStock)
+        .where(and(eq(locationStock.businessId, businessId), eq(locationStock.locationId, locationId)));
+      for (const row of rows) balances.set(itemKey(row.productId, row.variantId), Number(row.quantity));
+    }
+
+    const items: (typeof stocktakeItems.$inferInsert)[] = [];
+
+    for (const product of stocked) {
+      const productCost = product.averageCost ?? product.purchasePrice;
+      const productVariantsOf = variants.filter(variant => variant.productId === product.id);
+
+      for (const variant of productVariantsOf) {
+        const expected = locationId ? balances.get(itemKey(product.id, variant.id)) ?? 0 : Number(variant.stockQuantity || 0);
+        // Retired variants are only counted while they still hold stock
+        if (!variant.isActive && Math.abs(expected) < STOCK_TOLERANCE) continue;
+
+        items.push({
+          stocktakeId,
+          productId: product.id,
+          variantId: variant.id,
+          expectedQuantity: expected.toFixed(2),
+          unitCost: variant.purchasePrice ?? productCost,
+        });
+      }
+
+      // Stock held on the product itself: all of it without variants, or whatever was moved before variants existed
+      const unassigned = locationId
+        ? balances.get(itemKey(product.id)) ?? 0
+        : Number(product.currentStock || 0) - productVariantsOf.reduce((total, variant) => total + Number(variant.stockQuantity || 0), 0);
+
+      if (productVariantsOf.length === 0 || Math.abs(unassigned) >= STOCK_TOLERANCE) {
+        items.push({
+          stocktakeId,
+          productId: product.id,
+          expectedQuantity: round2(unassigned).toFixed(2),
+          unitCost: productCost,
+        });
+      }
+    }
+
+    if (items.length > 0) {
+      await tx.insert(stocktakeItems).values(items);
+    }
+
+    return items.length;
+  }
+
+  async createStocktake(businessId: string, userId: string, input: CreateStocktakeInput): Promise<StocktakeDetails> {
+    const stocktakeId = await db.transaction(async (tx) => {
+      let locationId: string | null = null;
+
+      if (input.locationId) {
+        const [location] = await tx
+          .select()
+          .from(storeLocations)
+          .where(and(eq(storeLocations.id, input.locationId), eq(storeLocations.businessId, businessId)))
+          .limit(1);
+
+        if (!location || !location.isActive) {
+          throw new Error('Location not found');
+        }
+        locationId = location.id;
+      } else {
+        // Businesses with locations always count one of them
+        const [defaultLocation] = await tx
+          .select({ id: storeLocations.id })
+          .from(storeLocations)
+          .where(and(eq(storeLocations.businessId, businessId), eq(storeLocations.isDefault, true)))
+          .limit(1);
+        locationId = defaultLocation?.id ?? null;
+      }
+
+      if (input.categoryId) {
+        const [category] = await tx
+          .select({ id: productCategories.id })
+          .from(productCategories)
+          .where(and(eq(productCategories.id, input.categoryId), eq(productCategories.businessId, businessId)))
+          .limit(1);
+
+        if (!category) {
+          throw new Error('Category not found');
+        }
+      }
+
+      // Two open counts over the same products would post their variances twice
+      const overlapConditions: SQL[] = [
+        eq(stocktakes.businessId, businessId),
+        eq(stocktakes.status, 'COUNTING'),
+        locationId ? eq(stocktakes.locationId, locationId) : isNull(stocktakes.locationId),
+      ];
+      if (input.categoryId) {
+        const categoryCondition = or(isNull(stocktakes.categoryId), eq(stocktakes.categoryId, input.categoryId));
+        if (categoryCondition) overlapConditions.push(categoryCondition);
+      }
+
+      const [open] = await tx
+        .select({ stocktakeNumber: stocktakes.stocktakeNumber })
+        .from(stocktakes)
+        .where(and(...overlapConditions))
+        .limit(1);
+
+      if (open) {
+        throw new Error(`Stocktake ${open.stocktakeNumber} is already counting these products`);
+      }
+
+      const stocktakeNumber = await sequenceService.next(tx, businessId, 'STOCKTAKE');
+
+      const [stocktake] = await tx.insert(stocktakes).values({
+        businessId,
+        stocktakeNumber,
+        locationId,
+        categoryId: input.categoryId,
+        notes: input.notes,
+        createdBy: userId,
+      }).returning();
+
+      if (!stocktake) {
+        throw new Error('Failed to create stocktake');
+      }
+
+      const itemCount = await this.snapshotItems(tx, businessId, stocktake.id, locationId, input.categoryId ?? null);
+      if (itemCount === 0) {
+        throw new Error('No stocked products to count');
+      }
+
+      return stocktake.id;
+    });
+
+    logger.info('Stocktake started', { stocktakeId, businessId });
+
+    return this.getStocktake(businessId, stocktakeId);
+  }
+
+  async getStocktakes(businessId: string, query: StocktakeQueryInput): Promise<{ stocktakes: (Stocktake & { locationName: string | null; categoryName: string | null })[]; pagination: { page: number; limit: number; total: number; totalPages: number } }> {
+    const { status, locationId, page = 1, limit = 20 } = query;
+
+    const conditions: SQL[] = [eq(stocktakes.businessId, businessId)];
+    if (status) conditions.push(eq(stocktakes.status, status));
+    if (locationId) conditions.push(eq(stocktakes.locationId, locationId));
+
+    const [countResult] = await db
+      .select({ count: count() })
+      .from(stocktakes)
+      .where(and(...conditions));
+
+    const total = countResult?.count || 0;
+
+    const rows = await db
+      .select({
+        stocktake: stocktakes,
+        locationName: storeLocations.name,
+        categoryName: productCategories.name,
+      })
+      .from(stocktakes)
+      .leftJoin(storeLocations, eq(stocktakes.locationId, storeLocations.id))
+      .leftJoin(productCategories, eq(stocktakes.categoryId, productCategories.id))
+      .where(and(...conditions))
+      .orderBy(desc(stocktakes.createdAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      stocktakes: rows.map(row => ({ ...row.stocktake, locationName: row.locationName, categoryName: row.categoryName })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getStocktake(businessId: string, stocktakeId: string): Promise<StocktakeDetails> {
+    const [row] = await db
+      .select({
+        stocktake: stocktakes,
+        locationName: storeLocations.name,
+        categoryName: productCategories.name,
+      })
+      .from(stocktakes)
+      .leftJoin(storeLocations, eq(stocktakes.locationId, storeLocations.id))
+      .leftJoin(productCategories, eq(stocktakes.categoryId, productCategories.id))
+      .where(and(eq(stocktakes.id, stocktakeId), eq(stocktakes.businessId, businessId)))
+      .limit(1);
+
+    if (!row) {
+      throw new Error('Stocktake not found');
+    }
+
+    return {
+      ...row.stocktake,
+      locationName: row.locationName,
+      categoryName: row.categoryName,
+      summary: await this.getSummary(stocktakeId),
+    };
+  }
+
+  /**
+   * Find the product (and variant) a count refers to: a serial, a scanned barcode/SKU/product code, or explicit IDs
+   */
+  private async resolveCountTarget(tx: DbTransaction, businessId: string, count: SubmitStocktakeCountsInput['counts'][number]): Promise<{ productId: string; variantId: string | null }> {
+    if (count.serialNumber) {
+      const conditions: SQL[] = [
+        eq(productSerials.businessId, businessId),
+        eq(productSerials.serialNumber, count.serialNumber.trim()),
+      ];
+      if (count.productId) conditions.push(eq(productSerials.productId, count.productId));
+
+      const [serial] = await tx
+        .select({ productId: productSerials.productId, variantId: productSerials.variantId })
+        .from(productSerials)
+        .where(and(...conditions))
+        .orderBy(desc(productSerials.updatedAt))
+        .limit(1);
+
+      if (serial) return serial;
+
+      // A unit the books have never seen is counted against the product it was found under
+      if (count.productId) return { productId: count.productId, variantId: count.variantId ?? null };
+
+      throw new Error(`Serial ${count.serialNumber} is unknown; give the product it belongs to`);
+    }
+
+    if (count.code) {
+      const code = count.code.trim();
+
+      const [product] = await tx
+        .select({ id: products.id })
+        .from(products)
+        .where(and(
+          eq(products.businessId, businessId),
+          or(eq(products.barcode, code), eq(products.productCode, code))
+        ))
+        .limit(1);
+
+      if (product) return { productId: product.id, variantId: count.variantId ?? null };
+
+      const [variant] = await tx
+        .select({ id: productVariants.id, productId: productVariants.productId })
+        .from(productVariants)
+        .innerJoin(products, eq(productVariants.productId, products.id))
+        .where(and(
+          eq(products.businessId, businessId),
+          or(eq(productVariants.barcode, code), eq(productVariants.sku, code))
+        ))
+        .limit(1);
+
+      if (variant) return { productId: variant.productId, variantId: variant.id };
+
+      throw new Error(`No product found for code ${code}`);
+    }
+
+    if (!count.productId) {
+      throw new Error('A scanned code, product or serial number is required');
+    }
+
+    return { productId: count.productId, variantId: count.variantId ?? null };
+  }
+
+  /**
+   * Add counts to a stocktake. Counts from several people add up, so aisles can be counted in parallel;
+   * a negative quantity takes back a miscount and a serial can only be counted once.
+   */
+  async submitCounts(businessId: string, userId: string, stocktakeId: string, input: SubmitStocktakeCountsInput): Promise<{ items: { itemId: string; productId: string; variantId: string | null; productName: string; countedQuantity: number }[] }> {
+    const touched = await db.transaction(async (tx) => {
+      const stocktake = await this.lockStocktake(tx, businessId, stocktakeId);
+
+      if (stocktake.status !== 'COUNTING') {
+        throw new Error('Counts can only be added while the stocktake is counting');
+      }
+
+      const rows = await tx
+        .select({ item: stocktakeItems, productName: products.name, tracksSerials: products.tracksSerials })
+        .from(stocktakeItems)
+        .innerJoin(products, eq(stocktakeItems.productId, products.id))
+        .where(eq(stocktakeItems.stocktakeId, stocktakeId));
+
+      const targets = new Map<string, CountTarget>(rows.map(row => [
+        itemKey(row.item.productId, row.item.variantId),
+        { item: { ...row.item, productName: row.productName, tracksSerials: row.tracksSerials }, counted: Number(row.item.countedQuantity ?? 0) },
+      ]));
+      const changed = new Map<string, CountTarget>();
+
+      const serialCounts = await tx
+        .select({
+          serialNumber: stocktakeCounts.serialNumber,
+          net: sql<string>`SUM(${stocktakeCounts.quantity})`,
+        })
+        .from(stocktakeCounts)
+        .where(and(eq(stocktakeCounts.stocktakeId, stocktakeId), sql`${stocktakeCounts.serialNumber} IS NOT NULL`))
+        .groupBy(stocktakeCounts.serialNumber);
+
+      const countedSerials = new Set(serialCounts.filter(row => Number(row.net) > 0).map(row => row.serialNumber as string));
+
+      for (const entry of input.counts) {
+        const { productId, variantId } = await this.resolveCountTarget(tx, businessId, entry);
+        const target = targets.get(itemKey(productId, variantId));
+
+        if (!target) {
+          const variantLevel = rows.some(row => row.item.productId === productId && row.item.variantId);
+          const [product] = rows.filter(row => row.item.productId === productId);
+          throw new Error(variantLevel && !variantId
+            ? `Specify the variant of ${product?.productName ?? 'this product'} being counted`
+            : 'This product is not part of the stocktake');
+        }
+
+        const quantity = entry.quantity ?? 1;
+        const serialNumber = entry.serialNumber?.trim();
+
+        if (target.item.tracksSerials) {
+          if (!serialNumber || Math.abs(quantity) !== 1) {
+            throw new Error(`Scan the serial numbers of ${target.item.productName} one unit at a time`);
+          }
+          if (quantity > 0 && countedSerials.has(serialNumber)) {
+            throw new Error(`Serial ${serialNumber} has already been counted`);
+          }
+          if (quantity < 0 && !countedSerials.has(serialNumber)) {
+            throw new Error(`Serial ${serialNumber} has not been counted`);
+          }
+          if (quantity > 0) countedSerials.add(serialNumber);
+          else countedSerials.delete(serialNumber);
+        } else if (serialNumber) {
+          throw new Error(`${target.item.productName} is not serialised`);
+        }
+
+        const counted = round2(target.counted + quantity);
+        if (counted < 0) {
+          throw new Error(`Count of ${target.item.productName} cannot go below zero`);
+        }
+        target.counted = counted;
+        changed.set(target.item.id, target);
+
+        await tx.insert(stocktakeCounts).values({
+          stocktakeId,
+          stocktakeItemId: target.item.id,
+          quantity: quantity.toFixed(2),
+          scannedCode: entry.code,
+          serialNumber,
+          countedBy: userId,
+        });
+      }
+
+      for (const target of changed.values()) {
+        await tx.update(stocktakeItems)
+          .set({ countedQuantity: target.counted.toFixed(2), updatedAt: new Date() })
+          .where(eq(stocktakeItems.id, target.item.id));
+      }
+
+      return [...changed.values()];
+    });
+
+    logger.info('Stocktake counts submitted', { stocktakeId, businessId, userId, entries: input.counts.length });
+
+    return {
+      items: touched.map(target => ({
+        itemId: target.item.id,
+        productId: target.item.productId,
+        variantId: target.item.variantId,
+        productName: target.item.productName,
+        countedQuantity: target.counted,
+      })),
+    };
+  }
+
+  /**
+   * Counted against expected per item with the value impact at snapshot cost; uncounted items have no variance yet
+   */
+  async getVarianceReport(businessId: string, stocktakeId: string, query: StocktakeVarianceQueryInput): Promise<{ stocktake: StocktakeDetails; items: StocktakeVarianceLine[]; pagination: { page: number; limit: number; total: number; totalPages: number } }> {
+    const { onlyVariances = false, search, page = 1, limit = 100 } = query;
+
+    const stocktake = await this.getStocktake(businessId, stocktakeId);
+
+    const conditions: SQL[] = [eq(stocktakeItems.stocktakeId, stocktakeId)];
+    if (onlyVariances) {
+      conditions.push(ne(stocktakeItems.countedQuantity, stocktakeItems.expectedQuantity));
+    }
+    if (search) {
+      const searchCondition = or(ilike(products.name, `%${search}%`), ilike(products.productCode, `%${search}%`));
+      if (searchCondition) conditions.push(searchCondition);
+    }
+
+    const [countResult] = await db
+      .select({ count: count() })
+      .from(stocktakeItems)
+      .innerJoin(products, eq(stocktakeItems.productId, products.id))
+      .where(and(...conditions));
+
+    const total = countResult?.count || 0;
+
+    const rows = await db
+      .select({
+        item: stocktakeItems,
+        productCode: products.productCode,
+        productName: products.name,
+        unit: products.unit,
+        variantName: productVariants.variantName,
+      })
+      .from(stocktakeItems)
+      .innerJoin(products, eq(stocktakeItems.productId, products.id))
+      .leftJoin(productVariants, eq(stocktakeItems.variantId, productVariants.id))
+      .where(and(...conditions))
+      .orderBy(asc(products.name), asc(productVariants.variantName))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    const items = rows.map(row => {
+      const expectedQuantity = Number(row.item.expectedQuantity);
+      const countedQuantity = row.item.countedQuantity !== null ? Number(row.item.countedQuantity) : null;
+      const unitCost = Number(row.item.unitCost ?? 0);
+      const variance = countedQuantity !== null ? round2(countedQuantity - expectedQuantity) : null;
+
+      return {
+        itemId: row.item.id,
+        productId: row.item.productId,
+        productCode: row.productCode,
+        productName: row.productName,
+        variantId: row.item.variantId,
+        variantName: row.variantName,
+        unit: row.unit,
+        expectedQuantity,
+        countedQuantity,
+        variance,
+        unitCost,
+        valueImpact: variance !== null ? round2(variance * unitCost) : null,
+      };
+    });
+
+    return {
+      stocktake,
+      items,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Count submissions with who made them, newest first
+   */
+  async getCounts(businessId: string, stocktakeId: string, query: StocktakeCountQueryInput): Promise<{ counts: (typeof stocktakeCounts.$inferSelect & { productId: string; variantId: string | null; productName: string; countedByName: string | null })[]; pagination: { page: number; limit: number; total: number; totalPages: number } }> {
+    const { page = 1, limit = 100 } = query;
+
+    await this.getStocktake(businessId, stocktakeId);
+
+    const [countResult] = await db
+      .select({ count: count() })
+      .from(stocktakeCounts)
+      .where(eq(stocktakeCounts.stocktakeId, stocktakeId));
+
+    const total = countResult?.count || 0;
+
+    const rows = await db
+      .select({
+        entry: stocktakeCounts,
+        productId: stocktakeItems.productId,
+        variantId: stocktakeItems.variantId,
+        productName: products.name,
+        countedByName: sql<string | null>`NULLIF(TRIM(CONCAT(${users.firstName}, ' ', COALESCE(${users.lastName}, ''))), '')`,
+      })
+      .from(stocktakeCounts)
+      .innerJoin(stocktakeItems, eq(stocktakeCounts.stocktakeItemId, stocktakeItems.id))
+      .innerJoin(products, eq(stocktakeItems.productId, products.id))
+      .leftJoin(users, eq(stocktakeCounts.countedBy, users.id))
+      .where(eq(stocktakeCounts.stocktakeId, stocktakeId))
+      .orderBy(desc(stocktakeCounts.countedAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return {
+      counts: rows.map(row => ({
+        ...row.entry,
+        productId: row.productId,
+        variantId: row.variantId,
+        productName: row.productName,
+        countedByName: row.countedByName,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Serialised items are settled unit by unit: in-stock units nobody scanned are written off, scanned units not on the books are taken in
+   */
+  private async settleSerials(tx: DbTransaction, stocktake: Stocktake, item: StocktakeItem, userId: string, metadata: Record<string, unknown>): Promise<string[]> {
+    const scanned = await tx
+      .select({ serialNumber: stocktakeCounts.serialNumber })
+      .from(stocktakeCounts)
+      .where(and(eq(stocktakeCounts.stocktakeItemId, item.id), sql`${stocktakeCounts.serialNumber} IS NOT NULL`))
+      .groupBy(stocktakeCounts.serialNumber)
+      .having(sql`SUM(${stocktakeCounts.quantity}) > 0`);
+
+    const scannedNumbers = new Set(scanned.map(row => row.serialNumber as string));
+
+    const conditions: SQL[] = [eq(productSerials.productId, item.productId), eq(productSerials.status, 'IN_STOCK')];
+    if (item.variantId) conditions.push(eq(productSerials.variantId, item.variantId));
+    if (stocktake.locationId) conditions.push(eq(productSerials.locationId, stocktake.locationId));
+
+    const inStock = await tx.select({ serialNumber: productSerials.serialNumber }).from(productSerials).where(and(...conditions));
+    const inStockNumbers = new Set(inStock.map(row => row.serialNumber));
+
+    const missing = [...inStockNumbers].filter(serial => !scannedNumbers.has(serial));
+    const found = [...scannedNumbers].filter(serial => !inStockNumbers.has(serial));
+    const movementIds: string[] = [];
+
+    for (const [serialNumbers, sign] of [[missing, -1], [found, 1]] as const) {
+      if (serialNumbers.length === 0) continue;
+
+      const recorded = await inventoryService.recordMovement(tx, {
+        businessId: stocktake.businessId,
+        productId: item.productId,
+        variantId: item.variantId,
+        locationId: stocktake.locationId,
+        movementType: 'ADJUSTMENT',
+        quantity: sign * serialNumbers.length,
+        unitCost: sign > 0 ? item.unitCost : undefined,
+        serialNumbers: [...serialNumbers],
+        reason: `Stocktake ${stocktake.stocktakeNumber}`,
+        performedBy: userId,
+        metadata,
+      });
+
+      if (recorded) movementIds.push(recorded.movement.id);
+    }
+
+    return movementIds;
+  }
+
+  /**
+   * Post the variances as ADJUSTMENT movements. Each item moves by counted minus expected, so sales made while
+   * counting are not undone; uncounted items stay as they are unless they are to be treated as zero.
+   */
+  async approveStocktake(businessId: string, userId: string, stocktakeId: string, input: ApproveStocktakeInput, req?: AuthenticatedRequest): Promise<StocktakeDetails> {
+    const result = await db.transaction(async (tx) => {
+      const stocktake = await this.lockStocktake(tx, businessId, stocktakeId);
+
+      if (stocktake.status !== 'COUNTING') {
+        throw new Error(`Cannot approve a stocktake that is ${stocktake.status.toLowerCase()}`);
+      }
+
+      const rows = await tx
+        .select({ item: stocktakeItems, tracksSerials: products.tracksSerials })
+        .from(stocktakeItems)
+        .innerJoin(products, eq(stocktakeItems.productId, products.id))
+        .where(eq(stocktakeItems.stocktakeId, stocktakeId));
+
+      let adjustedItems = 0;
+      let movements = 0;
+
+      for (const { item, tracksSerials } of rows) {
+        const counted = item.countedQuantity !== null
+          ? Number(item.countedQuantity)
+          : input.uncountedAsZero ? 0 : null;
+        if (counted === null) continue;
+
+        const expected = Number(item.expectedQuantity);
+        const metadata = { stocktakeId, stocktakeItemId: item.id, expectedQuantity: expected, countedQuantity: counted };
+        let movementIds: string[] = [];
+
+        if (tracksSerials) {
+          movementIds = await this.settleSerials(tx, stocktake, item, userId, metadata);
+        } else {
+          const variance = round2(counted - expected);
+          if (Math.abs(variance) < STOCK_TOLERANCE) continue;
+
+          const recorded = await inventoryService.recordMovement(tx, {
+            businessId,
+            productId: item.productId,
+            variantId: item.variantId,
+            locationId: stocktake.locationId,
+            movementType: 'ADJUSTMENT',
+            quantity: variance,
+            unitCost: variance > 0 ? item.unitCost : undefined,
+            reason: `Stocktake ${stocktake.stocktakeNumber}`,
+            performedBy: userId,
+            metadata,
+          });
+          if (recorded) movementIds.push(recorded.movement.id);
+        }
+
+        if (movementIds.length === 0) continue;
+
+        adjustedItems++;
+        movements += movementIds.length;
+
+        await tx.update(stocktakeItems)
+          .set({
+            countedQuantity: counted.toFixed(2),
+            adjustmentMovementIds: movementIds,
+            updatedAt: new Date(),
+          })
+          .where(eq(stocktakeItems.id, item.id));
+      }
+
+      await tx.update(stocktakes)
+        .set({
+          status: 'APPROVED',
+          approvedAt: new Date(),
+          approvedBy: userId,
+          notes: input.notes ? [stocktake.notes, input.notes].filter(Boolean).join('\n') : stocktake.notes,
+          updatedAt: new Date(),
+        })
+        .where(eq(stocktakes.id, stocktakeId));
+
+      return { stocktakeNumber: stocktake.stocktakeNumber, adjustedItems, movements };
+    });
+
+    const approved = await this.getStocktake(businessId, stocktakeId);
+
+    await auditService.logAction({
+      businessId,
+      userId,
+      action: 'STOCKTAKE_APPROVE',
+      entityType: 'STOCKTAKE',
+      entityId: stocktakeId,
+      oldValues: { status: 'COUNTING' },
+      newValues: {
+        status: 'APPROVED',
+        ...result,
+        shortageValue: approved.summary.shortageValue,
+        surplusValue: approved.summary.surplusValue,
+        netValue: approved.summary.netValue,
+        uncountedAsZero: input.uncountedAsZero === true,
+      },
+      ipAddress: req?.ip,
+      userAgent: req?.get('User-Agent'),
+    });
+
+    logger.info('Stocktake approved', { stocktakeId, businessId, ...result });
+
+    return approved;
+  }
+
+  async cancelStocktake(businessId: string, userId: string, stocktakeId: string, input: CancelStocktakeInput, req?: AuthenticatedRequest): Promise<StocktakeDetails> {
+    await db.transaction(async (tx) => {
+      const stocktake = await this.lockStocktake(tx, businessId, stocktakeId);
+
+      if (stocktake.status !== 'COUNTING') {
+        throw new Error(`Cannot cancel a stocktake that is ${stocktake.status.toLowerCase()}`);
+      }
+
+      await tx.update(stocktakes)
+        .set({
+          status: 'CANCELLED',
+          cancelledAt: new Date(),
+          notes: [stocktake.notes, `Cancelled: ${input.reason}`].filter(Boolean).join('\n'),
+          updatedAt: new Date(),
+        })
+        .where(eq(stocktakes.id, stocktakeId));
+    });
+
+    await auditService.logAction({
+      businessId,
+      userId,
+      action: 'STOCKTAKE_CANCEL',
+      entityType: 'STOCKTAKE',
+      entityId: stocktakeId,
+      oldValues: { status: 'COUNTING' },
+      newValues: { status: 'CANCELLED', reason: input.reason },
+      ipAddress: req?.ip,
+      userAgent: req?.get('User-Agent'),
+    });
+
+    logger.info('Stocktake cancelled', { stocktakeId, businessId, reason: input.reason });
+
+    return this.getStocktake(businessId, stocktakeId);
+  }
+}
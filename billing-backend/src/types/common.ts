@@ -15,6 +15,7 @@ export interface AuthenticatedRequest extends Request {
     role: string;
     businessId?: string;
     staffId?: string;
+    locationId?: string; // Store a staff member is assigned to
     permissions?: string[];
   };
   businessId?: string;
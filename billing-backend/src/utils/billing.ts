@@ -1,6 +1,7 @@
 import { db } from '../config/database';
-import { bills, retailBusinesses } from '../models/drizzle/schema';
-import { eq, sql } from 'drizzle-orm';
+import { SequenceService } from '../services/sequence.service';
+
+const sequenceService = new SequenceService();
 
 // Type interfaces for billing utility functions
 interface BillItem {
@@ -23,54 +24,20 @@ interface BillData {
   items?: BillItem[];
 }
 
-interface InvoiceSettings {
-  prefix?: string;
-  suffix?: string;
-  startingNumber?: number;
-}
-
-interface BusinessSettings {
-  invoiceSettings?: InvoiceSettings;
-  [key: string]: unknown;
+// Allocates a bill number outside of any transaction; prefer SequenceService.next with the bill transaction
+export async function generateBillNumber(businessId: string): Promise<string> {
+  return sequenceService.next(db, businessId, 'BILL');
 }
 
-export async function generateBillNumber(businessId: string): Promise<string> {
-  // Get business settings
-  const [business] = await db
-    .select()
-    .from(retailBusinesses)
-    .where(eq(retailBusinesses.id, businessId))
-    .limit(1);
-
-  const settings = (business?.settings || {}) as BusinessSettings;
-  const invoiceSettings = settings.invoiceSettings || {};
-  
-  const prefix = invoiceSettings.prefix || 'BILL';
-  const suffix = invoiceSettings.suffix || '';
-  const startingNumber = invoiceSettings.startingNumber || 1;
-
-  // Get the last bill number for this business
-  const [lastBill] = await db
-    .select({ billNumber: bills.billNumber })
-    .from(bills)
-    .where(eq(bills.businessId, businessId))
-    .orderBy(sql`${bills.billNumber} DESC`)
-    .limit(1);
-
-  let nextNumber = startingNumber;
-  
-  if (lastBill) {
-    // Extract number from last bill number
-    const lastNumber = parseInt(lastBill.billNumber.replace(prefix, '').replace(suffix, ''));
-    if (!isNaN(lastNumber)) {
-      nextNumber = lastNumber + 1;
-    }
+// A variant sells at its own price when it has one, otherwise at the parent's price plus its adjustment
+export function resolveVariantPrice(
+  product: { sellingPrice: string },
+  variant?: { sellingPrice: string | null; priceAdjustment: string | null } | null
+): number {
+  if (variant?.sellingPrice !== null && variant?.sellingPrice !== undefined) {
+    return Number(variant.sellingPrice);
   }
-
-  // Format bill number
-  const billNumber = `${prefix}${nextNumber.toString().padStart(6, '0')}${suffix}`;
-  
-  return billNumber;
+  return Math.round((Number(product.sellingPrice) + Number(variant?.priceAdjustment || 0)) * 100) / 100;
 }
 
 export function calculateBillTotals(items: BillItem[], discountPercent: number = 0, taxPercent: number = 0): {
@@ -144,6 +111,43 @@ export function calculateDueDate(billDate: Date, creditDays: number): Date {
   return dueDate;
 }
 
+// Move a date on by whole months, landing on the anchor day or the last day of a shorter month (Jan 31 -> Feb 28)
+function addMonthsClamped(date: Date, months: number, anchorDay: number): Date {
+  const next = new Date(date);
+  next.setDate(1);
+  next.setMonth(next.getMonth() + months);
+  const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+  next.setDate(Math.min(anchorDay, lastDay));
+  return next;
+}
+
+/**
+ * Next occurrence after `date`. Monthly and longer schedules keep to `anchorDay`, the day of month of the
+ * template's original bill date, so a bill dated the 31st recurs on the last day of shorter months and returns to the 31st.
+ */
+export function calculateNextRecurringDate(date: Date, frequency: string, anchorDay: number = date.getDate()): Date {
+  const next = new Date(date);
+  switch (frequency) {
+    case 'DAILY':
+      next.setDate(next.getDate() + 1);
+      return next;
+    case 'WEEKLY':
+      next.setDate(next.getDate() + 7);
+      return next;
+    case 'BIWEEKLY':
+      next.setDate(next.getDate() + 14);
+      return next;
+    case 'MONTHLY':
+      return addMonthsClamped(date, 1, anchorDay);
+    case 'QUARTERLY':
+      return addMonthsClamped(date, 3, anchorDay);
+    case 'YEARLY':
+      return addMonthsClamped(date, 12, anchorDay);
+    default:
+      throw new Error(`Unknown recurring frequency: ${frequency}`);
+  }
+}
+
 export function isOverdue(bill: BillData): boolean {
   if (bill.status === 'PAID') return false;
   if (!bill.dueDate) return false;
@@ -202,8 +206,7 @@ export function generateBillSummary(bill: BillData, items: BillItem[]): {
 }
 
 export async function getNextBillNumber(businessId: string): Promise<string> {
-  const billNumber = await generateBillNumber(businessId);
-  return billNumber;
+  return sequenceService.peek(businessId, 'BILL');
 }
 
 export function validateBillData(data: BillData): { valid: boolean; errors: string[] } {
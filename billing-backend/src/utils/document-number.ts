@@ -0,0 +1,71 @@
+export type SequenceResetPolicy = 'NEVER' | 'YEARLY' | 'FINANCIAL_YEAR' | 'MONTHLY';
+
+export interface DocumentNumberFormat {
+  prefix: string;
+  suffix: string;
+  format: string;
+  padding: number;
+}
+
+// Stands in for {NUMBER} while a pattern is built; contains no separator the tidy step would touch
+const NUMBER_MARKER = '\u0000NUMBER\u0000';
+
+// Indian financial year runs April to March, e.g. 2026-27
+export function getFinancialYear(date: Date): string {
+  const year = date.getFullYear();
+  const startYear = date.getMonth() >= 3 ? year : year - 1;
+  return `${startYear}-${((startYear + 1) % 100).toString().padStart(2, '0')}`;
+}
+
+export function getSequencePeriod(policy: SequenceResetPolicy, date: Date): string {
+  switch (policy) {
+    case 'YEARLY':
+      return date.getFullYear().toString();
+    case 'FINANCIAL_YEAR':
+      return getFinancialYear(date);
+    case 'MONTHLY':
+      return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+    default:
+      return '';
+  }
+}
+
+function render(config: DocumentNumberFormat, number: string, date: Date, branchCode: string): string {
+  const formatted = config.format
+    .replace(/\{PREFIX\}/g, config.prefix)
+    .replace(/\{YEAR\}/g, date.getFullYear().toString())
+    .replace(/\{MONTH\}/g, (date.getMonth() + 1).toString().padStart(2, '0'))
+    .replace(/\{FY\}/g, getFinancialYear(date))
+    .replace(/\{BRANCH\}/g, branchCode)
+    .replace(/\{NUMBER\}/g, number);
+
+  // Tidy separators left behind by empty tokens, e.g. INV--2026 when no branch is set
+  return formatted.replace(/([-/_])\1+/g, '$1').replace(/^[-/_]|[-/_]$/g, '') + config.suffix;
+}
+
+export function formatDocumentNumber(config: DocumentNumberFormat, sequence: number, date: Date, branchCode: string): string {
+  return render(config, sequence.toString().padStart(config.padding, '0'), date, branchCode);
+}
+
+/**
+ * Regular expression (valid in both JavaScript and PostgreSQL) matching every number this format produces
+ * for the given date and branch, whatever its padding; the sequence number is the first capture group.
+ * Returns null when the format has no {NUMBER} token.
+ */
+export function documentNumberPattern(config: DocumentNumberFormat, date: Date, branchCode: string): string | null {
+  const rendered = render(config, NUMBER_MARKER, date, branchCode);
+  const parts = rendered.split(NUMBER_MARKER);
+  if (parts.length !== 2) return null;
+
+  const escape = (value: string): string => value.replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&');
+  return `^${escape(parts[0] ?? '')}([0-9]+)${escape(parts[1] ?? '')}$`;
+}
+
+/**
+ * First number to hand out in a period that has no counter yet. The configured starting number only
+ * applies to the very first period; either way the counter starts after the highest number already issued.
+ */
+export function sequenceSeed(startingNumber: number, isFirstPeriod: boolean, highestIssued: number | null): number {
+  const base = isFirstPeriod ? Math.max(startingNumber, 1) : 1;
+  return Math.max(base, (highestIssued ?? 0) + 1);
+}
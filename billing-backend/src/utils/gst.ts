@@ -0,0 +1,250 @@
+// GST state codes as used in the first two digits of a GSTIN and on e-invoices
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '97': 'Other Territory',
+};
+
+// Common spellings and abbreviations seen in free-text addresses
+const STATE_ALIASES: Record<string, string> = {
+  'jammu & kashmir': '01',
+  'j&k': '01',
+  'new delhi': '07',
+  'nct of delhi': '07',
+  'orissa': '21',
+  'pondicherry': '34',
+  'daman and diu': '26',
+  'dadra and nagar haveli': '26',
+  'andaman & nicobar islands': '35',
+  'uttaranchal': '05',
+  'up': '09',
+  'mp': '23',
+  'tn': '33',
+  'ap': '37',
+  'wb': '19',
+};
+
+// State code, PAN, entity number, 'Z', checksum
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export type SupplyType = 'INTRA_STATE' | 'INTER_STATE';
+
+export interface GstAddress {
+  state?: string;
+  stateCode?: string;
+  country?: string;
+  [key: string]: unknown;
+}
+
+export interface PlaceOfSupply {
+  supplierStateCode: string | null;
+  placeOfSupply: string | null;
+  supplyType: SupplyType;
+}
+
+export interface GstLineInput {
+  quantity: number;
+  rate: number;
+  discountPercent?: number;
+  discountAmount?: number;
+  taxPercent?: number;
+  taxAmount?: number; // Used only when no taxPercent is given
+  cessPercent?: number;
+  taxInclusive?: boolean;
+}
+
+export interface GstLineResult {
+  grossAmount: number; // Pre-tax value before discount
+  discountAmount: number;
+  taxableAmount: number;
+  cgstRate: number;
+  cgstAmount: number;
+  sgstRate: number;
+  sgstAmount: number;
+  igstRate: number;
+  igstAmount: number;
+  cessRate: number;
+  cessAmount: number;
+  taxAmount: number; // GST plus cess
+  totalAmount: number;
+}
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+// GSTIN check digit: base-36 weighted sum over the first 14 characters
+function getGstinCheckDigit(body: string): string {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const product = GSTIN_CHARSET.indexOf(body.charAt(i)) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET.charAt((36 - (sum % 36)) % 36);
+}
+
+export function isValidGstin(gstin: string | null | undefined): boolean {
+  if (!gstin) return false;
+  const value = gstin.trim().toUpperCase();
+  if (!GSTIN_PATTERN.test(value)) return false;
+  return getGstinCheckDigit(value.slice(0, 14)) === value.charAt(14);
+}
+
+export function getStateCodeFromGstin(gstin: string | null | undefined): string | null {
+  if (!gstin || !isValidGstin(gstin)) return null;
+  const code = gstin.trim().slice(0, 2);
+  return GST_STATE_CODES[code] ? code : null;
+}
+
+/**
+ * Resolve a state name, alias or two-digit code to its GST state code
+ */
+export function getStateCode(state: string | null | undefined): string | null {
+  if (!state) return null;
+  const value = state.trim();
+
+  const numeric = value.padStart(2, '0');
+  if (/^[0-9]{1,2}$/.test(value) && GST_STATE_CODES[numeric]) return numeric;
+
+  const normalized = value.toLowerCase().replace(/\s+/g, ' ');
+  if (STATE_ALIASES[normalized]) return STATE_ALIASES[normalized];
+
+  const match = Object.entries(GST_STATE_CODES).find(([, name]) => name.toLowerCase() === normalized.replace(/&/g, 'and'));
+  return match ? match[0] : null;
+}
+
+export function getStateCodeFromAddress(address: unknown): string | null {
+  if (!address || typeof address !== 'object') return null;
+  const { stateCode, state } = address as GstAddress;
+  return getStateCode(stateCode) || getStateCode(state);
+}
+
+/**
+ * Work out the supplier state and place of supply for a bill.
+ * Place of supply follows the delivery address, then the billing address, then the customer's GSTIN;
+ * with none of those (walk-in sales) the supply is treated as intra-state.
+ */
+export function determinePlaceOfSupply(params: {
+  businessGstin?: string | null;
+  businessAddress?: unknown;
+  customerGstin?: string | null;
+  billingAddress?: unknown;
+  shippingAddress?: unknown;
+  override?: string | null;
+}): PlaceOfSupply {
+  const supplierStateCode = getStateCodeFromGstin(params.businessGstin) || getStateCodeFromAddress(params.businessAddress);
+
+  const placeOfSupply = getStateCode(params.override)
+    || getStateCodeFromAddress(params.shippingAddress)
+    || getStateCodeFromAddress(params.billingAddress)
+    || getStateCodeFromGstin(params.customerGstin)
+    || supplierStateCode;
+
+  const supplyType: SupplyType = supplierStateCode && placeOfSupply && supplierStateCode !== placeOfSupply
+    ? 'INTER_STATE'
+    : 'INTRA_STATE';
+
+  return { supplierStateCode, placeOfSupply, supplyType };
+}
+
+/**
+ * Price a single line and split its tax into CGST+SGST (intra-state) or IGST (inter-state), plus cess.
+ * With tax-inclusive pricing the rate already contains GST and cess, so the taxable value is back-calculated.
+ */
+export function calculateLineTax(line: GstLineInput, supplyType: SupplyType): GstLineResult {
+  const gstRate = line.taxPercent || 0;
+  const cessRate = line.cessPercent || 0;
+  const effectiveRate = (gstRate + cessRate) / 100;
+
+  const listAmount = line.rate * line.quantity;
+  let listDiscount = line.discountAmount || 0;
+  if (line.discountPercent && line.discountPercent > 0) {
+    listDiscount = (listAmount * line.discountPercent) / 100;
+  }
+
+  let grossAmount: number;
+  let discountAmount: number;
+  let taxableAmount: number;
+  let gstAmount: number;
+  let cessAmount: number;
+
+  if (line.taxInclusive && effectiveRate > 0) {
+    const inclusiveNet = round2(listAmount - listDiscount);
+    taxableAmount = round2(inclusiveNet / (1 + effectiveRate));
+    grossAmount = round2(listAmount / (1 + effectiveRate));
+    discountAmount = round2(grossAmount - taxableAmount);
+    cessAmount = round2((taxableAmount * cessRate) / 100);
+    // Whatever is left after the taxable value and cess is GST, so the line still totals to the inclusive price
+    gstAmount = round2(inclusiveNet - taxableAmount - cessAmount);
+  } else {
+    grossAmount = round2(listAmount);
+    discountAmount = round2(listDiscount);
+    taxableAmount = round2(grossAmount - discountAmount);
+    gstAmount = gstRate > 0 ? round2((taxableAmount * gstRate) / 100) : round2(line.taxAmount || 0);
+    cessAmount = round2((taxableAmount * cessRate) / 100);
+  }
+
+  const result: GstLineResult = {
+    grossAmount,
+    discountAmount,
+    taxableAmount,
+    cgstRate: 0,
+    cgstAmount: 0,
+    sgstRate: 0,
+    sgstAmount: 0,
+    igstRate: 0,
+    igstAmount: 0,
+    cessRate,
+    cessAmount,
+    taxAmount: round2(gstAmount + cessAmount),
+    totalAmount: round2(taxableAmount + gstAmount + cessAmount),
+  };
+
+  if (supplyType === 'INTER_STATE') {
+    result.igstRate = gstRate;
+    result.igstAmount = gstAmount;
+  } else {
+    result.cgstRate = gstRate / 2;
+    result.sgstRate = gstRate / 2;
+    result.cgstAmount = round2(gstAmount / 2);
+    // SGST takes the rounding remainder so the halves always add back up
+    result.sgstAmount = round2(gstAmount - result.cgstAmount);
+  }
+
+  return result;
+}
@@ -34,6 +34,30 @@ interface NotificationPayment {
   paymentDate: Date;
 }
 
+interface NotificationCheque {
+  id: string;
+  chequeNumber: string | null;
+  bankName: string | null;
+  amount: number | string;
+  bounceReason: string;
+  bounceCharge: number;
+}
+
+interface NotificationPurchaseOrder {
+  id: string;
+  orderNumber: string;
+  orderDate: Date;
+  expectedDeliveryDate?: Date | null;
+  totalAmount: number | string;
+}
+
+interface NotificationPurchaseOrderItem {
+  productName: string;
+  productCode?: string | null;
+  quantity: number | string;
+  unitPrice: number | string;
+}
+
 interface NotificationProduct {
   name: string;
   productCode: string;
@@ -221,6 +245,45 @@ Thank you!
   }
 }
 
+export async function sendChequeBounceNotice(
+  type: 'email' | 'sms' | 'whatsapp',
+  recipient: string,
+  cheque: NotificationCheque,
+  billNumbers: string[]
+): Promise<void> {
+  try {
+    const subject = `Cheque Returned Unpaid - ${cheque.chequeNumber || ''}`.trim();
+
+    const message = `
+Cheque Returned Unpaid:
+Cheque Number: ${cheque.chequeNumber || 'N/A'}
+Bank: ${cheque.bankName || 'N/A'}
+Amount: ${formatCurrency(cheque.amount)}
+Reason: ${cheque.bounceReason}
+${billNumbers.length > 0 ? `Bills reopened: ${billNumbers.join(', ')}\n` : ''}${cheque.bounceCharge > 0 ? `Bounce Charge: ${formatCurrency(cheque.bounceCharge)}\n` : ''}
+Please arrange an alternative payment at your earliest convenience.
+
+Thank you!
+    `.trim();
+
+    switch (type) {
+      case 'email':
+        await sendEmail({ to: recipient, subject, text: message });
+        break;
+      case 'sms':
+        await sendSMS(recipient, `${subject}\n\n${message}`);
+        break;
+      case 'whatsapp':
+        await sendWhatsAppMessage(recipient, `${subject}\n\n${message}`);
+        break;
+    }
+
+    logger.info('Cheque bounce notice sent', { type, recipient, paymentId: cheque.id });
+  } catch (error) {
+    logger.error('Failed to send cheque bounce notice', { error, type, recipient, paymentId: cheque.id });
+  }
+}
+
 export async function sendLowStockAlert(
   type: 'email' | 'sms' | 'whatsapp',
   recipient: string,
@@ -269,6 +332,50 @@ Please restock these items soon.
   }
 }
 
+export async function sendPurchaseOrder(
+  type: 'email' | 'whatsapp',
+  recipient: string,
+  businessName: string,
+  order: NotificationPurchaseOrder,
+  items: NotificationPurchaseOrderItem[],
+  note?: string
+): Promise<void> {
+  try {
+    const subject = `Purchase Order ${order.orderNumber} from ${businessName}`;
+
+    const message = `
+Purchase Order: ${order.orderNumber}
+Date: ${order.orderDate.toLocaleDateString()}
+${order.expectedDeliveryDate ? `Expected Delivery: ${order.expectedDeliveryDate.toLocaleDateString()}\n` : ''}
+Items:
+${items.map(item => `${item.productName}${item.productCode ? ` (${item.productCode})` : ''} - ${item.quantity} @ ${formatCurrency(item.unitPrice)}`).join('\n')}
+
+Order Total: ${formatCurrency(order.totalAmount)}
+${note ? `\n${note}\n` : ''}
+Please confirm availability and delivery date.
+    `.trim();
+
+    switch (type) {
+      case 'email':
+        await sendEmail({
+          to: recipient,
+          subject,
+          text: message,
+        });
+        break;
+
+      case 'whatsapp':
+        await sendWhatsAppMessage(recipient, `${subject}\n\n${message}`);
+        break;
+    }
+
+    logger.info('Purchase order sent', { type, recipient, purchaseOrderId: order.id });
+  } catch (error) {
+    logger.error('Failed to send purchase order', { error, type, recipient, purchaseOrderId: order.id });
+    throw error;
+  }
+}
+
 export async function sendWelcomeMessage(
   type: 'email' | 'sms' | 'whatsapp',
   recipient: string,
@@ -0,0 +1,105 @@
+// Balance arithmetic shared by the void, return, refund, cheque and credit paths. Amounts are rounded to paise.
+
+export function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Money a void gives back for each reversed allocation. Credit notes on the bill have already paid
+ * `settledByCreditNotes` back (to the wallet or as a refund), so that much is netted off, latest allocation first.
+ */
+export function voidReversal(allocated: number[], settledByCreditNotes: number): { returned: number[]; total: number } {
+  const returned = allocated.map(amount => roundAmount(amount));
+  let unsettled = roundAmount(Math.max(0, settledByCreditNotes));
+
+  for (let i = returned.length - 1; i >= 0 && unsettled > 0; i--) {
+    const amount = returned[i] ?? 0;
+    const netted = Math.min(amount, unsettled);
+    returned[i] = roundAmount(amount - netted);
+    unsettled = roundAmount(unsettled - netted);
+  }
+
+  return { returned, total: roundAmount(returned.reduce((total, amount) => total + amount, 0)) };
+}
+
+/**
+ * How a return's credit is settled. ADJUST_BALANCE first clears what the bill still owes; WALLET_CREDIT first pays
+ * back what was paid towards the bill and not yet given back (`paidNotReturned`), since unpaid goods earn no credit.
+ * Whatever the first step leaves goes the other way. Money paid back goes to the customer's wallet, or is due as a
+ * refund on walk-in bills.
+ */
+export function returnSettlement(
+  creditTotal: number,
+  balance: number,
+  paidNotReturned: number,
+  settlementMode: 'ADJUST_BALANCE' | 'WALLET_CREDIT',
+  hasCustomer: boolean
+): { appliedToBill: number; walletCredit: number; refundDue: number } {
+  const credit = roundAmount(creditTotal);
+  const paidBack = settlementMode === 'WALLET_CREDIT'
+    ? roundAmount(Math.max(0, Math.min(credit, paidNotReturned)))
+    : 0;
+  const appliedToBill = roundAmount(Math.max(0, Math.min(credit - paidBack, balance)));
+  const excess = roundAmount(credit - appliedToBill);
+
+  return {
+    appliedToBill,
+    walletCredit: hasCustomer ? excess : 0,
+    refundDue: hasCustomer ? 0 : excess,
+  };
+}
+
+/**
+ * A bill owing again money that was paid towards it (refunded or bounced). It drops back to PENDING once
+ * nothing is left paid, otherwise it stays PARTIAL.
+ */
+export function reopenBill(paidAmount: number, balanceAmount: number, reversed: number): { paidAmount: number; balanceAmount: number; status: 'PENDING' | 'PARTIAL' } {
+  const paid = roundAmount(Math.max(0, paidAmount - reversed));
+  return {
+    paidAmount: paid,
+    balanceAmount: roundAmount(balanceAmount + reversed),
+    status: paid <= 0.01 ? 'PENDING' : 'PARTIAL',
+  };
+}
+
+/**
+ * Where a refund comes from: the payment's unallocated money first, then its allocations in the order given
+ * (latest first), each reduced by no more than it holds.
+ */
+export function refundSplit(amount: number, unallocated: number, allocated: number[]): { fromUnallocated: number; reversed: number[] } {
+  const fromUnallocated = roundAmount(Math.min(amount, unallocated));
+  let remaining = roundAmount(amount - fromUnallocated);
+
+  const reversed = allocated.map(held => {
+    const taken = roundAmount(Math.max(0, Math.min(remaining, held)));
+    remaining = roundAmount(remaining - taken);
+    return taken;
+  });
+
+  return { fromUnallocated, reversed };
+}
+
+/**
+ * How much of a bill's target each source of credit pays: advance payments in the order given (oldest first),
+ * then the wallet. `remaining` is what the credit could not cover.
+ */
+export function creditDraw(target: number, advances: number[], walletBalance: number): { fromAdvances: number[]; fromWallet: number; remaining: number } {
+  let remaining = roundAmount(target);
+
+  const fromAdvances = advances.map(available => {
+    const taken = roundAmount(Math.max(0, Math.min(remaining, available)));
+    remaining = roundAmount(remaining - taken);
+    return taken;
+  });
+
+  const fromWallet = roundAmount(Math.max(0, Math.min(remaining, walletBalance)));
+  remaining = roundAmount(remaining - fromWallet);
+
+  return { fromAdvances, fromWallet, remaining };
+}
+
+// A payment put against a bill; the bill counts as paid within a paisa of its balance
+export function applyToBill(paidAmount: number, balanceAmount: number, amount: number): { paidAmount: number; balanceAmount: number; fullyPaid: boolean } {
+  const balance = roundAmount(balanceAmount - amount);
+  return { paidAmount: roundAmount(paidAmount + amount), balanceAmount: balance, fullyPaid: balance <= 0.01 };
+}
@@ -0,0 +1,57 @@
+export type SheetCell = string | number | null | undefined;
+
+export interface Sheet {
+  name: string;
+  columns: string[];
+  rows: SheetCell[][];
+}
+
+function escapeCsv(value: SheetCell): string {
+  if (value === null || value === undefined) return '';
+  const str = String(value);
+  if (str.includes(',') || str.includes('"') || str.includes('\n')) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function sheetToCsv(sheet: Sheet): string {
+  const header = sheet.columns.map(escapeCsv).join(',');
+  const rows = sheet.rows.map(row => row.map(escapeCsv).join(','));
+  return [header, ...rows].join('\n') + '\n';
+}
+
+/**
+ * Render sheets as an Excel 2003 XML (SpreadsheetML) workbook, which Excel and LibreOffice open
+ * as a multi-sheet file without needing an xlsx library.
+ */
+export function sheetsToExcelXml(sheets: Sheet[]): string {
+  const renderCell = (value: SheetCell): string => {
+    if (value === null || value === undefined || value === '') return '<Cell/>';
+    if (typeof value === 'number') return `<Cell><Data ss:Type="Number">${value}</Data></Cell>`;
+    return `<Cell><Data ss:Type="String">${escapeXml(value)}</Data></Cell>`;
+  };
+
+  const worksheets = sheets.map(sheet => {
+    const header = `<Row>${sheet.columns.map(column => `<Cell ss:StyleID="header"><Data ss:Type="String">${escapeXml(column)}</Data></Cell>`).join('')}</Row>`;
+    const rows = sheet.rows.map(row => `<Row>${row.map(renderCell).join('')}</Row>`).join('');
+    // Sheet names are limited to 31 characters and cannot contain []:*?/\
+    const name = escapeXml(sheet.name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31));
+    return `<Worksheet ss:Name="${name}"><Table>${header}${rows}</Table></Worksheet>`;
+  }).join('');
+
+  return '<?xml version="1.0" encoding="UTF-8"?>'
+    + '<?mso-application progid="Excel.Sheet"?>'
+    + '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">'
+    + '<Styles><Style ss:ID="header"><Font ss:Bold="1"/></Style></Styles>'
+    + worksheets
+    + '</Workbook>';
+}
@@ -0,0 +1,14 @@
+// Arithmetic for opening balances posted when a product's stock ledger starts. Quantities are rounded to 2 decimals.
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Quantity an opening cost layer should hold. Movements already in the ledger never drew on it: outward ones that
+ * found no layer were costed at the average, inward ones opened layers of their own. So it only covers the stock
+ * those open layers do not, and never more than the opening itself.
+ */
+export function openingLayerQuantity(openingStock: number, ledgerStock: number, openLayerQuantity: number): number {
+  return round2(Math.max(0, Math.min(openingStock, ledgerStock - openLayerQuantity)));
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  documentNumberPattern,
+  formatDocumentNumber,
+  getSequencePeriod,
+  sequenceSeed,
+} from '../src/utils/document-number';
+
+const date = new Date(2026, 4, 15);
+const invoice = { prefix: 'INV', suffix: '', format: '{PREFIX}-{YEAR}-{NUMBER}', padding: 5 };
+
+function highestIssued(pattern: string, issued: string[]): number | null {
+  const regex = new RegExp(pattern);
+  const numbers = issued
+    .map(value => regex.exec(value)?.[1])
+    .filter((value): value is string => value !== undefined)
+    .map(Number);
+  return numbers.length > 0 ? Math.max(...numbers) : null;
+}
+
+describe('formatDocumentNumber', () => {
+  it('fills tokens and pads the number', () => {
+    expect(formatDocumentNumber(invoice, 42, date, '')).toBe('INV-2026-00042');
+  });
+
+  it('tidies separators left by an empty branch and appends the suffix', () => {
+    const config = { prefix: 'BILL', suffix: '/A', format: '{PREFIX}-{BRANCH}-{NUMBER}', padding: 6 };
+    expect(formatDocumentNumber(config, 7, date, '')).toBe('BILL-000007/A');
+  });
+});
+
+describe('getSequencePeriod', () => {
+  it('uses the April to March financial year', () => {
+    expect(getSequencePeriod('FINANCIAL_YEAR', new Date(2026, 2, 31))).toBe('2025-26');
+    expect(getSequencePeriod('FINANCIAL_YEAR', new Date(2026, 3, 1))).toBe('2026-27');
+  });
+});
+
+describe('documentNumberPattern', () => {
+  it('matches numbers of the period whatever their padding', () => {
+    const pattern = documentNumberPattern(invoice, date, '');
+    expect(pattern).not.toBeNull();
+    expect(highestIssued(pattern ?? '', ['INV-2026-00041', 'INV-2026-123456', 'INV-2025-99999', 'INV-2026-7A'])).toBe(123456);
+  });
+
+  it('escapes prefix and suffix characters', () => {
+    const config = { prefix: 'S.1', suffix: '(R)', format: '{PREFIX}/{NUMBER}', padding: 4 };
+    const pattern = documentNumberPattern(config, date, '') ?? '';
+    expect(highestIssued(pattern, ['S.1/0009(R)', 'SX1/0500(R)'])).toBe(9);
+  });
+
+  it('returns null when the format has no number token', () => {
+    expect(documentNumberPattern({ ...invoice, format: '{PREFIX}-{YEAR}' }, date, '')).toBeNull();
+  });
+});
+
+describe('sequenceSeed', () => {
+  it('starts after the highest number already issued', () => {
+    const pattern = documentNumberPattern(invoice, date, '') ?? '';
+    const issued = Array.from({ length: 120 }, (_, i) => formatDocumentNumber(invoice, i + 1, date, ''));
+    const seed = sequenceSeed(1, true, highestIssued(pattern, issued));
+    expect(seed).toBe(121);
+    expect(issued).not.toContain(formatDocumentNumber(invoice, seed, date, ''));
+  });
+
+  it('honours a starting number above the existing numbers in the first period only', () => {
+    expect(sequenceSeed(1000, true, 42)).toBe(1000);
+    expect(sequenceSeed(1000, false, 42)).toBe(43);
+    expect(sequenceSeed(1000, false, null)).toBe(1);
+  });
+
+  it('starts at the configured number when nothing has been issued', () => {
+    expect(sequenceSeed(0, true, null)).toBe(1);
+    expect(sequenceSeed(500, true, null)).toBe(500);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'bun:test';
+import { calculateLineTax, determinePlaceOfSupply, isValidGstin } from '../src/utils/gst';
+
+// Maharashtra and Karnataka GSTINs with correct check digits
+const MAHARASHTRA_GSTIN = '27AAPFU0939F1ZV';
+const KARNATAKA_GSTIN = '29AAGCB7383J1Z4';
+
+describe('calculateLineTax', () => {
+  it('splits intra-state GST evenly into CGST and SGST', () => {
+    const line = calculateLineTax({ quantity: 2, rate: 100, taxPercent: 18 }, 'INTRA_STATE');
+
+    expect(line).toMatchObject({ taxableAmount: 200, cgstRate: 9, cgstAmount: 18, sgstRate: 9, sgstAmount: 18, igstAmount: 0, taxAmount: 36, totalAmount: 236 });
+  });
+
+  it('charges inter-state GST as IGST', () => {
+    const line = calculateLineTax({ quantity: 2, rate: 100, taxPercent: 18 }, 'INTER_STATE');
+
+    expect(line).toMatchObject({ taxableAmount: 200, cgstAmount: 0, sgstAmount: 0, igstRate: 18, igstAmount: 36, taxAmount: 36, totalAmount: 236 });
+  });
+
+  it('gives the odd paisa of a split to SGST', () => {
+    // 18% of 10.30 is 1.85, which halves to 0.925
+    const line = calculateLineTax({ quantity: 1, rate: 10.3, taxPercent: 18 }, 'INTRA_STATE');
+
+    expect(line).toMatchObject({ cgstAmount: 0.93, sgstAmount: 0.92, taxAmount: 1.85 });
+  });
+
+  it('backs GST and cess out of a discounted tax-inclusive price', () => {
+    // 1280 includes 18% GST and 10% cess on 1000; 10% off leaves 1152, which is 900 taxable
+    const line = calculateLineTax({ quantity: 1, rate: 1280, taxPercent: 18, cessPercent: 10, discountPercent: 10, taxInclusive: true }, 'INTRA_STATE');
+
+    expect(line).toMatchObject({
+      grossAmount: 1000,
+      discountAmount: 100,
+      taxableAmount: 900,
+      cgstAmount: 81,
+      sgstAmount: 81,
+      cessRate: 10,
+      cessAmount: 90,
+      taxAmount: 252,
+      totalAmount: 1152,
+    });
+  });
+
+  it('adds cess on top of exclusive prices', () => {
+    const line = calculateLineTax({ quantity: 1, rate: 1000, taxPercent: 28, cessPercent: 12, discountAmount: 100 }, 'INTER_STATE');
+
+    expect(line).toMatchObject({ taxableAmount: 900, igstAmount: 252, cessAmount: 108, taxAmount: 360, totalAmount: 1260 });
+  });
+});
+
+describe('determinePlaceOfSupply', () => {
+  const business = { businessGstin: MAHARASHTRA_GSTIN };
+
+  it('follows the shipping address first', () => {
+    expect(determinePlaceOfSupply({ ...business, shippingAddress: { state: 'Karnataka' }, billingAddress: { state: 'Maharashtra' }, customerGstin: MAHARASHTRA_GSTIN }))
+      .toEqual({ supplierStateCode: '27', placeOfSupply: '29', supplyType: 'INTER_STATE' });
+  });
+
+  it('falls back to the billing address, then the customer GSTIN', () => {
+    expect(determinePlaceOfSupply({ ...business, billingAddress: { stateCode: '27' }, customerGstin: KARNATAKA_GSTIN }))
+      .toEqual({ supplierStateCode: '27', placeOfSupply: '27', supplyType: 'INTRA_STATE' });
+    expect(determinePlaceOfSupply({ ...business, billingAddress: { city: 'Pune' }, customerGstin: KARNATAKA_GSTIN }))
+      .toEqual({ supplierStateCode: '27', placeOfSupply: '29', supplyType: 'INTER_STATE' });
+  });
+
+  it('treats walk-in sales as intra-state', () => {
+    expect(determinePlaceOfSupply(business)).toEqual({ supplierStateCode: '27', placeOfSupply: '27', supplyType: 'INTRA_STATE' });
+  });
+
+  it('lets an explicit place of supply win', () => {
+    expect(determinePlaceOfSupply({ ...business, override: 'Tamil Nadu', shippingAddress: { state: 'Maharashtra' } }))
+      .toEqual({ supplierStateCode: '27', placeOfSupply: '33', supplyType: 'INTER_STATE' });
+  });
+
+  it('takes the supplier state from the business address without a GSTIN', () => {
+    expect(determinePlaceOfSupply({ businessAddress: { state: 'Karnataka' }, shippingAddress: { state: 'Karnataka' } }))
+      .toEqual({ supplierStateCode: '29', placeOfSupply: '29', supplyType: 'INTRA_STATE' });
+  });
+});
+
+describe('isValidGstin', () => {
+  it('accepts a GSTIN with a correct check digit', () => {
+    expect(isValidGstin(MAHARASHTRA_GSTIN)).toBe(true);
+    expect(isValidGstin(` ${KARNATAKA_GSTIN.toLowerCase()} `)).toBe(true);
+  });
+
+  it('rejects a wrong check digit', () => {
+    expect(isValidGstin('27AAPFU0939F1ZW')).toBe(false);
+  });
+
+  it('rejects malformed values', () => {
+    expect(isValidGstin('27AAPFU0939F1Z')).toBe(false);
+    expect(isValidGstin(null)).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'bun:test';
+import { calculateNextRecurringDate } from '../src/utils/billing';
+
+function schedule(start: Date, frequency: string, count: number): string[] {
+  const dates: string[] = [];
+  let date = start;
+  for (let i = 0; i < count; i++) {
+    date = calculateNextRecurringDate(date, frequency, start.getDate());
+    dates.push(`${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`);
+  }
+  return dates;
+}
+
+describe('calculateNextRecurringDate', () => {
+  it('keeps a month-end monthly bill on the last day of each month', () => {
+    expect(schedule(new Date(2026, 0, 31), 'MONTHLY', 4)).toEqual(['2026-2-28', '2026-3-31', '2026-4-30', '2026-5-31']);
+  });
+
+  it('lands on Feb 29 in a leap year', () => {
+    expect(schedule(new Date(2028, 0, 31), 'MONTHLY', 2)).toEqual(['2028-2-29', '2028-3-31']);
+  });
+
+  it('clamps quarterly schedules the same way', () => {
+    expect(schedule(new Date(2026, 10, 30), 'QUARTERLY', 2)).toEqual(['2027-2-28', '2027-5-30']);
+  });
+
+  it('recurs a Feb 29 yearly bill on Feb 28 until the next leap year', () => {
+    expect(schedule(new Date(2028, 1, 29), 'YEARLY', 4)).toEqual(['2029-2-28', '2030-2-28', '2031-2-28', '2032-2-29']);
+  });
+
+  it('steps daily and weekly schedules by days', () => {
+    expect(schedule(new Date(2026, 0, 31), 'DAILY', 1)).toEqual(['2026-2-1']);
+    expect(schedule(new Date(2026, 0, 31), 'WEEKLY', 1)).toEqual(['2026-2-7']);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'bun:test';
+import { applyToBill, creditDraw, refundSplit, reopenBill, returnSettlement, voidReversal } from '../src/utils/settlement';
+
+describe('voidReversal', () => {
+  it('gives back everything paid when nothing was returned', () => {
+    expect(voidReversal([60, 40], 0)).toEqual({ returned: [60, 40], total: 100 });
+  });
+
+  it('nets off a return already credited to the wallet', () => {
+    // 100 bill paid in full, 30 returned to the wallet: voiding pays back 70, not 130
+    expect(voidReversal([100], 30)).toEqual({ returned: [70], total: 70 });
+  });
+
+  it('nets off the latest allocations first', () => {
+    expect(voidReversal([50, 20, 30], 45)).toEqual({ returned: [50, 5, 0], total: 55 });
+  });
+
+  it('never gives back less than nothing', () => {
+    expect(voidReversal([10], 25)).toEqual({ returned: [0], total: 0 });
+    expect(voidReversal([], 25)).toEqual({ returned: [], total: 0 });
+  });
+
+  it('rounds to paise', () => {
+    expect(voidReversal([33.33, 66.67], 0.1)).toEqual({ returned: [33.33, 66.57], total: 99.9 });
+  });
+});
+
+describe('returnSettlement', () => {
+  it('clears the outstanding balance before crediting the wallet', () => {
+    expect(returnSettlement(30, 100, 0, 'ADJUST_BALANCE', true)).toEqual({ appliedToBill: 30, walletCredit: 0, refundDue: 0 });
+    expect(returnSettlement(30, 12.5, 87.5, 'ADJUST_BALANCE', true)).toEqual({ appliedToBill: 12.5, walletCredit: 17.5, refundDue: 0 });
+  });
+
+  it('credits the wallet with what was paid when asked', () => {
+    expect(returnSettlement(30, 50, 50, 'WALLET_CREDIT', true)).toEqual({ appliedToBill: 0, walletCredit: 30, refundDue: 0 });
+  });
+
+  it('takes the unpaid share off the bill even when asked for wallet credit', () => {
+    // 100 bill, 10 paid: a 30 return pays back the 10 and the other 20 comes off the balance
+    expect(returnSettlement(30, 90, 10, 'WALLET_CREDIT', true)).toEqual({ appliedToBill: 20, walletCredit: 10, refundDue: 0 });
+    expect(returnSettlement(30, 100, 0, 'WALLET_CREDIT', true)).toEqual({ appliedToBill: 30, walletCredit: 0, refundDue: 0 });
+  });
+
+  it('owes walk-in customers a refund instead of wallet credit', () => {
+    expect(returnSettlement(30, 0, 100, 'ADJUST_BALANCE', false)).toEqual({ appliedToBill: 0, walletCredit: 0, refundDue: 30 });
+  });
+
+  it('nets against a later void so a paid bill is only paid back once', () => {
+    const { walletCredit, refundDue } = returnSettlement(30, 0, 100, 'ADJUST_BALANCE', true);
+    expect(voidReversal([100], walletCredit + refundDue).total + walletCredit).toBe(100);
+  });
+});
+
+describe('refundSplit', () => {
+  it('pays back unallocated money before touching any bill', () => {
+    expect(refundSplit(20, 25, [50, 30])).toEqual({ fromUnallocated: 20, reversed: [0, 0] });
+  });
+
+  it('reverses the latest allocations next, no more than each holds', () => {
+    expect(refundSplit(70, 10, [50, 30])).toEqual({ fromUnallocated: 10, reversed: [50, 10] });
+    expect(refundSplit(90, 10, [50, 30])).toEqual({ fromUnallocated: 10, reversed: [50, 30] });
+  });
+});
+
+describe('reopenBill', () => {
+  it('leaves a bill part paid while some payment remains', () => {
+    expect(reopenBill(100, 20, 30)).toEqual({ paidAmount: 70, balanceAmount: 50, status: 'PARTIAL' });
+  });
+
+  it('drops back to pending when the whole payment is taken back', () => {
+    expect(reopenBill(100, 0, 100)).toEqual({ paidAmount: 0, balanceAmount: 100, status: 'PENDING' });
+  });
+
+  it('does not let the paid amount go negative', () => {
+    expect(reopenBill(10, 90, 15).paidAmount).toBe(0);
+  });
+});
+
+describe('creditDraw', () => {
+  it('uses advance payments oldest first before the wallet', () => {
+    expect(creditDraw(100, [30, 50], 40)).toEqual({ fromAdvances: [30, 50], fromWallet: 20, remaining: 0 });
+  });
+
+  it('leaves later sources untouched once the target is met', () => {
+    expect(creditDraw(25, [30, 50], 40)).toEqual({ fromAdvances: [25, 0], fromWallet: 0, remaining: 0 });
+  });
+
+  it('reports what the credit could not cover', () => {
+    expect(creditDraw(100, [10], 15.5)).toEqual({ fromAdvances: [10], fromWallet: 15.5, remaining: 74.5 });
+    expect(creditDraw(100, [10], 0)).toEqual({ fromAdvances: [10], fromWallet: 0, remaining: 90 });
+  });
+});
+
+describe('applyToBill', () => {
+  it('moves the amount from balance to paid', () => {
+    expect(applyToBill(20, 80, 30)).toEqual({ paidAmount: 50, balanceAmount: 50, fullyPaid: false });
+  });
+
+  it('treats a paisa of rounding as paid in full', () => {
+    expect(applyToBill(0, 33.34, 33.33)).toEqual({ paidAmount: 33.33, balanceAmount: 0.01, fullyPaid: true });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'bun:test';
+import { openingLayerQuantity } from '../src/utils/stock-ledger';
+
+describe('openingLayerQuantity', () => {
+  it('covers the whole opening when nothing has moved yet', () => {
+    expect(openingLayerQuantity(10, 10, 0)).toBe(10);
+  });
+
+  it('leaves out stock sold before the first inbound layer', () => {
+    // 10 held before tracking, 4 sold (no layer to draw on), then 5 received into their own layer: 11 on hand,
+    // 5 of it in the purchase layer, so the opening layer holds 6 rather than 10
+    expect(openingLayerQuantity(10, 11, 5)).toBe(6);
+  });
+
+  it('is empty when open layers already cover the stock on hand', () => {
+    // 10 held, 12 sold, 8 received: 6 on hand, all of it in the 8 layer that was never drawn
+    expect(openingLayerQuantity(10, 6, 8)).toBe(0);
+  });
+
+  it('never holds more than the opening', () => {
+    // Stock on hand grew through movements that opened no layer (received without a cost)
+    expect(openingLayerQuantity(10, 25, 0)).toBe(10);
+  });
+
+  it('rounds to 2 decimals', () => {
+    expect(openingLayerQuantity(2.5, 3.3, 1.1)).toBe(2.2);
+  });
+});